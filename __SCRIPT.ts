@@ -1,39 +1,142 @@
 //----------- START OF BRAIN
 
+/**
+ * One hostile the bot knows about (memory.knownEnemies entry).
+ */
+export interface CoreAI_KnownEnemy {
+    enemy: mod.Player
+    position: mod.Vector
+
+    /** Distance (m) from the bot when the list was built */
+    distance: number
+
+    /** Line of sight confirmed recently */
+    visible: boolean
+
+    inVehicle: boolean
+
+    /** Facing the bot (within the sensor's aim cone) */
+    aimingAtUs: boolean
+
+    /** Is the bot's current lastAttacker */
+    attacker: boolean
+
+    /** Danger regardless of distance (sum of the matching preferences) */
+    threat: number
+
+    /** Rank score; the list is sorted by it, best target first */
+    score: number
+}
+
 /**
  * CoreAI_MemoryManager:
  * Typed TTL-based memory storage for AI.
  *
  * Memory fields are strictly typed via CoreAI_MemoryFields.
  * TTL expiration handled internally via prune().
+ *
+ * Custom fields:
+ * - Declare the type by merging into CoreAI_MemoryFields
+ *   (in __SCRIPT.ts: `export interface CoreAI_MemoryFields { lowHealth: boolean }`).
+ * - Register the default with define(), or via CoreAI_BaseSoldier.memory.
+ * - Defined fields take part in TTL, prune(), clear() and reset() exactly
+ *   like the built-in ones, and are picked up by selector weights and DebugWI.
  */
 
-export type CoreAI_MemoryFields = {
+export interface CoreAI_MemoryFields {
     closestEnemy: mod.Player | null
     vehicleToDrive: mod.Vehicle | null
     isInBattle: boolean
     roamPos: mod.Vector | null // movement target
     arrivedPos: mod.Vector | null // semantic arrival
     capturePoint: mod.CapturePoint | null
+    mcomAttack: mod.MCOM | null // MCOM to arm
+    mcomDefend: mod.MCOM | null // MCOM to guard
+    mcomDefuse: mod.MCOM | null // armed MCOM to defuse
+    lastAttacker: mod.Player | null // who hurt us most recently
+    lastAttackerPos: mod.Vector | null // where they hit us from
+    searchPos: mod.Vector | null // where a lost enemy probably went
+    knownEnemies: CoreAI_KnownEnemy[] | null // ranked hostiles, best first
+    investigatePos: mod.Vector | null // heard gunfire / vehicle noise
+    lowHealth: boolean
+    criticalHealth: boolean
+    retreatPos: mod.Vector | null // where to fall back to while wounded
 }
 
-export class CoreAI_MemoryManager {
-    /** Unified tick timestamp updated by the Brain */
-    public time: number = 0
+export type CoreAI_MemoryDefaults = Partial<CoreAI_MemoryFields>
 
-    /** All memory values live here */
-    public data: CoreAI_MemoryFields = {
+export class CoreAI_MemoryManager {
+    /** Built-in fields and their reset values */
+    static readonly CORE_DEFAULTS: CoreAI_MemoryDefaults = {
         closestEnemy: null,
         vehicleToDrive: null,
         isInBattle: false,
         roamPos: null,
         arrivedPos: null,
         capturePoint: null,
+        mcomAttack: null,
+        mcomDefend: null,
+        mcomDefuse: null,
+        lastAttacker: null,
+        lastAttackerPos: null,
+        searchPos: null,
+        knownEnemies: null,
+        investigatePos: null,
+        lowHealth: false,
+        criticalHealth: false,
+        retreatPos: null,
+    }
+
+    /** Unified tick timestamp updated by the Brain */
+    public time: number = 0
+
+    /** Reset value per field (built-ins + defined custom fields) */
+    private defaults: CoreAI_MemoryDefaults = {
+        ...CoreAI_MemoryManager.CORE_DEFAULTS,
     }
 
+    /** All memory values live here */
+    public data: CoreAI_MemoryFields = {
+        ...this.defaults,
+    } as CoreAI_MemoryFields
+
     /** TTL expiration registry */
     private expirations: Map<keyof CoreAI_MemoryFields, number> = new Map()
 
+    /**
+     * Register a custom field with its default value.
+     * A field that already holds a value keeps it, so re-installing a
+     * profile does not wipe live memory.
+     */
+    public define<K extends keyof CoreAI_MemoryFields>(
+        key: K,
+        defaultValue: CoreAI_MemoryFields[K]
+    ): void {
+        this.defaults[key] = defaultValue
+
+        if (this.data[key] === undefined) {
+            this.data[key] = defaultValue
+        }
+    }
+
+    /**
+     * Register several custom fields at once.
+     */
+    public defineAll(defaults: CoreAI_MemoryDefaults): void {
+        for (const key of Object.keys(defaults) as Array<
+            keyof CoreAI_MemoryFields
+        >) {
+            this.define(key, defaults[key] as CoreAI_MemoryFields[typeof key])
+        }
+    }
+
+    /**
+     * All known field keys (built-in + defined).
+     */
+    public keys(): Array<keyof CoreAI_MemoryFields> {
+        return Object.keys(this.defaults) as Array<keyof CoreAI_MemoryFields>
+    }
+
     /**
      * Set a memory field with optional TTL.
      * TTL <= 0 or value null means no expiration.
@@ -71,10 +174,10 @@ export class CoreAI_MemoryManager {
     }
 
     /**
-     * Clear a memory field and remove expiration.
+     * Clear a memory field back to its default and remove expiration.
      */
     public clear<K extends keyof CoreAI_MemoryFields>(key: K): void {
-        this.data[key] = null as any
+        this.data[key] = this.defaultOf(key)
         this.expirations.delete(key)
     }
 
@@ -105,8 +208,7 @@ export class CoreAI_MemoryManager {
 
         for (const [key, exp] of this.expirations) {
             if (now >= exp) {
-                this.data[key] = null as any
-                this.expirations.delete(key)
+                this.clear(key)
             }
         }
     }
@@ -117,1888 +219,7287 @@ export class CoreAI_MemoryManager {
     public reset(): void {
         this.time = 0
 
-        this.data = {
-            closestEnemy: null,
-            vehicleToDrive: null,
-            isInBattle: false,
-            roamPos: null,
-            arrivedPos: null,
-            capturePoint: null,
-        }
+        this.data = { ...this.defaults } as CoreAI_MemoryFields
 
         this.expirations.clear()
     }
+
+    /**
+     * Count known enemies (memory.knownEnemies), optionally filtered.
+     */
+    public countEnemies(
+        filter?: (enemy: CoreAI_KnownEnemy) => boolean
+    ): number {
+        const enemies = this.data.knownEnemies ?? []
+        return filter ? enemies.filter(filter).length : enemies.length
+    }
+
+    /**
+     * Count known enemies within distance (m) of the bot.
+     */
+    public countEnemiesWithin(distance: number): number {
+        return this.countEnemies((e) => e.distance <= distance)
+    }
+
+    private defaultOf<K extends keyof CoreAI_MemoryFields>(
+        key: K
+    ): CoreAI_MemoryFields[K] {
+        return (this.defaults[key] ?? null) as CoreAI_MemoryFields[K]
+    }
 }
 
 /**
- * CoreAI_TickContext:
- * Immutable per-tick context passed to sensors and actions.
+ * CoreAI_IRandom:
+ * Random source for a Brain.
  *
- * Sensors/actions must ONLY:
- * - read from ctx.player / world
- * - sensors may write into ctx.memory (actions should avoid it)
+ * Sensors and the selector MUST draw from ctx.random instead of
+ * Math.random(), so a brain seeded with the same value replays the same
+ * decisions.
+ */
+export interface CoreAI_IRandom {
+    /** Uniform float in [0, 1) */
+    next(): number
+}
+
+/**
+ * Deterministic PRNG (mulberry32).
  *
- * Sensors/actions must NOT:
- * - control behaviors
- * - reference Brain
- * - trigger actions directly
+ * Seed is a 32-bit integer. Use mix() to combine a match seed with a
+ * bot id so every bot gets its own reproducible stream.
  */
-export interface CoreAI_TickContext {
-    /** AI-controlled player */
-    player: mod.Player
+export class CoreAI_SeededRandom implements CoreAI_IRandom {
+    private state: number
 
-    /** Shared AI memory for this brain */
-    memory: CoreAI_MemoryManager
+    constructor(private readonly seed: number) {
+        this.state = seed >>> 0
+    }
+
+    next(): number {
+        this.state = (this.state + 0x6d2b79f5) >>> 0
+
+        let t = this.state
+        t = Math.imul(t ^ (t >>> 15), t | 1)
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
 
-    /** Unified tick time (copied from memory.time) */
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+    }
+
+    /** Seed this generator was created with. */
+    getSeed(): number {
+        return this.seed
+    }
+
+    /** Hash two integers into one 32-bit seed. */
+    static mix(a: number, b: number): number {
+        let h = Math.imul((a >>> 0) ^ 0x9e3779b9, 0x85ebca6b)
+        h = Math.imul(h ^ (b >>> 0) ^ (h >>> 13), 0xc2b2ae35)
+        return (h ^ (h >>> 16)) >>> 0
+    }
+}
+
+export type CoreAI_RayCastOutcome = 'hit' | 'miss' | 'timeout'
+
+export interface CoreAI_RayCastResult {
+    outcome: CoreAI_RayCastOutcome
+
+    /** Hit point and surface normal ('hit' only) */
+    point: mod.Vector | null
+    normal: mod.Vector | null
+
+    /** Brain clock time (ms) the result arrived */
     time: number
 }
 
+export interface CoreAI_RayCastRequest {
+    start: mod.Vector
+    stop: mod.Vector
+
+    /** Caller data echoed back with the result (e.g. the enemy aimed at) */
+    target: unknown
+
+    issuedAt: number
+    onResult: (
+        result: CoreAI_RayCastResult,
+        request: CoreAI_RayCastRequest
+    ) => void
+}
+
 /**
- * ASensor:
- * Base class for all perception sensors.
+ * CoreAI_RayCastBroker
+ *
+ * Issues raycasts for one bot and routes the engine results back to
+ * the caller (available to sensors as ctx.rayCasts).
  *
  * Responsibilities:
- * - Throttles sensor execution using updateRate (ms) based on ctx.time.
- * - tick(ctx) is called by Perception each tick.
- * - update(ctx) is implemented by concrete sensors.
+ * - Tracks in-flight requests in issue order.
+ * - Matches each OnRayCastHit/OnRayCastMissed of the bot to the oldest
+ *   in-flight request.
+ * - Times out requests the engine never answered.
  *
  * Notes:
- * - Sensors must always check player validity.
- * - Sensors do NOT store Brain internally.
- * - Sensors MUST use ctx.time, not Date.now().
+ * - Engine results carry no request id, so every RayCast of this bot
+ *   MUST go through the broker or the order breaks.
  */
-export abstract class CoreAI_ASensor {
-    private lastUpdate = 0
+export class CoreAI_RayCastBroker {
+    private inFlight: CoreAI_RayCastRequest[] = []
 
     constructor(
-        private readonly updateRate: number // milliseconds
+        private readonly player: mod.Player,
+        private readonly now: () => number,
+        private readonly timeoutMs: number = 1000
     ) {}
 
-    /**
-     * Called by Perception each tick.
-     * Applies throttling logic and calls update().
-     */
-    tick(ctx: CoreAI_TickContext): void {
-        const now = ctx.time // unified tick time
-
-        if (now - this.lastUpdate < this.updateRate) {
-            return
+    cast(
+        start: mod.Vector,
+        stop: mod.Vector,
+        onResult: CoreAI_RayCastRequest['onResult'],
+        target: unknown = null
+    ): CoreAI_RayCastRequest {
+        const request: CoreAI_RayCastRequest = {
+            start,
+            stop,
+            target,
+            issuedAt: this.now(),
+            onResult,
         }
 
-        if (!mod.IsPlayerValid(ctx.player)) {
-            return
-        }
+        this.inFlight.push(request)
+        mod.RayCast(this.player, start, stop)
 
-        this.lastUpdate = now
-        this.update(ctx)
+        return request
+    }
+
+    resolveHit(point: mod.Vector, normal: mod.Vector): void {
+        this.resolve('hit', point, normal)
+    }
+
+    resolveMiss(): void {
+        this.resolve('miss', null, null)
     }
 
     /**
-     * To be implemented by concrete sensors.
+     * Drop requests older than timeoutMs, reporting 'timeout'.
      */
-    protected abstract update(ctx: CoreAI_TickContext): void
+    expire(): void {
+        const time = this.now()
+
+        while (
+            this.inFlight.length > 0 &&
+            time - this.inFlight[0].issuedAt >= this.timeoutMs
+        ) {
+            const request = this.inFlight.shift()!
+            request.onResult(
+                { outcome: 'timeout', point: null, normal: null, time },
+                request
+            )
+        }
+    }
 
     /**
-     * Optional event hooks for sensors that react to game events.
-     * (BattleSensor overrides onDamaged)
+     * Forget in-flight requests without reporting (respawn / reset).
      */
-    OnPlayerDamaged?(
-        ctx: CoreAI_TickContext,
-        eventOtherPlayer: mod.Player,
-        eventDamageType: mod.DamageType,
-        eventWeaponUnlock: mod.WeaponUnlock
-    ): void {}
+    clear(): void {
+        this.inFlight = []
+    }
 
-    OnRayCastHit?(
-        ctx: CoreAI_TickContext,
-        eventPoint: mod.Vector,
-        eventNormal: mod.Vector
-    ): void {}
+    getInFlightCount(): number {
+        return this.inFlight.length
+    }
 
-    reset(): void {
-        this.lastUpdate = 0
+    private resolve(
+        outcome: CoreAI_RayCastOutcome,
+        point: mod.Vector | null,
+        normal: mod.Vector | null
+    ): void {
+        this.expire()
+
+        const request = this.inFlight.shift()
+        if (!request) return
+
+        request.onResult({ outcome, point, normal, time: this.now() }, request)
     }
 }
 
-// src/Core/AI/Modules/Perception/Perception.ts
+export type CoreAI_TeamRelation = 'hostile' | 'friendly' | 'neutral'
 
 /**
- * Perception:
- * Holds sensors, updates them every tick.
+ * CoreAI_TeamRelations:
+ * Who is an enemy of whom.
  *
- * Sensors are installed dynamically by profiles, squad brain,
- * or any system using Brain.useSensor().
+ * Sensors and actions MUST choose enemies through ctx.teams instead of
+ * comparing team ids, so the brain works in FFA, 3+ team and
+ * infected-style modes.
  *
- * replace-sensor architecture:
- * - addSensor(sensor) replaces existing sensor with same constructor
- * - removeSensor() removes by type
- * - clearSensors() wipes all sensors
+ * Rules (first match wins):
+ * - Same player: friendly.
+ * - Explicit pair set via set(): that relation (same team included).
+ * - Same team: friendly, or hostile in free-for-all.
+ * - Otherwise: defaultRelation (hostile).
+ *
+ * Notes:
+ * - Teams are read on every call, so team swaps (infected) apply at once.
+ * - One instance is meant to be shared by every brain of the match.
  */
-export class CoreAI_Perception {
-    private sensors: CoreAI_ASensor[] = []
+export class CoreAI_TeamRelations {
+    private pairs: Map<string, CoreAI_TeamRelation> = new Map()
 
-    constructor() {}
+    constructor(
+        private freeForAll: boolean = false,
+        private defaultRelation: CoreAI_TeamRelation = 'hostile'
+    ) {}
 
-    /** Called every tick by Brain. */
-    tick(ctx: CoreAI_TickContext): void {
-        for (const s of this.sensors) {
-            s.tick(ctx)
-        }
+    /* ------------------------------------------------------------
+     * Configuration
+     * ------------------------------------------------------------ */
+
+    setFreeForAll(enabled: boolean): void {
+        this.freeForAll = enabled
     }
 
-    /** Reset internal sensor tick state. */
-    reset(): void {
-        for (const s of this.sensors) {
-            s.reset()
-        }
+    isFreeForAll(): boolean {
+        return this.freeForAll
     }
 
-    /** Return immutable sensor list. */
-    getSensors(): readonly CoreAI_ASensor[] {
-        return this.sensors
+    /** Relation of teams that have no explicit pair */
+    setDefault(relation: CoreAI_TeamRelation): void {
+        this.defaultRelation = relation
+    }
+
+    /** Symmetric relation between two team ids */
+    set(teamA: number, teamB: number, relation: CoreAI_TeamRelation): void {
+        this.pairs.set(CoreAI_TeamRelations.pairKey(teamA, teamB), relation)
+    }
+
+    clear(): void {
+        this.pairs.clear()
+    }
+
+    /* ------------------------------------------------------------
+     * Queries
+     * ------------------------------------------------------------ */
+
+    getTeamRelation(teamA: number, teamB: number): CoreAI_TeamRelation {
+        const pair = this.pairs.get(CoreAI_TeamRelations.pairKey(teamA, teamB))
+        if (pair) return pair
+
+        if (teamA === teamB) return this.freeForAll ? 'hostile' : 'friendly'
+
+        return this.defaultRelation
+    }
+
+    getRelation(a: mod.Player, b: mod.Player): CoreAI_TeamRelation {
+        if (mod.GetObjId(a) === mod.GetObjId(b)) return 'friendly'
+
+        return this.getTeamRelation(
+            CoreAI_TeamRelations.teamOf(a),
+            CoreAI_TeamRelations.teamOf(b)
+        )
+    }
+
+    isHostile(a: mod.Player, b: mod.Player): boolean {
+        return this.getRelation(a, b) === 'hostile'
+    }
+
+    isFriendly(a: mod.Player, b: mod.Player): boolean {
+        return this.getRelation(a, b) === 'friendly'
+    }
+
+    /** Whether a team (e.g. a capture point owner) is friendly to a player */
+    isFriendlyTeam(player: mod.Player, teamId: number): boolean {
+        return (
+            this.getTeamRelation(
+                CoreAI_TeamRelations.teamOf(player),
+                teamId
+            ) === 'friendly'
+        )
     }
 
     /**
-     * Add or replace a sensor instance.
-     * If a sensor of the same type already exists, it is replaced.
+     * Valid, alive players with the given relation to `player`
+     * (`player` itself counts as friendly).
      */
-    addSensor(sensor: CoreAI_ASensor): void {
-        const ctor = sensor.constructor as Function
+    getPlayers(
+        player: mod.Player,
+        relation: CoreAI_TeamRelation
+    ): mod.Player[] {
+        const out: mod.Player[] = []
 
-        const idx = this.sensors.findIndex((s) => s.constructor === ctor)
-        if (idx !== -1) {
-            this.sensors[idx] = sensor
-        } else {
-            this.sensors.push(sensor)
+        const allPlayers = mod.AllPlayers()
+        const count = mod.CountOf(allPlayers)
+
+        for (let i = 0; i < count; i++) {
+            const p = mod.ValueInArray(allPlayers, i) as mod.Player
+            if (!mod.IsPlayerValid(p)) continue
+            if (!mod.GetSoldierState(p, mod.SoldierStateBool.IsAlive)) continue
+            if (this.getRelation(player, p) !== relation) continue
+
+            out.push(p)
         }
+
+        return out
     }
 
-    /** Remove all sensors of a given constructor. */
-    removeSensor(ctor: Function): void {
-        this.sensors = this.sensors.filter((s) => s.constructor !== ctor)
+    getEnemies(player: mod.Player): mod.Player[] {
+        return this.getPlayers(player, 'hostile')
     }
 
-    /** Find first sensor instance of a given type. */
-    getSensor<T extends CoreAI_ASensor>(
-        ctor: new (...args: any[]) => T
-    ): T | undefined {
-        return this.sensors.find((s) => s instanceof ctor) as T | undefined
+    /** Closest alive enemy of `player` to a position, or null */
+    getClosestEnemy(player: mod.Player, pos: mod.Vector): mod.Player | null {
+        let best: mod.Player | null = null
+        let bestDist = Infinity
+
+        for (const enemy of this.getEnemies(player)) {
+            const dist = mod.DistanceBetween(pos, mod.GetObjectPosition(enemy))
+            if (dist < bestDist) {
+                bestDist = dist
+                best = enemy
+            }
+        }
+
+        return best
     }
 
-    /** Remove all sensors from this brain. */
-    clearSensors(): void {
-        this.sensors = []
+    private static teamOf(player: mod.Player): number {
+        return mod.GetObjId(mod.GetTeam(player))
     }
-}
 
-export interface CoreAI_BattleSensorOptions {
-    intervalMs?: number
-    ttlMs?: number
+    private static pairKey(teamA: number, teamB: number): string {
+        return teamA < teamB ? `${teamA}:${teamB}` : `${teamB}:${teamA}`
+    }
 }
 
-export interface CoreAI_ClosestEnemySensorOptions {
-    sensitivity?: number
-    intervalMs?: number
-    ttlMs?: number
-}
+/**
+ * Match-wide relations used by every brain unless replaced through
+ * CoreAI_Brain.setTeamRelations().
+ */
+export const CoreAI_DEFAULT_TEAM_RELATIONS = new CoreAI_TeamRelations()
 
-export interface CoreAI_VehicleToDriveSensorOptions {
-    intervalMs?: number
-    radius?: number
-    ttlMs?: number
-}
+interface CoreAI_MoveBlacklistEntry {
+    pos: mod.Vector
+    failures: number
 
-export interface CoreAI_ArrivalSensorOptions {
-    getWPs?: () => mod.Vector[]
-    intervalMs?: number
-    distanceThreshold?: number
-    ttlMs?: number
-    cooldownMs?: number
+    /** Brain clock time (ms) the position becomes eligible again */
+    until: number
 }
 
-export interface CoreAI_MoveToSensorOptions {
-    getWPs?: () => mod.Vector[]
-    intervalMs?: number
-    ttlMs?: number
-}
+/**
+ * CoreAI_MoveBlacklist
+ *
+ * Per-brain memory of move targets the engine failed to reach
+ * (available to sensors and controllers as ctx.moveBlacklist).
+ *
+ * Responsibilities:
+ * - Remembers the target of the running move; controllers and commands
+ *   set it when they issue the move (setTarget).
+ * - OnAIMoveToFailed blacklists that target; OnAIMoveToSucceeded
+ *   clears it again.
+ * - Repeated failures near the same spot double the blacklist time,
+ *   up to maxMs; a position not failing for maxMs after its blacklist
+ *   ends is forgotten.
+ *
+ * Notes:
+ * - Positions within radius of a failed target count as the same target.
+ */
+export class CoreAI_MoveBlacklist {
+    private entries: CoreAI_MoveBlacklistEntry[] = []
+    private target: mod.Vector | null = null
 
-export interface CoreAI_CapturePointSensorOptions {
-    getCapturePoints?: () => mod.CapturePoint[]
-    intervalMs?: number
-    ttlMs?: number
-}
+    constructor(
+        private readonly radius: number = 3,
+        private readonly baseMs: number = 15_000,
+        private readonly maxMs: number = 120_000
+    ) {}
 
-export interface CoreAI_SensorOptions {
-    battleSensor?: CoreAI_BattleSensorOptions
-    closestEnemySensor?: CoreAI_ClosestEnemySensorOptions
-    vehicleToDriveSensor?: CoreAI_VehicleToDriveSensorOptions
-    arrivalSensor?: CoreAI_ArrivalSensorOptions
-    roamSensor?: CoreAI_MoveToSensorOptions
-    onDriveMoveToSensor?: CoreAI_MoveToSensorOptions
-    capturePointSensor?: CoreAI_CapturePointSensorOptions
-    moveToCapturePointSensor?: CoreAI_CapturePointSensorOptions
-}
+    /** Target of the move being issued (null when not moving) */
+    setTarget(pos: mod.Vector | null): void {
+        this.target = pos
+    }
 
-// @stringkeys core.ai.debug.brain.memory: closestEnemy {}, vehicleToDrive {}, isInBattle {}, roamPos {}, arrivedPos {}
+    getTarget(): mod.Vector | null {
+        return this.target
+    }
 
-// @stringkeys core.ai.debug.brain.behaviors: battlefield, defend, moveto, none
+    onFailed(time: number): void {
+        if (this.target) this.record(this.target, time)
+        this.target = null
+    }
 
-export interface CoreAI_IDebugWI {
-    index: number
-    worldIcon: mod.WorldIcon
+    onSucceeded(): void {
+        const target = this.target
+        if (target) {
+            this.entries = this.entries.filter((e) => !this.isNear(e, target))
+        }
+        this.target = null
+    }
+
+    /**
+     * Blacklist a position, doubling the time on repeated failures.
+     */
+    record(pos: mod.Vector, time: number): void {
+        let entry = this.entries.find((e) => this.isNear(e, pos))
+        if (!entry) {
+            entry = { pos, failures: 0, until: 0 }
+            this.entries.push(entry)
+        }
+
+        entry.failures++
+        entry.until =
+            time + Math.min(this.maxMs, this.baseMs * 2 ** (entry.failures - 1))
+    }
+
+    isBlacklisted(pos: mod.Vector, time: number): boolean {
+        return this.entries.some((e) => time < e.until && this.isNear(e, pos))
+    }
+
+    /**
+     * Forget positions whose blacklist ended more than maxMs ago.
+     */
+    prune(time: number): void {
+        this.entries = this.entries.filter((e) => time < e.until + this.maxMs)
+    }
+
+    clear(): void {
+        this.entries = []
+        this.target = null
+    }
+
+    private isNear(entry: CoreAI_MoveBlacklistEntry, pos: mod.Vector): boolean {
+        return mod.DistanceBetween(entry.pos, pos) <= this.radius
+    }
 }
 
-export class CoreAI_DebugWI {
-    /* private behavior: CoreAI_IDebugWI
-    private stats: CoreAI_IDebugWI
-    private battle: CoreAI_IDebugWI
-    private calm: CoreAI_IDebugWI */
+/**
+ * Cancellation flag handed to a running command.
+ */
+export class CoreAI_CommandToken {
+    private cancelled = false
 
-    private receiver: mod.Player
-    private brain: CoreAI_Brain
+    cancel(): void {
+        this.cancelled = true
+    }
 
-    private behaviorWI: mod.WorldIcon
-    private behaviorColorsMap: Map<string, mod.Vector> = new Map([
-        ['battlefield', mod.CreateVector(1, 0, 0)],
-        ['defend', mod.CreateVector(1, 1, 0)],
-        ['moveto', mod.CreateVector(0, 1, 1)],
-        ['none', mod.CreateVector(1, 1, 1)],
-    ])
+    isCancelled(): boolean {
+        return this.cancelled
+    }
+}
 
-    private roamPosWI: mod.WorldIcon
-    private vehicleToDriveWI: mod.WorldIcon
+/**
+ * Multi-step engine sequence (exit vehicle -> Wait -> re-seat ...).
+ *
+ * run() MUST check token.isCancelled() after every await and stop
+ * issuing engine calls once cancelled.
+ */
+export interface CoreAI_Command {
+    /** Label for debug/UI */
+    name: string
 
-    private memoryWIs: Map<keyof CoreAI_MemoryFields, mod.WorldIcon> = new Map()
+    run(token: CoreAI_CommandToken): Promise<void>
+}
 
-    constructor(receiver: mod.Player, brain: CoreAI_Brain) {
-        this.receiver = receiver
-        this.brain = brain
+interface CoreAI_QueuedCommand {
+    command: CoreAI_Command
+    token: CoreAI_CommandToken
+}
 
-        this.behaviorWI = mod.SpawnObject(
-            mod.RuntimeSpawn_Common.WorldIcon,
-            mod.CreateVector(0, 0, 0),
-            mod.CreateVector(0, 0, 0)
-        )
-        mod.SetWorldIconOwner(this.behaviorWI, receiver)
+/**
+ * A command whose run() threw or rejected.
+ */
+export interface CoreAI_CommandFailure {
+    name: string
+    error: unknown
+}
 
-        let i = 1
-        for (const key of Object.keys(this.brain.memory.data) as Array<
-            keyof typeof this.brain.memory.data
-        >) {
-            const wi = mod.SpawnObject(
-                mod.RuntimeSpawn_Common.WorldIcon,
-                mod.CreateVector(0, 0, 0),
-                mod.CreateVector(0, 0, 0)
-            )
-            mod.SetWorldIconOwner(wi, receiver)
+/**
+ * CoreAI_CommandQueue
+ *
+ * Per-brain queue of async engine sequences.
+ *
+ * Responsibilities:
+ * - Runs commands one at a time, in order; they never overlap.
+ * - Cancels running and pending commands on demand (cancelAll/replace).
+ *
+ * Notes:
+ * - A cancelled running command still finishes its current await
+ *   before the next command starts.
+ * - A command that throws or rejects is dropped and the queue moves on;
+ *   the last failure is kept for debug (getLastFailure).
+ */
+export class CoreAI_CommandQueue {
+    private pending: CoreAI_QueuedCommand[] = []
+    private running: CoreAI_QueuedCommand | null = null
+    private lastFailure: CoreAI_CommandFailure | null = null
 
-            this.memoryWIs.set(key, wi)
-            i++
+    /**
+     * Queue a command after the ones already queued.
+     */
+    enqueue(command: CoreAI_Command): CoreAI_CommandToken {
+        const token = new CoreAI_CommandToken()
+        this.pending.push({ command, token })
+
+        if (!this.running) {
+            void this.pump()
         }
 
-        this.roamPosWI = mod.SpawnObject(
-            mod.RuntimeSpawn_Common.WorldIcon,
-            mod.CreateVector(0, 0, 0),
-            mod.CreateVector(0, 0, 0)
-        )
-        mod.SetWorldIconOwner(this.roamPosWI, receiver)
-        mod.SetWorldIconImage(this.roamPosWI, mod.WorldIconImages.Flag)
-        mod.EnableWorldIconImage(this.roamPosWI, true)
-        mod.SetWorldIconColor(this.roamPosWI, mod.CreateVector(0, 1, 1))
+        return token
+    }
 
-        this.vehicleToDriveWI = mod.SpawnObject(
-            mod.RuntimeSpawn_Common.WorldIcon,
-            mod.CreateVector(0, 0, 0),
-            mod.CreateVector(0, 0, 0)
-        )
-        mod.SetWorldIconOwner(this.vehicleToDriveWI, receiver)
-        mod.SetWorldIconImage(this.vehicleToDriveWI, mod.WorldIconImages.Assist)
-        mod.EnableWorldIconImage(this.vehicleToDriveWI, true)
-        mod.SetWorldIconColor(this.vehicleToDriveWI, mod.CreateVector(1, 1, 0))
+    /**
+     * Cancel everything queued or running, then queue the command.
+     */
+    replace(command: CoreAI_Command): CoreAI_CommandToken {
+        this.cancelAll()
+        return this.enqueue(command)
     }
 
-    tick() {
-        const isValid =
-            mod.IsPlayerValid(this.brain.player) &&
-            mod.GetSoldierState(this.brain.player, mod.SoldierStateBool.IsAlive)
+    cancelAll(): void {
+        this.running?.token.cancel()
 
-        /**
-         * Behavior
-         */
-        if (isValid) {
-            mod.EnableWorldIconText(this.behaviorWI, true)
-            mod.SetWorldIconPosition(
-                this.behaviorWI,
-                mod.CreateVector(
-                    mod.XComponentOf(mod.GetObjectPosition(this.brain.player)),
-                    mod.YComponentOf(mod.GetObjectPosition(this.brain.player)) +
-                        this.getStackedIconOffset(
-                            mod.DistanceBetween(
-                                mod.GetObjectPosition(this.brain.player),
-                                mod.GetObjectPosition(this.receiver)
-                            ),
-                            0,
-                            0.6
-                        ),
-                    mod.ZComponentOf(mod.GetObjectPosition(this.brain.player))
-                )
-            )
-            const behavior = this.brain.getBehaviorLabel() ?? 'none'
-            mod.SetWorldIconText(
-                this.behaviorWI,
-                mod.Message(`core.ai.debug.brain.behaviors.${behavior}`)
-            )
-            mod.SetWorldIconColor(
-                this.behaviorWI,
-                this.behaviorColorsMap.get(behavior) ??
-                    mod.CreateVector(1, 1, 1)
-            )
-        } else {
-            mod.EnableWorldIconText(this.behaviorWI, false)
+        for (const queued of this.pending) {
+            queued.token.cancel()
         }
+        this.pending = []
+    }
 
-        /**
-         * Memory
-         */
-        let i = 1
-        for (const [key, wi] of this.memoryWIs) {
-            if (!isValid) {
-                mod.EnableWorldIconText(wi, false)
-                continue
-            }
+    isBusy(): boolean {
+        return this.running !== null || this.pending.length > 0
+    }
 
-            mod.SetWorldIconColor(
-                wi,
-                this.brain.memory.getTimeRemaining(key) === 0
-                    ? mod.CreateVector(1, 1, 1)
-                    : mod.CreateVector(1, 1, 0)
-            )
-            mod.EnableWorldIconText(wi, true)
-            mod.SetWorldIconPosition(
-                wi,
-                mod.CreateVector(
-                    mod.XComponentOf(mod.GetObjectPosition(this.brain.player)),
-                    mod.YComponentOf(mod.GetObjectPosition(this.brain.player)) +
-                        this.getStackedIconOffset(
-                            mod.DistanceBetween(
-                                mod.GetObjectPosition(this.brain.player),
-                                mod.GetObjectPosition(this.receiver)
-                            ),
-                            i,
-                            0.6
-                        ),
-                    mod.ZComponentOf(mod.GetObjectPosition(this.brain.player))
-                )
-            )
-            mod.SetWorldIconText(
-                wi,
-                mod.Message(
-                    `core.ai.debug.brain.memory.${key}`,
-                    this.brain.memory.getTimeRemaining(key)
-                )
-            )
+    /**
+     * Name of the running command (for debug/UI).
+     */
+    getRunning(): string | null {
+        return this.running?.command.name ?? null
+    }
 
-            i++
-        }
+    /**
+     * Last command that threw or rejected (for debug/UI).
+     */
+    getLastFailure(): CoreAI_CommandFailure | null {
+        return this.lastFailure
+    }
 
-        /**
-         * Roam navigation
-         */
-        if (this.brain.memory.get('roamPos')) {
-            mod.SetWorldIconPosition(
-                this.roamPosWI,
-                this.brain.memory.get('roamPos')!
-            )
-            mod.EnableWorldIconImage(this.roamPosWI, true)
-            mod.SetWorldIconText(
-                this.roamPosWI,
-                mod.Message(this.brain.memory.getTimeRemaining('roamPos'))
-            )
-            mod.EnableWorldIconText(this.roamPosWI, true)
-        } else {
-            mod.EnableWorldIconImage(this.roamPosWI, false)
-            mod.EnableWorldIconText(this.roamPosWI, false)
+    private async pump(): Promise<void> {
+        while (this.pending.length > 0) {
+            const next = this.pending.shift()!
+            if (next.token.isCancelled()) continue
+
+            this.running = next
+            try {
+                await next.command.run(next.token)
+            } catch (error) {
+                this.lastFailure = { name: next.command.name, error }
+            } finally {
+                this.running = null
+            }
         }
+    }
+}
 
-        /**
-         * Vehicle to Drive navigation
-         */
-        if (this.brain.memory.get('vehicleToDrive')) {
-            mod.SetWorldIconPosition(
-                this.vehicleToDriveWI,
-                mod.GetVehicleState(
-                    this.brain.memory.get('vehicleToDrive')!,
-                    mod.VehicleStateVector.VehiclePosition
-                )
-            )
-            mod.EnableWorldIconImage(this.vehicleToDriveWI, true)
-            mod.SetWorldIconText(
-                this.vehicleToDriveWI,
-                mod.Message(
-                    this.brain.memory.getTimeRemaining('vehicleToDrive')
-                )
-            )
-            mod.EnableWorldIconText(this.vehicleToDriveWI, true)
+/**
+ * CoreAI_TickContext:
+ * Immutable per-tick context passed to sensors and actions.
+ *
+ * Sensors/actions must ONLY:
+ * - read from ctx.player / world
+ * - sensors may write into ctx.memory (actions should avoid it)
+ *
+ * Sensors/actions must NOT:
+ * - control behaviors
+ * - reference Brain
+ * - trigger actions directly
+ */
+export interface CoreAI_TickContext {
+    /** AI-controlled player */
+    player: mod.Player
+
+    /** Shared AI memory for this brain */
+    memory: CoreAI_MemoryManager
+
+    /** Unified tick time in ms (brain clock, copied from memory.time) */
+    time: number
+
+    /** Per-brain random source (use instead of Math.random()) */
+    random: CoreAI_IRandom
+
+    /** Per-brain raycasts with results routed back (use instead of mod.RayCast()) */
+    rayCasts: CoreAI_RayCastBroker
+
+    /** Team relationships (use instead of comparing team ids) */
+    teams: CoreAI_TeamRelations
+
+    /** Move targets the engine failed to reach (skip them when picking targets) */
+    moveBlacklist: CoreAI_MoveBlacklist
+
+    /** Per-brain engine sequences (behavior controllers only, not sensors) */
+    commands: CoreAI_CommandQueue
+}
+
+/**
+ * CoreAI_EngineEventHandlers:
+ * Engine events a Brain fans out to its sensors and actions.
+ *
+ * Sensors and actions opt in by overriding the hook; each handler gets
+ * a fresh tick context followed by the engine arguments (minus the
+ * bot player, which is ctx.player).
+ *
+ * Notes:
+ * - Per-player events (OnPlayerDied, OnMandown, ...) reach only the
+ *   brain of the event player; match-wide events (OnVehicleDestroyed,
+ *   OnMCOM*) reach every brain.
+ * - The event name is also sent to the state machine.
+ */
+export interface CoreAI_EngineEventHandlers {
+    OnPlayerDamaged?(
+        ctx: CoreAI_TickContext,
+        eventOtherPlayer: mod.Player,
+        eventDamageType: mod.DamageType,
+        eventWeaponUnlock: mod.WeaponUnlock
+    ): void
+
+    OnPlayerDied?(
+        ctx: CoreAI_TickContext,
+        eventOtherPlayer: mod.Player,
+        eventDeathType: mod.DeathType,
+        eventWeaponUnlock: mod.WeaponUnlock
+    ): void
+
+    OnPlayerEarnedKill?(
+        ctx: CoreAI_TickContext,
+        eventOtherPlayer: mod.Player,
+        eventDeathType: mod.DeathType,
+        eventWeaponUnlock: mod.WeaponUnlock
+    ): void
+
+    OnMandown?(ctx: CoreAI_TickContext, eventOtherPlayer: mod.Player): void
+
+    OnRevived?(ctx: CoreAI_TickContext, eventOtherPlayer: mod.Player): void
+
+    OnAIMoveToSucceeded?(ctx: CoreAI_TickContext): void
+
+    OnAIMoveToFailed?(ctx: CoreAI_TickContext): void
+
+    OnPlayerEnterCapturePoint?(
+        ctx: CoreAI_TickContext,
+        eventCapturePoint: mod.CapturePoint
+    ): void
+
+    OnPlayerExitCapturePoint?(
+        ctx: CoreAI_TickContext,
+        eventCapturePoint: mod.CapturePoint
+    ): void
+
+    OnPlayerEnterAreaTrigger?(
+        ctx: CoreAI_TickContext,
+        eventAreaTrigger: mod.AreaTrigger
+    ): void
+
+    OnPlayerExitAreaTrigger?(
+        ctx: CoreAI_TickContext,
+        eventAreaTrigger: mod.AreaTrigger
+    ): void
+
+    OnVehicleDestroyed?(
+        ctx: CoreAI_TickContext,
+        eventVehicle: mod.Vehicle
+    ): void
+
+    OnMCOMArmed?(ctx: CoreAI_TickContext, eventMCOM: mod.MCOM): void
+
+    OnMCOMDefused?(ctx: CoreAI_TickContext, eventMCOM: mod.MCOM): void
+
+    OnMCOMDestroyed?(ctx: CoreAI_TickContext, eventMCOM: mod.MCOM): void
+}
+
+export type CoreAI_EngineEvent = keyof CoreAI_EngineEventHandlers
+
+/**
+ * Engine arguments of an event (handler parameters after ctx).
+ */
+export type CoreAI_EngineEventArgs<K extends CoreAI_EngineEvent> =
+    NonNullable<CoreAI_EngineEventHandlers[K]> extends (
+        ctx: CoreAI_TickContext,
+        ...args: infer A
+    ) => void
+        ? A
+        : never
+
+/**
+ * ASensor:
+ * Base class for all perception sensors.
+ *
+ * Responsibilities:
+ * - Throttles sensor execution using updateRate (ms) based on ctx.time.
+ * - tick(ctx) is called by Perception each tick.
+ * - update(ctx) is implemented by concrete sensors.
+ *
+ * Notes:
+ * - Sensors must always check player validity.
+ * - Sensors do NOT store Brain internally.
+ * - Sensors MUST use ctx.time, not Date.now().
+ * - Sensors MUST use ctx.random, not Math.random().
+ * - Sensors MUST cast rays through ctx.rayCasts, not mod.RayCast().
+ * - Engine events: override any CoreAI_EngineEventHandlers hook
+ *   (e.g. OnPlayerDamaged); the Brain calls it on every installed sensor.
+ */
+export interface CoreAI_ASensor extends CoreAI_EngineEventHandlers {}
+
+export abstract class CoreAI_ASensor {
+    private lastUpdate = 0
+
+    constructor(
+        private readonly updateRate: number // milliseconds
+    ) {}
+
+    /**
+     * Called by Perception each tick.
+     * Applies throttling logic and calls update().
+     */
+    tick(ctx: CoreAI_TickContext): void {
+        const now = ctx.time // unified tick time
+
+        if (now - this.lastUpdate < this.updateRate) {
+            return
+        }
+
+        if (!mod.IsPlayerValid(ctx.player)) {
+            return
+        }
+
+        this.lastUpdate = now
+        this.update(ctx)
+    }
+
+    /**
+     * To be implemented by concrete sensors.
+     */
+    protected abstract update(ctx: CoreAI_TickContext): void
+
+    reset(): void {
+        this.lastUpdate = 0
+    }
+}
+
+// src/Core/AI/Modules/Perception/Perception.ts
+
+/**
+ * Perception:
+ * Holds sensors, updates them every tick.
+ *
+ * Sensors are installed dynamically by profiles, squad brain,
+ * or any system using Brain.useSensor().
+ *
+ * replace-sensor architecture:
+ * - addSensor(sensor) replaces existing sensor with same constructor
+ * - removeSensor() removes by type
+ * - clearSensors() wipes all sensors
+ */
+export class CoreAI_Perception {
+    private sensors: CoreAI_ASensor[] = []
+
+    constructor() {}
+
+    /** Called every tick by Brain. */
+    tick(ctx: CoreAI_TickContext): void {
+        for (const s of this.sensors) {
+            s.tick(ctx)
+        }
+    }
+
+    /** Reset internal sensor tick state. */
+    reset(): void {
+        for (const s of this.sensors) {
+            s.reset()
+        }
+    }
+
+    /** Return immutable sensor list. */
+    getSensors(): readonly CoreAI_ASensor[] {
+        return this.sensors
+    }
+
+    /**
+     * Add or replace a sensor instance.
+     * If a sensor of the same type already exists, it is replaced.
+     */
+    addSensor(sensor: CoreAI_ASensor): void {
+        const ctor = sensor.constructor as Function
+
+        const idx = this.sensors.findIndex((s) => s.constructor === ctor)
+        if (idx !== -1) {
+            this.sensors[idx] = sensor
+        } else {
+            this.sensors.push(sensor)
+        }
+    }
+
+    /** Remove all sensors of a given constructor. */
+    removeSensor(ctor: Function): void {
+        this.sensors = this.sensors.filter((s) => s.constructor !== ctor)
+    }
+
+    /** Find first sensor instance of a given type. */
+    getSensor<T extends CoreAI_ASensor>(
+        ctor: new (...args: any[]) => T
+    ): T | undefined {
+        return this.sensors.find((s) => s instanceof ctor) as T | undefined
+    }
+
+    /** Remove all sensors from this brain. */
+    clearSensors(): void {
+        this.sensors = []
+    }
+}
+
+/**
+ * Snapshot of one capture point, relative to the sensing bot.
+ */
+export interface CoreAI_CapturePointState {
+    point: mod.CapturePoint
+    position: mod.Vector
+    distance: number
+
+    /** Owner team id (0 = neutral) */
+    ownerTeam: number
+
+    /** Team currently capturing (0 = none) */
+    progressTeam: number
+
+    /** GetCaptureProgress (0..1) */
+    progress: number
+
+    friendliesOnPoint: number
+    enemiesOnPoint: number
+
+    /** Relation of the owner team to the bot */
+    owner: CoreAI_TeamRelation
+
+    /** Friendly point an enemy is capturing */
+    beingLost: boolean
+
+    /** Friendlies and enemies on the point at once */
+    contested: boolean
+}
+
+/**
+ * Base scores per point category, scaled down by distance.
+ * A score of 0 or less never selects the point.
+ */
+export interface CoreAI_CapturePointPreferences {
+    beingLost: number
+    neutral: number
+    enemyHeld: number
+    friendlyHeld: number
+
+    /** Added to enemy-held points with at most weakDefenders enemies on them */
+    weaklyDefended: number
+    weakDefenders: number
+
+    /** Added to contested points */
+    contested: number
+
+    /** Distance (m) at which the score is halved */
+    distanceFalloff: number
+
+    /** Points further than this are ignored */
+    maxDistance: number
+}
+
+export type CoreAI_CapturePointScore = (
+    state: CoreAI_CapturePointState,
+    ctx: CoreAI_TickContext
+) => number
+
+export const CoreAI_DEFAULT_CAPTURE_POINT_PREFERENCES: CoreAI_CapturePointPreferences =
+    {
+        beingLost: 100,
+        neutral: 60,
+        enemyHeld: 40,
+        friendlyHeld: 0,
+        weaklyDefended: 30,
+        weakDefenders: 1,
+        contested: 10,
+        distanceFalloff: 50,
+        maxDistance: Infinity,
+    }
+
+/**
+ * CapturePointSensor:
+ * Tracks ownership, capture progress and presence on every capture point
+ * and picks the most relevant one.
+ *
+ * Writes:
+ * - memory.capturePoint (highest scoring point, null if none scores > 0)
+ *
+ * Scoring (default rules):
+ * - Friendly point being lost > neutral point > enemy-held point,
+ *   with a bonus for weakly defended enemy points and contested points.
+ * - Scores are divided by (1 + distance / distanceFalloff), so nearby
+ *   points win among equals.
+ * - Pass `score` to replace the rules entirely.
+ *
+ * Notes:
+ * - Enemy/friendly is decided by ctx.teams; team 0 means "no team".
+ * - Per-point state is available through getStates() (debug/custom).
+ */
+export class CoreAI_CapturePointSensor extends CoreAI_ASensor {
+    private readonly preferences: CoreAI_CapturePointPreferences
+    private states: CoreAI_CapturePointState[] = []
+
+    constructor(
+        intervalMs: number = 1000,
+        private readonly ttlMs: number = 3000,
+        preferences: Partial<CoreAI_CapturePointPreferences> = {},
+        private readonly score: CoreAI_CapturePointScore | null = null,
+        private readonly getCapturePoints:
+            (() => mod.CapturePoint[]) | null = null
+    ) {
+        super(intervalMs)
+
+        this.preferences = {
+            ...CoreAI_DEFAULT_CAPTURE_POINT_PREFERENCES,
+            ...preferences,
+        }
+    }
+
+    protected update(ctx: CoreAI_TickContext): void {
+        const player = ctx.player
+        if (!mod.IsPlayerValid(player)) return
+
+        const myPos = mod.GetObjectPosition(player)
+
+        this.states = []
+
+        let best: mod.CapturePoint | null = null
+        let bestScore = 0
+
+        for (const cp of this.collectCapturePoints()) {
+            const state = this.readState(ctx, cp, myPos)
+            this.states.push(state)
+
+            if (state.distance > this.preferences.maxDistance) continue
+
+            const score = this.score
+                ? this.score(state, ctx)
+                : this.scoreState(state)
+
+            if (score > bestScore) {
+                bestScore = score
+                best = cp
+            }
+        }
+
+        if (best) {
+            ctx.memory.set('capturePoint', best, this.ttlMs)
+        } else {
+            ctx.memory.set('capturePoint', null)
+        }
+    }
+
+    /**
+     * Capture point states from the last update.
+     */
+    getStates(): readonly CoreAI_CapturePointState[] {
+        return this.states
+    }
+
+    override reset(): void {
+        super.reset()
+        this.states = []
+    }
+
+    private collectCapturePoints(): mod.CapturePoint[] {
+        if (this.getCapturePoints) return this.getCapturePoints()
+
+        const out: mod.CapturePoint[] = []
+
+        const capturePoints = mod.AllCapturePoints()
+        const count = mod.CountOf(capturePoints)
+
+        for (let i = 0; i < count; i++) {
+            out.push(mod.ValueInArray(capturePoints, i) as mod.CapturePoint)
+        }
+
+        return out
+    }
+
+    private readState(
+        ctx: CoreAI_TickContext,
+        cp: mod.CapturePoint,
+        myPos: mod.Vector
+    ): CoreAI_CapturePointState {
+        const position = mod.GetObjectPosition(cp)
+        const ownerTeam = mod.GetObjId(mod.GetCurrentOwnerTeam(cp))
+        const progressTeam = mod.GetObjId(mod.GetOwnerProgressTeam(cp))
+
+        let friendliesOnPoint = 0
+        let enemiesOnPoint = 0
+
+        const onPoint = mod.GetPlayersOnPoint(cp)
+        const count = mod.CountOf(onPoint)
+
+        for (let i = 0; i < count; i++) {
+            const p = mod.ValueInArray(onPoint, i) as mod.Player
+            if (!mod.IsPlayerValid(p)) continue
+            if (!mod.GetSoldierState(p, mod.SoldierStateBool.IsAlive)) continue
+
+            const relation = ctx.teams.getRelation(ctx.player, p)
+            if (relation === 'friendly') friendliesOnPoint++
+            else if (relation === 'hostile') enemiesOnPoint++
+        }
+
+        const owner = this.teamRelation(ctx, ownerTeam)
+
+        return {
+            point: cp,
+            position,
+            distance: mod.DistanceBetween(myPos, position),
+            ownerTeam,
+            progressTeam,
+            progress: mod.GetCaptureProgress(cp),
+            friendliesOnPoint,
+            enemiesOnPoint,
+            owner,
+            beingLost:
+                owner === 'friendly' &&
+                (this.teamRelation(ctx, progressTeam) === 'hostile' ||
+                    enemiesOnPoint > friendliesOnPoint),
+            contested: friendliesOnPoint > 0 && enemiesOnPoint > 0,
+        }
+    }
+
+    private teamRelation(
+        ctx: CoreAI_TickContext,
+        teamId: number
+    ): CoreAI_TeamRelation {
+        if (teamId === 0) return 'neutral'
+
+        return ctx.teams.getTeamRelation(
+            mod.GetObjId(mod.GetTeam(ctx.player)),
+            teamId
+        )
+    }
+
+    private scoreState(state: CoreAI_CapturePointState): number {
+        const prefs = this.preferences
+
+        let score: number
+        if (state.beingLost) {
+            score = prefs.beingLost
+        } else if (state.owner === 'neutral') {
+            score = prefs.neutral
+        } else if (state.owner === 'hostile') {
+            score = prefs.enemyHeld
+            if (state.enemiesOnPoint <= prefs.weakDefenders) {
+                score += prefs.weaklyDefended
+            }
+        } else {
+            score = prefs.friendlyHeld
+        }
+
+        if (score <= 0) return 0
+
+        if (state.contested) score += prefs.contested
+
+        return score / (1 + state.distance / prefs.distanceFalloff)
+    }
+}
+
+/**
+ * Threat rules used by the default enemy ranking.
+ * Matching rules add up to CoreAI_KnownEnemy.threat.
+ */
+export interface CoreAI_EnemyPreferences {
+    /** Every known enemy */
+    base: number
+
+    /** Enemy is the bot's lastAttacker */
+    attacker: number
+
+    /** Enemy faces the bot */
+    aimingAtUs: number
+
+    /** Enemy is in a vehicle */
+    inVehicle: number
+
+    /** Line of sight to the enemy */
+    visible: number
+
+    /** Distance (m) at which the score is halved */
+    distanceFalloff: number
+}
+
+export type CoreAI_EnemyScore = (
+    enemy: CoreAI_KnownEnemy,
+    ctx: CoreAI_TickContext
+) => number
+
+export const CoreAI_DEFAULT_ENEMY_PREFERENCES: CoreAI_EnemyPreferences = {
+    base: 10,
+    attacker: 50,
+    aimingAtUs: 30,
+    inVehicle: 20,
+    visible: 40,
+    distanceFalloff: 30,
+}
+
+/**
+ * EnemyListSensor:
+ * Keeps a ranked list of the hostiles around the bot.
+ *
+ * Writes:
+ * - memory.knownEnemies (enemies within maxDistance, best target first;
+ *   null when there are none)
+ *
+ * Ranking (default rules):
+ * - threat = base + attacker + aimingAtUs + inVehicle + visible
+ *   (matching preferences only).
+ * - score = threat / (1 + distance / distanceFalloff).
+ * - Pass `score` to replace the ranking entirely.
+ *
+ * Notes:
+ * - Visibility is confirmed with one ray per enemy (ctx.rayCasts) and
+ *   holds for losMemoryMs, so it lags one update behind.
+ * - Enemies are chosen through ctx.teams.
+ * - Query counts with ctx.memory.countEnemies()/countEnemiesWithin().
+ * - CoreAI_TargetPolicies pick the aim target from this list.
+ */
+export class CoreAI_EnemyListSensor extends CoreAI_ASensor {
+    private static readonly HIT_TOLERANCE = 0.6
+    private static readonly RAY_OVERSHOOT = 0.5
+
+    private readonly preferences: CoreAI_EnemyPreferences
+    private lastSeen: Map<number, number> = new Map()
+
+    constructor(
+        intervalMs: number = 500,
+        private readonly ttlMs: number = 2000,
+        private readonly maxDistance: number = 150,
+        private readonly aimConeDeg: number = 10,
+        private readonly losMemoryMs: number = 1000,
+        preferences: Partial<CoreAI_EnemyPreferences> = {},
+        private readonly score: CoreAI_EnemyScore | null = null
+    ) {
+        super(intervalMs)
+        this.preferences = {
+            ...CoreAI_DEFAULT_ENEMY_PREFERENCES,
+            ...preferences,
+        }
+    }
+
+    protected update(ctx: CoreAI_TickContext): void {
+        const player = ctx.player
+        if (!mod.IsPlayerValid(player)) return
+
+        const eye = mod.GetSoldierState(
+            player,
+            mod.SoldierStateVector.EyePosition
+        )
+        const attacker = ctx.memory.get('lastAttacker')
+        const present = new Set<number>()
+        const enemies: CoreAI_KnownEnemy[] = []
+
+        for (const p of ctx.teams.getEnemies(player)) {
+            const enemyEye = mod.GetSoldierState(
+                p,
+                mod.SoldierStateVector.EyePosition
+            )
+
+            const distance = mod.DistanceBetween(eye, enemyEye)
+            if (distance > this.maxDistance) continue
+
+            const id = mod.GetObjId(p)
+            present.add(id)
+            this.castLineOfSight(ctx, eye, enemyEye, p, id)
+
+            const known: CoreAI_KnownEnemy = {
+                enemy: p,
+                position: mod.GetObjectPosition(p),
+                distance,
+                visible:
+                    ctx.time - (this.lastSeen.get(id) ?? -Infinity) <=
+                    this.losMemoryMs,
+                inVehicle: mod.GetSoldierState(
+                    p,
+                    mod.SoldierStateBool.IsInVehicle
+                ),
+                aimingAtUs: this.isAimingAt(p, enemyEye, eye),
+                attacker:
+                    attacker !== undefined &&
+                    attacker !== null &&
+                    mod.GetObjId(attacker) === id,
+                threat: 0,
+                score: 0,
+            }
+            known.threat = this.getThreat(known)
+            known.score = this.score
+                ? this.score(known, ctx)
+                : this.getDefaultScore(known)
+
+            enemies.push(known)
+        }
+
+        for (const id of this.lastSeen.keys()) {
+            if (!present.has(id)) this.lastSeen.delete(id)
+        }
+
+        if (enemies.length === 0) {
+            ctx.memory.set('knownEnemies', null)
+            return
+        }
+
+        enemies.sort((a, b) => b.score - a.score)
+        ctx.memory.set('knownEnemies', enemies, this.ttlMs)
+    }
+
+    override reset(): void {
+        super.reset()
+        this.lastSeen.clear()
+    }
+
+    private castLineOfSight(
+        ctx: CoreAI_TickContext,
+        eye: mod.Vector,
+        enemyEye: mod.Vector,
+        enemy: mod.Player,
+        id: number
+    ): void {
+        // Ray slightly past the eye so it intersects the enemy.
+        const dir = mod.DirectionTowards(eye, enemyEye)
+
+        ctx.rayCasts.cast(
+            eye,
+            mod.Add(
+                enemyEye,
+                mod.Multiply(dir, CoreAI_EnemyListSensor.RAY_OVERSHOOT)
+            ),
+            (result) => {
+                if (
+                    result.outcome === 'miss' ||
+                    (result.outcome === 'hit' &&
+                        result.point &&
+                        mod.DistanceBetween(result.point, enemyEye) <=
+                            CoreAI_EnemyListSensor.HIT_TOLERANCE)
+                ) {
+                    this.lastSeen.set(id, result.time)
+                }
+            },
+            enemy
+        )
+    }
+
+    private isAimingAt(
+        enemy: mod.Player,
+        enemyEye: mod.Vector,
+        eye: mod.Vector
+    ): boolean {
+        const facing = mod.GetSoldierState(
+            enemy,
+            mod.SoldierStateVector.GetFacingDirection
+        )
+        const angle = mod.AngleBetweenVectors(
+            facing,
+            mod.DirectionTowards(enemyEye, eye)
+        )
+
+        return angle <= this.aimConeDeg
+    }
+
+    private getThreat(enemy: CoreAI_KnownEnemy): number {
+        const prefs = this.preferences
+
+        let threat = prefs.base
+        if (enemy.attacker) threat += prefs.attacker
+        if (enemy.aimingAtUs) threat += prefs.aimingAtUs
+        if (enemy.inVehicle) threat += prefs.inVehicle
+        if (enemy.visible) threat += prefs.visible
+
+        return threat
+    }
+
+    private getDefaultScore(enemy: CoreAI_KnownEnemy): number {
+        return (
+            enemy.threat /
+            (1 + enemy.distance / this.preferences.distanceFalloff)
+        )
+    }
+}
+
+export type CoreAI_WeaponClass =
+    | 'sniper'
+    | 'dmr'
+    | 'lmg'
+    | 'rifle'
+    | 'carbine'
+    | 'shotgun'
+    | 'smg'
+    | 'sidearm'
+    | 'other'
+
+export type CoreAI_VehicleClass = 'jet' | 'heli' | 'armor' | 'light' | 'other'
+
+/**
+ * Distance (m) at which a noise fades out, per source class.
+ */
+export interface CoreAI_HearingRanges {
+    weapons: Record<CoreAI_WeaponClass, number>
+    vehicles: Record<CoreAI_VehicleClass, number>
+}
+
+export const CoreAI_DEFAULT_HEARING_RANGES: CoreAI_HearingRanges = {
+    weapons: {
+        sniper: 150,
+        dmr: 120,
+        lmg: 110,
+        rifle: 100,
+        carbine: 90,
+        shotgun: 90,
+        smg: 70,
+        sidearm: 50,
+        other: 80,
+    },
+    vehicles: {
+        jet: 300,
+        heli: 200,
+        armor: 120,
+        light: 60,
+        other: 80,
+    },
+}
+
+/**
+ * HearingSensor:
+ * Hears gunfire and moving vehicles the bot cannot see.
+ *
+ * Writes:
+ * - memory.investigatePos (position of the loudest noise heard)
+ *
+ * Sources (polled every update):
+ * - Any other living player that is firing (IsFiring). Friendly
+ *   gunfire counts too: it means a fight nearby.
+ * - Hostile vehicles moving faster than minVehicleSpeed (heard once
+ *   per vehicle, from the driver).
+ *
+ * Attenuation:
+ * - loudness = 1 - distance / (range * sensitivity); sources at or
+ *   past their range are not heard.
+ * - range comes from the weapon class (active inventory slot and
+ *   HasEquipment) or the vehicle class (CompareVehicleName).
+ *
+ * Notes:
+ * - Bind investigatePos to a move (default: losmoveto, stop once the
+ *   spot is in sight).
+ * - Memory is left to expire (ttlMs) when nothing is heard.
+ */
+export class CoreAI_HearingSensor extends CoreAI_ASensor {
+    private static weaponClasses: Array<
+        [mod.Weapons, CoreAI_WeaponClass]
+    > | null = null
+    private static vehicleClasses: Array<
+        [mod.VehicleList, CoreAI_VehicleClass]
+    > | null = null
+
+    private readonly ranges: CoreAI_HearingRanges
+
+    constructor(
+        intervalMs: number = 500,
+        private readonly ttlMs: number = 6000,
+        private readonly sensitivity: number = 1,
+        private readonly minVehicleSpeed: number = 3,
+        ranges: {
+            weapons?: Partial<CoreAI_HearingRanges['weapons']>
+            vehicles?: Partial<CoreAI_HearingRanges['vehicles']>
+        } = {}
+    ) {
+        super(intervalMs)
+        this.ranges = {
+            weapons: {
+                ...CoreAI_DEFAULT_HEARING_RANGES.weapons,
+                ...ranges.weapons,
+            },
+            vehicles: {
+                ...CoreAI_DEFAULT_HEARING_RANGES.vehicles,
+                ...ranges.vehicles,
+            },
+        }
+    }
+
+    protected update(ctx: CoreAI_TickContext): void {
+        const player = ctx.player
+        if (!mod.IsPlayerValid(player)) return
+
+        const myPos = mod.GetObjectPosition(player)
+        const myId = mod.GetObjId(player)
+
+        let bestPos: mod.Vector | null = null
+        let bestLoudness = 0
+
+        const hear = (pos: mod.Vector, range: number): void => {
+            const loudness =
+                1 - mod.DistanceBetween(myPos, pos) / (range * this.sensitivity)
+            if (loudness > bestLoudness) {
+                bestLoudness = loudness
+                bestPos = pos
+            }
+        }
+
+        for (const other of [
+            ...ctx.teams.getPlayers(player, 'hostile'),
+            ...ctx.teams.getPlayers(player, 'friendly'),
+        ]) {
+            if (mod.GetObjId(other) === myId) continue
+
+            if (mod.GetSoldierState(other, mod.SoldierStateBool.IsFiring)) {
+                hear(
+                    mod.GetObjectPosition(other),
+                    this.ranges.weapons[this.getWeaponClass(other)]
+                )
+            }
+        }
+
+        for (const enemy of ctx.teams.getEnemies(player)) {
+            const vehicle = this.getMovingVehicle(enemy)
+            if (!vehicle) continue
+
+            hear(
+                mod.GetVehicleState(
+                    vehicle,
+                    mod.VehicleStateVector.VehiclePosition
+                ),
+                this.ranges.vehicles[this.getVehicleClass(vehicle)]
+            )
+        }
+
+        if (!bestPos) return
+
+        ctx.memory.set('investigatePos', bestPos, this.ttlMs)
+    }
+
+    /**
+     * Class of the weapon a player holds (for custom hearing rules).
+     */
+    getWeaponClass(player: mod.Player): CoreAI_WeaponClass {
+        if (
+            mod.IsInventorySlotActive(
+                player,
+                mod.InventorySlots.SecondaryWeapon
+            )
+        ) {
+            return 'sidearm'
+        }
+        if (
+            !mod.IsInventorySlotActive(player, mod.InventorySlots.PrimaryWeapon)
+        ) {
+            return 'other'
+        }
+
+        for (const [
+            weapon,
+            weaponClass,
+        ] of CoreAI_HearingSensor.getWeaponClasses()) {
+            if (mod.HasEquipment(player, weapon)) return weaponClass
+        }
+
+        return 'other'
+    }
+
+    /**
+     * Class of a vehicle (for custom hearing rules).
+     */
+    getVehicleClass(vehicle: mod.Vehicle): CoreAI_VehicleClass {
+        for (const [
+            name,
+            vehicleClass,
+        ] of CoreAI_HearingSensor.getVehicleClasses()) {
+            if (mod.CompareVehicleName(vehicle, name)) return vehicleClass
+        }
+
+        return 'other'
+    }
+
+    /**
+     * Vehicle driven by the player if it moves fast enough to be heard.
+     */
+    private getMovingVehicle(player: mod.Player): mod.Vehicle | null {
+        if (
+            !mod.GetSoldierState(player, mod.SoldierStateBool.IsInVehicle) ||
+            mod.GetPlayerVehicleSeat(player) !== 0
+        ) {
+            return null
+        }
+
+        // A driver's speed is its vehicle's speed.
+        const speed = mod.GetSoldierState(player, mod.SoldierStateNumber.Speed)
+
+        return speed >= this.minVehicleSpeed
+            ? mod.GetVehicleFromPlayer(player)
+            : null
+    }
+
+    /** Built on first use rather than at script load */
+    private static getWeaponClasses(): Array<
+        [mod.Weapons, CoreAI_WeaponClass]
+    > {
+        if (CoreAI_HearingSensor.weaponClasses) {
+            return CoreAI_HearingSensor.weaponClasses
+        }
+
+        const classes: Array<[mod.Weapons[], CoreAI_WeaponClass]> = [
+            [
+                [
+                    mod.Weapons.Sniper_M2010_ESR,
+                    mod.Weapons.Sniper_PSR,
+                    mod.Weapons.Sniper_SV_98,
+                ],
+                'sniper',
+            ],
+            [
+                [
+                    mod.Weapons.DMR_LMR27,
+                    mod.Weapons.DMR_M39_EMR,
+                    mod.Weapons.DMR_SVDM,
+                    mod.Weapons.DMR_SVK_86,
+                ],
+                'dmr',
+            ],
+            [
+                [
+                    mod.Weapons.LMG_DRS_IAR,
+                    mod.Weapons.LMG_KTS100_MK8,
+                    mod.Weapons.LMG_L110,
+                    mod.Weapons.LMG_M_60,
+                    mod.Weapons.LMG_M123K,
+                    mod.Weapons.LMG_M240L,
+                    mod.Weapons.LMG_M250,
+                    mod.Weapons.LMG_RPKM,
+                ],
+                'lmg',
+            ],
+            [
+                [
+                    mod.Weapons.AssaultRifle_AK4D,
+                    mod.Weapons.AssaultRifle_B36A4,
+                    mod.Weapons.AssaultRifle_KORD_6P67,
+                    mod.Weapons.AssaultRifle_L85A3,
+                    mod.Weapons.AssaultRifle_M433,
+                    mod.Weapons.AssaultRifle_NVO_228E,
+                    mod.Weapons.AssaultRifle_SOR_556_Mk2,
+                    mod.Weapons.AssaultRifle_TR_7,
+                ],
+                'rifle',
+            ],
+            [
+                [
+                    mod.Weapons.Carbine_AK_205,
+                    mod.Weapons.Carbine_GRT_BC,
+                    mod.Weapons.Carbine_M277,
+                    mod.Weapons.Carbine_M417_A2,
+                    mod.Weapons.Carbine_M4A1,
+                    mod.Weapons.Carbine_QBZ_192,
+                    mod.Weapons.Carbine_SG_553R,
+                ],
+                'carbine',
+            ],
+            [
+                [
+                    mod.Weapons.Shotgun__185KS_K,
+                    mod.Weapons.Shotgun_M1014,
+                    mod.Weapons.Shotgun_M87A1,
+                ],
+                'shotgun',
+            ],
+            [
+                [
+                    mod.Weapons.SMG_KV9,
+                    mod.Weapons.SMG_PW5A3,
+                    mod.Weapons.SMG_PW7A2,
+                    mod.Weapons.SMG_SCW_10,
+                    mod.Weapons.SMG_SGX,
+                    mod.Weapons.SMG_SL9,
+                    mod.Weapons.SMG_UMG_40,
+                    mod.Weapons.SMG_USG_90,
+                ],
+                'smg',
+            ],
+        ]
+
+        CoreAI_HearingSensor.weaponClasses = classes.flatMap(
+            ([weapons, weaponClass]) =>
+                weapons.map((w): [mod.Weapons, CoreAI_WeaponClass] => [
+                    w,
+                    weaponClass,
+                ])
+        )
+        return CoreAI_HearingSensor.weaponClasses
+    }
+
+    private static getVehicleClasses(): Array<
+        [mod.VehicleList, CoreAI_VehicleClass]
+    > {
+        if (CoreAI_HearingSensor.vehicleClasses) {
+            return CoreAI_HearingSensor.vehicleClasses
+        }
+
+        CoreAI_HearingSensor.vehicleClasses = [
+            [mod.VehicleList.F16, 'jet'],
+            [mod.VehicleList.F22, 'jet'],
+            [mod.VehicleList.JAS39, 'jet'],
+            [mod.VehicleList.SU57, 'jet'],
+            [mod.VehicleList.AH64, 'heli'],
+            [mod.VehicleList.Eurocopter, 'heli'],
+            [mod.VehicleList.UH60, 'heli'],
+            [mod.VehicleList.UH60_Pax, 'heli'],
+            [mod.VehicleList.Abrams, 'armor'],
+            [mod.VehicleList.Leopard, 'armor'],
+            [mod.VehicleList.CV90, 'armor'],
+            [mod.VehicleList.M2Bradley, 'armor'],
+            [mod.VehicleList.Cheetah, 'armor'],
+            [mod.VehicleList.Gepard, 'armor'],
+            [mod.VehicleList.Marauder, 'light'],
+            [mod.VehicleList.Marauder_Pax, 'light'],
+            [mod.VehicleList.Vector, 'light'],
+            [mod.VehicleList.Quadbike, 'light'],
+            [mod.VehicleList.GolfCart, 'light'],
+            [mod.VehicleList.Flyer60, 'light'],
+            [mod.VehicleList.RHIB, 'light'],
+        ]
+        return CoreAI_HearingSensor.vehicleClasses
+    }
+}
+
+/**
+ * Health thresholds (fractions of max health, 0..1).
+ */
+export interface CoreAI_HealthThresholds {
+    /** memory.lowHealth at or below */
+    low: number
+
+    /** memory.criticalHealth at or below */
+    critical: number
+
+    /** Start retreating at or below */
+    retreat: number
+
+    /** Stop retreating at or above */
+    recovered: number
+}
+
+export const CoreAI_DEFAULT_HEALTH_THRESHOLDS: CoreAI_HealthThresholds = {
+    low: 0.5,
+    critical: 0.25,
+    retreat: 0.25,
+    recovered: 0.8,
+}
+
+/**
+ * SelfStatusSensor:
+ * Watches the bot's own health and picks where to fall back to.
+ *
+ * Writes:
+ * - memory.lowHealth, memory.criticalHealth
+ * - memory.retreatPos (while retreating; cleared once recovered)
+ *
+ * Retreat:
+ * - Starts at thresholds.retreat and lasts until thresholds.recovered,
+ *   so regenerating health does not flip the decision back and forth.
+ * - Threats are lastAttacker, closestEnemy and visible knownEnemies.
+ * - Candidates are living friendly players and getRetreatPoints()
+ *   (HQ, cover...). A candidate must lie farther from the nearest
+ *   threat than the bot does; the one farthest from threats per metre
+ *   travelled wins.
+ * - Without candidates the bot backs off fallbackDistance straight away
+ *   from the threats; without threats it holds (retreatPos stays null).
+ * - The chosen position is kept until reached or no longer away from
+ *   the threats, so moving friends do not restart the move every update.
+ *
+ * Notes:
+ * - Blacklisted positions (ctx.moveBlacklist) are skipped.
+ * - Bind retreatPos above combat keys so a wounded bot disengages.
+ */
+export class CoreAI_SelfStatusSensor extends CoreAI_ASensor {
+    private static readonly ARRIVE_DISTANCE = 3
+
+    private readonly thresholds: CoreAI_HealthThresholds
+    private retreating = false
+
+    constructor(
+        intervalMs: number = 500,
+        thresholds: Partial<CoreAI_HealthThresholds> = {},
+        private readonly getRetreatPoints: (() => mod.Vector[]) | null = null,
+        private readonly fallbackDistance: number = 25
+    ) {
+        super(intervalMs)
+        this.thresholds = { ...CoreAI_DEFAULT_HEALTH_THRESHOLDS, ...thresholds }
+    }
+
+    protected update(ctx: CoreAI_TickContext): void {
+        const player = ctx.player
+        if (!mod.IsPlayerValid(player)) return
+
+        const health = this.readHealth(player)
+
+        ctx.memory.set('lowHealth', health <= this.thresholds.low)
+        ctx.memory.set('criticalHealth', health <= this.thresholds.critical)
+
+        if (health <= this.thresholds.retreat) {
+            this.retreating = true
+        } else if (health >= this.thresholds.recovered) {
+            this.retreating = false
+        }
+
+        if (!this.retreating) {
+            ctx.memory.set('retreatPos', null)
+            return
+        }
+
+        ctx.memory.set('retreatPos', this.pickRetreatPos(ctx))
+    }
+
+    /**
+     * Whether the bot is falling back (for debug/UI).
+     */
+    isRetreating(): boolean {
+        return this.retreating
+    }
+
+    /** Normalized health (0..1) */
+    private readHealth(player: mod.Player): number {
+        const max = mod.GetSoldierState(
+            player,
+            mod.SoldierStateNumber.MaxHealth
+        )
+        if (max <= 0) return 1
+
+        return (
+            mod.GetSoldierState(player, mod.SoldierStateNumber.CurrentHealth) /
+            max
+        )
+    }
+
+    private pickRetreatPos(ctx: CoreAI_TickContext): mod.Vector | null {
+        const threats = this.getThreatPositions(ctx)
+        if (threats.length === 0) return null
+
+        const myPos = mod.GetObjectPosition(ctx.player)
+        const myThreatDist = this.distanceToThreats(myPos, threats)
+
+        const current = ctx.memory.get('retreatPos')
+        if (
+            current &&
+            mod.DistanceBetween(myPos, current) >
+                CoreAI_SelfStatusSensor.ARRIVE_DISTANCE &&
+            this.distanceToThreats(current, threats) > myThreatDist
+        ) {
+            return current
+        }
+
+        let best: mod.Vector | null = null
+        let bestScore = -Infinity
+
+        for (const pos of this.getCandidates(ctx)) {
+            if (ctx.moveBlacklist.isBlacklisted(pos, ctx.time)) continue
+
+            const threatDist = this.distanceToThreats(pos, threats)
+            if (threatDist <= myThreatDist) continue
+
+            const score = threatDist / (1 + mod.DistanceBetween(myPos, pos))
+            if (score > bestScore) {
+                bestScore = score
+                best = pos
+            }
+        }
+
+        return best ?? this.backOff(myPos, threats)
+    }
+
+    private getThreatPositions(ctx: CoreAI_TickContext): mod.Vector[] {
+        const enemies = [
+            ctx.memory.get('lastAttacker'),
+            ctx.memory.get('closestEnemy'),
+            ...(ctx.memory.get('knownEnemies') ?? [])
+                .filter((e) => e.visible)
+                .map((e) => e.enemy),
+        ]
+
+        const positions: mod.Vector[] = []
+        for (const enemy of enemies) {
+            if (!enemy || !mod.IsPlayerValid(enemy)) continue
+            if (!mod.GetSoldierState(enemy, mod.SoldierStateBool.IsAlive)) {
+                continue
+            }
+
+            positions.push(mod.GetObjectPosition(enemy))
+        }
+
+        return positions
+    }
+
+    private getCandidates(ctx: CoreAI_TickContext): mod.Vector[] {
+        const myId = mod.GetObjId(ctx.player)
+        const candidates: mod.Vector[] = []
+
+        for (const friend of ctx.teams.getPlayers(ctx.player, 'friendly')) {
+            if (mod.GetObjId(friend) === myId) continue
+            candidates.push(mod.GetObjectPosition(friend))
+        }
+
+        if (this.getRetreatPoints) {
+            candidates.push(...this.getRetreatPoints())
+        }
+
+        return candidates
+    }
+
+    private distanceToThreats(pos: mod.Vector, threats: mod.Vector[]): number {
+        let min = Infinity
+        for (const threat of threats) {
+            min = Math.min(min, mod.DistanceBetween(pos, threat))
+        }
+        return min
+    }
+
+    /**
+     * Point fallbackDistance away from the threats' centre.
+     */
+    private backOff(myPos: mod.Vector, threats: mod.Vector[]): mod.Vector {
+        let centre = threats[0]
+        for (let i = 1; i < threats.length; i++) {
+            centre = mod.Add(centre, threats[i])
+        }
+        centre = mod.Multiply(centre, 1 / threats.length)
+
+        const away = mod.DirectionTowards(centre, myPos)
+
+        return mod.Add(myPos, mod.Multiply(away, this.fallbackDistance))
+    }
+
+    override reset(): void {
+        super.reset()
+        this.retreating = false
+    }
+}
+
+export interface CoreAI_BattleSensorOptions {
+    intervalMs?: number
+    ttlMs?: number
+}
+
+export interface CoreAI_ClosestEnemySensorOptions {
+    sensitivity?: number
+    intervalMs?: number
+    ttlMs?: number
+}
+
+export interface CoreAI_VisionSensorOptions {
+    intervalMs?: number
+    ttlMs?: number
+    fovDeg?: number
+    nearDistance?: number
+    midDistance?: number
+    maxDistance?: number
+    detectionRate?: number
+    decayRate?: number
+    losMemoryMs?: number
+}
+
+export interface CoreAI_ThreatSensorOptions {
+    intervalMs?: number
+    ttlMs?: number
+    forgetMs?: number
+}
+
+export interface CoreAI_EnemyListSensorOptions {
+    intervalMs?: number
+    ttlMs?: number
+    maxDistance?: number
+    aimConeDeg?: number
+    losMemoryMs?: number
+
+    /** Override individual default threat rules */
+    preferences?: Partial<CoreAI_EnemyPreferences>
+
+    /** Replace the ranking with a custom score */
+    score?: CoreAI_EnemyScore
+}
+
+export interface CoreAI_EnemyTrackSensorOptions {
+    intervalMs?: number
+    forgetMs?: number
+    predictMs?: number
+    minConfidence?: number
+}
+
+export interface CoreAI_HearingSensorOptions {
+    intervalMs?: number
+    ttlMs?: number
+
+    /** Multiplies every hearing range (default 1) */
+    sensitivity?: number
+
+    /** Slower hostile vehicles make no noise (m/s) */
+    minVehicleSpeed?: number
+
+    /** Override individual default ranges (m) */
+    weaponRanges?: Partial<CoreAI_HearingRanges['weapons']>
+    vehicleRanges?: Partial<CoreAI_HearingRanges['vehicles']>
+}
+
+export interface CoreAI_SelfStatusSensorOptions {
+    intervalMs?: number
+
+    /** Override individual default health thresholds (0..1) */
+    thresholds?: Partial<CoreAI_HealthThresholds>
+
+    /** Extra places to fall back to (HQ, cover...) */
+    getRetreatPoints?: () => mod.Vector[]
+
+    /** Back-off distance (m) when no retreat point qualifies */
+    fallbackDistance?: number
+}
+
+export interface CoreAI_VehicleToDriveSensorOptions {
+    intervalMs?: number
+    radius?: number
+    ttlMs?: number
+}
+
+export interface CoreAI_ArrivalSensorOptions {
+    getWPs?: () => mod.Vector[]
+    intervalMs?: number
+    distanceThreshold?: number
+    ttlMs?: number
+    cooldownMs?: number
+}
+
+export interface CoreAI_MoveToSensorOptions {
+    getWPs?: () => mod.Vector[]
+    intervalMs?: number
+    ttlMs?: number
+}
+
+export interface CoreAI_CapturePointSensorOptions {
+    getCapturePoints?: () => mod.CapturePoint[]
+    intervalMs?: number
+    ttlMs?: number
+}
+
+export interface CoreAI_MCOMSensorOptions {
+    getMCOMs?: () => mod.MCOM[]
+
+    /** Attacking side of the Rush match (required with getMCOMs) */
+    isAttacker?: (player: mod.Player) => boolean
+    intervalMs?: number
+    ttlMs?: number
+}
+
+export interface CoreAI_CapturePointAwarenessOptions extends CoreAI_CapturePointSensorOptions {
+    /** Override individual default preference rules */
+    preferences?: Partial<CoreAI_CapturePointPreferences>
+
+    /** Replace the preference rules with a custom score */
+    score?: CoreAI_CapturePointScore
+}
+
+export interface CoreAI_SensorOptions {
+    battleSensor?: CoreAI_BattleSensorOptions
+    closestEnemySensor?: CoreAI_ClosestEnemySensorOptions
+    visionSensor?: CoreAI_VisionSensorOptions
+    threatSensor?: CoreAI_ThreatSensorOptions
+    enemyListSensor?: CoreAI_EnemyListSensorOptions
+    enemyTrackSensor?: CoreAI_EnemyTrackSensorOptions
+    hearingSensor?: CoreAI_HearingSensorOptions
+    selfStatusSensor?: CoreAI_SelfStatusSensorOptions
+    vehicleToDriveSensor?: CoreAI_VehicleToDriveSensorOptions
+    arrivalSensor?: CoreAI_ArrivalSensorOptions
+    roamSensor?: CoreAI_MoveToSensorOptions
+    onDriveMoveToSensor?: CoreAI_MoveToSensorOptions
+    capturePointSensor?: CoreAI_CapturePointAwarenessOptions
+    moveToCapturePointSensor?: CoreAI_CapturePointSensorOptions
+    mcomSensor?: CoreAI_MCOMSensorOptions
+}
+
+// @stringkeys core.ai.debug.brain.memory: closestEnemy {}, vehicleToDrive {}, isInBattle {}, roamPos {}, arrivedPos {}, capturePoint {}, mcomAttack {}, mcomDefend {}, mcomDefuse {}, lastAttacker {}, lastAttackerPos {}, searchPos {}, knownEnemies {}, investigatePos {}, lowHealth {}, criticalHealth {}, retreatPos {}
+
+// @stringkeys core.ai.debug.brain.behaviors: defend, moveto, battlefield, losmoveto, idle, patrol, parachute, search, none
+
+// @stringkeys core.ai.debug.brain: decision
+
+export interface CoreAI_IDebugWI {
+    index: number
+    worldIcon: mod.WorldIcon
+}
+
+export class CoreAI_DebugWI {
+    /* private behavior: CoreAI_IDebugWI
+    private stats: CoreAI_IDebugWI
+    private battle: CoreAI_IDebugWI
+    private calm: CoreAI_IDebugWI */
+
+    private receiver: mod.Player
+    private brain: CoreAI_Brain
+
+    private behaviorWI: mod.WorldIcon
+    private behaviorColorsMap: Map<string, mod.Vector> = new Map([
+        ['battlefield', mod.CreateVector(1, 0, 0)],
+        ['defend', mod.CreateVector(1, 1, 0)],
+        ['moveto', mod.CreateVector(0, 1, 1)],
+        ['losmoveto', mod.CreateVector(0, 0.5, 1)],
+        ['idle', mod.CreateVector(0.5, 0.5, 0.5)],
+        ['patrol', mod.CreateVector(0, 1, 0)],
+        ['parachute', mod.CreateVector(1, 0, 1)],
+        ['search', mod.CreateVector(1, 0.5, 0)],
+        ['none', mod.CreateVector(1, 1, 1)],
+    ])
+
+    private roamPosWI: mod.WorldIcon
+    private vehicleToDriveWI: mod.WorldIcon
+    private decisionWI: mod.WorldIcon
+
+    private memoryWIs: Map<keyof CoreAI_MemoryFields, mod.WorldIcon> = new Map()
+
+    constructor(receiver: mod.Player, brain: CoreAI_Brain) {
+        this.receiver = receiver
+        this.brain = brain
+
+        this.behaviorWI = mod.SpawnObject(
+            mod.RuntimeSpawn_Common.WorldIcon,
+            mod.CreateVector(0, 0, 0),
+            mod.CreateVector(0, 0, 0)
+        )
+        mod.SetWorldIconOwner(this.behaviorWI, receiver)
+
+        this.syncMemoryWIs()
+
+        this.roamPosWI = mod.SpawnObject(
+            mod.RuntimeSpawn_Common.WorldIcon,
+            mod.CreateVector(0, 0, 0),
+            mod.CreateVector(0, 0, 0)
+        )
+        mod.SetWorldIconOwner(this.roamPosWI, receiver)
+        mod.SetWorldIconImage(this.roamPosWI, mod.WorldIconImages.Flag)
+        mod.EnableWorldIconImage(this.roamPosWI, true)
+        mod.SetWorldIconColor(this.roamPosWI, mod.CreateVector(0, 1, 1))
+
+        this.vehicleToDriveWI = mod.SpawnObject(
+            mod.RuntimeSpawn_Common.WorldIcon,
+            mod.CreateVector(0, 0, 0),
+            mod.CreateVector(0, 0, 0)
+        )
+        mod.SetWorldIconOwner(this.vehicleToDriveWI, receiver)
+        mod.SetWorldIconImage(this.vehicleToDriveWI, mod.WorldIconImages.Assist)
+        mod.EnableWorldIconImage(this.vehicleToDriveWI, true)
+        mod.SetWorldIconColor(this.vehicleToDriveWI, mod.CreateVector(1, 1, 0))
+
+        this.decisionWI = mod.SpawnObject(
+            mod.RuntimeSpawn_Common.WorldIcon,
+            mod.CreateVector(0, 0, 0),
+            mod.CreateVector(0, 0, 0)
+        )
+        mod.SetWorldIconOwner(this.decisionWI, receiver)
+        mod.SetWorldIconColor(this.decisionWI, mod.CreateVector(0, 1, 0))
+    }
+
+    /**
+     * Spawn a memory icon for every known memory field that has none yet.
+     * Custom fields defined after construction show up on the next tick.
+     * Each field needs a `core.ai.debug.brain.memory.<key>` string.
+     */
+    private syncMemoryWIs(): void {
+        for (const key of this.brain.memory.keys()) {
+            if (this.memoryWIs.has(key)) continue
+
+            const wi = mod.SpawnObject(
+                mod.RuntimeSpawn_Common.WorldIcon,
+                mod.CreateVector(0, 0, 0),
+                mod.CreateVector(0, 0, 0)
+            )
+            mod.SetWorldIconOwner(wi, this.receiver)
+
+            this.memoryWIs.set(key, wi)
+        }
+    }
+
+    tick() {
+        this.syncMemoryWIs()
+
+        const isValid =
+            mod.IsPlayerValid(this.brain.player) &&
+            mod.GetSoldierState(this.brain.player, mod.SoldierStateBool.IsAlive)
+
+        /**
+         * Behavior
+         */
+        if (isValid) {
+            mod.EnableWorldIconText(this.behaviorWI, true)
+            mod.SetWorldIconPosition(
+                this.behaviorWI,
+                mod.CreateVector(
+                    mod.XComponentOf(mod.GetObjectPosition(this.brain.player)),
+                    mod.YComponentOf(mod.GetObjectPosition(this.brain.player)) +
+                        this.getStackedIconOffset(
+                            mod.DistanceBetween(
+                                mod.GetObjectPosition(this.brain.player),
+                                mod.GetObjectPosition(this.receiver)
+                            ),
+                            0,
+                            0.6
+                        ),
+                    mod.ZComponentOf(mod.GetObjectPosition(this.brain.player))
+                )
+            )
+            const behavior = this.brain.getBehaviorLabel() ?? 'none'
+            mod.SetWorldIconText(
+                this.behaviorWI,
+                mod.Message(`core.ai.debug.brain.behaviors.${behavior}`)
+            )
+            mod.SetWorldIconColor(
+                this.behaviorWI,
+                this.behaviorColorsMap.get(behavior) ??
+                    mod.CreateVector(1, 1, 1)
+            )
+        } else {
+            mod.EnableWorldIconText(this.behaviorWI, false)
+        }
+
+        /**
+         * Memory
+         */
+        let i = 1
+        for (const [key, wi] of this.memoryWIs) {
+            if (!isValid) {
+                mod.EnableWorldIconText(wi, false)
+                continue
+            }
+
+            mod.SetWorldIconColor(
+                wi,
+                this.brain.memory.getTimeRemaining(key) === 0
+                    ? mod.CreateVector(1, 1, 1)
+                    : mod.CreateVector(1, 1, 0)
+            )
+            mod.EnableWorldIconText(wi, true)
+            mod.SetWorldIconPosition(
+                wi,
+                mod.CreateVector(
+                    mod.XComponentOf(mod.GetObjectPosition(this.brain.player)),
+                    mod.YComponentOf(mod.GetObjectPosition(this.brain.player)) +
+                        this.getStackedIconOffset(
+                            mod.DistanceBetween(
+                                mod.GetObjectPosition(this.brain.player),
+                                mod.GetObjectPosition(this.receiver)
+                            ),
+                            i,
+                            0.6
+                        ),
+                    mod.ZComponentOf(mod.GetObjectPosition(this.brain.player))
+                )
+            )
+            mod.SetWorldIconText(
+                wi,
+                mod.Message(
+                    `core.ai.debug.brain.memory.${key}`,
+                    this.brain.memory.getTimeRemaining(key)
+                )
+            )
+
+            i++
+        }
+
+        /**
+         * Roam navigation
+         */
+        if (this.brain.memory.get('roamPos')) {
+            mod.SetWorldIconPosition(
+                this.roamPosWI,
+                this.brain.memory.get('roamPos')!
+            )
+            mod.EnableWorldIconImage(this.roamPosWI, true)
+            mod.SetWorldIconText(
+                this.roamPosWI,
+                mod.Message(this.brain.memory.getTimeRemaining('roamPos'))
+            )
+            mod.EnableWorldIconText(this.roamPosWI, true)
+        } else {
+            mod.EnableWorldIconImage(this.roamPosWI, false)
+            mod.EnableWorldIconText(this.roamPosWI, false)
+        }
+
+        /**
+         * Vehicle to Drive navigation
+         */
+        if (this.brain.memory.get('vehicleToDrive')) {
+            mod.SetWorldIconPosition(
+                this.vehicleToDriveWI,
+                mod.GetVehicleState(
+                    this.brain.memory.get('vehicleToDrive')!,
+                    mod.VehicleStateVector.VehiclePosition
+                )
+            )
+            mod.EnableWorldIconImage(this.vehicleToDriveWI, true)
+            mod.SetWorldIconText(
+                this.vehicleToDriveWI,
+                mod.Message(
+                    this.brain.memory.getTimeRemaining('vehicleToDrive')
+                )
+            )
+            mod.EnableWorldIconText(this.vehicleToDriveWI, true)
+        } else {
+            mod.EnableWorldIconImage(this.vehicleToDriveWI, false)
+            mod.EnableWorldIconText(this.vehicleToDriveWI, false)
+        }
+
+        /**
+         * Last decision (winner score and scored candidates at its target)
+         */
+        const decision = this.brain.getDecisionTrace().getLast()
+        if (isValid && decision?.target) {
+            const winner = decision.candidates.find(
+                (c) => c.key === decision.key
+            )
+            const scored = decision.candidates.filter(
+                (c) => c.skipped === undefined
+            ).length
+
+            mod.SetWorldIconPosition(this.decisionWI, decision.target)
+            mod.SetWorldIconText(
+                this.decisionWI,
+                mod.Message(
+                    'core.ai.debug.brain.decision',
+                    this.round2decimal(winner?.score ?? 0),
+                    scored
+                )
+            )
+            mod.EnableWorldIconText(this.decisionWI, true)
+        } else {
+            mod.EnableWorldIconText(this.decisionWI, false)
+        }
+    }
+
+    private round2decimal(num: number): number {
+        const factor = 10 /* * 10 // 100 */
+        return Math.round(num * factor) / factor
+    }
+
+    private getIconOffset(d: number): number {
+        const base = 1.9
+        const upStart = 2
+        const upEnd = 40
+        const downEnd = 70
+        const peakDelta = 0.9 // 2.8 - 1.9
+
+        if (d <= upStart) return base
+        if (d >= downEnd) return base
+
+        // rising part: 2..40
+        if (d < upEnd) {
+            const t = (d - upStart) / (upEnd - upStart) // 0..1
+            const bump = Math.pow(t, 0.5) // sqrt: fast early rise
+            return base + peakDelta * bump
+        }
+
+        // falling part: 40..70
+        const t = (d - upEnd) / (downEnd - upEnd) // 0..1
+        const bump = Math.pow(1 - t, 0.8) // slower fall
+        return base + peakDelta * bump
+    }
+
+    /**
+     * Returns the vertical world offset for stacked icons.
+     *
+     * index = 0 -> base icon
+     * index = 1 -> first icon above it
+     * index = 2 -> second icon above it
+     *
+     * The gap is scaled by distance so icons appear visually snapped.
+     */
+    private getStackedIconOffset(d: number, index: number, gap = 0.4): number {
+        // Base icon offset using your existing curve
+        const baseOffset = this.getIconOffset(d)
+
+        // Reference distance at which gap looks correct visually.
+        // 20m is a good default for human-readable marker stacking.
+        const reference = 20
+
+        // Scale gap according to distance to compensate for perspective shrinking
+        const scale = d / reference
+
+        // Index=0 gives base offset
+        if (index === 0) return baseOffset
+
+        // Each stacked icon sits on top of the previous one
+        return baseOffset + index * gap * scale
+    }
+}
+
+/**
+ * BattleSensor:
+ * Detects combat by raycasting toward nearby enemies.
+ *
+ * Writes:
+ * - memory.isInBattle (TTL-based boolean)
+ *
+ * Notes:
+ * - Raycast hits (via ctx.rayCasts) confirm nearby enemy presence.
+ * - No POIs.
+ * - No behaviors spawned.
+ * - TaskSelector checks memory.isInBattle to understand combat state.
+ */
+export class CoreAI_BattleSensor extends CoreAI_ASensor {
+    /* private targetWI: mod.WorldIcon
+    private startWI: mod.WorldIcon
+    private hitWI: mod.WorldIcon
+    private hitClosestEnemyWI: mod.WorldIcon */
+
+    private VEHICLE_OFFSET = 5.1
+
+    constructor(
+        intervalMs: number = 500,
+        private readonly ttlMs: number = 10000
+    ) {
+        super(intervalMs)
+
+        /* this.targetWI = mod.SpawnObject(
+            mod.RuntimeSpawn_Common.WorldIcon,
+            mod.CreateVector(0, 0, 0),
+            mod.CreateVector(0, 0, 0)
+        )
+        mod.SetWorldIconOwner(this.targetWI, mod.GetTeam(1))
+        mod.SetWorldIconImage(this.targetWI, mod.WorldIconImages.Skull)
+        mod.SetWorldIconColor(this.targetWI, CoreUI_Colors.RedDark)
+
+        this.startWI = mod.SpawnObject(
+            mod.RuntimeSpawn_Common.WorldIcon,
+            mod.CreateVector(0, 0, 0),
+            mod.CreateVector(0, 0, 0)
+        )
+        mod.SetWorldIconOwner(this.startWI, mod.GetTeam(1))
+        mod.SetWorldIconImage(this.startWI, mod.WorldIconImages.Cross)
+        mod.SetWorldIconColor(this.startWI, CoreUI_Colors.RedDark)
+
+        this.hitWI = mod.SpawnObject(
+            mod.RuntimeSpawn_Common.WorldIcon,
+            mod.CreateVector(0, 0, 0),
+            mod.CreateVector(0, 0, 0)
+        )
+        mod.SetWorldIconOwner(this.hitWI, mod.GetTeam(1))
+        mod.SetWorldIconImage(this.hitWI, mod.WorldIconImages.Eye)
+        mod.SetWorldIconColor(this.hitWI, CoreUI_Colors.GreenDark)
+
+        this.hitClosestEnemyWI = mod.SpawnObject(
+            mod.RuntimeSpawn_Common.WorldIcon,
+            mod.CreateVector(0, 0, 0),
+            mod.CreateVector(0, 0, 0)
+        )
+        mod.SetWorldIconOwner(this.hitClosestEnemyWI, mod.GetTeam(1))
+        mod.SetWorldIconImage(this.hitClosestEnemyWI, mod.WorldIconImages.Alert)
+        mod.SetWorldIconColor(this.hitClosestEnemyWI, CoreUI_Colors.BlueDark) */
+    }
+
+    protected update(ctx: CoreAI_TickContext): void {
+        if (ctx.memory.get('isInBattle')) {
+            return
+        }
+
+        const player = ctx.player
+        if (!mod.IsPlayerValid(player)) return
+
+        const isFiring = mod.GetSoldierState(
+            player,
+            mod.SoldierStateBool.IsFiring
+        )
+        if (isFiring) {
+            ctx.memory.set('isInBattle', true, this.ttlMs)
+            return
+        }
+
+        if (
+            !mod.GetSoldierState(player, mod.SoldierStateBool.IsInVehicle) ||
+            mod.GetPlayerVehicleSeat(player) !== 0
+        ) {
+            /* mod.EnableWorldIconImage(this.targetWI, false)
+            mod.EnableWorldIconImage(this.startWI, false)
+            mod.EnableWorldIconImage(this.hitWI, false)
+            mod.EnableWorldIconImage(this.hitClosestEnemyWI, false) */
+            return
+        }
+
+        const playerVehiclePos = mod.GetVehicleState(
+            mod.GetVehicleFromPlayer(player),
+            mod.VehicleStateVector.VehiclePosition
+        )
+
+        const startInitPos = mod.CreateVector(
+            mod.XComponentOf(playerVehiclePos),
+            mod.YComponentOf(playerVehiclePos) + 1,
+            mod.ZComponentOf(playerVehiclePos)
+        )
+
+        for (const p of ctx.teams.getEnemies(player)) {
+            let targetPos = mod.GetSoldierState(
+                p,
+                mod.SoldierStateVector.EyePosition
+            )
+
+            if (mod.GetSoldierState(p, mod.SoldierStateBool.IsInVehicle)) {
+                const vehicle = mod.GetVehicleFromPlayer(p)
+
+                const enemyVehiclePos = mod.GetVehicleState(
+                    vehicle,
+                    mod.VehicleStateVector.VehiclePosition
+                )
+
+                targetPos = mod.CreateVector(
+                    mod.XComponentOf(enemyVehiclePos),
+                    mod.YComponentOf(enemyVehiclePos) + 1,
+                    mod.ZComponentOf(enemyVehiclePos)
+                )
+            }
+
+            const dir = mod.DirectionTowards(startInitPos, targetPos)
+            const startPos = mod.Add(
+                startInitPos,
+                mod.Multiply(dir, this.VEHICLE_OFFSET)
+            )
+
+            const memory = ctx.memory
+            ctx.rayCasts.cast(
+                startPos,
+                targetPos,
+                (result) => {
+                    if (result.outcome !== 'hit' || !result.point) return
+                    this.onEnemyRayHit(memory, result.point, p)
+                },
+                p
+            )
+
+            /**
+             *
+             */
+            /* mod.EnableWorldIconImage(this.startWI, true)
+            mod.SetWorldIconPosition(this.startWI, startPos)
+
+            mod.EnableWorldIconImage(this.targetWI, true)
+            mod.SetWorldIconPosition(this.targetWI, targetPos) */
+        }
+    }
+
+    /**
+     * A ray cast toward an enemy hit something: in battle if it hit
+     * that enemy.
+     */
+    private onEnemyRayHit(
+        memory: CoreAI_MemoryManager,
+        eventPoint: mod.Vector,
+        enemy: mod.Player
+    ): void {
+        /**
+         *
+         */
+        /* mod.EnableWorldIconImage(this.hitWI, true)
+        mod.SetWorldIconPosition(this.hitWI, eventPoint) */
+
+        if (!mod.IsPlayerValid(enemy)) return
+
+        let enemyPos = mod.GetSoldierState(
+            enemy,
+            mod.SoldierStateVector.EyePosition
+        )
+
+        let maxHitDist = 0.4
+
+        if (mod.GetSoldierState(enemy, mod.SoldierStateBool.IsInVehicle)) {
+            maxHitDist = this.VEHICLE_OFFSET
+
+            const ep = mod.GetSoldierState(
+                enemy,
+                mod.SoldierStateVector.GetPosition
+            )
+            enemyPos = mod.CreateVector(
+                mod.XComponentOf(ep),
+                mod.YComponentOf(ep) + 1,
+                mod.ZComponentOf(ep)
+            )
+        }
+
+        // mod.SetWorldIconPosition(this.hitClosestEnemyWI, enemyPos)
+        // mod.EnableWorldIconImage(this.hitClosestEnemyWI, true)
+
+        const hitDist = mod.DistanceBetween(eventPoint, enemyPos)
+
+        // mod.DisplayHighlightedWorldLogMessage(mod.Message(hitDist))
+
+        if (hitDist > maxHitDist) return
+
+        memory.set('isInBattle', true, this.ttlMs)
+    }
+
+    override OnPlayerDamaged?(
+        ctx: CoreAI_TickContext,
+        eventOtherPlayer: mod.Player,
+        eventDamageType: mod.DamageType,
+        eventWeaponUnlock: mod.WeaponUnlock
+    ): void {
+        ctx.memory.set('isInBattle', true, this.ttlMs)
+    }
+}
+
+/**
+ * Engine events: override any CoreAI_EngineEventHandlers hook; the Brain
+ * calls it on every installed action.
+ */
+export interface CoreAI_AAction extends CoreAI_EngineEventHandlers {}
+
+export abstract class CoreAI_AAction {
+    protected intervalMs: number
+    private lastRun: number = 0
+
+    constructor(intervalMs: number = 500) {
+        this.intervalMs = intervalMs
+    }
+
+    tick(ctx: CoreAI_TickContext): void {
+        const now = ctx.time
+
+        if (this.intervalMs > 0 && now - this.lastRun < this.intervalMs) {
+            return
+        }
+
+        this.lastRun = now
+        this.update(ctx)
+    }
+
+    reset(): void {
+        this.lastRun = 0
+    }
+
+    protected abstract update(ctx: CoreAI_TickContext): void
+}
+
+export class CoreAI_ActionRunner {
+    private actions: CoreAI_AAction[] = []
+
+    constructor(actions: CoreAI_AAction[]) {
+        this.actions = actions
+    }
+
+    tick(ctx: CoreAI_TickContext): void {
+        for (const action of this.actions) {
+            action.tick(ctx)
+        }
+    }
+
+    getActions(): readonly CoreAI_AAction[] {
+        return this.actions
+    }
+
+    reset(): void {
+        for (const action of this.actions) {
+            action.reset()
+        }
+    }
+}
+
+/**
+ * Picks the enemy the bot aims at (null clears the target).
+ */
+export type CoreAI_TargetPolicy = (ctx: CoreAI_TickContext) => mod.Player | null
+
+function liveEnemy(enemy: mod.Player | null | undefined): mod.Player | null {
+    if (!enemy || !mod.IsPlayerValid(enemy)) return null
+    if (!mod.GetSoldierState(enemy, mod.SoldierStateBool.IsAlive)) {
+        return null
+    }
+
+    return enemy
+}
+
+/** Enemy is in sight: a visible knownEnemies entry or closestEnemy. */
+function isSeen(ctx: CoreAI_TickContext, enemy: mod.Player): boolean {
+    const id = mod.GetObjId(enemy)
+
+    const closest = ctx.memory.get('closestEnemy')
+    if (closest && mod.GetObjId(closest) === id) return true
+
+    return (ctx.memory.get('knownEnemies') ?? []).some(
+        (known) => known.visible && mod.GetObjId(known.enemy) === id
+    )
+}
+
+/**
+ * Built-in target policies. Only visible memory.knownEnemies entries
+ * are considered; each falls back to memory.closestEnemy (vision-gated)
+ * when none is visible or the list is empty (no EnemyListSensor).
+ */
+export const CoreAI_TargetPolicies: Record<
+    'attackerFirst' | 'ranked' | 'closest',
+    CoreAI_TargetPolicy
+> = {
+    /** lastAttacker while in sight, then the best ranked enemy (default) */
+    attackerFirst: (ctx) => {
+        const attacker = liveEnemy(ctx.memory.get('lastAttacker'))
+        if (attacker && isSeen(ctx, attacker)) return attacker
+
+        return CoreAI_TargetPolicies.ranked(ctx)
+    },
+
+    /** Best ranked enemy (see CoreAI_EnemyListSensor) */
+    ranked: (ctx) => {
+        for (const known of ctx.memory.get('knownEnemies') ?? []) {
+            if (!known.visible) continue
+
+            const enemy = liveEnemy(known.enemy)
+            if (enemy) return enemy
+        }
+
+        return liveEnemy(ctx.memory.get('closestEnemy'))
+    },
+
+    /** Nearest known enemy, ignoring the ranking */
+    closest: (ctx) => {
+        let best: mod.Player | null = null
+        let bestDist = Infinity
+
+        for (const known of ctx.memory.get('knownEnemies') ?? []) {
+            if (!known.visible || known.distance >= bestDist) continue
+            if (!liveEnemy(known.enemy)) continue
+
+            bestDist = known.distance
+            best = known.enemy
+        }
+
+        return best ?? liveEnemy(ctx.memory.get('closestEnemy'))
+    },
+}
+
+/**
+ * Aims the bot at the enemy chosen by the target policy
+ * (default: CoreAI_TargetPolicies.attackerFirst).
+ */
+export class CoreAI_SetTargetAction extends CoreAI_AAction {
+    constructor(
+        private policy: CoreAI_TargetPolicy = CoreAI_TargetPolicies.attackerFirst
+    ) {
+        super(200)
+    }
+
+    setPolicy(policy: CoreAI_TargetPolicy): void {
+        this.policy = policy
+    }
+
+    protected update(ctx: CoreAI_TickContext): void {
+        const player = ctx.player
+        if (!mod.IsPlayerValid(player)) return
+
+        const enemy = this.policy(ctx)
+        if (enemy) {
+            mod.AISetTarget(player, enemy)
+        } else {
+            mod.AISetTarget(player)
+        }
+    }
+}
+
+export class CoreAI_EnterVehicleAction extends CoreAI_AAction {
+    constructor() {
+        super(500)
+    }
+
+    protected update(ctx: CoreAI_TickContext): void {
+        const player = ctx.player
+        if (!mod.IsPlayerValid(player)) return
+
+        if (mod.GetSoldierState(player, mod.SoldierStateBool.IsInVehicle)) {
+            return
+        }
+
+        const vehicle = ctx.memory.get('vehicleToDrive')
+        if (!vehicle) return
+
+        if (mod.IsVehicleSeatOccupied(vehicle, 0)) {
+            return
+        }
+
+        const vPos = mod.GetVehicleState(
+            vehicle,
+            mod.VehicleStateVector.VehiclePosition
+        )
+        const pPos = mod.GetSoldierState(
+            player,
+            mod.SoldierStateVector.GetPosition
+        )
+
+        const dist = mod.DistanceBetween(pPos, vPos)
+
+        if (dist > 3.0) return
+
+        // mod.DisplayHighlightedWorldLogMessage(mod.Message(222))
+
+        mod.ForcePlayerToSeat(player, vehicle, 0)
+    }
+}
+
+/**
+ * Engine behavior run by a binding:
+ * - battlefield: AIBattlefieldBehavior
+ * - defend:      AIDefendPositionBehavior around the target
+ * - moveto:      move to the target (see CoreAI_MoveMode)
+ * - losmoveto:   AILOSMoveToBehavior (stop once the target is in sight)
+ * - idle:        AIIdleBehavior (hold the current position)
+ * - patrol:      AIWaypointIdleBehavior along a waypoint path
+ * - parachute:   AIParachuteBehavior (only while in the air)
+ * - search:      move to the target, then sweep around it
+ *                (CoreAI_SearchCommand); dropped once the sweep ends
+ */
+export type CoreAI_KeyedBehaviorKind =
+    | 'battlefield'
+    | 'defend'
+    | 'moveto'
+    | 'losmoveto'
+    | 'idle'
+    | 'patrol'
+    | 'parachute'
+    | 'search'
+
+/**
+ * Engine move used by a moveto binding:
+ * - validated: AIValidatedMoveToBehavior (snaps to navmesh)
+ * - direct:    AIMoveToBehavior
+ */
+export type CoreAI_MoveMode = 'validated' | 'direct'
+
+export type CoreAI_TargetResolver = (
+    ctx: CoreAI_TickContext,
+    key: keyof CoreAI_MemoryFields
+) => mod.Vector | null
+
+/**
+ * What to run when a memory key wins selection.
+ */
+export interface CoreAI_BehaviorBinding {
+    kind: CoreAI_KeyedBehaviorKind
+
+    /**
+     * Target for moveto/losmoveto/defend/search
+     * (default: CoreAI_BehaviorTargets.auto)
+     */
+    target?: CoreAI_TargetResolver
+
+    /** moveto only (default: 'validated') */
+    move?: CoreAI_MoveMode
+
+    /** defend only: AIDefendPositionBehavior radii (default: 2 / 8) */
+    minDistance?: number
+    maxDistance?: number
+
+    /** search only: sweep circle radius and point count (default: 8 / 4) */
+    searchRadius?: number
+    sweepPoints?: number
+
+    /**
+     * patrol only: waypoint path number for mod.GetWaypointPath
+     * (default: the memory value, if it is a number)
+     */
+    waypointPath?: number
+}
+
+export type CoreAI_BehaviorBindings = Partial<
+    Record<keyof CoreAI_MemoryFields, CoreAI_BehaviorBinding>
+>
+
+/**
+ * Target resolvers for common memory value types.
+ */
+export const CoreAI_BehaviorTargets: Record<
+    'vector' | 'player' | 'vehicle' | 'object' | 'auto',
+    CoreAI_TargetResolver
+> = {
+    /** Memory value is a mod.Vector */
+    vector: (ctx, key) => (ctx.memory.get(key) as mod.Vector | null) ?? null,
+
+    /** Memory value is a mod.Player; uses its soldier position */
+    player: (ctx, key) => {
+        const player = ctx.memory.get(key) as mod.Player | null
+        if (!player || !mod.IsPlayerValid(player)) return null
+
+        return mod.GetSoldierState(player, mod.SoldierStateVector.GetPosition)
+    },
+
+    /** Memory value is a mod.Vehicle */
+    vehicle: (ctx, key) => {
+        const vehicle = ctx.memory.get(key) as mod.Vehicle | null
+        if (!vehicle) return null
+
+        return mod.GetVehicleState(
+            vehicle,
+            mod.VehicleStateVector.VehiclePosition
+        )
+    },
+
+    /** Memory value is any placed object (CapturePoint, HQ, ...) */
+    object: (ctx, key) => {
+        const obj = ctx.memory.get(key) as mod.Object | null
+        if (!obj) return null
+
+        return mod.GetObjectPosition(obj)
+    },
+
+    /**
+     * Inspect the memory value type at runtime.
+     * Booleans, numbers and lists have no position and resolve to null.
+     */
+    auto: (ctx, key) => {
+        const value = ctx.memory.get(key) as unknown
+        if (value === null || value === undefined) return null
+        if (typeof value !== 'object' || Array.isArray(value)) return null
+
+        if (mod.IsType(value, mod.Types.Vector)) {
+            return CoreAI_BehaviorTargets.vector(ctx, key)
+        }
+        if (mod.IsType(value, mod.Types.Player)) {
+            return CoreAI_BehaviorTargets.player(ctx, key)
+        }
+        if (mod.IsType(value, mod.Types.Vehicle)) {
+            return CoreAI_BehaviorTargets.vehicle(ctx, key)
+        }
+
+        return CoreAI_BehaviorTargets.object(ctx, key)
+    },
+}
+
+/**
+ * Built-in key mapping. Profiles override per key via
+ * CoreAI_BaseSoldier.behaviors; keys without a binding fall back to
+ * a validated moveto on CoreAI_BehaviorTargets.auto.
+ */
+export const CoreAI_DEFAULT_BEHAVIOR_BINDINGS: CoreAI_BehaviorBindings = {
+    isInBattle: { kind: 'battlefield' },
+    arrivedPos: {
+        kind: 'defend',
+        target: CoreAI_BehaviorTargets.vector,
+        minDistance: 2.0,
+        maxDistance: 8.0,
+    },
+    closestEnemy: { kind: 'moveto', target: CoreAI_BehaviorTargets.player },
+    vehicleToDrive: {
+        kind: 'moveto',
+        target: CoreAI_BehaviorTargets.vehicle,
+        move: 'direct',
+    },
+    roamPos: { kind: 'moveto', target: CoreAI_BehaviorTargets.vector },
+    capturePoint: { kind: 'moveto', target: CoreAI_BehaviorTargets.object },
+    lastAttacker: { kind: 'battlefield' },
+    lastAttackerPos: {
+        kind: 'losmoveto',
+        target: CoreAI_BehaviorTargets.vector,
+    },
+    searchPos: { kind: 'search', target: CoreAI_BehaviorTargets.vector },
+    retreatPos: { kind: 'moveto', target: CoreAI_BehaviorTargets.vector },
+    investigatePos: {
+        kind: 'losmoveto',
+        target: CoreAI_BehaviorTargets.vector,
+    },
+    knownEnemies: {
+        kind: 'battlefield',
+        target: (ctx) => ctx.memory.get('knownEnemies')?.[0]?.position ?? null,
+    },
+    // Holds the bot at the MCOM; the game mode arms/defuses it
+    // (see CoreAI_MCOMSensor).
+    mcomAttack: {
+        kind: 'defend',
+        target: CoreAI_BehaviorTargets.object,
+        minDistance: 0.5,
+        maxDistance: 2.0,
+    },
+    mcomDefend: {
+        kind: 'defend',
+        target: CoreAI_BehaviorTargets.object,
+        minDistance: 5.0,
+        maxDistance: 20.0,
+    },
+    // Holds the bot at the MCOM; the game mode defuses it.
+    mcomDefuse: {
+        kind: 'defend',
+        target: CoreAI_BehaviorTargets.object,
+        minDistance: 0.5,
+        maxDistance: 2.0,
+    },
+}
+
+/**
+ * Utility scoring for CoreAI_BehaviorSelector.
+ *
+ * A key score is one of:
+ * - number:  constant weight (the simple case, unchanged behavior)
+ * - function: (ctx, key) => score
+ * - CoreAI_UtilityScore: weight * product of curved considerations
+ *
+ * Considerations:
+ * - input() reads a raw value from the tick context
+ * - [min, max] normalizes it into 0..1
+ * - curve maps 0..1 to 0..1 (response curve)
+ */
+
+export type CoreAI_ResponseCurve = (x: number) => number
+
+export type CoreAI_UtilityInput = (
+    ctx: CoreAI_TickContext,
+    key: keyof CoreAI_MemoryFields
+) => number
+
+export interface CoreAI_UtilityConsideration {
+    input: CoreAI_UtilityInput
+
+    /** Raw input range mapped to 0..1 (default 0..1) */
+    min?: number
+    max?: number
+
+    /** Response curve (default linear) */
+    curve?: CoreAI_ResponseCurve
+}
+
+export interface CoreAI_UtilityScore {
+    /** Score when every consideration returns 1 */
+    weight: number
+    considerations: CoreAI_UtilityConsideration[]
+}
+
+export type CoreAI_KeyScore =
+    | number
+    | CoreAI_UtilityScore
+    | ((ctx: CoreAI_TickContext, key: keyof CoreAI_MemoryFields) => number)
+
+function clamp01(x: number): number {
+    return x < 0 ? 0 : x > 1 ? 1 : x
+}
+
+/**
+ * Response curves. All take and return values in 0..1.
+ */
+export const CoreAI_Curves = {
+    linear:
+        (slope: number = 1, offset: number = 0): CoreAI_ResponseCurve =>
+        (x) =>
+            clamp01(slope * x + offset),
+
+    /** 1 at x=0, 0 at x=1 */
+    inverse: (): CoreAI_ResponseCurve => (x) => 1 - clamp01(x),
+
+    /** x^exponent; >1 stays low until late, <1 rises early */
+    power:
+        (exponent: number = 2): CoreAI_ResponseCurve =>
+        (x) =>
+            Math.pow(clamp01(x), exponent),
+
+    /** S-curve centered on midpoint */
+    logistic:
+        (
+            steepness: number = 10,
+            midpoint: number = 0.5
+        ): CoreAI_ResponseCurve =>
+        (x) =>
+            1 / (1 + Math.exp(-steepness * (x - midpoint))),
+
+    /** 0 below threshold, 1 at or above */
+    step:
+        (threshold: number = 0.5): CoreAI_ResponseCurve =>
+        (x) =>
+            x >= threshold ? 1 : 0,
+}
+
+/**
+ * Common consideration inputs.
+ */
+export const CoreAI_UtilityInputs = {
+    /** Distance (m) from the bot to the key's target position */
+    distance:
+        (
+            target: CoreAI_TargetResolver = CoreAI_BehaviorTargets.auto
+        ): CoreAI_UtilityInput =>
+        (ctx, key) => {
+            const pos = target(ctx, key)
+            if (!pos) return Infinity
+
+            return mod.DistanceBetween(mod.GetObjectPosition(ctx.player), pos)
+        },
+
+    /** Bot health, 0..1 */
+    health: (): CoreAI_UtilityInput => (ctx) =>
+        mod.GetSoldierState(
+            ctx.player,
+            mod.SoldierStateNumber.NormalizedHealth
+        ),
+
+    /** Time (ms) left before the key's memory TTL expires (0 if none) */
+    ttlRemaining: (): CoreAI_UtilityInput => (ctx, key) =>
+        ctx.memory.getTimeRemaining(key),
+
+    /** Alive friendly players (bot included) */
+    teammatesAlive: (): CoreAI_UtilityInput => (ctx) =>
+        ctx.teams.getPlayers(ctx.player, 'friendly').length,
+
+    /** Alive hostile players */
+    enemiesAlive: (): CoreAI_UtilityInput => (ctx) =>
+        ctx.teams.getEnemies(ctx.player).length,
+
+    /** Known enemies within distance (m), see memory.knownEnemies */
+    enemiesWithin:
+        (distance: number): CoreAI_UtilityInput =>
+        (ctx) =>
+            ctx.memory.countEnemiesWithin(distance),
+}
+
+/**
+ * Evaluate a key score for this tick.
+ */
+export function CoreAI_evaluateScore(
+    score: CoreAI_KeyScore | undefined,
+    ctx: CoreAI_TickContext,
+    key: keyof CoreAI_MemoryFields
+): number {
+    if (score === undefined) return 0
+    if (typeof score === 'number') return score
+    if (typeof score === 'function') return score(ctx, key)
+
+    let product = 1
+
+    for (const c of score.considerations) {
+        const min = c.min ?? 0
+        const max = c.max ?? 1
+        const raw = c.input(ctx, key)
+        const x = max === min ? (raw >= max ? 1 : 0) : (raw - min) / (max - min)
+        const y = c.curve ? c.curve(clamp01(x)) : clamp01(x)
+
+        product *= clamp01(y)
+        if (product <= 0) return 0
+    }
+
+    return score.weight * product
+}
+
+/**
+ * CoreAI_IBehaviorController:
+ * Decides which engine AI behavior runs each tick.
+ *
+ * Implemented by CoreAI_BehaviorSelector (default) and by alternative
+ * decision runtimes plugged into CoreAI_Brain.setBehaviorController().
+ */
+export interface CoreAI_IBehaviorController {
+    /** Select and apply the engine behavior for this tick */
+    update(ctx: CoreAI_TickContext): void | Promise<void>
+
+    /** Current engine behavior label (for debug/UI) */
+    getCurrent(): string | null
+}
+
+/**
+ * Creates a fresh controller per brain (controllers hold runtime state).
+ */
+export type CoreAI_BehaviorControllerFactory = () => CoreAI_IBehaviorController
+
+/**
+ * CoreAI_VehicleReseatCommand:
+ * Drives an AI driver toward a position.
+ *
+ * Exits and re-enters the driver seat (two Wait(0) frames apart) so the
+ * engine picks up the new behavior, then defends around the position.
+ * Once started, the re-seat always completes so a cancelled command
+ * never leaves the driver on foot; only the defend step is skipped.
+ */
+export class CoreAI_VehicleReseatCommand implements CoreAI_Command {
+    readonly name = 'vehicleReseat'
+
+    constructor(
+        private readonly player: mod.Player,
+        private readonly vehicle: mod.Vehicle,
+        private readonly pos: mod.Vector,
+        private readonly seat: number = 0
+    ) {}
+
+    async run(token: CoreAI_CommandToken): Promise<void> {
+        mod.ForcePlayerExitVehicle(this.player, this.vehicle)
+
+        await mod.Wait(0)
+        await mod.Wait(0)
+        if (!mod.IsPlayerValid(this.player)) return
+
+        mod.ForcePlayerToSeat(this.player, this.vehicle, this.seat)
+        if (token.isCancelled()) return
+
+        mod.AIDefendPositionBehavior(this.player, this.pos, 10, 20)
+    }
+}
+
+/**
+ * CoreAI_MoveIssuer
+ *
+ * Issues moveto orders for a behavior controller (selector, BT leaves).
+ *
+ * Responsibilities:
+ * - Drivers (seat 0) ignore a plain move order: they are moved with a
+ *   CoreAI_VehicleReseatCommand on ctx.commands instead.
+ * - On foot, issues the engine move for the move mode.
+ * - Records pos as the move target on ctx.moveBlacklist.
+ *
+ * Notes:
+ * - One issuer per controller/leaf: it remembers the vehicle of a
+ *   re-seat in flight, while the bot is briefly on foot.
+ */
+export class CoreAI_MoveIssuer {
+    private reseatVehicle: mod.Vehicle | null = null
+
+    /**
+     * Move toward pos. Returns the command token when the move runs as
+     * a re-seat sequence, otherwise null.
+     */
+    moveTo(
+        ctx: CoreAI_TickContext,
+        pos: mod.Vector,
+        move: CoreAI_MoveMode
+    ): CoreAI_CommandToken | null {
+        const player = ctx.player
+        ctx.moveBlacklist.setTarget(pos)
+
+        // A re-seat in flight means the bot is still the driver.
+        const reseating = ctx.commands.getRunning() === 'vehicleReseat'
+        const vehicle =
+            (reseating ? this.reseatVehicle : null) ??
+            CoreAI_MoveIssuer.getDrivenVehicle(player)
+
+        this.reseatVehicle = vehicle
+        if (vehicle) {
+            return ctx.commands.replace(
+                new CoreAI_VehicleReseatCommand(player, vehicle, pos)
+            )
+        }
+
+        switch (move) {
+            case 'direct':
+                mod.AIMoveToBehavior(player, pos)
+                break
+
+            case 'validated':
+                mod.AIValidatedMoveToBehavior(player, pos)
+                break
+        }
+
+        return null
+    }
+
+    /**
+     * Vehicle the bot drives (seat 0), if any.
+     */
+    static getDrivenVehicle(player: mod.Player): mod.Vehicle | null {
+        if (
+            !mod.GetSoldierState(player, mod.SoldierStateBool.IsInVehicle) ||
+            mod.GetPlayerVehicleSeat(player) !== 0
+        ) {
+            return null
+        }
+
+        return mod.GetVehicleFromPlayer(player)
+    }
+}
+
+/**
+ * CoreAI_SearchCommand:
+ * Searches for a lost enemy around its last known position.
+ *
+ * Moves to the position, then sweeps sweepPoints points on a circle of
+ * radius around it. Each leg ends on arrival or after legTimeoutMs.
+ * onDone runs only when the whole sweep completed uncancelled, i.e.
+ * the bot gave up.
+ *
+ * Each leg is the move target on the blacklist, so a leg the engine
+ * cannot reach blacklists that leg, not the searched position.
+ */
+export class CoreAI_SearchCommand implements CoreAI_Command {
+    private static readonly POLL_MS = 250
+
+    readonly name = 'search'
+
+    constructor(
+        private readonly player: mod.Player,
+        private readonly pos: mod.Vector,
+        private readonly moveBlacklist: CoreAI_MoveBlacklist,
+        private readonly onDone: () => void,
+        private readonly radius: number = 8,
+        private readonly sweepPoints: number = 4,
+        private readonly arriveDistance: number = 3,
+        private readonly legTimeoutMs: number = 10_000
+    ) {}
+
+    async run(token: CoreAI_CommandToken): Promise<void> {
+        for (const leg of this.getLegs()) {
+            if (token.isCancelled() || !mod.IsPlayerValid(this.player)) return
+
+            mod.AIValidatedMoveToBehavior(this.player, leg)
+            this.moveBlacklist.setTarget(leg)
+
+            await this.waitArrival(token, leg)
+        }
+
+        if (token.isCancelled()) return
+
+        this.onDone()
+    }
+
+    private getLegs(): mod.Vector[] {
+        const legs = [this.pos]
+
+        for (let i = 0; i < this.sweepPoints; i++) {
+            const angle = (2 * Math.PI * i) / this.sweepPoints
+            legs.push(
+                mod.CreateVector(
+                    mod.XComponentOf(this.pos) + Math.cos(angle) * this.radius,
+                    mod.YComponentOf(this.pos),
+                    mod.ZComponentOf(this.pos) + Math.sin(angle) * this.radius
+                )
+            )
+        }
+
+        return legs
+    }
+
+    private async waitArrival(
+        token: CoreAI_CommandToken,
+        leg: mod.Vector
+    ): Promise<void> {
+        const pollMs = CoreAI_SearchCommand.POLL_MS
+
+        for (let waited = 0; waited < this.legTimeoutMs; waited += pollMs) {
+            await mod.Wait(pollMs / 1000)
+            if (token.isCancelled() || !mod.IsPlayerValid(this.player)) return
+
+            const dist = mod.DistanceBetween(
+                mod.GetObjectPosition(this.player),
+                leg
+            )
+            if (dist <= this.arriveDistance) return
+        }
+    }
+}
+
+/**
+ * Why a weighted key could not win this tick.
+ */
+export type CoreAI_CandidateSkip =
+    /** Memory key empty */
+    | 'unset'
+    /** No target to act on */
+    | 'notActionable'
+    /** Target recently unreachable (ctx.moveBlacklist) */
+    | 'blacklisted'
+    /** Left too recently (commitment cooldown) */
+    | 'coolingDown'
+    /** Score <= 0 */
+    | 'nonPositive'
+
+export interface CoreAI_DecisionCandidate {
+    key: keyof CoreAI_MemoryFields
+
+    /** Score this tick (null if the key was skipped before scoring) */
+    score: number | null
+
+    skipped?: CoreAI_CandidateSkip
+}
+
+/**
+ * One behavior change made by the selector.
+ */
+export interface CoreAI_DecisionRecord {
+    /** Brain clock time (ms) */
+    time: number
+
+    key: keyof CoreAI_MemoryFields
+    behavior: string
+
+    /** Resolved target position (null for target-less behaviors) */
+    target: mod.Vector | null
+
+    previousKey: keyof CoreAI_MemoryFields | null
+    previousBehavior: string | null
+
+    /** 'best': highest score; 'commitment': held by dwell/margin/grace */
+    reason: 'best' | 'commitment'
+
+    candidates: CoreAI_DecisionCandidate[]
+}
+
+/**
+ * CoreAI_DecisionTrace
+ *
+ * Bounded per-brain history of selector decisions, oldest first.
+ * Read via CoreAI_Brain.getDecisionTrace().
+ */
+export class CoreAI_DecisionTrace {
+    private records: CoreAI_DecisionRecord[] = []
+
+    constructor(private capacity: number = 32) {}
+
+    push(record: CoreAI_DecisionRecord): void {
+        this.records.push(record)
+
+        if (this.records.length > this.capacity) {
+            this.records.splice(0, this.records.length - this.capacity)
+        }
+    }
+
+    getLast(): CoreAI_DecisionRecord | null {
+        return this.records[this.records.length - 1] ?? null
+    }
+
+    getAll(): readonly CoreAI_DecisionRecord[] {
+        return this.records
+    }
+
+    /**
+     * Records made at or after a brain clock time.
+     */
+    since(time: number): CoreAI_DecisionRecord[] {
+        return this.records.filter((r) => r.time >= time)
+    }
+
+    setCapacity(capacity: number): void {
+        this.capacity = Math.max(1, capacity)
+
+        if (this.records.length > this.capacity) {
+            this.records.splice(0, this.records.length - this.capacity)
+        }
+    }
+
+    clear(): void {
+        this.records = []
+    }
+}
+
+/**
+ * Decision commitment (hysteresis). All values default to 0 (off).
+ */
+export interface CoreAI_SelectorCommitment {
+    /** Minimum time (ms) on a winner before another key may take over */
+    minDwellMs?: number
+
+    /** Score a challenger must add over the current winner to take over */
+    switchMargin?: number
+
+    /** Time (ms) the current winner stays a candidate after its key drops */
+    graceMs?: number
+
+    /** Per-key time (ms) before a key may win again after losing */
+    cooldowns?: Partial<Record<keyof CoreAI_MemoryFields, number>>
+}
+
+export interface CoreAI_KeyedBehaviorProfile {
+    weights: Partial<Record<keyof CoreAI_MemoryFields, CoreAI_KeyScore>>
+    behaviors?: CoreAI_BehaviorBindings
+    commitment?: CoreAI_SelectorCommitment
+}
+
+/**
+ * CoreAI_BehaviorSelector
+ *
+ * Minimal selector:
+ * - Find the highest-scoring memory key that is currently set.
+ * - Run the engine behavior bound to that key.
+ *
+ * Scores:
+ * - A constant weight, or a utility score evaluated against the tick
+ *   context every tick (see CoreAI_evaluateScore).
+ * - Keys scoring <= 0 are not candidates.
+ * - Keys whose move target is on ctx.moveBlacklist are not candidates.
+ *
+ * Commitment:
+ * - The current winner holds for minDwellMs and keeps its last score
+ *   for graceMs after its key drops (TTL flicker).
+ * - A challenger must beat it by switchMargin.
+ * - A key that lost the decision is skipped for its cooldown.
+ *
+ * Bindings:
+ * - CoreAI_DEFAULT_BEHAVIOR_BINDINGS, overridden per key by the profile.
+ * - Keys without a binding (custom fields) move to the position their
+ *   value resolves to; keys that resolve no position are skipped.
+ *
+ * Notes:
+ * - Multi-step engine sequences (vehicle re-seat, search) run through the
+ *   brain's CoreAI_CommandQueue and are cancelled when a new behavior
+ *   is issued.
+ * - A search whose sweep completed is not actionable again for the same
+ *   position, so the bot gives up and falls back to the next key.
+ * - Every change of winning key or behavior is recorded in the
+ *   brain's CoreAI_DecisionTrace.
+ * - No behavior instances or TaskSelector.
+ * - It just picks one engine behavior per tick.
+ * - Avoids restarts unless the behavior or target changes:
+ *   positions within POS_EPSILON, the same waypoint path, and an
+ *   already running idle/battlefield/parachute count as unchanged.
+ */
+export class CoreAI_BehaviorSelector implements CoreAI_IBehaviorController {
+    private static readonly POS_EPSILON = 0.5
+    private static readonly FALLBACK_BINDING: CoreAI_BehaviorBinding = {
+        kind: 'moveto',
+    }
+
+    private cfg: CoreAI_KeyedBehaviorProfile
+    private bindings: CoreAI_BehaviorBindings = {}
+    private current: CoreAI_KeyedBehaviorKind | null = null
+    private currentKey: keyof CoreAI_MemoryFields | null = null
+    private currentScore = 0
+    private currentSeenAt = 0
+    private switchedAt = 0
+    private leftAt: Partial<Record<keyof CoreAI_MemoryFields, number>> = {}
+    private lastMoveToPos: mod.Vector | null = null
+    private lastDefendPos: mod.Vector | null = null
+    private lastPatrolPath: number | null = null
+    private moves: CoreAI_MoveIssuer = new CoreAI_MoveIssuer()
+    private lastSearchPos: mod.Vector | null = null
+    private searchedPos: mod.Vector | null = null
+    private candidates: CoreAI_DecisionCandidate[] = []
+    private reason: CoreAI_DecisionRecord['reason'] = 'best'
+
+    constructor(
+        profile: CoreAI_KeyedBehaviorProfile,
+        private readonly commands: CoreAI_CommandQueue = new CoreAI_CommandQueue(),
+        private readonly trace: CoreAI_DecisionTrace = new CoreAI_DecisionTrace()
+    ) {
+        this.cfg = profile
+        this.setBehaviors(profile.behaviors)
+    }
+
+    /**
+     * Update the weight table without resetting runtime state.
+     */
+    setWeights(weights: CoreAI_KeyedBehaviorProfile['weights']): void {
+        this.cfg = { ...this.cfg, weights }
+    }
+
+    /**
+     * Replace the per-key behavior bindings (merged over the defaults)
+     * without resetting runtime state.
+     */
+    setBehaviors(behaviors: CoreAI_BehaviorBindings = {}): void {
+        this.cfg = { ...this.cfg, behaviors }
+        this.bindings = { ...CoreAI_DEFAULT_BEHAVIOR_BINDINGS, ...behaviors }
+    }
+
+    /**
+     * Replace the commitment settings without resetting runtime state.
+     */
+    setCommitment(commitment: CoreAI_SelectorCommitment = {}): void {
+        this.cfg = { ...this.cfg, commitment }
+    }
+
+    /**
+     * Forget the current decision, commitment and cooldown timestamps
+     * (death or undeploy; memory.time restarts).
+     */
+    reset(): void {
+        this.current = null
+        this.currentKey = null
+        this.currentScore = 0
+        this.currentSeenAt = 0
+        this.switchedAt = 0
+        this.leftAt = {}
+        this.lastMoveToPos = null
+        this.lastDefendPos = null
+        this.lastPatrolPath = null
+        this.moves = new CoreAI_MoveIssuer()
+        this.lastSearchPos = null
+        this.searchedPos = null
+        this.candidates = []
+        this.reason = 'best'
+    }
+
+    /**
+     * Select and apply the active engine behavior for this tick.
+     */
+    update(ctx: CoreAI_TickContext): void {
+        const winner = this.getWinnerKey(ctx)
+        if (!winner) return
+
+        const binding = this.getBinding(winner)
+
+        const player = ctx.player
+        if (!mod.IsPlayerValid(player)) return
+
+        const previousKey = this.currentKey
+        const previousBehavior = this.current
+
+        this.commit(winner, ctx.time)
+        this.apply(ctx, winner, binding)
+
+        if (winner !== previousKey || this.current !== previousBehavior) {
+            this.trace.push({
+                time: ctx.time,
+                key: winner,
+                behavior: this.current ?? binding.kind,
+                target: this.resolveTargetPos(ctx, winner),
+                previousKey,
+                previousBehavior,
+                reason: this.reason,
+                candidates: this.candidates,
+            })
+        }
+    }
+
+    /**
+     * Issue the engine behavior bound to the winning key.
+     */
+    private apply(
+        ctx: CoreAI_TickContext,
+        winner: keyof CoreAI_MemoryFields,
+        binding: CoreAI_BehaviorBinding
+    ): void {
+        const player = ctx.player
+
+        switch (binding.kind) {
+            case 'battlefield': {
+                if (this.current === 'battlefield') {
+                    return
+                }
+
+                mod.AIBattlefieldBehavior(player)
+
+                this.markCurrent(ctx, binding.kind)
+                return
+            }
+
+            case 'idle': {
+                // Idle anchors at the position it was started from.
+                if (this.current === 'idle') {
+                    return
+                }
+
+                mod.AIIdleBehavior(player)
+
+                this.markCurrent(ctx, binding.kind)
+                return
+            }
+
+            case 'parachute': {
+                if (
+                    this.current === 'parachute' ||
+                    mod.GetSoldierState(
+                        player,
+                        mod.SoldierStateBool.IsParachuting
+                    )
+                ) {
+                    return
+                }
+
+                mod.AIParachuteBehavior(player)
+
+                this.markCurrent(ctx, binding.kind)
+                return
+            }
+
+            case 'patrol': {
+                const path = this.resolveWaypointPath(ctx, winner)
+                if (path === null) return
+
+                if (this.current === 'patrol' && this.lastPatrolPath === path) {
+                    return
+                }
+
+                mod.AIWaypointIdleBehavior(player, mod.GetWaypointPath(path))
+
+                this.markCurrent(ctx, binding.kind)
+                this.lastPatrolPath = path
+                return
+            }
+
+            case 'defend': {
+                const pos = this.resolveTargetPos(ctx, winner)
+                if (!pos) return
+
+                if (
+                    this.current === 'defend' &&
+                    this.lastDefendPos &&
+                    mod.DistanceBetween(this.lastDefendPos, pos) <=
+                        CoreAI_BehaviorSelector.POS_EPSILON
+                ) {
+                    return
+                }
+
+                mod.AIDefendPositionBehavior(
+                    player,
+                    pos,
+                    binding.minDistance ?? 2.0,
+                    binding.maxDistance ?? 8.0
+                )
+
+                this.markCurrent(ctx, binding.kind)
+                this.lastDefendPos = pos
+                ctx.moveBlacklist.setTarget(pos)
+                return
+            }
+
+            case 'losmoveto': {
+                const pos = this.resolveTargetPos(ctx, winner)
+                if (!pos) return
+
+                if (this.isSameMoveTo(binding.kind, pos)) {
+                    return
+                }
+
+                mod.AILOSMoveToBehavior(player, pos)
+
+                this.markCurrent(ctx, binding.kind)
+                this.lastMoveToPos = pos
+                ctx.moveBlacklist.setTarget(pos)
+                return
+            }
+
+            case 'moveto': {
+                const pos = this.resolveTargetPos(ctx, winner)
+                if (!pos) return
+
+                if (this.isSameMoveTo(binding.kind, pos)) {
+                    return
+                }
+
+                this.markCurrent(ctx, binding.kind)
+                this.lastMoveToPos = pos
+
+                this.moves.moveTo(ctx, pos, binding.move ?? 'validated')
+                return
+            }
+
+            case 'search': {
+                const pos = this.resolveTargetPos(ctx, winner)
+                if (!pos) return
+
+                if (
+                    this.current === 'search' &&
+                    this.lastSearchPos &&
+                    mod.DistanceBetween(this.lastSearchPos, pos) <=
+                        CoreAI_BehaviorSelector.POS_EPSILON
+                ) {
+                    return
+                }
+
+                this.markCurrent(ctx, binding.kind)
+                this.lastSearchPos = pos
+
+                this.commands.enqueue(
+                    new CoreAI_SearchCommand(
+                        player,
+                        pos,
+                        ctx.moveBlacklist,
+                        () => (this.searchedPos = pos),
+                        binding.searchRadius ?? 8,
+                        binding.sweepPoints ?? 4
+                    )
+                )
+                return
+            }
+        }
+    }
+
+    /**
+     * Set the running behavior and forget the previous behavior's target.
+     * Supersedes any queued engine sequence.
+     */
+    private markCurrent(
+        ctx: CoreAI_TickContext,
+        kind: CoreAI_KeyedBehaviorKind
+    ): void {
+        this.commands.cancelAll()
+        ctx.moveBlacklist.setTarget(null)
+
+        this.current = kind
+        this.lastMoveToPos = null
+        this.lastDefendPos = null
+        this.lastPatrolPath = null
+        this.lastSearchPos = null
+    }
+
+    /**
+     * True if the same move behavior already runs toward pos.
+     */
+    private isSameMoveTo(
+        kind: CoreAI_KeyedBehaviorKind,
+        pos: mod.Vector
+    ): boolean {
+        return (
+            this.current === kind &&
+            this.lastMoveToPos !== null &&
+            mod.DistanceBetween(this.lastMoveToPos, pos) <=
+                CoreAI_BehaviorSelector.POS_EPSILON
+        )
+    }
+
+    /**
+     * Pick the highest-scoring memory key that is currently set,
+     * then apply commitment against the current winner.
+     */
+    private getWinnerKey(
+        ctx: CoreAI_TickContext
+    ): keyof CoreAI_MemoryFields | null {
+        const commitment = this.cfg.commitment ?? {}
+        const current = this.currentKey
+
+        let bestKey: keyof CoreAI_MemoryFields | null = null
+        let bestScore = -Infinity
+        let currentScore: number | null = null
+
+        const candidates: CoreAI_DecisionCandidate[] = []
+        this.candidates = candidates
+        this.reason = 'best'
+
+        for (const key of Object.keys(this.cfg.weights) as Array<
+            keyof CoreAI_MemoryFields
+        >) {
+            if (!ctx.memory.has(key)) {
+                candidates.push({ key, score: null, skipped: 'unset' })
+                continue
+            }
+            if (!this.isActionable(ctx, key)) {
+                candidates.push({ key, score: null, skipped: 'notActionable' })
+                continue
+            }
+            if (this.isBlacklisted(ctx, key)) {
+                candidates.push({ key, score: null, skipped: 'blacklisted' })
+                continue
+            }
+            if (key !== current && this.isCoolingDown(key, ctx.time)) {
+                candidates.push({ key, score: null, skipped: 'coolingDown' })
+                continue
+            }
+
+            const score = CoreAI_evaluateScore(this.cfg.weights[key], ctx, key)
+            if (score <= 0) {
+                candidates.push({ key, score, skipped: 'nonPositive' })
+                continue
+            }
+
+            candidates.push({ key, score })
+
+            if (key === current) currentScore = score
+
+            if (score > bestScore) {
+                bestScore = score
+                bestKey = key
+            }
+        }
+
+        if (!current) return bestKey
+
+        if (currentScore !== null) {
+            this.currentScore = currentScore
+            this.currentSeenAt = ctx.time
+        } else if (ctx.time - this.currentSeenAt < (commitment.graceMs ?? 0)) {
+            // Key dropped out recently: keep competing with its last score.
+            currentScore = this.currentScore
+        }
+
+        if (bestKey === current) return current
+
+        this.reason = 'commitment'
+
+        if (ctx.time - this.switchedAt < (commitment.minDwellMs ?? 0)) {
+            // Hold; null leaves the running engine behavior untouched.
+            return currentScore !== null ? current : null
+        }
+
+        if (
+            currentScore !== null &&
+            (bestKey === null ||
+                bestScore < currentScore + (commitment.switchMargin ?? 0))
+        ) {
+            return current
+        }
+
+        this.reason = 'best'
+
+        return bestKey
+    }
+
+    /**
+     * Record a change of winner for dwell and cooldown tracking.
+     */
+    private commit(key: keyof CoreAI_MemoryFields, time: number): void {
+        if (key === this.currentKey) return
+
+        if (this.currentKey) this.leftAt[this.currentKey] = time
+
+        this.currentKey = key
+        this.currentSeenAt = time
+        this.switchedAt = time
+    }
+
+    /**
+     * True while a key that lost the decision is on cooldown.
+     */
+    private isCoolingDown(
+        key: keyof CoreAI_MemoryFields,
+        time: number
+    ): boolean {
+        const cooldown = this.cfg.commitment?.cooldowns?.[key] ?? 0
+        const leftAt = this.leftAt[key]
+        if (cooldown <= 0 || leftAt === undefined) return false
+
+        return time - leftAt < cooldown
+    }
+
+    /**
+     * A key can win only if its behavior can run now.
+     */
+    private isActionable(
+        ctx: CoreAI_TickContext,
+        key: keyof CoreAI_MemoryFields
+    ): boolean {
+        switch (this.getBinding(key).kind) {
+            case 'battlefield':
+            case 'idle':
+                return true
+
+            case 'parachute':
+                return (
+                    mod.GetSoldierState(
+                        ctx.player,
+                        mod.SoldierStateBool.IsInAir
+                    ) &&
+                    !mod.GetSoldierState(
+                        ctx.player,
+                        mod.SoldierStateBool.IsInVehicle
+                    )
+                )
+
+            case 'patrol':
+                return this.resolveWaypointPath(ctx, key) !== null
+
+            case 'search': {
+                const pos = this.resolveTargetPos(ctx, key)
+                return pos !== null && !this.wasSearched(pos)
+            }
+
+            default:
+                return this.resolveTargetPos(ctx, key) !== null
+        }
+    }
+
+    /**
+     * True if the key moves toward a target the engine recently failed
+     * to reach.
+     */
+    private isBlacklisted(
+        ctx: CoreAI_TickContext,
+        key: keyof CoreAI_MemoryFields
+    ): boolean {
+        switch (this.getBinding(key).kind) {
+            case 'moveto':
+            case 'losmoveto':
+            case 'defend':
+            case 'search': {
+                const pos = this.resolveTargetPos(ctx, key)
+                return (
+                    pos !== null &&
+                    ctx.moveBlacklist.isBlacklisted(pos, ctx.time)
+                )
+            }
+
+            default:
+                return false
+        }
+    }
+
+    /**
+     * True if a completed search already swept pos.
+     */
+    private wasSearched(pos: mod.Vector): boolean {
+        return (
+            this.searchedPos !== null &&
+            mod.DistanceBetween(this.searchedPos, pos) <=
+                CoreAI_BehaviorSelector.POS_EPSILON
+        )
+    }
+
+    /**
+     * Binding for a memory key (profile, default, or fallback).
+     */
+    private getBinding(key: keyof CoreAI_MemoryFields): CoreAI_BehaviorBinding {
+        return this.bindings[key] ?? CoreAI_BehaviorSelector.FALLBACK_BINDING
+    }
+
+    /**
+     * Resolve a target position for moveto/losmoveto/defend/search behavior.
+     */
+    private resolveTargetPos(
+        ctx: CoreAI_TickContext,
+        key: keyof CoreAI_MemoryFields
+    ): mod.Vector | null {
+        const target =
+            this.getBinding(key).target ?? CoreAI_BehaviorTargets.auto
+        return target(ctx, key)
+    }
+
+    /**
+     * Resolve a waypoint path number for patrol behavior.
+     */
+    private resolveWaypointPath(
+        ctx: CoreAI_TickContext,
+        key: keyof CoreAI_MemoryFields
+    ): number | null {
+        const path = this.getBinding(key).waypointPath
+        if (path !== undefined) return path
+
+        const value = ctx.memory.get(key) as unknown
+        return typeof value === 'number' ? value : null
+    }
+
+    /**
+     * Expose the current engine behavior label (for debug/UI).
+     */
+    getCurrent(): CoreAI_KeyedBehaviorKind | null {
+        return this.current
+    }
+
+    /**
+     * Expose the memory key that currently owns the decision.
+     */
+    getCurrentKey(): keyof CoreAI_MemoryFields | null {
+        return this.currentKey
+    }
+}
+
+/**
+ * Per-key score: a constant weight or a utility score.
+ */
+export type CoreAI_BaseSoldierWeights = Partial<
+    Record<keyof CoreAI_MemoryFields, CoreAI_KeyScore>
+>
+
+/**
+ * BaseSoldier
+ *
+ * Holds sensor config, baseline memory weights, per-key behavior
+ * bindings, selector commitment and custom memory fields.
+ *
+ * controller: optional decision runtime used instead of the behavior
+ * selector (e.g. () => new CoreAI_GoapController({...})).
+ *
+ * targetPolicy: enemy the bot aims at (default:
+ * CoreAI_TargetPolicies.attackerFirst).
+ */
+export class CoreAI_BaseSoldier {
+    public sensors: CoreAI_SensorOptions
+    public weights: CoreAI_BaseSoldierWeights
+    public behaviors: CoreAI_BehaviorBindings
+    public memory: CoreAI_MemoryDefaults
+    public commitment: CoreAI_SelectorCommitment
+    public controller: CoreAI_BehaviorControllerFactory | null
+    public targetPolicy: CoreAI_TargetPolicy | null
+
+    constructor(
+        args: {
+            sensors?: CoreAI_SensorOptions
+            weights?: CoreAI_BaseSoldierWeights
+            behaviors?: CoreAI_BehaviorBindings
+            memory?: CoreAI_MemoryDefaults
+            commitment?: CoreAI_SelectorCommitment
+            controller?: CoreAI_BehaviorControllerFactory
+            targetPolicy?: CoreAI_TargetPolicy
+        } = {}
+    ) {
+        this.sensors = args.sensors ?? {}
+        this.weights = args.weights ?? {}
+        this.behaviors = args.behaviors ?? {}
+        this.memory = args.memory ?? {}
+        this.commitment = args.commitment ?? {}
+        this.controller = args.controller ?? null
+        this.targetPolicy = args.targetPolicy ?? null
+    }
+
+    static default(): CoreAI_BaseSoldier {
+        return new CoreAI_BaseSoldier({
+            weights: {
+                retreatPos: 110,
+                isInBattle: 100,
+                mcomDefuse: 95,
+                vehicleToDrive: 90,
+                lastAttacker: 85,
+                closestEnemy: 80,
+                lastAttackerPos: 75,
+                mcomAttack: 72,
+                capturePoint: 70,
+                mcomDefend: 65,
+                arrivedPos: 60,
+                investigatePos: 50,
+                searchPos: 40,
+                roamPos: 30,
+            },
+            commitment: {
+                minDwellMs: 1000,
+                graceMs: 1500,
+            },
+        })
+    }
+}
+
+/**
+ * ClosestEnemySensor:
+ * Detects the closest visible enemy and writes raw data into memory.
+ *
+ * Writes:
+ * - memory.closestEnemy
+ * - memory.roamPos
+ *
+ * Notes:
+ * - No POIs are created.
+ * - No behaviors are spawned.
+ * - TaskSelector evaluates this memory to decide behavior.
+ */
+export class CoreAI_ClosestEnemySensor extends CoreAI_ASensor {
+    constructor(
+        private readonly sensitivity: number = 1,
+        intervalMs: number = 2000,
+        private readonly ttlMs: number = 8000 // parametric TTL
+    ) {
+        super(intervalMs)
+    }
+
+    protected update(ctx: CoreAI_TickContext): void {
+        const player = ctx.player
+        if (!mod.IsPlayerValid(player)) return
+
+        const myPos = mod.GetObjectPosition(player)
+
+        // Find closest enemy (any hostile team)
+        const newEnemy = ctx.teams.getClosestEnemy(player, myPos)
+        if (!newEnemy) {
+            // Clear enemy memory (TTL = immediate)
+            ctx.memory.set('closestEnemy', null)
+            return
+        }
+
+        // Same enemy -> nothing to update
+        if (ctx.memory.get('closestEnemy') === newEnemy) {
+            return
+        }
+
+        // Probabilistic detection
+        const enemyPos = mod.GetObjectPosition(newEnemy)
+
+        const dist = mod.DistanceBetween(myPos, enemyPos)
+        const prob = Math.exp(-0.12 * dist * (1.0 / this.sensitivity))
+        if (ctx.random.next() > prob) return
+
+        // Write memory with TTL
+        ctx.memory.set('closestEnemy', newEnemy, this.ttlMs)
+    }
+}
+
+interface CoreAI_VisionTrack {
+    enemy: mod.Player
+    awareness: number
+    lastSeen: number
+}
+
+/**
+ * VisionSensor:
+ * Detects enemies in a view cone with line-of-sight confirmation.
+ *
+ * Writes:
+ * - memory.closestEnemy (closest fully detected enemy)
+ *
+ * Detection:
+ * - Enemy must be inside fovDeg around the facing direction, or within
+ *   nearDistance (peripheral awareness), and within maxDistance.
+ * - Each update casts one ray per candidate (ctx.rayCasts); a hit on
+ *   the enemy or a clear miss confirms line of sight for losMemoryMs.
+ * - Awareness (0..1) builds while the enemy is seen and decays
+ *   otherwise; the enemy is detected at 1.
+ * - Build-up rate depends on distance band (near/mid/far), view angle
+ *   and target stance, speed and firing.
+ *
+ * Notes:
+ * - Replaces the distance coin-flip of ClosestEnemySensor.
+ * - No behaviors spawned.
+ */
+export class CoreAI_VisionSensor extends CoreAI_ASensor {
+    private static readonly HIT_TOLERANCE = 0.6
+    private static readonly RAY_OVERSHOOT = 0.5
+
+    private tracks: Map<number, CoreAI_VisionTrack> = new Map()
+    private lastSampleAt: number | null = null
+
+    constructor(
+        intervalMs: number = 250,
+        private readonly ttlMs: number = 8000,
+        private readonly fovDeg: number = 120,
+        private readonly nearDistance: number = 8,
+        private readonly midDistance: number = 40,
+        private readonly maxDistance: number = 120,
+        private readonly detectionRate: number = 1, // awareness per second (mid band)
+        private readonly decayRate: number = 0.25, // awareness per second
+        private readonly losMemoryMs: number = 1000
+    ) {
+        super(intervalMs)
+    }
+
+    protected update(ctx: CoreAI_TickContext): void {
+        const player = ctx.player
+        if (!mod.IsPlayerValid(player)) return
+
+        const dt =
+            this.lastSampleAt === null
+                ? 0
+                : (ctx.time - this.lastSampleAt) / 1000
+        this.lastSampleAt = ctx.time
+
+        const eye = mod.GetSoldierState(
+            player,
+            mod.SoldierStateVector.EyePosition
+        )
+        const facing = mod.GetSoldierState(
+            player,
+            mod.SoldierStateVector.GetFacingDirection
+        )
+        const seen = new Set<number>()
+
+        for (const p of ctx.teams.getEnemies(player)) {
+            const id = mod.GetObjId(p)
+            const enemyEye = mod.GetSoldierState(
+                p,
+                mod.SoldierStateVector.EyePosition
+            )
+
+            const dist = mod.DistanceBetween(eye, enemyEye)
+            if (dist > this.maxDistance) continue
+
+            const dir = mod.DirectionTowards(eye, enemyEye)
+            const angle = mod.AngleBetweenVectors(facing, dir)
+            const halfFov = this.fovDeg / 2
+            if (angle > halfFov && dist > this.nearDistance) continue
+
+            let track = this.tracks.get(id)
+            if (!track) {
+                track = {
+                    enemy: p,
+                    awareness: 0,
+                    lastSeen: -Infinity,
+                }
+                this.tracks.set(id, track)
+            }
+            seen.add(id)
+
+            // Ray slightly past the eye so it intersects the enemy.
+            const seenTrack = track
+            ctx.rayCasts.cast(
+                eye,
+                mod.Add(
+                    enemyEye,
+                    mod.Multiply(dir, CoreAI_VisionSensor.RAY_OVERSHOOT)
+                ),
+                (result) => {
+                    if (
+                        result.outcome === 'miss' ||
+                        (result.outcome === 'hit' &&
+                            result.point &&
+                            mod.DistanceBetween(result.point, enemyEye) <=
+                                CoreAI_VisionSensor.HIT_TOLERANCE)
+                    ) {
+                        seenTrack.lastSeen = result.time
+                    }
+                },
+                p
+            )
+
+            if (ctx.time - track.lastSeen > this.losMemoryMs) {
+                this.decay(track, dt)
+                continue
+            }
+
+            const rate =
+                this.detectionRate *
+                this.bandFactor(dist) *
+                this.angleFactor(angle, halfFov) *
+                this.targetFactor(p)
+
+            track.awareness = Math.min(1, track.awareness + rate * dt)
+        }
+
+        for (const [id, track] of this.tracks) {
+            if (seen.has(id)) continue
+
+            this.decay(track, dt)
+        }
+
+        this.writeClosestDetected(ctx, eye)
+    }
+
+    /**
+     * Awareness of an enemy (0..1), for debug/UI and custom selection.
+     */
+    getAwareness(enemy: mod.Player): number {
+        return this.tracks.get(mod.GetObjId(enemy))?.awareness ?? 0
+    }
+
+    override reset(): void {
+        super.reset()
+        this.tracks.clear()
+        this.lastSampleAt = null
+    }
+
+    private writeClosestDetected(
+        ctx: CoreAI_TickContext,
+        eye: mod.Vector
+    ): void {
+        let best: mod.Player | null = null
+        let bestDist = Infinity
+
+        for (const [id, track] of this.tracks) {
+            if (
+                !mod.IsPlayerValid(track.enemy) ||
+                !mod.GetSoldierState(track.enemy, mod.SoldierStateBool.IsAlive)
+            ) {
+                this.tracks.delete(id)
+                continue
+            }
+
+            if (track.awareness < 1) continue
+
+            const dist = mod.DistanceBetween(
+                eye,
+                mod.GetSoldierState(
+                    track.enemy,
+                    mod.SoldierStateVector.EyePosition
+                )
+            )
+            if (dist < bestDist) {
+                bestDist = dist
+                best = track.enemy
+            }
+        }
+
+        if (!best) return
+
+        ctx.memory.set('closestEnemy', best, this.ttlMs)
+    }
+
+    private decay(track: CoreAI_VisionTrack, dt: number): void {
+        track.awareness = Math.max(0, track.awareness - this.decayRate * dt)
+    }
+
+    private bandFactor(dist: number): number {
+        if (dist <= this.nearDistance) return 4
+        if (dist <= this.midDistance) return 1
+        return 0.35
+    }
+
+    /** 1 at the center of view, 0.5 at the cone edge */
+    private angleFactor(angle: number, halfFov: number): number {
+        return 1 - 0.5 * Math.min(1, angle / halfFov)
+    }
+
+    private targetFactor(enemy: mod.Player): number {
+        let f = 1
+
+        if (mod.GetSoldierState(enemy, mod.SoldierStateBool.IsProne)) {
+            f *= 0.4
+        } else if (
+            mod.GetSoldierState(enemy, mod.SoldierStateBool.IsCrouching)
+        ) {
+            f *= 0.7
+        }
+
+        const speed = mod.GetSoldierState(enemy, mod.SoldierStateNumber.Speed)
+        if (
+            speed > 4 ||
+            mod.GetSoldierState(enemy, mod.SoldierStateBool.IsSprinting)
+        ) {
+            f *= 1.5
+        }
+
+        if (mod.GetSoldierState(enemy, mod.SoldierStateBool.IsFiring)) {
+            f *= 2.5
+        }
+
+        return f
+    }
+}
+
+/**
+ * What one attacker did to the bot.
+ */
+export interface CoreAI_Threat {
+    attacker: mod.Player
+
+    /** Attacker position at the last hit */
+    position: mod.Vector
+
+    damageType: mod.DamageType
+    weaponUnlock: mod.WeaponUnlock
+
+    /** Health lost to this attacker since it was first remembered */
+    totalDamage: number
+    hits: number
+
+    /** Brain clock time (ms) of the last hit */
+    lastHitAt: number
+}
+
+/**
+ * ThreatSensor:
+ * Remembers who damaged the bot and from where.
+ *
+ * Writes:
+ * - memory.lastAttacker (most dangerous live attacker: highest damage
+ *   among the recently remembered ones)
+ * - memory.lastAttackerPos (where that attacker hit from)
+ *
+ * Notes:
+ * - Fed by OnPlayerDamaged; damage is the health drop since the
+ *   previous sample, since the event carries no amount.
+ * - Friendly fire and self damage are ignored (ctx.teams).
+ * - Attackers are forgotten forgetMs after their last hit.
+ * - CoreAI_SetTargetAction prefers lastAttacker over closestEnemy.
+ */
+export class CoreAI_ThreatSensor extends CoreAI_ASensor {
+    private threats: Map<number, CoreAI_Threat> = new Map()
+    private lastHealth: number | null = null
+
+    constructor(
+        intervalMs: number = 500,
+        private readonly ttlMs: number = 6000,
+        private readonly forgetMs: number = 15000
+    ) {
+        super(intervalMs)
+    }
+
+    protected update(ctx: CoreAI_TickContext): void {
+        const player = ctx.player
+        if (!mod.IsPlayerValid(player)) return
+
+        this.lastHealth = this.readHealth(player)
+
+        for (const [id, threat] of this.threats) {
+            if (ctx.time - threat.lastHitAt > this.forgetMs) {
+                this.threats.delete(id)
+            }
+        }
+
+        const current = ctx.memory.get('lastAttacker')
+        if (current && !this.isAlive(current)) {
+            ctx.memory.set('lastAttacker', null)
+        }
+    }
+
+    override OnPlayerDamaged(
+        ctx: CoreAI_TickContext,
+        eventOtherPlayer: mod.Player,
+        eventDamageType: mod.DamageType,
+        eventWeaponUnlock: mod.WeaponUnlock
+    ): void {
+        const player = ctx.player
+        if (!mod.IsPlayerValid(player)) return
+
+        const health = this.readHealth(player)
+        const damage = Math.max(0, (this.lastHealth ?? health) - health)
+        this.lastHealth = health
+
+        if (!this.isAlive(eventOtherPlayer)) return
+        if (!ctx.teams.isHostile(player, eventOtherPlayer)) return
+
+        const id = mod.GetObjId(eventOtherPlayer)
+        const position = mod.GetObjectPosition(eventOtherPlayer)
+
+        let threat = this.threats.get(id)
+        if (!threat) {
+            threat = {
+                attacker: eventOtherPlayer,
+                position,
+                damageType: eventDamageType,
+                weaponUnlock: eventWeaponUnlock,
+                totalDamage: 0,
+                hits: 0,
+                lastHitAt: ctx.time,
+            }
+            this.threats.set(id, threat)
+        }
+
+        threat.position = position
+        threat.damageType = eventDamageType
+        threat.weaponUnlock = eventWeaponUnlock
+        threat.totalDamage += damage
+        threat.hits++
+        threat.lastHitAt = ctx.time
+
+        const primary = this.getPrimaryThreat()
+        if (!primary) return
+
+        ctx.memory.set('lastAttacker', primary.attacker, this.ttlMs)
+        ctx.memory.set('lastAttackerPos', primary.position, this.ttlMs)
+    }
+
+    /**
+     * Remembered attackers (for debug/UI and custom selection).
+     */
+    getThreats(): CoreAI_Threat[] {
+        return [...this.threats.values()]
+    }
+
+    /**
+     * Health lost to an attacker while it is remembered.
+     */
+    getDamageFrom(attacker: mod.Player): number {
+        return this.threats.get(mod.GetObjId(attacker))?.totalDamage ?? 0
+    }
+
+    override reset(): void {
+        super.reset()
+        this.threats.clear()
+        this.lastHealth = null
+    }
+
+    private getPrimaryThreat(): CoreAI_Threat | null {
+        let best: CoreAI_Threat | null = null
+
+        for (const threat of this.threats.values()) {
+            if (!this.isAlive(threat.attacker)) continue
+
+            if (
+                !best ||
+                threat.totalDamage > best.totalDamage ||
+                (threat.totalDamage === best.totalDamage &&
+                    threat.lastHitAt > best.lastHitAt)
+            ) {
+                best = threat
+            }
+        }
+
+        return best
+    }
+
+    private readHealth(player: mod.Player): number {
+        return mod.GetSoldierState(player, mod.SoldierStateNumber.CurrentHealth)
+    }
+
+    private isAlive(player: mod.Player): boolean {
+        return (
+            mod.IsPlayerValid(player) &&
+            mod.GetSoldierState(player, mod.SoldierStateBool.IsAlive)
+        )
+    }
+}
+
+/**
+ * Last known state of one enemy.
+ */
+export interface CoreAI_EnemyTrack {
+    enemy: mod.Player
+    position: mod.Vector
+    velocity: mod.Vector
+
+    /** Brain clock time (ms) the enemy was last seen */
+    lastSeen: number
+}
+
+/**
+ * CoreAI_EnemyTracks
+ *
+ * Last-known-position store for spotted enemies.
+ *
+ * Responsibilities:
+ * - observe() refreshes an enemy's position, velocity and lastSeen.
+ * - Confidence is 1 while the enemy is seen and decays linearly to 0
+ *   over forgetMs; tracks at 0 or of dead enemies are pruned.
+ * - getLastKnownPosition() extrapolates along the last velocity
+ *   (capped at predictMs) to where the enemy probably went.
+ */
+export class CoreAI_EnemyTracks {
+    private tracks: Map<number, CoreAI_EnemyTrack> = new Map()
+
+    constructor(
+        private readonly forgetMs: number = 20_000,
+        private readonly predictMs: number = 2000
+    ) {}
+
+    observe(enemy: mod.Player, time: number): CoreAI_EnemyTrack {
+        const id = mod.GetObjId(enemy)
+
+        const track: CoreAI_EnemyTrack = {
+            enemy,
+            position: mod.GetObjectPosition(enemy),
+            velocity: mod.GetSoldierState(
+                enemy,
+                mod.SoldierStateVector.GetLinearVelocity
+            ),
+            lastSeen: time,
+        }
+        this.tracks.set(id, track)
+
+        return track
+    }
+
+    get(enemy: mod.Player): CoreAI_EnemyTrack | undefined {
+        return this.tracks.get(mod.GetObjId(enemy))
+    }
+
+    getAll(): CoreAI_EnemyTrack[] {
+        return [...this.tracks.values()]
+    }
+
+    /** 1 when just seen, 0 once forgotten */
+    getConfidence(track: CoreAI_EnemyTrack, time: number): number {
+        return Math.max(0, 1 - (time - track.lastSeen) / this.forgetMs)
+    }
+
+    getLastKnownPosition(track: CoreAI_EnemyTrack): mod.Vector {
+        return mod.Add(
+            track.position,
+            mod.Multiply(track.velocity, this.predictMs / 1000)
+        )
+    }
+
+    /**
+     * Most confident track not seen at `time`, or null.
+     */
+    getBestLost(
+        time: number,
+        minConfidence: number = 0
+    ): CoreAI_EnemyTrack | null {
+        let best: CoreAI_EnemyTrack | null = null
+        let bestConfidence = minConfidence
+
+        for (const track of this.tracks.values()) {
+            if (track.lastSeen >= time) continue
+
+            const confidence = this.getConfidence(track, time)
+            if (confidence > bestConfidence) {
+                bestConfidence = confidence
+                best = track
+            }
+        }
+
+        return best
+    }
+
+    prune(time: number): void {
+        for (const [id, track] of this.tracks) {
+            if (
+                this.getConfidence(track, time) <= 0 ||
+                !mod.IsPlayerValid(track.enemy) ||
+                !mod.GetSoldierState(track.enemy, mod.SoldierStateBool.IsAlive)
+            ) {
+                this.tracks.delete(id)
+            }
+        }
+    }
+
+    clear(): void {
+        this.tracks.clear()
+    }
+}
+
+/**
+ * EnemyTrackSensor:
+ * Keeps last known positions of enemies the bot sees and points the
+ * bot at where a lost enemy probably went.
+ *
+ * Reads:
+ * - memory.knownEnemies entries with visible set (EnemyListSensor)
+ *
+ * Writes:
+ * - memory.searchPos (last known position of the most confident lost
+ *   enemy; null while an enemy is known or once confidence drops
+ *   below minConfidence)
+ *
+ * Notes:
+ * - Only enemies in sight right now are tracked: memory-held enemies
+ *   (closestEnemy, lastAttacker) would leak their true position.
+ * - Bind searchPos to the 'search' behavior (default binding) to move
+ *   there and sweep around before giving up.
+ * - Tracks are available through getTracks() (debug/custom).
+ */
+export class CoreAI_EnemyTrackSensor extends CoreAI_ASensor {
+    private readonly tracks: CoreAI_EnemyTracks
+
+    constructor(
+        intervalMs: number = 500,
+        forgetMs: number = 20_000,
+        predictMs: number = 2000,
+        private readonly minConfidence: number = 0.25
+    ) {
+        super(intervalMs)
+        this.tracks = new CoreAI_EnemyTracks(forgetMs, predictMs)
+    }
+
+    protected update(ctx: CoreAI_TickContext): void {
+        const player = ctx.player
+        if (!mod.IsPlayerValid(player)) return
+
+        let seen = false
+        for (const known of ctx.memory.get('knownEnemies') ?? []) {
+            const enemy = known.enemy
+            if (!known.visible || !mod.IsPlayerValid(enemy)) continue
+            if (!mod.GetSoldierState(enemy, mod.SoldierStateBool.IsAlive)) {
+                continue
+            }
+
+            this.tracks.observe(enemy, ctx.time)
+            seen = true
+        }
+
+        this.tracks.prune(ctx.time)
+
+        const lost = seen
+            ? null
+            : this.tracks.getBestLost(ctx.time, this.minConfidence)
+        if (!lost) {
+            ctx.memory.set('searchPos', null)
+            return
+        }
+
+        ctx.memory.set('searchPos', this.tracks.getLastKnownPosition(lost))
+    }
+
+    getTracks(): CoreAI_EnemyTracks {
+        return this.tracks
+    }
+
+    override reset(): void {
+        super.reset()
+        this.tracks.clear()
+    }
+}
+
+/**
+ * VehicleToDriveSensor:
+ * Finds the closest vehicle with a free driver seat within radius.
+ *
+ * Writes:
+ * - memory.vehicleToDrive
+ */
+export class CoreAI_VehicleToDriveSensor extends CoreAI_ASensor {
+    constructor(
+        private readonly radius: number = 30,
+        intervalMs: number = 1000,
+        private readonly ttlMs: number = 3000
+    ) {
+        super(intervalMs)
+    }
+
+    protected update(ctx: CoreAI_TickContext): void {
+        const player = ctx.player
+        if (!mod.IsPlayerValid(player)) return
+        if (mod.GetSoldierState(player, mod.SoldierStateBool.IsInVehicle)) {
+            ctx.memory.set('vehicleToDrive', null)
+            return
+        }
+
+        const myPos = mod.GetObjectPosition(player)
+
+        const vehicles = mod.AllVehicles()
+        const count = mod.CountOf(vehicles)
+
+        let closest: mod.Vehicle | null = null
+        let closestDist = Infinity
+
+        for (let i = 0; i < count; i++) {
+            const v = mod.ValueInArray(vehicles, i) as mod.Vehicle
+
+            if (mod.IsVehicleSeatOccupied(v, 0)) {
+                continue
+            }
+
+            const vPos = mod.GetVehicleState(
+                v,
+                mod.VehicleStateVector.VehiclePosition
+            )
+            const dist = mod.DistanceBetween(myPos, vPos)
+            if (dist > this.radius) continue
+
+            if (dist < closestDist) {
+                closestDist = dist
+                closest = v
+            }
+        }
+
+        if (closest) {
+            ctx.memory.set('vehicleToDrive', closest, this.ttlMs)
+        } else {
+            ctx.memory.set('vehicleToDrive', null)
+        }
+    }
+}
+
+/**
+ * ArrivalSensor:
+ *
+ * Detects when AI arrives inside ONE OR MORE special semantic points:
+ * - defend positions
+ * - objective markers
+ * - interact zones
+ * - rally points
+ *
+ * This DOES NOT handle MoveTo arrival.
+ * MoveToSensor handles movement arrival internally.
+ *
+ * This sensor is for high-level AI logic only.
+ */
+export class CoreAI_ArrivalSensor extends CoreAI_ASensor {
+    private lastTriggerTime = 0
+
+    constructor(
+        private readonly getPoints: () => mod.Vector[],
+        intervalMs: number = 500,
+        private readonly distanceThreshold: number = 3.0, // arrival radius
+        private readonly ttl: number = 2000, // arrival memory duration
+        private readonly cooldownMs: number = 4000 // prevent spam-triggering
+    ) {
+        super(intervalMs)
+    }
+
+    protected update(ctx: CoreAI_TickContext): void {
+        const memory = ctx.memory
+        const player = ctx.player
+
+        if (!mod.IsPlayerValid(player)) return
+
+        const now = ctx.time
+        const myPos = mod.GetObjectPosition(player)
+
+        const points = this.getPoints()
+        if (!points || points.length === 0) return
+
+        // ------------------------------------------------------------
+        // Cooldown - do not retrigger too frequently
+        // ------------------------------------------------------------
+        if (this.lastTriggerTime > 0) {
+            if (now - this.lastTriggerTime < this.cooldownMs) {
+                return
+            }
+        }
+
+        // ------------------------------------------------------------
+        // Only detect new arrival if arrival memory expired
+        // ------------------------------------------------------------
+        if (memory.get('arrivedPos')) {
+            return
+        }
+
+        // ------------------------------------------------------------
+        // MAIN ARRIVAL CHECK
+        // ------------------------------------------------------------
+        for (const p of points) {
+            const dist = mod.DistanceBetween(myPos, p)
+
+            if (dist <= this.distanceThreshold) {
+                // AI arrived to a special semantic point
+                memory.set('arrivedPos', p, this.ttl)
+                this.lastTriggerTime = now
+                return
+            }
+        }
+    }
+}
+
+/**
+ * RoamSensor:
+ * Picks a movement target from a list of points.
+ *
+ * Design:
+ * - Direction-driven, no historical recents.
+ * - While moving, backward targets are forbidden.
+ * - Velocity is preferred when speed > threshold.
+ * - Intent direction stabilizes steering across replans.
+ * - Points on ctx.moveBlacklist (recently unreachable) are skipped.
+ */
+export class CoreAI_RoamSensor extends CoreAI_ASensor {
+    private readonly ttlMs: number
+
+    private coldStart: boolean = true
+
+    // Cached movement intent direction
+    private lastIntentDir: mod.Vector | null = null
+
+    constructor(
+        private readonly getPoints: () => mod.Vector[],
+        intervalMs: number = 750,
+        ttlMs: number = 2000
+    ) {
+        super(intervalMs)
+        this.ttlMs = ttlMs
+    }
+
+    override reset(): void {
+        this.coldStart = true
+        this.lastIntentDir = null
+    }
+
+    protected update(ctx: CoreAI_TickContext): void {
+        // Do not reselect while intent exists
+        if (ctx.memory.get('roamPos')) {
+            return
+        }
+
+        const player = ctx.player
+        if (!mod.IsPlayerValid(player)) return
+
+        const points = this.getPoints()
+        if (!points || points.length === 0) return
+
+        const myPos = mod.GetObjectPosition(player)
+
+        // ------------------------------------------------------------
+        // Resolve forward direction
+        // ------------------------------------------------------------
+
+        const speed = mod.GetSoldierState(player, mod.SoldierStateNumber.Speed)
+
+        let forward: mod.Vector | null = null
+
+        // 1. True movement direction
+        if (speed > 0.3) {
+            const vel = mod.GetSoldierState(
+                player,
+                mod.SoldierStateVector.GetLinearVelocity
+            )
+            const lenSq = mod.DotProduct(vel, vel)
+
+            if (lenSq > 0.1) {
+                forward = mod.Normalize(vel)
+                this.lastIntentDir = forward
+            }
+        }
+
+        // 2. Cached intent
+        if (!forward && this.lastIntentDir) {
+            forward = this.lastIntentDir
+        }
+
+        // 3. Facing fallback
+        if (!forward) {
+            const face = mod.GetSoldierState(
+                player,
+                mod.SoldierStateVector.GetFacingDirection
+            )
+            forward = mod.Normalize(face)
+            this.lastIntentDir = forward
+        }
+
+        // ------------------------------------------------------------
+        // Build candidates
+        // ------------------------------------------------------------
+
+        const candidates: {
+            pos: mod.Vector
+            dist: number
+            dot: number
+        }[] = []
+
+        const ARRIVAL_EXCLUDE_DIST = 3.0
+
+        for (const pos of points) {
+            const dist = mod.DistanceBetween(myPos, pos)
+
+            // Already here, do not reselect
+            if (dist < ARRIVAL_EXCLUDE_DIST) {
+                continue
+            }
+
+            // Recently unreachable
+            if (ctx.moveBlacklist.isBlacklisted(pos, ctx.time)) {
+                continue
+            }
+
+            const dir = mod.DirectionTowards(myPos, pos)
+            const dot = mod.DotProduct(forward, dir)
+
+            candidates.push({ pos, dist, dot })
+        }
+
+        if (candidates.length === 0) return
+
+        // ------------------------------------------------------------
+        // While moving, forbid backward choices
+        // ------------------------------------------------------------
+
+        let usable = candidates
+
+        if (speed > 0.5) {
+            usable = candidates.filter((c) => c.dot > 0)
+        }
+
+        if (usable.length === 0) return
+
+        // ------------------------------------------------------------
+        // Pick best candidate
+        // ------------------------------------------------------------
+
+        let best = usable[0]
+        let bestScore = -Infinity
+
+        for (const c of usable) {
+            const score = this.scoreCandidate(c, ctx.random)
+            if (score > bestScore) {
+                bestScore = score
+                best = c
+            }
+        }
+
+        // ------------------------------------------------------------
+        // Commit
+        // ------------------------------------------------------------
+
+        ctx.memory.set('roamPos', best.pos, this.ttlMs)
+        this.lastIntentDir = mod.DirectionTowards(myPos, best.pos)
+        this.coldStart = false
+    }
+
+    private scoreCandidate(
+        c: {
+            pos: mod.Vector
+            dist: number
+            dot: number
+        },
+        random: CoreAI_IRandom
+    ): number {
+        // Distance band scoring
+        let distScore = 0
+        if (c.dist <= 15) {
+            distScore = c.dist / 15
+        } else if (c.dist <= 40) {
+            distScore = 1
+        } else {
+            const over = c.dist - 40
+            distScore = over >= 20 ? 0 : 1 - over / 20
+        }
+
+        const dirScore = Math.max(0, c.dot)
+
+        const jitterMax = this.coldStart ? 0.8 : 0.4
+        const jitter = random.next() * jitterMax
+
+        return distScore * 0.7 + dirScore * 0.3 + jitter
+    }
+}
+
+/**
+ * MoveToCapturePointSensor
+ *
+ * Purpose:
+ * - Selects a movement target from a set of capture points.
+ * - Chooses only capture points not owned by the player's team.
+ * - Skips capture points on ctx.moveBlacklist (recently unreachable).
+ *
+ * Behavior:
+ * - Evaluates distance to all valid capture points.
+ * - Keeps the two closest candidates.
+ * - Randomly selects between the closest and second-closest target
+ *   to reduce AI clustering.
+ *
+ * Memory:
+ * - Writes `roamPos` intent with a TTL.
+ * - Does not reselect while a valid `roamPos` intent exists.
+ *
+ * Notes:
+ * - No pathfinding or movement logic (sensor-only).
+ * - Selection is distance-based only; higher-level pressure or
+ *   role-based logic can be layered later.
+ */
+export class CoreAI_CapturePointMoveToSensor extends CoreAI_ASensor {
+    private readonly ttlMs: number
+
+    constructor(
+        private readonly getCapturePoints: () => mod.CapturePoint[],
+        intervalMs: number = 750,
+        ttlMs: number = 6000
+    ) {
+        super(intervalMs)
+        this.ttlMs = ttlMs
+    }
+
+    override reset(): void {}
+
+    protected update(ctx: CoreAI_TickContext): void {
+        const player = ctx.player
+        if (!mod.IsPlayerValid(player)) return
+
+        // Do not reselect while intent exists
+        if (ctx.memory.get('roamPos')) return
+
+        const capturePoints = this.getCapturePoints()
+        if (!capturePoints || capturePoints.length === 0) return
+
+        // ------------------------------------------------------------
+        //
+        // ------------------------------------------------------------
+
+        const playerPos = mod.GetObjectPosition(player)
+
+        // store up to two closest
+        let closest: { pos: mod.Vector; dist: number } | null = null
+        let secondClosest: { pos: mod.Vector; dist: number } | null = null
+
+        for (const cp of capturePoints) {
+            const owner = mod.GetCurrentOwnerTeam(cp)
+
+            // exclude CPs already owned by a friendly team
+            if (ctx.teams.isFriendlyTeam(player, mod.GetObjId(owner))) {
+                continue
+            }
+
+            const cpPos = mod.GetObjectPosition(cp)
+
+            // exclude CPs the engine recently failed to reach
+            if (ctx.moveBlacklist.isBlacklisted(cpPos, ctx.time)) {
+                continue
+            }
+
+            const dist = mod.DistanceBetween(playerPos, cpPos)
+
+            if (!closest || dist < closest.dist) {
+                secondClosest = closest
+                closest = { pos: cpPos, dist }
+            } else if (!secondClosest || dist < secondClosest.dist) {
+                secondClosest = { pos: cpPos, dist }
+            }
+        }
+
+        if (!closest) {
+            return
+        }
+
+        // only one candidate
+        if (!secondClosest) {
+            ctx.memory.set('roamPos', closest.pos, this.ttlMs)
+            return
+        }
+
+        // ------------------------------------------------------------
+        // Commit
+        // ------------------------------------------------------------
+
+        ctx.memory.set(
+            'roamPos',
+            ctx.random.next() < 1 ? closest.pos : secondClosest.pos,
+            this.ttlMs
+        )
+    }
+}
+
+/**
+ * CoreAI_MCOMState:
+ * Armed/destroyed MCOMs of the match.
+ *
+ * The engine exposes no MCOM state, so it is tracked from the MCOM
+ * events. Shared by every MCOMSensor so it survives respawns and
+ * profile switches; updates are idempotent, so every brain may report
+ * the same event.
+ */
+export class CoreAI_MCOMState {
+    private armed: Set<number> = new Set()
+    private destroyed: Set<number> = new Set()
+
+    setArmed(mcom: mod.MCOM, armed: boolean): void {
+        if (armed) {
+            this.armed.add(mod.GetObjId(mcom))
         } else {
-            mod.EnableWorldIconImage(this.vehicleToDriveWI, false)
-            mod.EnableWorldIconText(this.vehicleToDriveWI, false)
+            this.armed.delete(mod.GetObjId(mcom))
+        }
+    }
+
+    setDestroyed(mcom: mod.MCOM): void {
+        this.armed.delete(mod.GetObjId(mcom))
+        this.destroyed.add(mod.GetObjId(mcom))
+    }
+
+    isArmed(mcom: mod.MCOM): boolean {
+        return this.armed.has(mod.GetObjId(mcom))
+    }
+
+    isDestroyed(mcom: mod.MCOM): boolean {
+        return this.destroyed.has(mod.GetObjId(mcom))
+    }
+
+    /** New match / round */
+    clear(): void {
+        this.armed.clear()
+        this.destroyed.clear()
+    }
+}
+
+export const CoreAI_DEFAULT_MCOM_STATE = new CoreAI_MCOMState()
+
+/**
+ * MCOMSensor:
+ * Rush objective awareness.
+ *
+ * Writes (closest matching MCOM, null otherwise):
+ * - memory.mcomAttack (attackers: active MCOM to move to and arm)
+ * - memory.mcomDefend (defenders: active MCOM to guard;
+ *   attackers: armed MCOM to protect until it detonates)
+ * - memory.mcomDefuse (defenders: armed MCOM to rush and defuse)
+ *
+ * Notes:
+ * - Armed/destroyed comes from CoreAI_MCOMState, fed by
+ *   OnMCOMArmed/OnMCOMDefused/OnMCOMDestroyed forwarded by the Brain.
+ * - Memory is rewritten on every event, so bots react immediately.
+ * - The engine has no arm/defuse call for bots: the mcomAttack and
+ *   mcomDefuse bindings only hold the bot at the MCOM. The game mode
+ *   arms or defuses it (e.g. once a bot stays within a few meters).
+ */
+export class CoreAI_MCOMSensor extends CoreAI_ASensor {
+    constructor(
+        private readonly getMCOMs: () => mod.MCOM[],
+        private readonly isAttacker: (player: mod.Player) => boolean,
+        intervalMs: number = 1000,
+        private readonly ttlMs: number = 3000,
+        private readonly state: CoreAI_MCOMState = CoreAI_DEFAULT_MCOM_STATE
+    ) {
+        super(intervalMs)
+    }
+
+    protected update(ctx: CoreAI_TickContext): void {
+        const player = ctx.player
+        if (!mod.IsPlayerValid(player)) return
+
+        const myPos = mod.GetObjectPosition(player)
+
+        let closestActive: mod.MCOM | null = null
+        let closestArmed: mod.MCOM | null = null
+        let activeDist = Infinity
+        let armedDist = Infinity
+
+        for (const mcom of this.getMCOMs()) {
+            if (this.state.isDestroyed(mcom)) continue
+
+            const dist = mod.DistanceBetween(myPos, mod.GetObjectPosition(mcom))
+
+            if (this.state.isArmed(mcom)) {
+                if (dist < armedDist) {
+                    armedDist = dist
+                    closestArmed = mcom
+                }
+            } else if (dist < activeDist) {
+                activeDist = dist
+                closestActive = mcom
+            }
+        }
+
+        if (this.isAttacker(player)) {
+            this.write(ctx, 'mcomAttack', closestActive)
+            this.write(ctx, 'mcomDefend', closestActive ? null : closestArmed)
+            this.write(ctx, 'mcomDefuse', null)
+        } else {
+            this.write(ctx, 'mcomAttack', null)
+            this.write(ctx, 'mcomDefend', closestActive)
+            this.write(ctx, 'mcomDefuse', closestArmed)
+        }
+    }
+
+    /* ------------------------------------------------------------
+     * MCOM events (forwarded by the Brain)
+     * ------------------------------------------------------------ */
+
+    override OnMCOMArmed(ctx: CoreAI_TickContext, mcom: mod.MCOM): void {
+        this.state.setArmed(mcom, true)
+        this.update(ctx)
+    }
+
+    override OnMCOMDefused(ctx: CoreAI_TickContext, mcom: mod.MCOM): void {
+        this.state.setArmed(mcom, false)
+        this.update(ctx)
+    }
+
+    override OnMCOMDestroyed(ctx: CoreAI_TickContext, mcom: mod.MCOM): void {
+        this.state.setDestroyed(mcom)
+        this.update(ctx)
+    }
+
+    private write(
+        ctx: CoreAI_TickContext,
+        key: 'mcomAttack' | 'mcomDefend' | 'mcomDefuse',
+        mcom: mod.MCOM | null
+    ): void {
+        if (mcom) {
+            ctx.memory.set(key, mcom, this.ttlMs)
+        } else {
+            ctx.memory.set(key, null)
+        }
+    }
+}
+
+export interface CoreAI_StateTransition {
+    /** Target state name (anywhere in the hierarchy) */
+    to: string
+
+    /** Memory/world condition; checked every tick unless `on` is set */
+    when?: (ctx: CoreAI_TickContext) => boolean
+
+    /** Brain event name (e.g. 'OnPlayerDamaged'); `when` acts as guard */
+    on?: string
+}
+
+export interface CoreAI_MachineState {
+    /**
+     * Sensors, weights, bindings (and optional controller) while this
+     * state is active. Child states without a profile inherit it.
+     */
+    profile?: CoreAI_BaseSoldier
+
+    onEnter?(ctx: CoreAI_TickContext): void
+    onExit?(ctx: CoreAI_TickContext): void
+
+    transitions?: CoreAI_StateTransition[]
+
+    /** Child states; `initial` is entered together with this state */
+    states?: Record<string, CoreAI_MachineState>
+    initial?: string
+}
+
+export interface CoreAI_StateMachineConfig {
+    states: Record<string, CoreAI_MachineState>
+    initial: string
+}
+
+interface CoreAI_StateEntry {
+    state: CoreAI_MachineState
+    parent: string | null
+}
+
+/**
+ * CoreAI_StateMachine
+ *
+ * Hierarchical FSM driving which profile a brain runs
+ * (CoreAI_Brain.setStateMachine).
+ *
+ * Responsibilities:
+ * - Track the active state path (root -> leaf).
+ * - Fire onExit/onEnter hooks along the path on transitions.
+ * - Report the innermost active profile after each transition; the
+ *   brain installs it unless it already runs that profile.
+ *
+ * Notes:
+ * - State names must be unique across the whole hierarchy.
+ * - Transitions of outer states are checked before inner ones.
+ * - A transition always re-enters its target state; condition
+ *   transitions into an already active state are ignored.
+ */
+export class CoreAI_StateMachine {
+    private index = new Map<string, CoreAI_StateEntry>()
+    private active: string[] = []
+
+    constructor(private readonly cfg: CoreAI_StateMachineConfig) {
+        this.indexStates(cfg.states, null)
+    }
+
+    /**
+     * Enter the initial state if not started yet, then apply the first
+     * matching condition transition. Returns the active profile if a
+     * state was entered, otherwise null.
+     */
+    tick(ctx: CoreAI_TickContext): CoreAI_BaseSoldier | null {
+        let entered = false
+
+        if (this.active.length === 0) {
+            this.transitionTo(this.cfg.initial, ctx)
+            entered = true
+        }
+
+        const target = this.findTransition(
+            ctx,
+            (t) =>
+                t.on === undefined &&
+                !this.active.includes(t.to) &&
+                (t.when?.(ctx) ?? false)
+        )
+        if (target) {
+            this.transitionTo(target, ctx)
+            entered = true
         }
+
+        return entered ? this.getProfile() : null
+    }
+
+    /**
+     * Apply the first transition listening to a brain event.
+     * Returns the active profile if a state was entered, otherwise null.
+     */
+    handleEvent(
+        eventName: string,
+        ctx: CoreAI_TickContext
+    ): CoreAI_BaseSoldier | null {
+        if (this.active.length === 0) return null
+
+        const target = this.findTransition(
+            ctx,
+            (t) => t.on === eventName && (t.when?.(ctx) ?? true)
+        )
+        if (!target) return null
+
+        this.transitionTo(target, ctx)
+        return this.getProfile()
+    }
+
+    /**
+     * Active state path, outermost first (for debug/UI).
+     */
+    getActivePath(): readonly string[] {
+        return this.active
+    }
+
+    isIn(name: string): boolean {
+        return this.active.includes(name)
+    }
+
+    /**
+     * Innermost profile along the active path, if any.
+     */
+    getProfile(): CoreAI_BaseSoldier | null {
+        let profile: CoreAI_BaseSoldier | null = null
+
+        for (const name of this.active) {
+            profile = this.index.get(name)?.state.profile ?? profile
+        }
+
+        return profile
+    }
+
+    /* ------------------------------------------------------------
+     * Internals
+     * ------------------------------------------------------------ */
+
+    private indexStates(
+        states: Record<string, CoreAI_MachineState>,
+        parent: string | null
+    ): void {
+        for (const name in states) {
+            this.index.set(name, { state: states[name], parent })
+
+            const children = states[name].states
+            if (children) this.indexStates(children, name)
+        }
+    }
+
+    private findTransition(
+        ctx: CoreAI_TickContext,
+        matches: (t: CoreAI_StateTransition) => boolean
+    ): string | null {
+        for (const name of this.active) {
+            const transitions = this.index.get(name)?.state.transitions ?? []
+
+            for (const t of transitions) {
+                if (matches(t)) return t.to
+            }
+        }
+
+        return null
+    }
+
+    /**
+     * Path from the root to the target, drilling into initial children.
+     */
+    private pathTo(name: string): string[] {
+        const path: string[] = []
+
+        for (let n: string | null = name; n !== null;) {
+            const entry = this.index.get(n)
+            if (!entry) return []
+
+            path.unshift(n)
+            n = entry.parent
+        }
+
+        let leaf = this.index.get(name)?.state
+        while (leaf?.initial && leaf.states?.[leaf.initial]) {
+            path.push(leaf.initial)
+            leaf = leaf.states[leaf.initial]
+        }
+
+        return path
+    }
+
+    private transitionTo(name: string, ctx: CoreAI_TickContext): void {
+        const target = this.pathTo(name)
+        if (target.length === 0) return
+
+        // Keep shared ancestors, but always re-enter the target itself.
+        const targetDepth = target.indexOf(name)
+        let keep = 0
+        while (
+            keep < targetDepth &&
+            keep < this.active.length &&
+            this.active[keep] === target[keep]
+        ) {
+            keep++
+        }
+
+        for (let i = this.active.length - 1; i >= keep; i--) {
+            this.index.get(this.active[i])?.state.onExit?.(ctx)
+        }
+
+        this.active = target
+
+        for (let i = keep; i < target.length; i++) {
+            this.index.get(target[i])?.state.onEnter?.(ctx)
+        }
+    }
+}
+
+/**
+ * CoreAI_IClock:
+ * Time source for a Brain.
+ *
+ * The Brain samples now() once per tick and publishes it as memory.time /
+ * ctx.time. Every TTL, sensor interval and action interval is measured
+ * against that value, so the clock is chosen once, before the brain's
+ * first tick (CoreAI_Brain.setClock).
+ *
+ * All values are milliseconds.
+ */
+export interface CoreAI_IClock {
+    now(): number
+}
+
+/**
+ * Wall clock (Date.now()).
+ * Default. Keeps running through pauses and ignores slow-mo.
+ */
+export class CoreAI_WallClock implements CoreAI_IClock {
+    now(): number {
+        return Date.now()
+    }
+}
+
+/**
+ * Engine match clock (mod.GetMatchTimeElapsed()).
+ * Follows game time, so TTLs and intervals stay in sync with the match.
+ */
+export class CoreAI_MatchClock implements CoreAI_IClock {
+    now(): number {
+        return mod.GetMatchTimeElapsed() * 1000
+    }
+}
+
+/**
+ * Manually driven clock for tests and replays.
+ * Time only moves when set() or advance() is called.
+ */
+export class CoreAI_ManualClock implements CoreAI_IClock {
+    constructor(private time: number = 0) {}
+
+    now(): number {
+        return this.time
+    }
+
+    set(timeMs: number): void {
+        this.time = timeMs
     }
 
-    private round2decimal(num: number): number {
-        const factor = 10 /* * 10 // 100 */
-        return Math.round(num * factor) / factor
+    advance(ms: number): void {
+        this.time += ms
+    }
+}
+
+/**
+ * CoreAI_Brain
+ *
+ * Pure AI logic unit.
+ *
+ * Responsibilities:
+ * - Perception
+ * - Memory
+ * - Behavior selection
+ * - Behavior execution
+ *
+ * Does NOT:
+ * - Attach itself to players
+ * - Listen to player events directly
+ * - Manage lifecycle bindings
+ *
+ * All player integration is handled by BrainComponent.
+ */
+
+// @stringkeys bots: 1..32
+
+export class CoreAI_Brain {
+    public player: mod.Player
+
+    public perception: CoreAI_Perception
+    public memory: CoreAI_MemoryManager
+    private debugWI: CoreAI_DebugWI | null = null
+    private actionRunner: CoreAI_ActionRunner
+    private targetAction: CoreAI_SetTargetAction = new CoreAI_SetTargetAction()
+    private commands: CoreAI_CommandQueue = new CoreAI_CommandQueue()
+    private trace: CoreAI_DecisionTrace = new CoreAI_DecisionTrace()
+    private behaviorSelector: CoreAI_BehaviorSelector | null = null
+    private behaviorController: CoreAI_IBehaviorController | null = null
+    private profileController: CoreAI_IBehaviorController | null = null
+    private stateMachine: CoreAI_StateMachine | null = null
+    private installedProfile: CoreAI_BaseSoldier | null = null
+    private clock: CoreAI_IClock = new CoreAI_WallClock()
+    private ticked = false
+    private random: CoreAI_IRandom
+    private rayCasts: CoreAI_RayCastBroker
+    private moveBlacklist: CoreAI_MoveBlacklist = new CoreAI_MoveBlacklist()
+    private teams: CoreAI_TeamRelations = CoreAI_DEFAULT_TEAM_RELATIONS
+
+    constructor(
+        player: mod.Player,
+        profile: CoreAI_BaseSoldier,
+        enableDebug: boolean = false
+    ) {
+        this.player = player
+        this.random = new CoreAI_SeededRandom(mod.GetObjId(player))
+        this.rayCasts = new CoreAI_RayCastBroker(player, () => this.clock.now())
+
+        this.memory = new CoreAI_MemoryManager()
+        this.perception = new CoreAI_Perception()
+        this.actionRunner = new CoreAI_ActionRunner([
+            this.targetAction,
+            new CoreAI_EnterVehicleAction(),
+        ])
+
+        if (enableDebug)
+            this.debugWI = new CoreAI_DebugWI(
+                mod.FirstOf(mod.AllPlayers()),
+                this
+            )
+
+        this.installProfile(profile)
     }
 
-    private getIconOffset(d: number): number {
-        const base = 1.9
-        const upStart = 2
-        const upEnd = 40
-        const downEnd = 70
-        const peakDelta = 0.9 // 2.8 - 1.9
+    /* ------------------------------------------------------------
+     * Profile installation
+     * ------------------------------------------------------------ */
 
-        if (d <= upStart) return base
-        if (d >= downEnd) return base
+    installProfile(profile: CoreAI_BaseSoldier): void {
+        this.installedProfile = profile
+        this.memory.defineAll(profile.memory)
 
-        // rising part: 2..40
-        if (d < upEnd) {
-            const t = (d - upStart) / (upEnd - upStart) // 0..1
-            const bump = Math.pow(t, 0.5) // sqrt: fast early rise
-            return base + peakDelta * bump
+        if (this.behaviorSelector) {
+            this.behaviorSelector.setWeights(profile.weights)
+            this.behaviorSelector.setBehaviors(profile.behaviors)
+            this.behaviorSelector.setCommitment(profile.commitment)
+        } else {
+            this.setBehaviorSelector(
+                new CoreAI_BehaviorSelector(
+                    {
+                        weights: profile.weights,
+                        behaviors: profile.behaviors,
+                        commitment: profile.commitment,
+                    },
+                    this.commands,
+                    this.trace
+                )
+            )
         }
+        this.profileController = profile.controller?.() ?? null
+        this.targetAction.setPolicy(
+            profile.targetPolicy ?? CoreAI_TargetPolicies.attackerFirst
+        )
 
-        // falling part: 40..70
-        const t = (d - upEnd) / (downEnd - upEnd) // 0..1
-        const bump = Math.pow(1 - t, 0.8) // slower fall
-        return base + peakDelta * bump
+        this.perception.clearSensors()
+        this.installSensorsFromOptions(profile.sensors)
     }
 
-    /**
-     * Returns the vertical world offset for stacked icons.
-     *
-     * index = 0 -> base icon
-     * index = 1 -> first icon above it
-     * index = 2 -> second icon above it
-     *
-     * The gap is scaled by distance so icons appear visually snapped.
-     */
-    private getStackedIconOffset(d: number, index: number, gap = 0.4): number {
-        // Base icon offset using your existing curve
-        const baseOffset = this.getIconOffset(d)
+    private installSensorsFromOptions(options: CoreAI_SensorOptions): void {
+        this.addSensorIf(
+            options.battleSensor,
+            () =>
+                new CoreAI_BattleSensor(
+                    options.battleSensor?.intervalMs,
+                    options.battleSensor?.ttlMs
+                )
+        )
 
-        // Reference distance at which gap looks correct visually.
-        // 20m is a good default for human-readable marker stacking.
-        const reference = 20
+        this.addSensorIf(
+            options.closestEnemySensor,
+            () =>
+                new CoreAI_ClosestEnemySensor(
+                    options.closestEnemySensor?.sensitivity,
+                    options.closestEnemySensor?.intervalMs,
+                    options.closestEnemySensor?.ttlMs
+                )
+        )
 
-        // Scale gap according to distance to compensate for perspective shrinking
-        const scale = d / reference
+        this.addSensorIf(
+            options.visionSensor,
+            () =>
+                new CoreAI_VisionSensor(
+                    options.visionSensor?.intervalMs,
+                    options.visionSensor?.ttlMs,
+                    options.visionSensor?.fovDeg,
+                    options.visionSensor?.nearDistance,
+                    options.visionSensor?.midDistance,
+                    options.visionSensor?.maxDistance,
+                    options.visionSensor?.detectionRate,
+                    options.visionSensor?.decayRate,
+                    options.visionSensor?.losMemoryMs
+                )
+        )
 
-        // Index=0 gives base offset
-        if (index === 0) return baseOffset
+        this.addSensorIf(
+            options.threatSensor,
+            () =>
+                new CoreAI_ThreatSensor(
+                    options.threatSensor?.intervalMs,
+                    options.threatSensor?.ttlMs,
+                    options.threatSensor?.forgetMs
+                )
+        )
 
-        // Each stacked icon sits on top of the previous one
-        return baseOffset + index * gap * scale
-    }
-}
+        this.addSensorIf(
+            options.enemyListSensor,
+            () =>
+                new CoreAI_EnemyListSensor(
+                    options.enemyListSensor?.intervalMs,
+                    options.enemyListSensor?.ttlMs,
+                    options.enemyListSensor?.maxDistance,
+                    options.enemyListSensor?.aimConeDeg,
+                    options.enemyListSensor?.losMemoryMs,
+                    options.enemyListSensor?.preferences,
+                    options.enemyListSensor?.score
+                )
+        )
 
-/**
- * BattleSensor:
- * Detects combat by raycasting toward nearby enemies.
- *
- * Writes:
- * - memory.isInBattle (TTL-based boolean)
- *
- * Notes:
- * - OnRayCastHit is used to confirm nearby enemy presence.
- * - No POIs.
- * - No behaviors spawned.
- * - TaskSelector checks memory.isInBattle to understand combat state.
- */
-export class CoreAI_BattleSensor extends CoreAI_ASensor {
-    /* private targetWI: mod.WorldIcon
-    private startWI: mod.WorldIcon
-    private hitWI: mod.WorldIcon
-    private hitClosestEnemyWI: mod.WorldIcon */
+        this.addSensorIf(
+            options.enemyTrackSensor,
+            () =>
+                new CoreAI_EnemyTrackSensor(
+                    options.enemyTrackSensor?.intervalMs,
+                    options.enemyTrackSensor?.forgetMs,
+                    options.enemyTrackSensor?.predictMs,
+                    options.enemyTrackSensor?.minConfidence
+                )
+        )
 
-    private VEHICLE_OFFSET = 5.1
+        this.addSensorIf(
+            options.hearingSensor,
+            () =>
+                new CoreAI_HearingSensor(
+                    options.hearingSensor?.intervalMs,
+                    options.hearingSensor?.ttlMs,
+                    options.hearingSensor?.sensitivity,
+                    options.hearingSensor?.minVehicleSpeed,
+                    {
+                        weapons: options.hearingSensor?.weaponRanges,
+                        vehicles: options.hearingSensor?.vehicleRanges,
+                    }
+                )
+        )
 
-    constructor(
-        intervalMs: number = 500,
-        private readonly ttlMs: number = 10000
-    ) {
-        super(intervalMs)
+        this.addSensorIf(
+            options.selfStatusSensor,
+            () =>
+                new CoreAI_SelfStatusSensor(
+                    options.selfStatusSensor?.intervalMs,
+                    options.selfStatusSensor?.thresholds,
+                    options.selfStatusSensor?.getRetreatPoints,
+                    options.selfStatusSensor?.fallbackDistance
+                )
+        )
 
-        /* this.targetWI = mod.SpawnObject(
-            mod.RuntimeSpawn_Common.WorldIcon,
-            mod.CreateVector(0, 0, 0),
-            mod.CreateVector(0, 0, 0)
+        this.addSensorIf(
+            options.vehicleToDriveSensor,
+            () =>
+                new CoreAI_VehicleToDriveSensor(
+                    options.vehicleToDriveSensor?.radius,
+                    options.vehicleToDriveSensor?.intervalMs,
+                    options.vehicleToDriveSensor?.ttlMs
+                )
         )
-        mod.SetWorldIconOwner(this.targetWI, mod.GetTeam(1))
-        mod.SetWorldIconImage(this.targetWI, mod.WorldIconImages.Skull)
-        mod.SetWorldIconColor(this.targetWI, CoreUI_Colors.RedDark)
 
-        this.startWI = mod.SpawnObject(
-            mod.RuntimeSpawn_Common.WorldIcon,
-            mod.CreateVector(0, 0, 0),
-            mod.CreateVector(0, 0, 0)
+        this.addSensorIf(
+            options.arrivalSensor?.getWPs,
+            () =>
+                new CoreAI_ArrivalSensor(
+                    () => options.arrivalSensor!.getWPs!(),
+                    options.arrivalSensor?.intervalMs,
+                    options.arrivalSensor?.distanceThreshold,
+                    options.arrivalSensor?.ttlMs,
+                    options.arrivalSensor?.cooldownMs
+                )
         )
-        mod.SetWorldIconOwner(this.startWI, mod.GetTeam(1))
-        mod.SetWorldIconImage(this.startWI, mod.WorldIconImages.Cross)
-        mod.SetWorldIconColor(this.startWI, CoreUI_Colors.RedDark)
 
-        this.hitWI = mod.SpawnObject(
-            mod.RuntimeSpawn_Common.WorldIcon,
-            mod.CreateVector(0, 0, 0),
-            mod.CreateVector(0, 0, 0)
+        this.addSensorIf(
+            options.capturePointSensor,
+            () =>
+                new CoreAI_CapturePointSensor(
+                    options.capturePointSensor?.intervalMs,
+                    options.capturePointSensor?.ttlMs,
+                    options.capturePointSensor?.preferences,
+                    options.capturePointSensor?.score,
+                    options.capturePointSensor?.getCapturePoints
+                )
         )
-        mod.SetWorldIconOwner(this.hitWI, mod.GetTeam(1))
-        mod.SetWorldIconImage(this.hitWI, mod.WorldIconImages.Eye)
-        mod.SetWorldIconColor(this.hitWI, CoreUI_Colors.GreenDark)
 
-        this.hitClosestEnemyWI = mod.SpawnObject(
-            mod.RuntimeSpawn_Common.WorldIcon,
-            mod.CreateVector(0, 0, 0),
-            mod.CreateVector(0, 0, 0)
+        this.addSensorIf(
+            options.moveToCapturePointSensor?.getCapturePoints,
+            () =>
+                new CoreAI_CapturePointMoveToSensor(
+                    () => options.moveToCapturePointSensor!.getCapturePoints!(),
+                    options.moveToCapturePointSensor?.intervalMs,
+                    options.moveToCapturePointSensor?.ttlMs
+                )
+        )
+
+        this.addSensorIf(
+            options.mcomSensor?.getMCOMs && options.mcomSensor?.isAttacker,
+            () =>
+                new CoreAI_MCOMSensor(
+                    () => options.mcomSensor!.getMCOMs!(),
+                    (player) => options.mcomSensor!.isAttacker!(player),
+                    options.mcomSensor?.intervalMs,
+                    options.mcomSensor?.ttlMs
+                )
+        )
+
+        this.addSensorIf(
+            options.roamSensor?.getWPs,
+            () =>
+                new CoreAI_RoamSensor(
+                    () => options.roamSensor!.getWPs!(),
+                    options.roamSensor?.intervalMs,
+                    options.roamSensor?.ttlMs
+                )
         )
-        mod.SetWorldIconOwner(this.hitClosestEnemyWI, mod.GetTeam(1))
-        mod.SetWorldIconImage(this.hitClosestEnemyWI, mod.WorldIconImages.Alert)
-        mod.SetWorldIconColor(this.hitClosestEnemyWI, CoreUI_Colors.BlueDark) */
     }
 
-    protected update(ctx: CoreAI_TickContext): void {
-        if (ctx.memory.get('isInBattle')) {
-            return
+    private addSensorIf(
+        condition: unknown,
+        factory: () => CoreAI_ASensor
+    ): void {
+        if (condition) {
+            this.perception.addSensor(factory())
         }
+    }
 
-        const player = ctx.player
-        if (!mod.IsPlayerValid(player)) return
+    setBehaviorSelector(selector: CoreAI_BehaviorSelector | null): void {
+        this.behaviorSelector = selector
+    }
 
-        const isFiring = mod.GetSoldierState(
-            player,
-            mod.SoldierStateBool.IsFiring
+    /**
+     * Per-brain queue for multi-step engine sequences.
+     */
+    getCommandQueue(): CoreAI_CommandQueue {
+        return this.commands
+    }
+
+    /**
+     * Bounded history of behavior-selector decisions (why a behavior
+     * was chosen). Query from game mode or DebugWI.
+     */
+    getDecisionTrace(): CoreAI_DecisionTrace {
+        return this.trace
+    }
+
+    /**
+     * Run another decision runtime (e.g. CoreAI_BehaviorTree) instead of
+     * the behavior selector. Pass null to return to the profile's
+     * controller, or the selector if the profile declares none.
+     *
+     * A controller set here survives installProfile() (respawn,
+     * vehicle enter/exit) and takes precedence over profile.controller.
+     */
+    setBehaviorController(controller: CoreAI_IBehaviorController | null): void {
+        this.behaviorController = controller
+    }
+
+    /**
+     * The controller deciding behaviors this tick.
+     */
+    private getActiveController(): CoreAI_IBehaviorController | null {
+        return (
+            this.behaviorController ??
+            this.profileController ??
+            this.behaviorSelector
         )
-        if (isFiring) {
-            ctx.memory.set('isInBattle', true, this.ttlMs)
-            return
-        }
+    }
 
-        if (
-            !mod.GetSoldierState(player, mod.SoldierStateBool.IsInVehicle) ||
-            mod.GetPlayerVehicleSeat(player) !== 0
-        ) {
-            /* mod.EnableWorldIconImage(this.targetWI, false)
-            mod.EnableWorldIconImage(this.startWI, false)
-            mod.EnableWorldIconImage(this.hitWI, false)
-            mod.EnableWorldIconImage(this.hitClosestEnemyWI, false) */
-            return
+    /* ------------------------------------------------------------
+     * State machine
+     * ------------------------------------------------------------ */
+
+    /**
+     * Let a hierarchical state machine switch profiles. It starts on the
+     * next tick and installs the active state's profile whenever a state
+     * is entered.
+     */
+    setStateMachine(machine: CoreAI_StateMachine | null): void {
+        this.stateMachine = machine
+    }
+
+    getStateMachine(): CoreAI_StateMachine | null {
+        return this.stateMachine
+    }
+
+    /**
+     * Install the profile of a newly entered state, unless the brain
+     * already runs it. The game mode may have installed another profile
+     * in between (installProfile), so this compares against the brain.
+     */
+    private installStateProfile(profile: CoreAI_BaseSoldier | null): void {
+        if (profile && profile !== this.installedProfile) {
+            this.installProfile(profile)
         }
+    }
 
-        const myTeamId = mod.GetObjId(mod.GetTeam(player))
+    /**
+     * Forward a brain event to state-machine transitions.
+     */
+    private notifyStateMachine(eventName: string): void {
+        if (!this.stateMachine) return
 
-        const playerVehiclePos = mod.GetVehicleState(
-            mod.GetVehicleFromPlayer(player),
-            mod.VehicleStateVector.VehiclePosition
+        const profile = this.stateMachine.handleEvent(
+            eventName,
+            this.createTickContext()
         )
+        this.installStateProfile(profile)
+    }
 
-        const startInitPos = mod.CreateVector(
-            mod.XComponentOf(playerVehiclePos),
-            mod.YComponentOf(playerVehiclePos) + 1,
-            mod.ZComponentOf(playerVehiclePos)
-        )
+    /* ------------------------------------------------------------
+     * Time source
+     * ------------------------------------------------------------ */
 
-        const allPlayers = mod.AllPlayers()
-        const count = mod.CountOf(allPlayers)
+    /**
+     * Replace the time source sampled once per tick into memory.time.
+     * Use CoreAI_MatchClock to follow game time, CoreAI_ManualClock in tests.
+     *
+     * Only allowed before the first tick: sensor and action intervals,
+     * memory TTLs and selector timers already stamped with the old clock
+     * would not be comparable with the new one. Throws afterwards.
+     */
+    setClock(clock: CoreAI_IClock): void {
+        if (this.ticked) {
+            throw new Error(
+                'CoreAI_Brain.setClock: the clock can only be set before the first tick'
+            )
+        }
 
-        for (let i = 0; i < count; i++) {
-            const p = mod.ValueInArray(allPlayers, i) as mod.Player
-            if (!mod.IsPlayerValid(p)) continue
+        this.clock = clock
+    }
 
-            if (mod.GetObjId(mod.GetTeam(p)) === myTeamId) continue
+    getClock(): CoreAI_IClock {
+        return this.clock
+    }
 
-            if (!mod.GetSoldierState(p, mod.SoldierStateBool.IsAlive)) continue
+    /* ------------------------------------------------------------
+     * Random source
+     * ------------------------------------------------------------ */
 
-            let targetPos = mod.GetSoldierState(
-                p,
-                mod.SoldierStateVector.EyePosition
-            )
+    /**
+     * Reseed the brain RNG. Defaults to the bot id; pass
+     * CoreAI_SeededRandom.mix(matchSeed, botId) to replay a whole match.
+     */
+    setSeed(seed: number): void {
+        this.random = new CoreAI_SeededRandom(seed)
+    }
 
-            if (mod.GetSoldierState(p, mod.SoldierStateBool.IsInVehicle)) {
-                const vehicle = mod.GetVehicleFromPlayer(p)
+    /**
+     * Replace the random source exposed as ctx.random.
+     */
+    setRandom(random: CoreAI_IRandom): void {
+        this.random = random
+    }
 
-                const enemyVehiclePos = mod.GetVehicleState(
-                    vehicle,
-                    mod.VehicleStateVector.VehiclePosition
-                )
+    getRandom(): CoreAI_IRandom {
+        return this.random
+    }
 
-                targetPos = mod.CreateVector(
-                    mod.XComponentOf(enemyVehiclePos),
-                    mod.YComponentOf(enemyVehiclePos) + 1,
-                    mod.ZComponentOf(enemyVehiclePos)
-                )
-            }
+    /* ------------------------------------------------------------
+     * Team relations
+     * ------------------------------------------------------------ */
 
-            const dir = mod.DirectionTowards(startInitPos, targetPos)
-            const startPos = mod.Add(
-                startInitPos,
-                mod.Multiply(dir, this.VEHICLE_OFFSET)
-            )
+    /**
+     * Replace the team relations published as ctx.teams.
+     * Defaults to the shared CoreAI_DEFAULT_TEAM_RELATIONS.
+     */
+    setTeamRelations(teams: CoreAI_TeamRelations): void {
+        this.teams = teams
+    }
 
-            mod.RayCast(player, startPos, targetPos)
+    getTeamRelations(): CoreAI_TeamRelations {
+        return this.teams
+    }
 
-            /**
-             *
-             */
-            /* mod.EnableWorldIconImage(this.startWI, true)
-            mod.SetWorldIconPosition(this.startWI, startPos)
+    /* ------------------------------------------------------------
+     * Sensor API
+     * ------------------------------------------------------------ */
 
-            mod.EnableWorldIconImage(this.targetWI, true)
-            mod.SetWorldIconPosition(this.targetWI, targetPos) */
-        }
+    useSensor<T extends CoreAI_ASensor>(sensor: T): T {
+        const ctor = sensor.constructor as Function
+        this.perception.removeSensor(ctor)
+        this.perception.addSensor(sensor)
+        return sensor
     }
 
-    override OnRayCastHit?(
-        ctx: CoreAI_TickContext,
-        eventPoint: mod.Vector,
-        eventNormal: mod.Vector
-    ): void {
-        const player = ctx.player
-        if (!mod.IsPlayerValid(player)) return
+    removeSensor(ctor: Function): void {
+        this.perception.removeSensor(ctor)
+    }
 
-        /**
-         *
-         */
-        /* mod.EnableWorldIconImage(this.hitWI, true)
-        mod.SetWorldIconPosition(this.hitWI, eventPoint) */
+    getSensor<T extends CoreAI_ASensor>(
+        ctor: new (...args: any[]) => T
+    ): T | undefined {
+        return this.perception.getSensor(ctor)
+    }
 
-        const myTeamId = mod.GetObjId(mod.GetTeam(player))
-        const enemyTeamId = mod.GetTeam(myTeamId === 1 ? 2 : 1)
+    getSensors(): readonly CoreAI_ASensor[] {
+        return this.perception.getSensors()
+    }
 
-        const enemy = mod.ClosestPlayerTo(eventPoint, enemyTeamId)
+    /* ------------------------------------------------------------
+     * Player lifecycle hooks (called by BrainComponent)
+     * ------------------------------------------------------------ */
 
-        if (!mod.IsPlayerValid(enemy)) return
+    reset(): void {
+        this.perception.reset()
+        this.memory.reset()
+        this.actionRunner.reset()
+        this.behaviorSelector?.reset()
+        this.commands.cancelAll()
+        this.rayCasts.clear()
+        this.moveBlacklist.clear()
 
-        let enemyPos = mod.GetSoldierState(
-            enemy,
-            mod.SoldierStateVector.EyePosition
-        )
+        if (mod.IsPlayerValid(this.player)) {
+            mod.AISetTarget(this.player)
+        }
+    }
 
-        let maxHitDist = 0.4
+    /* ------------------------------------------------------------
+     * Engine events (fanned out to sensors and actions)
+     * ------------------------------------------------------------ */
 
-        if (mod.GetSoldierState(enemy, mod.SoldierStateBool.IsInVehicle)) {
-            maxHitDist = this.VEHICLE_OFFSET
+    /**
+     * Notify the state machine, then call the event hook of every
+     * installed sensor and action that declares one.
+     */
+    dispatchEvent<K extends CoreAI_EngineEvent>(
+        event: K,
+        ...args: CoreAI_EngineEventArgs<K>
+    ): void {
+        this.notifyStateMachine(event)
 
-            const ep = mod.GetSoldierState(
-                enemy,
-                mod.SoldierStateVector.GetPosition
-            )
-            enemyPos = mod.CreateVector(
-                mod.XComponentOf(ep),
-                mod.YComponentOf(ep) + 1,
-                mod.ZComponentOf(ep)
-            )
-        }
+        const tickCtx = this.createTickContext()
 
-        // mod.SetWorldIconPosition(this.hitClosestEnemyWI, enemyPos)
-        // mod.EnableWorldIconImage(this.hitClosestEnemyWI, true)
+        const handlers: CoreAI_EngineEventHandlers[] = [
+            ...this.perception.getSensors(),
+            ...this.actionRunner.getActions(),
+        ]
 
-        const hitDist = mod.DistanceBetween(eventPoint, enemyPos)
+        for (const target of handlers) {
+            // Union of all hook signatures; K ties it to `args`.
+            const handler = target[event] as unknown as
+                | ((
+                      ctx: CoreAI_TickContext,
+                      ...args: CoreAI_EngineEventArgs<K>
+                  ) => void)
+                | undefined
 
-        // mod.DisplayHighlightedWorldLogMessage(mod.Message(hitDist))
+            handler?.call(target, tickCtx, ...args)
+        }
+    }
 
-        if (hitDist > maxHitDist) return
+    /**
+     * Move bookkeeping shared by both move results. The state machine
+     * sees the engine event itself (OnAIMoveToSucceeded/Failed).
+     */
+    OnAIMoveFinished(success: boolean): void {
+        // mod.DisplayHighlightedWorldLogMessage(mod.Message(123))
+        if (success) {
+            this.moveBlacklist.onSucceeded()
+        } else {
+            this.moveBlacklist.onFailed(this.memory.time)
+        }
 
-        ctx.memory.set('isInBattle', true, this.ttlMs)
+        this.memory.set('roamPos', null)
     }
 
-    override OnPlayerDamaged?(
-        ctx: CoreAI_TickContext,
+    OnAIMoveToSucceeded(): void {
+        this.OnAIMoveFinished(true)
+        this.dispatchEvent('OnAIMoveToSucceeded')
+    }
+
+    OnAIMoveToFailed(): void {
+        this.OnAIMoveFinished(false)
+        this.dispatchEvent('OnAIMoveToFailed')
+    }
+
+    OnPlayerDamaged(
         eventOtherPlayer: mod.Player,
         eventDamageType: mod.DamageType,
         eventWeaponUnlock: mod.WeaponUnlock
     ): void {
-        ctx.memory.set('isInBattle', true, this.ttlMs)
+        this.dispatchEvent(
+            'OnPlayerDamaged',
+            eventOtherPlayer,
+            eventDamageType,
+            eventWeaponUnlock
+        )
     }
-}
 
-export abstract class CoreAI_AAction {
-    protected intervalMs: number
-    private lastRun: number = 0
+    OnPlayerDied(
+        eventOtherPlayer: mod.Player,
+        eventDeathType: mod.DeathType,
+        eventWeaponUnlock: mod.WeaponUnlock
+    ): void {
+        this.dispatchEvent(
+            'OnPlayerDied',
+            eventOtherPlayer,
+            eventDeathType,
+            eventWeaponUnlock
+        )
+    }
 
-    constructor(intervalMs: number = 500) {
-        this.intervalMs = intervalMs
+    OnPlayerEarnedKill(
+        eventOtherPlayer: mod.Player,
+        eventDeathType: mod.DeathType,
+        eventWeaponUnlock: mod.WeaponUnlock
+    ): void {
+        this.dispatchEvent(
+            'OnPlayerEarnedKill',
+            eventOtherPlayer,
+            eventDeathType,
+            eventWeaponUnlock
+        )
     }
 
-    tick(ctx: CoreAI_TickContext): void {
-        const now = ctx.time
+    OnMandown(eventOtherPlayer: mod.Player): void {
+        this.dispatchEvent('OnMandown', eventOtherPlayer)
+    }
 
-        if (this.intervalMs > 0 && now - this.lastRun < this.intervalMs) {
-            return
-        }
+    OnRevived(eventOtherPlayer: mod.Player): void {
+        this.dispatchEvent('OnRevived', eventOtherPlayer)
+    }
 
-        this.lastRun = now
-        this.update(ctx)
+    OnPlayerEnterCapturePoint(eventCapturePoint: mod.CapturePoint): void {
+        this.dispatchEvent('OnPlayerEnterCapturePoint', eventCapturePoint)
     }
 
-    reset(): void {
-        this.lastRun = 0
+    OnPlayerExitCapturePoint(eventCapturePoint: mod.CapturePoint): void {
+        this.dispatchEvent('OnPlayerExitCapturePoint', eventCapturePoint)
     }
 
-    protected abstract update(ctx: CoreAI_TickContext): void
-}
+    OnPlayerEnterAreaTrigger(eventAreaTrigger: mod.AreaTrigger): void {
+        this.dispatchEvent('OnPlayerEnterAreaTrigger', eventAreaTrigger)
+    }
 
-export class CoreAI_ActionRunner {
-    private actions: CoreAI_AAction[] = []
+    OnPlayerExitAreaTrigger(eventAreaTrigger: mod.AreaTrigger): void {
+        this.dispatchEvent('OnPlayerExitAreaTrigger', eventAreaTrigger)
+    }
 
-    constructor(actions: CoreAI_AAction[]) {
-        this.actions = actions
+    /* ------------------------------------------------------------
+     * Match-wide events (forwarded to every brain)
+     * ------------------------------------------------------------ */
+
+    OnVehicleDestroyed(eventVehicle: mod.Vehicle): void {
+        this.dispatchEvent('OnVehicleDestroyed', eventVehicle)
     }
 
-    tick(ctx: CoreAI_TickContext): void {
-        for (const action of this.actions) {
-            action.tick(ctx)
-        }
+    OnMCOMArmed(eventMCOM: mod.MCOM): void {
+        this.dispatchEvent('OnMCOMArmed', eventMCOM)
     }
 
-    reset(): void {
-        for (const action of this.actions) {
-            action.reset()
-        }
+    OnMCOMDefused(eventMCOM: mod.MCOM): void {
+        this.dispatchEvent('OnMCOMDefused', eventMCOM)
     }
-}
 
-export class CoreAI_SetTargetAction extends CoreAI_AAction {
-    constructor() {
-        super(200)
+    OnMCOMDestroyed(eventMCOM: mod.MCOM): void {
+        this.dispatchEvent('OnMCOMDestroyed', eventMCOM)
     }
 
-    protected update(ctx: CoreAI_TickContext): void {
-        const player = ctx.player
-        if (!mod.IsPlayerValid(player)) return
+    /* ------------------------------------------------------------
+     * Raycast events (routed to the requesting sensor by the broker)
+     * ------------------------------------------------------------ */
 
-        const enemy = ctx.memory.get('closestEnemy')
-        if (enemy && mod.IsPlayerValid(enemy)) {
-            mod.AISetTarget(player, enemy)
-        } else {
-            mod.AISetTarget(player)
-        }
+    OnRayCastHit(eventPoint: mod.Vector, eventNormal: mod.Vector): void {
+        this.rayCasts.resolveHit(eventPoint, eventNormal)
     }
-}
 
-export class CoreAI_EnterVehicleAction extends CoreAI_AAction {
-    constructor() {
-        super(500)
+    OnRayCastMissed(): void {
+        this.rayCasts.resolveMiss()
     }
 
-    protected update(ctx: CoreAI_TickContext): void {
-        const player = ctx.player
-        if (!mod.IsPlayerValid(player)) return
+    /* ------------------------------------------------------------
+     * Tick (called by BrainComponent)
+     * ------------------------------------------------------------ */
 
-        if (mod.GetSoldierState(player, mod.SoldierStateBool.IsInVehicle)) {
+    OngoingPlayer(): void {
+        if (!mod.IsPlayerValid(this.player)) {
             return
         }
 
-        const vehicle = ctx.memory.get('vehicleToDrive')
-        if (!vehicle) return
+        this.ticked = true
+        this.memory.time = this.clock.now()
+        this.memory.prune()
 
-        if (mod.IsVehicleSeatOccupied(vehicle, 0)) {
+        if (!mod.GetSoldierState(this.player, mod.SoldierStateBool.IsAlive)) {
             return
-        }
-
-        const vPos = mod.GetVehicleState(
-            vehicle,
-            mod.VehicleStateVector.VehiclePosition
-        )
-        const pPos = mod.GetSoldierState(
-            player,
-            mod.SoldierStateVector.GetPosition
-        )
+        }
 
-        const dist = mod.DistanceBetween(pPos, vPos)
+        this.debugWI?.tick()
 
-        if (dist > 3.0) return
+        const tickCtx = this.createTickContext()
 
-        // mod.DisplayHighlightedWorldLogMessage(mod.Message(222))
+        this.rayCasts.expire()
+        this.moveBlacklist.prune(tickCtx.time)
 
-        mod.ForcePlayerToSeat(player, vehicle, 0)
+        if (this.stateMachine) {
+            this.installStateProfile(this.stateMachine.tick(tickCtx))
+        }
+
+        this.perception.tick(tickCtx)
+        this.actionRunner.tick(tickCtx)
+
+        this.getActiveController()?.update(tickCtx)
+    }
+
+    private createTickContext(): CoreAI_TickContext {
+        return {
+            player: this.player,
+            memory: this.memory,
+            time: this.memory.time,
+            random: this.random,
+            rayCasts: this.rayCasts,
+            moveBlacklist: this.moveBlacklist,
+            teams: this.teams,
+            commands: this.commands,
+        }
+    }
+
+    getBehaviorLabel(): string | null {
+        return this.getActiveController()?.getCurrent() ?? null
     }
 }
 
-export type CoreAI_KeyedBehaviorKind = 'battlefield' | 'defend' | 'moveto'
+export type CoreAI_BTStatus = 'success' | 'failure' | 'running'
 
-export interface CoreAI_KeyedBehaviorProfile {
-    weights: Partial<Record<keyof CoreAI_MemoryFields, number>>
+/**
+ * Position source for leaf nodes: a memory key (resolved with
+ * CoreAI_BehaviorTargets.auto) or a function of the tick context.
+ */
+export type CoreAI_BTTarget =
+    keyof CoreAI_MemoryFields | ((ctx: CoreAI_TickContext) => mod.Vector | null)
+
+export function CoreAI_resolveBTTarget(
+    target: CoreAI_BTTarget,
+    ctx: CoreAI_TickContext
+): mod.Vector | null {
+    if (typeof target === 'function') return target(ctx)
+
+    return CoreAI_BehaviorTargets.auto(ctx, target)
 }
 
 /**
- * CoreAI_BehaviorSelector
+ * CoreAI_ABTNode:
+ * Base class for all behavior-tree nodes.
  *
- * Minimal selector:
- * - Find the highest-weight memory key that is currently set.
- * - Run the engine behavior mapped to that key.
+ * Responsibilities:
+ * - tick(ctx) runs update(ctx) and tracks whether the node is running.
+ * - onEnter() fires on the first tick of a run, onExit() when the run
+ *   completes or is aborted.
  *
  * Notes:
- * - No behavior instances or TaskSelector.
- * - It just picks one engine behavior per tick.
- * - Avoids restarts unless the behavior or target changes.
+ * - Nodes MUST use ctx.time / ctx.random like sensors.
+ * - abort() is called by parents on nodes they stop ticking.
  */
-export class CoreAI_BehaviorSelector {
-    private static readonly POS_EPSILON = 0.5
-    private cfg: CoreAI_KeyedBehaviorProfile
-    private current: CoreAI_KeyedBehaviorKind | null = null
-    private lastMoveToPos: mod.Vector | null = null
-    private lastDefendPos: mod.Vector | null = null
+export abstract class CoreAI_ABTNode {
+    private running = false
 
-    constructor(profile: CoreAI_KeyedBehaviorProfile) {
-        this.cfg = profile
-    }
+    tick(ctx: CoreAI_TickContext): CoreAI_BTStatus {
+        if (!this.running) {
+            this.onEnter(ctx)
+        }
 
-    /**
-     * Update the weight table without resetting runtime state.
-     */
-    setWeights(weights: CoreAI_KeyedBehaviorProfile['weights']): void {
-        this.cfg = { weights }
+        const status = this.update(ctx)
+
+        this.running = status === 'running'
+        if (!this.running) {
+            this.onExit(ctx)
+        }
+
+        return status
     }
 
     /**
-     * Select and apply the active engine behavior for this tick.
+     * Stop a running node without completing it.
      */
-    async update(ctx: CoreAI_TickContext): Promise<void> {
-        const winner = this.getWinnerKey(ctx)
-        if (!winner) return
+    abort(ctx: CoreAI_TickContext): void {
+        if (!this.running) return
 
-        const behavior = this.getBehaviorForKey(winner)
-        if (!behavior) return
-
-        const player = ctx.player
-        if (!mod.IsPlayerValid(player)) return
+        this.running = false
+        this.onExit(ctx)
+    }
 
-        switch (behavior) {
-            case 'battlefield': {
-                if (this.current === 'battlefield') {
-                    return
-                }
+    isRunning(): boolean {
+        return this.running
+    }
 
-                mod.AIBattlefieldBehavior(player)
+    /**
+     * Engine behavior label of the running leaf under this node.
+     */
+    getLabel(): string | null {
+        return null
+    }
 
-                this.current = behavior
-                this.lastMoveToPos = null
-                this.lastDefendPos = null
-                return
-            }
+    protected onEnter(ctx: CoreAI_TickContext): void {}
 
-            case 'defend': {
-                const pos = this.resolveTargetPos(ctx, winner)
-                if (!pos) return
+    protected onExit(ctx: CoreAI_TickContext): void {}
 
-                if (
-                    this.current === 'defend' &&
-                    this.lastDefendPos &&
-                    mod.DistanceBetween(this.lastDefendPos, pos) <=
-                        CoreAI_BehaviorSelector.POS_EPSILON
-                ) {
-                    return
-                }
+    protected abstract update(ctx: CoreAI_TickContext): CoreAI_BTStatus
+}
 
-                mod.AIDefendPositionBehavior(player, pos, 2.0, 8.0)
+/**
+ * CoreAI_BehaviorTree
+ *
+ * Behavior-tree runtime, pluggable in place of CoreAI_BehaviorSelector:
+ *   brain.setBehaviorController(new CoreAI_BehaviorTree(root))
+ *
+ * Responsibilities:
+ * - Tick the root node once per brain tick.
+ * - Report the engine behavior of the running leaf.
+ *
+ * Notes:
+ * - Reads Perception results through memory (CoreAI_BTHasMemory,
+ *   CoreAI_BTCondition); sensors keep running as usual.
+ * - A root that completes starts over on the next tick.
+ */
+export class CoreAI_BehaviorTree implements CoreAI_IBehaviorController {
+    private current: string | null = null
+    private status: CoreAI_BTStatus | null = null
 
-                this.current = behavior
-                this.lastDefendPos = pos
-                this.lastMoveToPos = null
-                return
-            }
+    constructor(private readonly root: CoreAI_ABTNode) {}
 
-            case 'moveto': {
-                const pos = this.resolveTargetPos(ctx, winner)
-                if (!pos) return
+    update(ctx: CoreAI_TickContext): void {
+        if (!mod.IsPlayerValid(ctx.player)) return
 
-                if (
-                    this.current === 'moveto' &&
-                    this.lastMoveToPos &&
-                    mod.DistanceBetween(this.lastMoveToPos, pos) <=
-                        CoreAI_BehaviorSelector.POS_EPSILON
-                ) {
-                    return
-                }
+        this.status = this.root.tick(ctx)
 
-                if (
-                    mod.GetSoldierState(
-                        player,
-                        mod.SoldierStateBool.IsInVehicle
-                    ) &&
-                    mod.GetPlayerVehicleSeat(player) === 0
-                ) {
-                    const vehicle = mod.GetVehicleFromPlayer(player)
-                    mod.ForcePlayerExitVehicle(player, vehicle)
-                    await mod.Wait(0)
-                    await mod.Wait(0)
-                    mod.ForcePlayerToSeat(player, vehicle, 0)
-
-                    mod.AIDefendPositionBehavior(player, pos, 10, 20)
-                } else {
-                    if (winner === 'vehicleToDrive') {
-                        mod.AIMoveToBehavior(player, pos)
-                    } else {
-                        mod.AIValidatedMoveToBehavior(player, pos)
-                    }
-                }
+        // The engine keeps the last behavior until another is issued.
+        this.current = this.root.getLabel() ?? this.current
+    }
 
-                this.current = behavior
-                this.lastMoveToPos = pos
-                this.lastDefendPos = null
-                return
-            }
-        }
+    getCurrent(): string | null {
+        return this.current
     }
 
     /**
-     * Pick the highest-weight memory key that is currently set.
+     * Root status of the last tick (null before the first tick).
      */
-    private getWinnerKey(
-        ctx: CoreAI_TickContext
-    ): keyof CoreAI_MemoryFields | null {
-        let bestKey: keyof CoreAI_MemoryFields | null = null
-        let bestScore = -Infinity
-
-        for (const key of Object.keys(this.cfg.weights) as Array<
-            keyof CoreAI_MemoryFields
-        >) {
-            if (!ctx.memory.has(key)) continue
-
-            const score = this.cfg.weights[key] ?? 0
-            if (score > bestScore) {
-                bestScore = score
-                bestKey = key
-            }
-        }
+    getStatus(): CoreAI_BTStatus | null {
+        return this.status
+    }
+}
 
-        return bestKey
+/**
+ * CoreAI_ABTComposite:
+ * Node with ordered children. Aborts running children on exit.
+ */
+export abstract class CoreAI_ABTComposite extends CoreAI_ABTNode {
+    constructor(protected readonly children: CoreAI_ABTNode[]) {
+        super()
     }
 
-    /**
-     * Map memory keys to engine behaviors.
-     */
-    private getBehaviorForKey(
-        key: keyof CoreAI_MemoryFields
-    ): CoreAI_KeyedBehaviorKind | null {
-        switch (key) {
-            case 'isInBattle':
-                return 'battlefield'
+    override getLabel(): string | null {
+        for (const child of this.children) {
+            if (!child.isRunning()) continue
 
-            case 'arrivedPos':
-                return 'defend'
+            const label = child.getLabel()
+            if (label) return label
+        }
 
-            case 'closestEnemy':
-            case 'vehicleToDrive':
-            case 'roamPos':
-            case 'capturePoint':
-                return 'moveto'
+        return null
+    }
 
-            default:
-                return null
+    protected override onExit(ctx: CoreAI_TickContext): void {
+        for (const child of this.children) {
+            child.abort(ctx)
         }
     }
+}
 
-    /**
-     * Resolve a target position for moveto/defend behavior.
-     */
-    private resolveTargetPos(
-        ctx: CoreAI_TickContext,
-        key: keyof CoreAI_MemoryFields
-    ): mod.Vector | null {
-        switch (key) {
-            case 'closestEnemy': {
-                const enemy = ctx.memory.get('closestEnemy')
-                if (!enemy) return null
-
-                return mod.GetSoldierState(
-                    enemy,
-                    mod.SoldierStateVector.GetPosition
-                )
-            }
-
-            case 'vehicleToDrive': {
-                const vehicle = ctx.memory.get('vehicleToDrive')
-                if (!vehicle) return null
-
-                return mod.GetVehicleState(
-                    vehicle,
-                    mod.VehicleStateVector.VehiclePosition
-                )
-            }
-
-            case 'roamPos':
-                return ctx.memory.get('roamPos')
-
-            case 'arrivedPos':
-                return ctx.memory.get('arrivedPos')
-
-            case 'capturePoint': {
-                const cp = ctx.memory.get('capturePoint')
-                if (!cp) return null
-
-                return mod.GetObjectPosition(cp)
+/**
+ * CoreAI_BTSelector:
+ * Runs the first child that does not fail.
+ *
+ * Reactive: children are re-evaluated in priority order every tick, so a
+ * higher-priority child that becomes runnable aborts a lower one.
+ */
+export class CoreAI_BTSelector extends CoreAI_ABTComposite {
+    protected update(ctx: CoreAI_TickContext): CoreAI_BTStatus {
+        for (let i = 0; i < this.children.length; i++) {
+            const status = this.children[i].tick(ctx)
+            if (status === 'failure') continue
+
+            for (let j = i + 1; j < this.children.length; j++) {
+                this.children[j].abort(ctx)
             }
 
-            default:
-                return null
+            return status
         }
-    }
 
-    /**
-     * Expose the current engine behavior label (for debug/UI).
-     */
-    getCurrent(): CoreAI_KeyedBehaviorKind | null {
-        return this.current
+        return 'failure'
     }
 }
 
-export type CoreAI_BaseSoldierWeights = Partial<
-    Record<keyof CoreAI_MemoryFields, number>
->
-
 /**
- * BaseSoldier
+ * CoreAI_BTSequence:
+ * Runs children one after another; fails as soon as one fails.
  *
- * Holds sensor config and baseline memory weights.
+ * Remembers the running child, so finished steps are not re-checked
+ * (e.g. "enter vehicle, drive, dismount, defend", see
+ * CoreAI_driveAndDefendTree). Conditions in front of a running step are
+ * not re-checked either: wrap the sequence in a CoreAI_BTGuard to abort
+ * it when they stop holding.
  */
-export class CoreAI_BaseSoldier {
-    public sensors: CoreAI_SensorOptions
-    public weights: CoreAI_BaseSoldierWeights
+export class CoreAI_BTSequence extends CoreAI_ABTComposite {
+    private index = 0
 
-    constructor(
-        args: {
-            sensors?: CoreAI_SensorOptions
-            weights?: CoreAI_BaseSoldierWeights
-        } = {}
-    ) {
-        this.sensors = args.sensors ?? {}
-        this.weights = args.weights ?? {}
+    protected override onEnter(ctx: CoreAI_TickContext): void {
+        this.index = 0
     }
 
-    static default(): CoreAI_BaseSoldier {
-        return new CoreAI_BaseSoldier({
-            weights: {
-                isInBattle: 100,
-                vehicleToDrive: 90,
-                closestEnemy: 80,
-                capturePoint: 70,
-                arrivedPos: 60,
-                roamPos: 30,
-            },
-        })
+    protected update(ctx: CoreAI_TickContext): CoreAI_BTStatus {
+        while (this.index < this.children.length) {
+            const status = this.children[this.index].tick(ctx)
+            if (status !== 'success') return status
+
+            this.index++
+        }
+
+        return 'success'
     }
 }
 
 /**
- * ClosestEnemySensor:
- * Detects the closest visible enemy and writes raw data into memory.
+ * CoreAI_BTParallel:
+ * Ticks all unfinished children every tick.
  *
- * Writes:
- * - memory.closestEnemy
- * - memory.roamPos
+ * Policy:
+ * - 'all': succeeds when every child succeeded, fails on the first failure.
+ * - 'one': succeeds on the first success, fails when every child failed.
  *
  * Notes:
- * - No POIs are created.
- * - No behaviors are spawned.
- * - TaskSelector evaluates this memory to decide behavior.
+ * - Only one child should issue engine behaviors; use the others for
+ *   conditions and timers.
+ * - A child that completed without ever running (a condition) is
+ *   re-checked every tick; a child that ran keeps its result.
  */
-export class CoreAI_ClosestEnemySensor extends CoreAI_ASensor {
+export class CoreAI_BTParallel extends CoreAI_ABTComposite {
+    private results: Array<CoreAI_BTStatus | null> = []
+    private ran: boolean[] = []
+
     constructor(
-        private readonly sensitivity: number = 1,
-        intervalMs: number = 2000,
-        private readonly ttlMs: number = 8000 // parametric TTL
+        children: CoreAI_ABTNode[],
+        private readonly policy: 'all' | 'one' = 'all'
     ) {
-        super(intervalMs)
+        super(children)
     }
 
-    protected update(ctx: CoreAI_TickContext): void {
-        const player = ctx.player
-        if (!mod.IsPlayerValid(player)) return
+    protected override onEnter(ctx: CoreAI_TickContext): void {
+        this.results = this.children.map(() => null)
+        this.ran = this.children.map(() => false)
+    }
 
-        const myPos = mod.GetObjectPosition(player)
+    protected update(ctx: CoreAI_TickContext): CoreAI_BTStatus {
+        let successes = 0
+        let failures = 0
 
-        // Determine enemy team
-        const myTeam = mod.GetObjId(mod.GetTeam(player))
-        const enemyTeamId = myTeam === 1 ? 2 : 1
-        const enemyTeamObj = mod.GetTeam(enemyTeamId)
+        for (let i = 0; i < this.children.length; i++) {
+            if (!this.ran[i] || this.results[i] === 'running') {
+                this.results[i] = this.children[i].tick(ctx)
+            }
+            if (this.results[i] === 'running') this.ran[i] = true
 
-        // Find closest visible enemy
-        const newEnemy = mod.ClosestPlayerTo(myPos, enemyTeamObj)
-        if (!mod.IsPlayerValid(newEnemy)) {
-            // Clear enemy memory (TTL = immediate)
-            ctx.memory.set('closestEnemy', null)
-            return
+            if (this.results[i] === 'success') successes++
+            if (this.results[i] === 'failure') failures++
         }
 
-        // Same enemy -> nothing to update
-        if (ctx.memory.get('closestEnemy') === newEnemy) {
-            return
+        if (this.policy === 'one') {
+            if (successes > 0) return 'success'
+            if (failures === this.children.length) return 'failure'
+        } else {
+            if (failures > 0) return 'failure'
+            if (successes === this.children.length) return 'success'
         }
 
-        // Probabilistic detection
-        const enemyPos = mod.GetObjectPosition(newEnemy)
+        return 'running'
+    }
+}
 
-        const dist = mod.DistanceBetween(myPos, enemyPos)
-        const prob = Math.exp(-0.12 * dist * (1.0 / this.sensitivity))
-        if (Math.random() > prob) return
+/**
+ * CoreAI_BTHasMemory:
+ * Succeeds while a memory key is set (CoreAI_MemoryManager.has).
+ */
+export class CoreAI_BTHasMemory extends CoreAI_ABTNode {
+    constructor(private readonly key: keyof CoreAI_MemoryFields) {
+        super()
+    }
 
-        // Write memory with TTL
-        ctx.memory.set('closestEnemy', newEnemy, this.ttlMs)
+    protected update(ctx: CoreAI_TickContext): CoreAI_BTStatus {
+        return ctx.memory.has(this.key) ? 'success' : 'failure'
     }
 }
 
 /**
- * VehicleToDriveSensor:
- * Finds the closest vehicle with a free driver seat within radius.
- *
- * Writes:
- * - memory.vehicleToDrive
+ * CoreAI_BTCondition:
+ * Succeeds while the predicate holds.
  */
-export class CoreAI_VehicleToDriveSensor extends CoreAI_ASensor {
+export class CoreAI_BTCondition extends CoreAI_ABTNode {
     constructor(
-        private readonly radius: number = 30,
-        intervalMs: number = 1000,
-        private readonly ttlMs: number = 3000
+        private readonly predicate: (ctx: CoreAI_TickContext) => boolean
     ) {
-        super(intervalMs)
+        super()
     }
 
-    protected update(ctx: CoreAI_TickContext): void {
-        const player = ctx.player
-        if (!mod.IsPlayerValid(player)) return
-        if (mod.GetSoldierState(player, mod.SoldierStateBool.IsInVehicle)) {
-            ctx.memory.set('vehicleToDrive', null)
-            return
-        }
-
-        const myPos = mod.GetObjectPosition(player)
-
-        const vehicles = mod.AllVehicles()
-        const count = mod.CountOf(vehicles)
-
-        let closest: mod.Vehicle | null = null
-        let closestDist = Infinity
+    protected update(ctx: CoreAI_TickContext): CoreAI_BTStatus {
+        return this.predicate(ctx) ? 'success' : 'failure'
+    }
+}
 
-        for (let i = 0; i < count; i++) {
-            const v = mod.ValueInArray(vehicles, i) as mod.Vehicle
+/**
+ * CoreAI_ABTDecorator:
+ * Node wrapping a single child. Aborts the child on exit.
+ */
+export abstract class CoreAI_ABTDecorator extends CoreAI_ABTNode {
+    constructor(protected readonly child: CoreAI_ABTNode) {
+        super()
+    }
 
-            if (mod.IsVehicleSeatOccupied(v, 0)) {
-                continue
-            }
+    override getLabel(): string | null {
+        return this.child.isRunning() ? this.child.getLabel() : null
+    }
 
-            const vPos = mod.GetVehicleState(
-                v,
-                mod.VehicleStateVector.VehiclePosition
-            )
-            const dist = mod.DistanceBetween(myPos, vPos)
-            if (dist > this.radius) continue
+    protected override onExit(ctx: CoreAI_TickContext): void {
+        this.child.abort(ctx)
+    }
+}
 
-            if (dist < closestDist) {
-                closestDist = dist
-                closest = v
-            }
-        }
+/**
+ * CoreAI_BTInverter:
+ * Swaps success and failure of its child.
+ */
+export class CoreAI_BTInverter extends CoreAI_ABTDecorator {
+    protected update(ctx: CoreAI_TickContext): CoreAI_BTStatus {
+        const status = this.child.tick(ctx)
 
-        if (closest) {
-            ctx.memory.set('vehicleToDrive', closest, this.ttlMs)
-        } else {
-            ctx.memory.set('vehicleToDrive', null)
-        }
+        if (status === 'success') return 'failure'
+        if (status === 'failure') return 'success'
+        return status
     }
 }
 
 /**
- * ArrivalSensor:
- *
- * Detects when AI arrives inside ONE OR MORE special semantic points:
- * - defend positions
- * - objective markers
- * - interact zones
- * - rally points
+ * CoreAI_BTGuard:
+ * Runs its child only while a condition holds.
  *
- * This DOES NOT handle MoveTo arrival.
- * MoveToSensor handles movement arrival internally.
- *
- * This sensor is for high-level AI logic only.
+ * The condition is re-ticked every tick, also while the child runs, so
+ * a long-running leaf (battlefield, defend, idle, patrol) is aborted as
+ * soon as the condition stops succeeding. Use it to keep a branch under
+ * a reactive CoreAI_BTSelector pre-emptible.
  */
-export class CoreAI_ArrivalSensor extends CoreAI_ASensor {
-    private lastTriggerTime = 0
-
+export class CoreAI_BTGuard extends CoreAI_ABTDecorator {
     constructor(
-        private readonly getPoints: () => mod.Vector[],
-        intervalMs: number = 500,
-        private readonly distanceThreshold: number = 3.0, // arrival radius
-        private readonly ttl: number = 2000, // arrival memory duration
-        private readonly cooldownMs: number = 4000 // prevent spam-triggering
+        private readonly condition: CoreAI_ABTNode,
+        child: CoreAI_ABTNode
     ) {
-        super(intervalMs)
+        super(child)
     }
 
-    protected update(ctx: CoreAI_TickContext): void {
-        const memory = ctx.memory
-        const player = ctx.player
+    protected update(ctx: CoreAI_TickContext): CoreAI_BTStatus {
+        if (this.condition.tick(ctx) !== 'success') {
+            this.condition.abort(ctx)
+            return 'failure'
+        }
 
-        if (!mod.IsPlayerValid(player)) return
+        return this.child.tick(ctx)
+    }
+}
 
-        const now = ctx.time
-        const myPos = mod.GetObjectPosition(player)
+/**
+ * CoreAI_BTCooldown:
+ * Fails for cooldownMs after its child completes (success or failure).
+ */
+export class CoreAI_BTCooldown extends CoreAI_ABTDecorator {
+    private lastDone = -Infinity
 
-        const points = this.getPoints()
-        if (!points || points.length === 0) return
+    constructor(
+        child: CoreAI_ABTNode,
+        private readonly cooldownMs: number
+    ) {
+        super(child)
+    }
 
-        // ------------------------------------------------------------
-        // Cooldown - do not retrigger too frequently
-        // ------------------------------------------------------------
-        if (this.lastTriggerTime > 0) {
-            if (now - this.lastTriggerTime < this.cooldownMs) {
-                return
-            }
+    protected update(ctx: CoreAI_TickContext): CoreAI_BTStatus {
+        if (
+            !this.child.isRunning() &&
+            ctx.time - this.lastDone < this.cooldownMs
+        ) {
+            return 'failure'
         }
 
-        // ------------------------------------------------------------
-        // Only detect new arrival if arrival memory expired
-        // ------------------------------------------------------------
-        if (memory.get('arrivedPos')) {
-            return
+        const status = this.child.tick(ctx)
+        if (status !== 'running') {
+            this.lastDone = ctx.time
         }
 
-        // ------------------------------------------------------------
-        // MAIN ARRIVAL CHECK
-        // ------------------------------------------------------------
-        for (const p of points) {
-            const dist = mod.DistanceBetween(myPos, p)
-
-            if (dist <= this.distanceThreshold) {
-                // AI arrived to a special semantic point
-                memory.set('arrivedPos', p, this.ttl)
-                this.lastTriggerTime = now
-                return
-            }
-        }
+        return status
     }
 }
 
 /**
- * RoamSensor:
- * Picks a movement target from a list of points.
- *
- * Design:
- * - Direction-driven, no historical recents.
- * - While moving, backward targets are forbidden.
- * - Velocity is preferred when speed > threshold.
- * - Intent direction stabilizes steering across replans.
+ * CoreAI_BTTimeout:
+ * Aborts its child and fails once it has been running for timeoutMs.
  */
-export class CoreAI_RoamSensor extends CoreAI_ASensor {
-    private readonly ttlMs: number
-
-    private coldStart: boolean = true
-
-    // Cached movement intent direction
-    private lastIntentDir: mod.Vector | null = null
+export class CoreAI_BTTimeout extends CoreAI_ABTDecorator {
+    private startedAt = 0
 
     constructor(
-        private readonly getPoints: () => mod.Vector[],
-        intervalMs: number = 750,
-        ttlMs: number = 2000
+        child: CoreAI_ABTNode,
+        private readonly timeoutMs: number
     ) {
-        super(intervalMs)
-        this.ttlMs = ttlMs
+        super(child)
     }
 
-    override reset(): void {
-        this.coldStart = true
-        this.lastIntentDir = null
+    protected override onEnter(ctx: CoreAI_TickContext): void {
+        this.startedAt = ctx.time
     }
 
-    protected update(ctx: CoreAI_TickContext): void {
-        // Do not reselect while intent exists
-        if (ctx.memory.get('roamPos')) {
-            return
+    protected update(ctx: CoreAI_TickContext): CoreAI_BTStatus {
+        if (ctx.time - this.startedAt >= this.timeoutMs) {
+            return 'failure'
         }
 
-        const player = ctx.player
-        if (!mod.IsPlayerValid(player)) return
+        return this.child.tick(ctx)
+    }
+}
 
-        const points = this.getPoints()
-        if (!points || points.length === 0) return
+/** Target movement (m) that re-issues a running move/defend */
+const CoreAI_BT_POS_EPSILON = 0.5
 
-        const myPos = mod.GetObjectPosition(player)
+function CoreAI_playerPos(player: mod.Player): mod.Vector {
+    return mod.GetSoldierState(player, mod.SoldierStateVector.GetPosition)
+}
 
-        // ------------------------------------------------------------
-        // Resolve forward direction
-        // ------------------------------------------------------------
+/**
+ * CoreAI_BTMoveTo:
+ * Moves to a target; succeeds within arriveDistance, fails when the
+ * target cannot be resolved or is on ctx.moveBlacklist.
+ *
+ * Re-issues the move only when the target moves beyond POS_EPSILON.
+ * Drivers are moved with a re-seat sequence (CoreAI_MoveIssuer), which
+ * is cancelled when the node exits.
+ */
+export class CoreAI_BTMoveTo extends CoreAI_ABTNode {
+    private lastPos: mod.Vector | null = null
+    private moves: CoreAI_MoveIssuer = new CoreAI_MoveIssuer()
+    private reseat: CoreAI_CommandToken | null = null
 
-        const speed = mod.GetSoldierState(player, mod.SoldierStateNumber.Speed)
+    constructor(
+        private readonly target: CoreAI_BTTarget,
+        private readonly opts: {
+            arriveDistance?: number
+            move?: CoreAI_MoveMode
+            /** AILOSMoveToBehavior: stop once the target is in sight */
+            los?: boolean
+        } = {}
+    ) {
+        super()
+    }
 
-        let forward: mod.Vector | null = null
+    override getLabel(): string | null {
+        return this.opts.los ? 'losmoveto' : 'moveto'
+    }
 
-        // 1. True movement direction
-        if (speed > 0.3) {
-            const vel = mod.GetSoldierState(
-                player,
-                mod.SoldierStateVector.GetLinearVelocity
-            )
-            const lenSq = mod.DotProduct(vel, vel)
+    protected override onEnter(ctx: CoreAI_TickContext): void {
+        this.lastPos = null
+    }
 
-            if (lenSq > 0.1) {
-                forward = mod.Normalize(vel)
-                this.lastIntentDir = forward
-            }
-        }
+    protected override onExit(ctx: CoreAI_TickContext): void {
+        this.reseat?.cancel()
+        this.reseat = null
+    }
 
-        // 2. Cached intent
-        if (!forward && this.lastIntentDir) {
-            forward = this.lastIntentDir
+    protected update(ctx: CoreAI_TickContext): CoreAI_BTStatus {
+        const pos = CoreAI_resolveBTTarget(this.target, ctx)
+        if (!pos) return 'failure'
+
+        const dist = mod.DistanceBetween(CoreAI_playerPos(ctx.player), pos)
+        if (dist <= (this.opts.arriveDistance ?? 3.0)) return 'success'
+
+        if (ctx.moveBlacklist.isBlacklisted(pos, ctx.time)) return 'failure'
+
+        if (
+            this.lastPos &&
+            mod.DistanceBetween(this.lastPos, pos) <= CoreAI_BT_POS_EPSILON
+        ) {
+            return 'running'
         }
 
-        // 3. Facing fallback
-        if (!forward) {
-            const face = mod.GetSoldierState(
-                player,
-                mod.SoldierStateVector.GetFacingDirection
+        if (this.opts.los) {
+            mod.AILOSMoveToBehavior(ctx.player, pos)
+            ctx.moveBlacklist.setTarget(pos)
+        } else {
+            this.reseat = this.moves.moveTo(
+                ctx,
+                pos,
+                this.opts.move ?? 'validated'
             )
-            forward = mod.Normalize(face)
-            this.lastIntentDir = forward
         }
 
-        // ------------------------------------------------------------
-        // Build candidates
-        // ------------------------------------------------------------
-
-        const candidates: {
-            pos: mod.Vector
-            dist: number
-            dot: number
-        }[] = []
+        this.lastPos = pos
+        return 'running'
+    }
+}
 
-        const ARRIVAL_EXCLUDE_DIST = 3.0
+/**
+ * CoreAI_BTDefend:
+ * Defends a target position. Runs until aborted; fails without target
+ * or when the target is on ctx.moveBlacklist.
+ */
+export class CoreAI_BTDefend extends CoreAI_ABTNode {
+    private lastPos: mod.Vector | null = null
 
-        for (const pos of points) {
-            const dist = mod.DistanceBetween(myPos, pos)
+    constructor(
+        private readonly target: CoreAI_BTTarget,
+        private readonly minDistance: number = 2.0,
+        private readonly maxDistance: number = 8.0
+    ) {
+        super()
+    }
 
-            // Already here, do not reselect
-            if (dist < ARRIVAL_EXCLUDE_DIST) {
-                continue
-            }
+    override getLabel(): string | null {
+        return 'defend'
+    }
 
-            const dir = mod.DirectionTowards(myPos, pos)
-            const dot = mod.DotProduct(forward, dir)
+    protected override onEnter(ctx: CoreAI_TickContext): void {
+        this.lastPos = null
+    }
 
-            candidates.push({ pos, dist, dot })
-        }
+    protected update(ctx: CoreAI_TickContext): CoreAI_BTStatus {
+        const pos = CoreAI_resolveBTTarget(this.target, ctx)
+        if (!pos) return 'failure'
 
-        if (candidates.length === 0) return
+        if (ctx.moveBlacklist.isBlacklisted(pos, ctx.time)) return 'failure'
 
-        // ------------------------------------------------------------
-        // While moving, forbid backward choices
-        // ------------------------------------------------------------
+        if (
+            this.lastPos &&
+            mod.DistanceBetween(this.lastPos, pos) <= CoreAI_BT_POS_EPSILON
+        ) {
+            return 'running'
+        }
 
-        let usable = candidates
+        mod.AIDefendPositionBehavior(
+            ctx.player,
+            pos,
+            this.minDistance,
+            this.maxDistance
+        )
+        ctx.moveBlacklist.setTarget(pos)
 
-        if (speed > 0.5) {
-            usable = candidates.filter((c) => c.dot > 0)
-        }
+        this.lastPos = pos
+        return 'running'
+    }
+}
 
-        if (usable.length === 0) return
+/**
+ * CoreAI_ABTEngineBehavior:
+ * Issues one target-less engine behavior on enter and runs until aborted.
+ */
+export abstract class CoreAI_ABTEngineBehavior extends CoreAI_ABTNode {
+    protected override onEnter(ctx: CoreAI_TickContext): void {
+        this.issue(ctx.player)
+        ctx.moveBlacklist.setTarget(null)
+    }
 
-        // ------------------------------------------------------------
-        // Pick best candidate
-        // ------------------------------------------------------------
+    protected update(ctx: CoreAI_TickContext): CoreAI_BTStatus {
+        return 'running'
+    }
 
-        let best = usable[0]
-        let bestScore = -Infinity
+    protected abstract issue(player: mod.Player): void
+}
 
-        for (const c of usable) {
-            const score = this.scoreCandidate(c)
-            if (score > bestScore) {
-                bestScore = score
-                best = c
-            }
-        }
+export class CoreAI_BTBattlefield extends CoreAI_ABTEngineBehavior {
+    override getLabel(): string | null {
+        return 'battlefield'
+    }
 
-        // ------------------------------------------------------------
-        // Commit
-        // ------------------------------------------------------------
+    protected issue(player: mod.Player): void {
+        mod.AIBattlefieldBehavior(player)
+    }
+}
 
-        ctx.memory.set('roamPos', best.pos, this.ttlMs)
-        this.lastIntentDir = mod.DirectionTowards(myPos, best.pos)
-        this.coldStart = false
+export class CoreAI_BTIdle extends CoreAI_ABTEngineBehavior {
+    override getLabel(): string | null {
+        return 'idle'
     }
 
-    private scoreCandidate(c: {
-        pos: mod.Vector
-        dist: number
-        dot: number
-    }): number {
-        // Distance band scoring
-        let distScore = 0
-        if (c.dist <= 15) {
-            distScore = c.dist / 15
-        } else if (c.dist <= 40) {
-            distScore = 1
-        } else {
-            const over = c.dist - 40
-            distScore = over >= 20 ? 0 : 1 - over / 20
-        }
+    protected issue(player: mod.Player): void {
+        mod.AIIdleBehavior(player)
+    }
+}
 
-        const dirScore = Math.max(0, c.dot)
+export class CoreAI_BTPatrol extends CoreAI_ABTEngineBehavior {
+    constructor(private readonly waypointPath: number) {
+        super()
+    }
 
-        const jitterMax = this.coldStart ? 0.8 : 0.4
-        const jitter = Math.random() * jitterMax
+    override getLabel(): string | null {
+        return 'patrol'
+    }
 
-        return distScore * 0.7 + dirScore * 0.3 + jitter
+    protected issue(player: mod.Player): void {
+        mod.AIWaypointIdleBehavior(
+            player,
+            mod.GetWaypointPath(this.waypointPath)
+        )
     }
 }
 
 /**
- * VehicleToDriveSensor:
- * Finds the closest vehicle with a free driver seat within radius.
- *
- * Writes:
- * - memory.vehicleToDrive
+ * CoreAI_BTParachute:
+ * Deploys the parachute while in the air; succeeds once grounded.
  */
-export class CoreAI_CapturePointSensor extends CoreAI_ASensor {
-    constructor(
-        // private readonly radius: number = 30,
-        intervalMs: number = 1000,
-        private readonly ttlMs: number = 3000
-    ) {
-        super(intervalMs)
+export class CoreAI_BTParachute extends CoreAI_ABTNode {
+    override getLabel(): string | null {
+        return 'parachute'
     }
 
-    protected update(ctx: CoreAI_TickContext): void {
+    protected update(ctx: CoreAI_TickContext): CoreAI_BTStatus {
         const player = ctx.player
-        if (!mod.IsPlayerValid(player)) return
-
-        const capturePoints = mod.AllCapturePoints()
-        const count = mod.CountOf(capturePoints)
-
-        let closest: mod.CapturePoint | null = null
-        let closestDist = Infinity
-
-        for (let i = 0; i < count; i++) {
-            const cp = mod.ValueInArray(capturePoints, i) as mod.CapturePoint
-
-            // console.log(mod.GetObjId(cp))
-            // console.log(mod.GetCapturePoint(mod.GetObjId(cp)))
-
-            /* const pos = mod.GetObjectPosition(cp)
-            console.log(
-                mod.XComponentOf(pos),
-                ' ',
-                mod.YComponentOf(pos),
-                ' ',
-                mod.ZComponentOf(pos),
-                ' '
-            ) */
-
-            /* if (mod.IsVehicleSeatOccupied(v, 0)) {
-                continue
-            }
-
-            const vPos = mod.GetVehicleState(
-                v,
-                mod.VehicleStateVector.VehiclePosition
-            )
-            const dist = mod.DistanceBetween(myPos, vPos)
-            if (dist > this.radius) continue
 
-            if (dist < closestDist) {
-                closestDist = dist
-                closest = v
-            } */
+        if (!mod.GetSoldierState(player, mod.SoldierStateBool.IsInAir)) {
+            return 'success'
         }
 
-        if (closest) {
-            ctx.memory.set('capturePoint', closest, this.ttlMs)
-        } else {
-            ctx.memory.set('capturePoint', null)
+        if (!mod.GetSoldierState(player, mod.SoldierStateBool.IsParachuting)) {
+            mod.AIParachuteBehavior(player)
+            ctx.moveBlacklist.setTarget(null)
         }
+
+        return 'running'
     }
 }
 
 /**
- * MoveToCapturePointSensor
- *
- * Purpose:
- * - Selects a movement target from a set of capture points.
- * - Chooses only capture points not owned by the player's team.
- *
- * Behavior:
- * - Evaluates distance to all valid capture points.
- * - Keeps the two closest candidates.
- * - Randomly selects between the closest and second-closest target
- *   to reduce AI clustering.
- *
- * Memory:
- * - Writes `roamPos` intent with a TTL.
- * - Does not reselect while a valid `roamPos` intent exists.
- *
- * Notes:
- * - No pathfinding or movement logic (sensor-only).
- * - Selection is distance-based only; higher-level pressure or
- *   role-based logic can be layered later.
+ * CoreAI_BTEnterVehicle:
+ * Walks to a vehicle and takes a seat; succeeds once in a vehicle.
+ * Fails when the vehicle is gone, the seat is taken or the vehicle is
+ * on ctx.moveBlacklist.
  */
-export class CoreAI_CapturePointMoveToSensor extends CoreAI_ASensor {
-    private readonly ttlMs: number
+export class CoreAI_BTEnterVehicle extends CoreAI_ABTNode {
+    private moving = false
 
     constructor(
-        private readonly getCapturePoints: () => mod.CapturePoint[],
-        intervalMs: number = 750,
-        ttlMs: number = 6000
+        private readonly vehicle:
+            | keyof CoreAI_MemoryFields
+            | ((ctx: CoreAI_TickContext) => mod.Vehicle | null),
+        private readonly seat: number = 0,
+        private readonly enterDistance: number = 3.0
     ) {
-        super(intervalMs)
-        this.ttlMs = ttlMs
+        super()
     }
 
-    override reset(): void {}
-
-    protected update(ctx: CoreAI_TickContext): void {
-        const player = ctx.player
-        if (!mod.IsPlayerValid(player)) return
-
-        // Do not reselect while intent exists
-        if (ctx.memory.get('roamPos')) return
+    override getLabel(): string | null {
+        return 'moveto'
+    }
 
-        const capturePoints = this.getCapturePoints()
-        if (!capturePoints || capturePoints.length === 0) return
+    protected override onEnter(ctx: CoreAI_TickContext): void {
+        this.moving = false
+    }
 
-        // ------------------------------------------------------------
-        //
-        // ------------------------------------------------------------
+    protected update(ctx: CoreAI_TickContext): CoreAI_BTStatus {
+        const player = ctx.player
 
-        const playerPos = mod.GetObjectPosition(player)
+        if (mod.GetSoldierState(player, mod.SoldierStateBool.IsInVehicle)) {
+            return 'success'
+        }
 
-        const playerTeamId = mod.GetObjId(mod.GetTeam(player))
+        const vehicle =
+            typeof this.vehicle === 'function'
+                ? this.vehicle(ctx)
+                : (ctx.memory.get(this.vehicle) as mod.Vehicle | null)
+        if (!vehicle) return 'failure'
 
-        // store up to two closest
-        let closest: { pos: mod.Vector; dist: number } | null = null
-        let secondClosest: { pos: mod.Vector; dist: number } | null = null
+        if (mod.IsVehicleSeatOccupied(vehicle, this.seat)) return 'failure'
 
-        for (const cp of capturePoints) {
-            const owner = mod.GetCurrentOwnerTeam(cp)
+        const vPos = mod.GetVehicleState(
+            vehicle,
+            mod.VehicleStateVector.VehiclePosition
+        )
 
-            // exclude CPs already owned by player team
-            if (mod.GetObjId(owner) === playerTeamId) {
-                continue
-            }
+        if (
+            mod.DistanceBetween(CoreAI_playerPos(player), vPos) <=
+            this.enterDistance
+        ) {
+            mod.ForcePlayerToSeat(player, vehicle, this.seat)
+            return 'running'
+        }
 
-            const cpPos = mod.GetObjectPosition(cp)
-            const dist = mod.DistanceBetween(playerPos, cpPos)
+        if (ctx.moveBlacklist.isBlacklisted(vPos, ctx.time)) return 'failure'
 
-            if (!closest || dist < closest.dist) {
-                secondClosest = closest
-                closest = { pos: cpPos, dist }
-            } else if (!secondClosest || dist < secondClosest.dist) {
-                secondClosest = { pos: cpPos, dist }
-            }
+        if (!this.moving) {
+            mod.AIMoveToBehavior(player, vPos)
+            ctx.moveBlacklist.setTarget(vPos)
+            this.moving = true
         }
 
-        if (!closest) {
-            return
-        }
+        return 'running'
+    }
+}
 
-        // only one candidate
-        if (!secondClosest) {
-            ctx.memory.set('roamPos', closest.pos, this.ttlMs)
-            return
-        }
+/**
+ * CoreAI_BTExitVehicle:
+ * Leaves the current vehicle; succeeds once on foot.
+ */
+export class CoreAI_BTExitVehicle extends CoreAI_ABTNode {
+    protected update(ctx: CoreAI_TickContext): CoreAI_BTStatus {
+        const player = ctx.player
 
-        // ------------------------------------------------------------
-        // Commit
-        // ------------------------------------------------------------
+        if (!mod.GetSoldierState(player, mod.SoldierStateBool.IsInVehicle)) {
+            return 'success'
+        }
 
-        ctx.memory.set(
-            'roamPos',
-            Math.random() < 1 ? closest.pos : secondClosest.pos,
-            this.ttlMs
-        )
+        mod.ForcePlayerExitVehicle(player, mod.GetVehicleFromPlayer(player))
+        return 'running'
     }
 }
 
 /**
- * CoreAI_Brain
- *
- * Pure AI logic unit.
- *
- * Responsibilities:
- * - Perception
- * - Memory
- * - Behavior selection
- * - Behavior execution
- *
- * Does NOT:
- * - Attach itself to players
- * - Listen to player events directly
- * - Manage lifecycle bindings
- *
- * All player integration is handled by BrainComponent.
+ * CoreAI_BTWait:
+ * Runs for durationMs, then succeeds.
  */
+export class CoreAI_BTWait extends CoreAI_ABTNode {
+    private startedAt = 0
 
-// @stringkeys bots: 1..32
+    constructor(private readonly durationMs: number) {
+        super()
+    }
 
-export class CoreAI_Brain {
-    public player: mod.Player
+    protected override onEnter(ctx: CoreAI_TickContext): void {
+        this.startedAt = ctx.time
+    }
 
-    public perception: CoreAI_Perception
-    public memory: CoreAI_MemoryManager
-    private debugWI: CoreAI_DebugWI | null = null
-    private actionRunner: CoreAI_ActionRunner
-    private behaviorSelector: CoreAI_BehaviorSelector | null = null
+    protected update(ctx: CoreAI_TickContext): CoreAI_BTStatus {
+        return ctx.time - this.startedAt >= this.durationMs
+            ? 'success'
+            : 'running'
+    }
+}
 
-    constructor(
-        player: mod.Player,
-        profile: CoreAI_BaseSoldier,
-        enableDebug: boolean = false
-    ) {
-        this.player = player
+/**
+ * CoreAI_driveAndDefendTree:
+ * "Enter vehicle, drive, dismount, defend", fighting whenever an enemy
+ * is known:
+ *   brain.setBehaviorController(
+ *       new CoreAI_BehaviorTree(CoreAI_driveAndDefendTree())
+ *   )
+ *
+ * - Both branches sit behind a CoreAI_BTGuard, so the fight pre-empts
+ *   the defend leaf and ends as soon as closestEnemy clears.
+ * - The vehicle is optional: without one the bot walks to the point.
+ * - The defend branch restarts from the first step after a fight, so a
+ *   bot that dismounted elsewhere gets back in.
+ * - CoreAI_EnterVehicleAction also seats the bot next to
+ *   memory.vehicleToDrive; pass a resolver as `vehicle` to keep the bot
+ *   on foot next to a vehicle at the point.
+ */
+export function CoreAI_driveAndDefendTree(
+    opts: {
+        point?: keyof CoreAI_MemoryFields
+        vehicle?:
+            | keyof CoreAI_MemoryFields
+            | ((ctx: CoreAI_TickContext) => mod.Vehicle | null)
+        enemy?: keyof CoreAI_MemoryFields
+        /** Distance (m) from the point where the bot dismounts */
+        dismountDistance?: number
+        defendMinDistance?: number
+        defendMaxDistance?: number
+    } = {}
+): CoreAI_ABTNode {
+    const point = opts.point ?? 'capturePoint'
+
+    return new CoreAI_BTSelector([
+        new CoreAI_BTGuard(
+            new CoreAI_BTHasMemory(opts.enemy ?? 'closestEnemy'),
+            new CoreAI_BTBattlefield()
+        ),
+        new CoreAI_BTGuard(
+            new CoreAI_BTHasMemory(point),
+            new CoreAI_BTSequence([
+                new CoreAI_BTSelector([
+                    new CoreAI_BTEnterVehicle(opts.vehicle ?? 'vehicleToDrive'),
+                    new CoreAI_BTCondition(() => true),
+                ]),
+                new CoreAI_BTMoveTo(point, {
+                    arriveDistance: opts.dismountDistance ?? 15,
+                }),
+                new CoreAI_BTExitVehicle(),
+                new CoreAI_BTDefend(
+                    point,
+                    opts.defendMinDistance ?? 5,
+                    opts.defendMaxDistance ?? 20
+                ),
+            ])
+        ),
+    ])
+}
 
-        this.memory = new CoreAI_MemoryManager()
-        this.perception = new CoreAI_Perception()
-        this.actionRunner = new CoreAI_ActionRunner([
-            new CoreAI_SetTargetAction(),
-            new CoreAI_EnterVehicleAction(),
-        ])
+/**
+ * World state as named boolean facts (hasVehicle, atPos, enemyNear...).
+ * Missing facts count as false.
+ */
+export type CoreAI_GoapState = Record<string, boolean>
 
-        if (enableDebug)
-            this.debugWI = new CoreAI_DebugWI(
-                mod.FirstOf(mod.AllPlayers()),
-                this
-            )
+/**
+ * Fact readers: derive each fact from memory / the player every tick.
+ */
+export type CoreAI_GoapFacts = Record<
+    string,
+    (ctx: CoreAI_TickContext) => boolean
+>
 
-        this.installProfile(profile)
-    }
+/**
+ * Declarative planner action.
+ */
+export interface CoreAI_GoapAction {
+    name: string
 
-    /* ------------------------------------------------------------
-     * Profile installation
-     * ------------------------------------------------------------ */
+    /** Facts that must hold before the action can run */
+    preconditions: CoreAI_GoapState
 
-    installProfile(profile: CoreAI_BaseSoldier): void {
-        if (this.behaviorSelector) {
-            this.behaviorSelector.setWeights(profile.weights)
-        } else {
-            this.setBehaviorSelector(
-                new CoreAI_BehaviorSelector({
-                    weights: profile.weights,
-                })
-            )
-        }
-        this.perception.clearSensors()
-        this.installSensorsFromOptions(profile.sensors)
-    }
+    /** Facts the action makes true/false when it succeeds */
+    effects: CoreAI_GoapState
 
-    private installSensorsFromOptions(options: CoreAI_SensorOptions): void {
-        this.addSensorIf(
-            options.battleSensor,
-            () =>
-                new CoreAI_BattleSensor(
-                    options.battleSensor?.intervalMs,
-                    options.battleSensor?.ttlMs
-                )
-        )
+    /** Plan cost (default 1, must not be negative) */
+    cost?: number | ((ctx: CoreAI_TickContext) => number)
 
-        this.addSensorIf(
-            options.closestEnemySensor,
-            () =>
-                new CoreAI_ClosestEnemySensor(
-                    options.closestEnemySensor?.sensitivity,
-                    options.closestEnemySensor?.intervalMs,
-                    options.closestEnemySensor?.ttlMs
-                )
-        )
+    /** Procedural check at plan time (e.g. vehicle seat free) */
+    available?: (ctx: CoreAI_TickContext) => boolean
 
-        this.addSensorIf(
-            options.vehicleToDriveSensor,
-            () =>
-                new CoreAI_VehicleToDriveSensor(
-                    options.vehicleToDriveSensor?.radius,
-                    options.vehicleToDriveSensor?.intervalMs,
-                    options.vehicleToDriveSensor?.ttlMs
-                )
-        )
+    /**
+     * Executor: a behavior-tree node issuing engine behaviors.
+     * Step completes on success; failure forces a replan.
+     */
+    node: CoreAI_ABTNode
+}
 
-        this.addSensorIf(
-            options.arrivalSensor?.getWPs,
-            () =>
-                new CoreAI_ArrivalSensor(
-                    () => options.arrivalSensor!.getWPs!(),
-                    options.arrivalSensor?.intervalMs,
-                    options.arrivalSensor?.distanceThreshold,
-                    options.arrivalSensor?.ttlMs,
-                    options.arrivalSensor?.cooldownMs
-                )
-        )
+export interface CoreAI_GoapGoal {
+    name: string
 
-        this.addSensorIf(
-            options.capturePointSensor,
-            () =>
-                new CoreAI_CapturePointSensor(
-                    options.capturePointSensor?.intervalMs,
-                    options.capturePointSensor?.ttlMs
-                )
-        )
+    /** Facts the goal wants to hold */
+    conditions: CoreAI_GoapState
 
-        this.addSensorIf(
-            options.moveToCapturePointSensor?.getCapturePoints,
-            () =>
-                new CoreAI_CapturePointMoveToSensor(
-                    () => options.moveToCapturePointSensor!.getCapturePoints!(),
-                    options.moveToCapturePointSensor?.intervalMs,
-                    options.moveToCapturePointSensor?.ttlMs
-                )
-        )
+    /** Highest unsatisfied goal is planned for; <= 0 disables it */
+    priority: number | ((ctx: CoreAI_TickContext) => number)
+}
 
-        this.addSensorIf(
-            options.roamSensor?.getWPs,
-            () =>
-                new CoreAI_RoamSensor(
-                    () => options.roamSensor!.getWPs!(),
-                    options.roamSensor?.intervalMs,
-                    options.roamSensor?.ttlMs
-                )
-        )
-    }
+interface CoreAI_GoapNode {
+    state: CoreAI_GoapState
+    actions: CoreAI_GoapAction[]
+    cost: number
+    estimate: number
+}
 
-    private addSensorIf(
-        condition: unknown,
-        factory: () => CoreAI_ASensor
-    ): void {
-        if (condition) {
-            this.perception.addSensor(factory())
-        }
+/**
+ * True if every fact in conditions matches state.
+ */
+export function CoreAI_goapSatisfies(
+    state: CoreAI_GoapState,
+    conditions: CoreAI_GoapState
+): boolean {
+    for (const fact in conditions) {
+        if ((state[fact] ?? false) !== conditions[fact]) return false
     }
 
-    setBehaviorSelector(selector: CoreAI_BehaviorSelector | null): void {
-        this.behaviorSelector = selector
+    return true
+}
+
+function CoreAI_goapUnsatisfied(
+    state: CoreAI_GoapState,
+    conditions: CoreAI_GoapState
+): number {
+    let n = 0
+    for (const fact in conditions) {
+        if ((state[fact] ?? false) !== conditions[fact]) n++
     }
 
-    /* ------------------------------------------------------------
-     * Sensor API
-     * ------------------------------------------------------------ */
+    return n
+}
 
-    useSensor<T extends CoreAI_ASensor>(sensor: T): T {
-        const ctor = sensor.constructor as Function
-        this.perception.removeSensor(ctor)
-        this.perception.addSensor(sensor)
-        return sensor
-    }
+function CoreAI_goapStateKey(state: CoreAI_GoapState): string {
+    return Object.keys(state)
+        .filter((fact) => state[fact])
+        .sort()
+        .join('|')
+}
 
-    removeSensor(ctor: Function): void {
-        this.perception.removeSensor(ctor)
+/**
+ * Cheapest action sequence turning start into a state satisfying goal
+ * (A* over fact states). Returns null if no plan is found within
+ * maxIterations expansions; an empty array if goal already holds.
+ *
+ * The estimate (unmet goal facts over the most effects of one action,
+ * times the cheapest action cost) never overestimates, so plans stay
+ * cheapest with fractional costs too. Costs must not be negative.
+ */
+export function CoreAI_planGoap(
+    ctx: CoreAI_TickContext,
+    start: CoreAI_GoapState,
+    goal: CoreAI_GoapState,
+    actions: CoreAI_GoapAction[],
+    maxIterations: number = 256
+): CoreAI_GoapAction[] | null {
+    const usable = actions.filter((a) => a.available?.(ctx) ?? true)
+    const costs = new Map<CoreAI_GoapAction, number>()
+    let minCost = Infinity
+    let maxEffects = 1
+    for (const a of usable) {
+        const cost = typeof a.cost === 'function' ? a.cost(ctx) : (a.cost ?? 1)
+        costs.set(a, cost)
+        minCost = Math.min(minCost, cost)
+        maxEffects = Math.max(maxEffects, Object.keys(a.effects).length)
     }
 
-    getSensor<T extends CoreAI_ASensor>(
-        ctor: new (...args: any[]) => T
-    ): T | undefined {
-        return this.perception.getSensor(ctor)
-    }
+    const estimate = (state: CoreAI_GoapState): number => {
+        const unmet = CoreAI_goapUnsatisfied(state, goal)
+        if (unmet === 0) return 0
 
-    getSensors(): readonly CoreAI_ASensor[] {
-        return this.perception.getSensors()
+        return Math.ceil(unmet / maxEffects) * minCost
     }
 
-    /* ------------------------------------------------------------
-     * Player lifecycle hooks (called by BrainComponent)
-     * ------------------------------------------------------------ */
+    const open: CoreAI_GoapNode[] = [
+        {
+            state: start,
+            actions: [],
+            cost: 0,
+            estimate: estimate(start),
+        },
+    ]
+    const closed = new Set<string>()
+
+    for (let i = 0; i < maxIterations && open.length > 0; i++) {
+        let best = 0
+        for (let j = 1; j < open.length; j++) {
+            if (
+                open[j].cost + open[j].estimate <
+                open[best].cost + open[best].estimate
+            ) {
+                best = j
+            }
+        }
 
-    reset(): void {
-        this.perception.reset()
-        this.memory.reset()
-        this.actionRunner.reset()
+        const node = open.splice(best, 1)[0]
+        if (CoreAI_goapSatisfies(node.state, goal)) return node.actions
 
-        if (mod.IsPlayerValid(this.player)) {
-            mod.AISetTarget(this.player)
+        const key = CoreAI_goapStateKey(node.state)
+        if (closed.has(key)) continue
+        closed.add(key)
+
+        for (const action of usable) {
+            if (!CoreAI_goapSatisfies(node.state, action.preconditions)) {
+                continue
+            }
+
+            const state = { ...node.state, ...action.effects }
+            if (closed.has(CoreAI_goapStateKey(state))) continue
+
+            open.push({
+                state,
+                actions: [...node.actions, action],
+                cost: node.cost + (costs.get(action) ?? 1),
+                estimate: estimate(state),
+            })
         }
     }
 
-    /* ------------------------------------------------------------
-     * Movement finished
-     * ------------------------------------------------------------ */
+    return null
+}
 
-    OnAIMoveFinished(success: boolean): void {
-        // mod.DisplayHighlightedWorldLogMessage(mod.Message(123))
-        this.memory.set('roamPos', null)
-    }
+export interface CoreAI_GoapConfig {
+    facts: CoreAI_GoapFacts
+    actions: CoreAI_GoapAction[]
+    goals: CoreAI_GoapGoal[]
 
-    /* ------------------------------------------------------------
-     * Damage event
-     * ------------------------------------------------------------ */
+    /** Planner expansion budget per replan (default 256) */
+    maxIterations?: number
 
-    OnPlayerDamaged(
-        eventOtherPlayer: mod.Player,
-        eventDamageType: mod.DamageType,
-        eventWeaponUnlock: mod.WeaponUnlock
-    ): void {
-        const battleSensor = this.getSensor(CoreAI_BattleSensor)
-        if (!battleSensor) return
+    /** Delay (ms) before retrying when no goal could be planned */
+    retryMs?: number
+}
 
-        const tickCtx: CoreAI_TickContext = {
-            player: this.player,
-            memory: this.memory,
-            time: this.memory.time,
-        }
+/**
+ * CoreAI_GoapController
+ *
+ * Goal-oriented planner, pluggable in place of CoreAI_BehaviorSelector
+ * (per profile via CoreAI_BaseSoldier.controller).
+ *
+ * Each tick:
+ * - Reads the world state from memory through the fact readers.
+ * - Picks the highest-priority goal that does not hold yet.
+ * - Replans when the goal changes, the plan ran out, a step failed or
+ *   the current step's preconditions no longer hold.
+ * - Ticks the current step's node; success advances the plan.
+ *
+ * Notes:
+ * - Build the config inside the profile's controller factory: action
+ *   nodes hold per-brain runtime state and must not be shared.
+ */
+export class CoreAI_GoapController implements CoreAI_IBehaviorController {
+    private goal: CoreAI_GoapGoal | null = null
+    private plan: CoreAI_GoapAction[] = []
+    private step = 0
+    private invalid = true
+    private retryAt = 0
+    private current: string | null = null
 
-        battleSensor.OnPlayerDamaged?.(
-            tickCtx,
-            eventOtherPlayer,
-            eventDamageType,
-            eventWeaponUnlock
-        )
-    }
+    constructor(private readonly cfg: CoreAI_GoapConfig) {}
 
-    /* ------------------------------------------------------------
-     * Raycast hit event
-     * ------------------------------------------------------------ */
+    update(ctx: CoreAI_TickContext): void {
+        if (!mod.IsPlayerValid(ctx.player)) return
 
-    OnRayCastHit(eventPoint: mod.Vector, eventNormal: mod.Vector): void {
-        const battleSensor = this.getSensor(CoreAI_BattleSensor)
-        if (!battleSensor) return
+        const state = this.readState(ctx)
+        const goal = this.pickGoal(ctx, state)
 
-        const tickCtx: CoreAI_TickContext = {
-            player: this.player,
-            memory: this.memory,
-            time: this.memory.time,
+        if (goal !== this.goal || this.needsReplan(state)) {
+            if (goal !== this.goal || ctx.time >= this.retryAt) {
+                this.replan(ctx, state, goal)
+            }
         }
 
-        battleSensor.OnRayCastHit?.(tickCtx, eventPoint, eventNormal)
-    }
+        const action = this.plan[this.step]
+        if (!action) return
 
-    /* ------------------------------------------------------------
-     * Tick (called by BrainComponent)
-     * ------------------------------------------------------------ */
+        const status = action.node.tick(ctx)
+        this.current = action.node.getLabel() ?? this.current
 
-    OngoingPlayer(): void {
-        if (!mod.IsPlayerValid(this.player)) {
-            return
+        if (status === 'success') {
+            this.step++
+        } else if (status === 'failure') {
+            this.invalid = true
         }
+    }
 
-        this.memory.time = Date.now()
-        this.memory.prune()
+    getCurrent(): string | null {
+        return this.current
+    }
 
-        if (!mod.GetSoldierState(this.player, mod.SoldierStateBool.IsAlive)) {
-            return
+    /**
+     * Active goal name (for debug/UI).
+     */
+    getGoal(): string | null {
+        return this.goal?.name ?? null
+    }
+
+    /**
+     * Remaining plan steps (for debug/UI).
+     */
+    getPlan(): string[] {
+        return this.plan.slice(this.step).map((a) => a.name)
+    }
+
+    private readState(ctx: CoreAI_TickContext): CoreAI_GoapState {
+        const state: CoreAI_GoapState = {}
+        for (const fact in this.cfg.facts) {
+            state[fact] = this.cfg.facts[fact](ctx)
         }
 
-        this.debugWI?.tick()
+        return state
+    }
 
-        const tickCtx: CoreAI_TickContext = {
-            player: this.player,
-            memory: this.memory,
-            time: this.memory.time,
+    private pickGoal(
+        ctx: CoreAI_TickContext,
+        state: CoreAI_GoapState
+    ): CoreAI_GoapGoal | null {
+        let best: CoreAI_GoapGoal | null = null
+        let bestPriority = 0
+
+        for (const goal of this.cfg.goals) {
+            if (CoreAI_goapSatisfies(state, goal.conditions)) continue
+
+            const priority =
+                typeof goal.priority === 'function'
+                    ? goal.priority(ctx)
+                    : goal.priority
+            if (priority > bestPriority) {
+                bestPriority = priority
+                best = goal
+            }
         }
 
-        this.perception.tick(tickCtx)
-        this.actionRunner.tick(tickCtx)
+        return best
+    }
+
+    private needsReplan(state: CoreAI_GoapState): boolean {
+        if (this.invalid) return true
 
-        this.behaviorSelector?.update(tickCtx)
+        const action = this.plan[this.step]
+        if (!action) return true
+
+        return !CoreAI_goapSatisfies(state, action.preconditions)
     }
 
-    getBehaviorLabel(): string | null {
-        return this.behaviorSelector?.getCurrent() ?? null
+    private replan(
+        ctx: CoreAI_TickContext,
+        state: CoreAI_GoapState,
+        goal: CoreAI_GoapGoal | null
+    ): void {
+        this.plan[this.step]?.node.abort(ctx)
+
+        this.goal = goal
+        this.plan = []
+        this.step = 0
+        this.invalid = false
+
+        if (!goal) return
+
+        const plan = CoreAI_planGoap(
+            ctx,
+            state,
+            goal.conditions,
+            this.cfg.actions,
+            this.cfg.maxIterations
+        )
+
+        if (plan) {
+            this.plan = plan
+        } else {
+            this.invalid = true
+            this.retryAt = ctx.time + (this.cfg.retryMs ?? 1000)
+        }
     }
 }
 
+type CoreAI_GoapFactReader = (ctx: CoreAI_TickContext) => boolean
+
+/**
+ * Common fact readers for CoreAI_GoapFacts.
+ *
+ * Example:
+ *   facts: {
+ *       hasVehicle: CoreAI_GoapFactReaders.inVehicle(),
+ *       enemyNear:  CoreAI_GoapFactReaders.memory('closestEnemy'),
+ *       atPos:      CoreAI_GoapFactReaders.near('capturePoint', 5),
+ *   }
+ */
+export const CoreAI_GoapFactReaders = {
+    /** Memory key is set */
+    memory:
+        (key: keyof CoreAI_MemoryFields): CoreAI_GoapFactReader =>
+        (ctx) =>
+            ctx.memory.has(key),
+
+    /** Bot sits in any vehicle */
+    inVehicle: (): CoreAI_GoapFactReader => (ctx) =>
+        mod.GetSoldierState(ctx.player, mod.SoldierStateBool.IsInVehicle),
+
+    /** Bot is within radius (m) of a target; false without target */
+    near:
+        (target: CoreAI_BTTarget, radius: number): CoreAI_GoapFactReader =>
+        (ctx) => {
+            const pos = CoreAI_resolveBTTarget(target, ctx)
+            if (!pos) return false
+
+            const myPos = mod.GetSoldierState(
+                ctx.player,
+                mod.SoldierStateVector.GetPosition
+            )
+            return mod.DistanceBetween(myPos, pos) <= radius
+        },
+}
+
 //----------- END OF BRAIN
 
 //------------------------------------------------------------------------------------------------
@@ -2042,6 +7543,33 @@ const infantryProfile = new CoreAI_BaseSoldier({
     },
 })
 
+/**
+ * Opt-in: infantryProfile plus threat memory, enemy ranking and
+ * tracking, hearing, search and retreat. Costs one extra raycast per
+ * enemy within 150m every 500ms per bot (EnemyListSensor).
+ * Install it instead of infantryProfile in the callbacks below to try it.
+ */
+const awareInfantryProfile = new CoreAI_BaseSoldier({
+    weights: {
+        retreatPos: 110,
+        vehicleToDrive: 100,
+        isInBattle: 90,
+        lastAttacker: 85,
+        closestEnemy: 80,
+        investigatePos: 50,
+        searchPos: 40,
+        roamPos: 30,
+    },
+    sensors: {
+        ...infantryProfile.sensors,
+        threatSensor: {},
+        enemyListSensor: {},
+        enemyTrackSensor: {},
+        hearingSensor: {},
+        selfStatusSensor: {},
+    },
+})
+
 const driverProfile = new CoreAI_BaseSoldier({
     weights: {
         isInBattle: 100,
@@ -2190,6 +7718,154 @@ export function OnRayCastHit(
     }
 }
 
+// This will trigger when a Raycast misses.
+export function OnRayCastMissed(eventPlayer: mod.Player): void {
+    const brain = getBrain(eventPlayer)
+    if (brain) {
+        brain.OnRayCastMissed()
+    }
+}
+
+// This will trigger whenever a Player dies.
+export function OnPlayerDied(
+    eventPlayer: mod.Player,
+    eventOtherPlayer: mod.Player,
+    eventDeathType: mod.DeathType,
+    eventWeaponUnlock: mod.WeaponUnlock
+): void {
+    const brain = getBrain(eventPlayer)
+    if (brain) {
+        brain.OnPlayerDied(eventOtherPlayer, eventDeathType, eventWeaponUnlock)
+    }
+}
+
+// This will trigger when a Player earns a kill against another Player.
+export function OnPlayerEarnedKill(
+    eventPlayer: mod.Player,
+    eventOtherPlayer: mod.Player,
+    eventDeathType: mod.DeathType,
+    eventWeaponUnlock: mod.WeaponUnlock
+): void {
+    const brain = getBrain(eventPlayer)
+    if (brain) {
+        brain.OnPlayerEarnedKill(
+            eventOtherPlayer,
+            eventDeathType,
+            eventWeaponUnlock
+        )
+    }
+}
+
+// This will trigger when a Player is forced into the mandown state.
+export function OnMandown(
+    eventPlayer: mod.Player,
+    eventOtherPlayer: mod.Player
+): void {
+    const brain = getBrain(eventPlayer)
+    if (brain) {
+        brain.OnMandown(eventOtherPlayer)
+    }
+}
+
+// This will trigger when a Player is revived by another Player.
+export function OnRevived(
+    eventPlayer: mod.Player,
+    eventOtherPlayer: mod.Player
+): void {
+    const brain = getBrain(eventPlayer)
+    if (brain) {
+        brain.OnRevived(eventOtherPlayer)
+    }
+}
+
+// This will trigger when an AI Soldier reaches target location.
+export function OnAIMoveToSucceeded(eventPlayer: mod.Player): void {
+    const brain = getBrain(eventPlayer)
+    if (brain) {
+        brain.OnAIMoveToSucceeded()
+    }
+}
+
+// This will trigger when an AI Soldier stops trying to reach a destination.
+export function OnAIMoveToFailed(eventPlayer: mod.Player): void {
+    const brain = getBrain(eventPlayer)
+    if (brain) {
+        brain.OnAIMoveToFailed()
+    }
+}
+
+// This will trigger when a Player enters a CapturePoint capturing area.
+export function OnPlayerEnterCapturePoint(
+    eventPlayer: mod.Player,
+    eventCapturePoint: mod.CapturePoint
+): void {
+    const brain = getBrain(eventPlayer)
+    if (brain) {
+        brain.OnPlayerEnterCapturePoint(eventCapturePoint)
+    }
+}
+
+// This will trigger when a Player exits a CapturePoint capturing area.
+export function OnPlayerExitCapturePoint(
+    eventPlayer: mod.Player,
+    eventCapturePoint: mod.CapturePoint
+): void {
+    const brain = getBrain(eventPlayer)
+    if (brain) {
+        brain.OnPlayerExitCapturePoint(eventCapturePoint)
+    }
+}
+
+// This will trigger when a Player enters an AreaTrigger.
+export function OnPlayerEnterAreaTrigger(
+    eventPlayer: mod.Player,
+    eventAreaTrigger: mod.AreaTrigger
+): void {
+    const brain = getBrain(eventPlayer)
+    if (brain) {
+        brain.OnPlayerEnterAreaTrigger(eventAreaTrigger)
+    }
+}
+
+// This will trigger when a Player exits an AreaTrigger.
+export function OnPlayerExitAreaTrigger(
+    eventPlayer: mod.Player,
+    eventAreaTrigger: mod.AreaTrigger
+): void {
+    const brain = getBrain(eventPlayer)
+    if (brain) {
+        brain.OnPlayerExitAreaTrigger(eventAreaTrigger)
+    }
+}
+
+// This will trigger when a Vehicle is destroyed.
+export function OnVehicleDestroyed(eventVehicle: mod.Vehicle): void {
+    for (const brain of brainManager.values()) {
+        brain.OnVehicleDestroyed(eventVehicle)
+    }
+}
+
+// This will trigger when a MCOM is armed.
+export function OnMCOMArmed(eventMCOM: mod.MCOM): void {
+    for (const brain of brainManager.values()) {
+        brain.OnMCOMArmed(eventMCOM)
+    }
+}
+
+// This will trigger when a MCOM is defused.
+export function OnMCOMDefused(eventMCOM: mod.MCOM): void {
+    for (const brain of brainManager.values()) {
+        brain.OnMCOMDefused(eventMCOM)
+    }
+}
+
+// This will trigger when a MCOM detonates.
+export function OnMCOMDestroyed(eventMCOM: mod.MCOM): void {
+    for (const brain of brainManager.values()) {
+        brain.OnMCOMDestroyed(eventMCOM)
+    }
+}
+
 /**
  * HELPERS
  */
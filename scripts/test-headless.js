@@ -0,0 +1,104 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const ts = require('typescript');
+
+const root = path.resolve(__dirname, '..');
+const testsRoot = path.join(root, 'src', 'Core', 'AIHeadless', 'Tests');
+const sdkTypes = path.join(root, 'SDK', 'mod', 'index.d.ts');
+
+if (!fs.existsSync(testsRoot)) {
+    throw new Error(`Headless tests root not found: ${testsRoot}`);
+}
+
+const testFiles = fs
+    .readdirSync(testsRoot)
+    .filter((p) => p.endsWith('.test.ts'))
+    .sort()
+    .map((p) => path.join(testsRoot, p));
+
+const configFile = ts.readConfigFile(
+    path.join(root, 'tsconfig.json'),
+    ts.sys.readFile
+);
+if (configFile.error) {
+    throw new Error(
+        ts.flattenDiagnosticMessageText(configFile.error.messageText, '\n')
+    );
+}
+
+const outDir = fs.mkdtempSync(path.join(os.tmpdir(), 'coreai-headless-'));
+
+const { options } = ts.convertCompilerOptionsFromJson(
+    configFile.config.compilerOptions,
+    root
+);
+
+// Test files and everything they import; the SDK declares `mod`.
+const program = ts.createProgram(testFiles.concat(sdkTypes), {
+    ...options,
+    noEmit: false,
+    rootDir: root,
+    outDir,
+});
+
+// Type errors in the tests themselves fail the run; the rest of the
+// tree is checked by tsc.
+const diagnostics = testFiles.flatMap((file) =>
+    ts.getPreEmitDiagnostics(program, program.getSourceFile(file))
+);
+if (diagnostics.length > 0) {
+    console.error(
+        ts.formatDiagnostics(diagnostics, {
+            getCanonicalFileName: (f) => f,
+            getCurrentDirectory: () => root,
+            getNewLine: () => '\n',
+        })
+    );
+    fs.rmSync(outDir, { recursive: true, force: true });
+    process.exit(1);
+}
+
+program.emit();
+
+async function main() {
+    for (const file of testFiles) {
+        const compiled = path
+            .join(outDir, path.relative(root, file))
+            .replace(/\.ts$/, '.js');
+        require(compiled);
+    }
+
+    const { CoreAI_headlessTests } = require(
+        path.join(outDir, 'src', 'Core', 'AIHeadless', 'HeadlessTest.js')
+    );
+
+    let failed = 0;
+    for (const test of CoreAI_headlessTests()) {
+        try {
+            await test.run();
+            console.log(`ok - ${test.name}`);
+        } catch (err) {
+            failed++;
+            console.log(`not ok - ${test.name}`);
+            console.log(`  ${err && err.stack ? err.stack : err}`);
+        }
+    }
+
+    const total = CoreAI_headlessTests().length;
+    console.log(`\n${total - failed}/${total} passed`);
+
+    return failed === 0 ? 0 : 1;
+}
+
+main()
+    .then((code) => {
+        process.exitCode = code;
+    })
+    .catch((err) => {
+        console.error(err);
+        process.exitCode = 1;
+    })
+    .finally(() => {
+        fs.rmSync(outDir, { recursive: true, force: true });
+    });
@@ -6,17 +6,38 @@ import { CoreAI_ASensor } from './Modules/Perception/Sensors/ASensor'
 import { CoreAI_DebugWI } from './Modules/Debug/DebugWI'
 import { CoreAI_BattleSensor } from './Modules/Perception/Sensors/BattleSensor'
 import { CoreAI_TickContext } from './TickContext'
+import { CoreAI_EngineEvent } from './EngineEvents'
+import { CoreAI_EngineEventArgs } from './EngineEvents'
+import { CoreAI_EngineEventHandlers } from './EngineEvents'
 import { CoreAI_ActionRunner } from './Modules/Action/ActionRunner'
 import { CoreAI_SetTargetAction } from './Modules/Action/Actions/SetTargetAction'
+import { CoreAI_TargetPolicies } from './Modules/Action/Actions/SetTargetAction'
 import { CoreAI_EnterVehicleAction } from './Modules/Action/Actions/EnterVehicleAction'
 import { CoreAI_BehaviorSelector } from './Modules/Behavior/BehaviorSelector'
+import { CoreAI_IBehaviorController } from './Modules/Behavior/IBehaviorController'
+import { CoreAI_CommandQueue } from './Modules/Behavior/CommandQueue'
+import { CoreAI_DecisionTrace } from './Modules/Behavior/DecisionTrace'
 import { CoreAI_BaseSoldier } from './Profiles/BaseSoldier'
 import { CoreAI_ClosestEnemySensor } from './Modules/Perception/Sensors/ClosestEnemySensor'
+import { CoreAI_VisionSensor } from './Modules/Perception/Sensors/VisionSensor'
+import { CoreAI_ThreatSensor } from './Modules/Perception/Sensors/ThreatSensor'
+import { CoreAI_EnemyTrackSensor } from './Modules/Perception/Sensors/EnemyTrackSensor'
+import { CoreAI_EnemyListSensor } from './Modules/Perception/Sensors/EnemyListSensor'
+import { CoreAI_HearingSensor } from './Modules/Perception/Sensors/HearingSensor'
+import { CoreAI_SelfStatusSensor } from './Modules/Perception/Sensors/SelfStatusSensor'
 import { CoreAI_VehicleToDriveSensor } from './Modules/Perception/Sensors/VehicleToDriveSensor'
 import { CoreAI_ArrivalSensor } from './Modules/Perception/Sensors/ArrivalSensor'
 import { CoreAI_RoamSensor } from './Modules/Perception/Sensors/RoamSensor'
 import { CoreAI_CapturePointSensor } from './Modules/Perception/Sensors/CapturePointSensor'
 import { CoreAI_CapturePointMoveToSensor } from './Modules/Perception/Sensors/CapturePointMoveToSensor'
+import { CoreAI_MCOMSensor } from './Modules/Perception/Sensors/MCOMSensor'
+import { CoreAI_StateMachine } from './Modules/StateMachine/StateMachine'
+import { CoreAI_RayCastBroker } from './Modules/Perception/RayCastBroker'
+import { CoreAI_MoveBlacklist } from './Modules/Memory/MoveBlacklist'
+import { CoreAI_IClock, CoreAI_WallClock } from './Clock'
+import { CoreAI_IRandom, CoreAI_SeededRandom } from './Random'
+import { CoreAI_TeamRelations } from './TeamRelations'
+import { CoreAI_DEFAULT_TEAM_RELATIONS } from './TeamRelations'
 
 /**
  * CoreAI_Brain
@@ -46,7 +67,20 @@ export class CoreAI_Brain {
     public memory: CoreAI_MemoryManager
     private debugWI: CoreAI_DebugWI | null = null
     private actionRunner: CoreAI_ActionRunner
+    private targetAction: CoreAI_SetTargetAction = new CoreAI_SetTargetAction()
+    private commands: CoreAI_CommandQueue = new CoreAI_CommandQueue()
+    private trace: CoreAI_DecisionTrace = new CoreAI_DecisionTrace()
     private behaviorSelector: CoreAI_BehaviorSelector | null = null
+    private behaviorController: CoreAI_IBehaviorController | null = null
+    private profileController: CoreAI_IBehaviorController | null = null
+    private stateMachine: CoreAI_StateMachine | null = null
+    private installedProfile: CoreAI_BaseSoldier | null = null
+    private clock: CoreAI_IClock = new CoreAI_WallClock()
+    private ticked = false
+    private random: CoreAI_IRandom
+    private rayCasts: CoreAI_RayCastBroker
+    private moveBlacklist: CoreAI_MoveBlacklist = new CoreAI_MoveBlacklist()
+    private teams: CoreAI_TeamRelations = CoreAI_DEFAULT_TEAM_RELATIONS
 
     constructor(
         player: mod.Player,
@@ -54,11 +88,13 @@ export class CoreAI_Brain {
         enableDebug: boolean = false
     ) {
         this.player = player
+        this.random = new CoreAI_SeededRandom(mod.GetObjId(player))
+        this.rayCasts = new CoreAI_RayCastBroker(player, () => this.clock.now())
 
         this.memory = new CoreAI_MemoryManager()
         this.perception = new CoreAI_Perception()
         this.actionRunner = new CoreAI_ActionRunner([
-            new CoreAI_SetTargetAction(),
+            this.targetAction,
             new CoreAI_EnterVehicleAction(),
         ])
 
@@ -76,15 +112,31 @@ export class CoreAI_Brain {
      * ------------------------------------------------------------ */
 
     installProfile(profile: CoreAI_BaseSoldier): void {
+        this.installedProfile = profile
+        this.memory.defineAll(profile.memory)
+
         if (this.behaviorSelector) {
             this.behaviorSelector.setWeights(profile.weights)
+            this.behaviorSelector.setBehaviors(profile.behaviors)
+            this.behaviorSelector.setCommitment(profile.commitment)
         } else {
             this.setBehaviorSelector(
-                new CoreAI_BehaviorSelector({
-                    weights: profile.weights,
-                })
+                new CoreAI_BehaviorSelector(
+                    {
+                        weights: profile.weights,
+                        behaviors: profile.behaviors,
+                        commitment: profile.commitment,
+                    },
+                    this.commands,
+                    this.trace
+                )
             )
         }
+        this.profileController = profile.controller?.() ?? null
+        this.targetAction.setPolicy(
+            profile.targetPolicy ?? CoreAI_TargetPolicies.attackerFirst
+        )
+
         this.perception.clearSensors()
         this.installSensorsFromOptions(profile.sensors)
     }
@@ -109,6 +161,83 @@ export class CoreAI_Brain {
                 )
         )
 
+        this.addSensorIf(
+            options.visionSensor,
+            () =>
+                new CoreAI_VisionSensor(
+                    options.visionSensor?.intervalMs,
+                    options.visionSensor?.ttlMs,
+                    options.visionSensor?.fovDeg,
+                    options.visionSensor?.nearDistance,
+                    options.visionSensor?.midDistance,
+                    options.visionSensor?.maxDistance,
+                    options.visionSensor?.detectionRate,
+                    options.visionSensor?.decayRate,
+                    options.visionSensor?.losMemoryMs
+                )
+        )
+
+        this.addSensorIf(
+            options.threatSensor,
+            () =>
+                new CoreAI_ThreatSensor(
+                    options.threatSensor?.intervalMs,
+                    options.threatSensor?.ttlMs,
+                    options.threatSensor?.forgetMs
+                )
+        )
+
+        this.addSensorIf(
+            options.enemyListSensor,
+            () =>
+                new CoreAI_EnemyListSensor(
+                    options.enemyListSensor?.intervalMs,
+                    options.enemyListSensor?.ttlMs,
+                    options.enemyListSensor?.maxDistance,
+                    options.enemyListSensor?.aimConeDeg,
+                    options.enemyListSensor?.losMemoryMs,
+                    options.enemyListSensor?.preferences,
+                    options.enemyListSensor?.score
+                )
+        )
+
+        this.addSensorIf(
+            options.enemyTrackSensor,
+            () =>
+                new CoreAI_EnemyTrackSensor(
+                    options.enemyTrackSensor?.intervalMs,
+                    options.enemyTrackSensor?.forgetMs,
+                    options.enemyTrackSensor?.predictMs,
+                    options.enemyTrackSensor?.minConfidence
+                )
+        )
+
+        this.addSensorIf(
+            options.hearingSensor,
+            () =>
+                new CoreAI_HearingSensor(
+                    options.hearingSensor?.intervalMs,
+                    options.hearingSensor?.ttlMs,
+                    options.hearingSensor?.sensitivity,
+                    options.hearingSensor?.minVehicleSpeed,
+                    {
+                        weapons: options.hearingSensor?.weaponRanges,
+                        vehicles: options.hearingSensor?.vehicleRanges,
+                    }
+                )
+        )
+
+        this.addSensorIf(
+            options.selfStatusSensor,
+            () =>
+                new CoreAI_SelfStatusSensor(
+                    options.selfStatusSensor?.intervalMs,
+                    options.selfStatusSensor?.thresholds,
+                    options.selfStatusSensor?.getRetreatPoints,
+                    options.selfStatusSensor?.fallbackDistance
+                )
+        )
+
         this.addSensorIf(
             options.vehicleToDriveSensor,
             () =>
@@ -136,7 +265,10 @@ export class CoreAI_Brain {
             () =>
                 new CoreAI_CapturePointSensor(
                     options.capturePointSensor?.intervalMs,
-                    options.capturePointSensor?.ttlMs
+                    options.capturePointSensor?.ttlMs,
+                    options.capturePointSensor?.preferences,
+                    options.capturePointSensor?.score,
+                    options.capturePointSensor?.getCapturePoints
                 )
         )
 
@@ -150,6 +282,17 @@ export class CoreAI_Brain {
                 )
         )
 
+        this.addSensorIf(
+            options.mcomSensor?.getMCOMs && options.mcomSensor?.isAttacker,
+            () =>
+                new CoreAI_MCOMSensor(
+                    () => options.mcomSensor!.getMCOMs!(),
+                    (player) => options.mcomSensor!.isAttacker!(player),
+                    options.mcomSensor?.intervalMs,
+                    options.mcomSensor?.ttlMs
+                )
+        )
+
         this.addSensorIf(
             options.roamSensor?.getWPs,
             () =>
@@ -174,6 +317,150 @@ export class CoreAI_Brain {
         this.behaviorSelector = selector
     }
 
+    /**
+     * Per-brain queue for multi-step engine sequences.
+     */
+    getCommandQueue(): CoreAI_CommandQueue {
+        return this.commands
+    }
+
+    /**
+     * Bounded history of behavior-selector decisions (why a behavior
+     * was chosen). Query from game mode or DebugWI.
+     */
+    getDecisionTrace(): CoreAI_DecisionTrace {
+        return this.trace
+    }
+
+    /**
+     * Run another decision runtime (e.g. CoreAI_BehaviorTree) instead of
+     * the behavior selector. Pass null to return to the profile's
+     * controller, or the selector if the profile declares none.
+     *
+     * A controller set here survives installProfile() (respawn,
+     * vehicle enter/exit) and takes precedence over profile.controller.
+     */
+    setBehaviorController(controller: CoreAI_IBehaviorController | null): void {
+        this.behaviorController = controller
+    }
+
+    /**
+     * The controller deciding behaviors this tick.
+     */
+    private getActiveController(): CoreAI_IBehaviorController | null {
+        return (
+            this.behaviorController ??
+            this.profileController ??
+            this.behaviorSelector
+        )
+    }
+
+    /* ------------------------------------------------------------
+     * State machine
+     * ------------------------------------------------------------ */
+
+    /**
+     * Let a hierarchical state machine switch profiles. It starts on the
+     * next tick and installs the active state's profile whenever a state
+     * is entered.
+     */
+    setStateMachine(machine: CoreAI_StateMachine | null): void {
+        this.stateMachine = machine
+    }
+
+    getStateMachine(): CoreAI_StateMachine | null {
+        return this.stateMachine
+    }
+
+    /**
+     * Install the profile of a newly entered state, unless the brain
+     * already runs it. The game mode may have installed another profile
+     * in between (installProfile), so this compares against the brain.
+     */
+    private installStateProfile(profile: CoreAI_BaseSoldier | null): void {
+        if (profile && profile !== this.installedProfile) {
+            this.installProfile(profile)
+        }
+    }
+
+    /**
+     * Forward a brain event to state-machine transitions.
+     */
+    private notifyStateMachine(eventName: string): void {
+        if (!this.stateMachine) return
+
+        const profile = this.stateMachine.handleEvent(
+            eventName,
+            this.createTickContext()
+        )
+        this.installStateProfile(profile)
+    }
+
+    /* ------------------------------------------------------------
+     * Time source
+     * ------------------------------------------------------------ */
+
+    /**
+     * Replace the time source sampled once per tick into memory.time.
+     * Use CoreAI_MatchClock to follow game time, CoreAI_ManualClock in tests.
+     *
+     * Only allowed before the first tick: sensor and action intervals,
+     * memory TTLs and selector timers already stamped with the old clock
+     * would not be comparable with the new one. Throws afterwards.
+     */
+    setClock(clock: CoreAI_IClock): void {
+        if (this.ticked) {
+            throw new Error(
+                'CoreAI_Brain.setClock: the clock can only be set before the first tick'
+            )
+        }
+
+        this.clock = clock
+    }
+
+    getClock(): CoreAI_IClock {
+        return this.clock
+    }
+
+    /* ------------------------------------------------------------
+     * Random source
+     * ------------------------------------------------------------ */
+
+    /**
+     * Reseed the brain RNG. Defaults to the bot id; pass
+     * CoreAI_SeededRandom.mix(matchSeed, botId) to replay a whole match.
+     */
+    setSeed(seed: number): void {
+        this.random = new CoreAI_SeededRandom(seed)
+    }
+
+    /**
+     * Replace the random source exposed as ctx.random.
+     */
+    setRandom(random: CoreAI_IRandom): void {
+        this.random = random
+    }
+
+    getRandom(): CoreAI_IRandom {
+        return this.random
+    }
+
+    /* ------------------------------------------------------------
+     * Team relations
+     * ------------------------------------------------------------ */
+
+    /**
+     * Replace the team relations published as ctx.teams.
+     * Defaults to the shared CoreAI_DEFAULT_TEAM_RELATIONS.
+     */
+    setTeamRelations(teams: CoreAI_TeamRelations): void {
+        this.teams = teams
+    }
+
+    getTeamRelations(): CoreAI_TeamRelations {
+        return this.teams
+    }
+
     /* ------------------------------------------------------------
      * Sensor API
      * ------------------------------------------------------------ */
@@ -207,6 +494,10 @@ export class CoreAI_Brain {
         this.perception.reset()
         this.memory.reset()
         this.actionRunner.reset()
+        this.behaviorSelector?.reset()
+        this.commands.cancelAll()
+        this.rayCasts.clear()
+        this.moveBlacklist.clear()
 
         if (mod.IsPlayerValid(this.player)) {
             mod.AISetTarget(this.player)
@@ -214,55 +505,157 @@ export class CoreAI_Brain {
     }
 
     /* ------------------------------------------------------------
-     * Movement finished
+     * Engine events (fanned out to sensors and actions)
      * ------------------------------------------------------------ */
 
+    /**
+     * Notify the state machine, then call the event hook of every
+     * installed sensor and action that declares one.
+     */
+    dispatchEvent<K extends CoreAI_EngineEvent>(
+        event: K,
+        ...args: CoreAI_EngineEventArgs<K>
+    ): void {
+        this.notifyStateMachine(event)
+
+        const tickCtx = this.createTickContext()
+
+        const handlers: CoreAI_EngineEventHandlers[] = [
+            ...this.perception.getSensors(),
+            ...this.actionRunner.getActions(),
+        ]
+
+        for (const target of handlers) {
+            // Union of all hook signatures; K ties it to `args`.
+            const handler = target[event] as unknown as
+                | ((
+                      ctx: CoreAI_TickContext,
+                      ...args: CoreAI_EngineEventArgs<K>
+                  ) => void)
+                | undefined
+
+            handler?.call(target, tickCtx, ...args)
+        }
+    }
+
+    /**
+     * Move bookkeeping shared by both move results. The state machine
+     * sees the engine event itself (OnAIMoveToSucceeded/Failed).
+     */
     OnAIMoveFinished(success: boolean): void {
         // mod.DisplayHighlightedWorldLogMessage(mod.Message(123))
+        if (success) {
+            this.moveBlacklist.onSucceeded()
+        } else {
+            this.moveBlacklist.onFailed(this.memory.time)
+        }
+
         this.memory.set('roamPos', null)
     }
 
-    /* ------------------------------------------------------------
-     * Damage event
-     * ------------------------------------------------------------ */
+    OnAIMoveToSucceeded(): void {
+        this.OnAIMoveFinished(true)
+        this.dispatchEvent('OnAIMoveToSucceeded')
+    }
+
+    OnAIMoveToFailed(): void {
+        this.OnAIMoveFinished(false)
+        this.dispatchEvent('OnAIMoveToFailed')
+    }
 
     OnPlayerDamaged(
         eventOtherPlayer: mod.Player,
         eventDamageType: mod.DamageType,
         eventWeaponUnlock: mod.WeaponUnlock
     ): void {
-        const battleSensor = this.getSensor(CoreAI_BattleSensor)
-        if (!battleSensor) return
+        this.dispatchEvent(
+            'OnPlayerDamaged',
+            eventOtherPlayer,
+            eventDamageType,
+            eventWeaponUnlock
+        )
+    }
 
-        const tickCtx: CoreAI_TickContext = {
-            player: this.player,
-            memory: this.memory,
-            time: this.memory.time,
-        }
+    OnPlayerDied(
+        eventOtherPlayer: mod.Player,
+        eventDeathType: mod.DeathType,
+        eventWeaponUnlock: mod.WeaponUnlock
+    ): void {
+        this.dispatchEvent(
+            'OnPlayerDied',
+            eventOtherPlayer,
+            eventDeathType,
+            eventWeaponUnlock
+        )
+    }
 
-        battleSensor.OnPlayerDamaged?.(
-            tickCtx,
+    OnPlayerEarnedKill(
+        eventOtherPlayer: mod.Player,
+        eventDeathType: mod.DeathType,
+        eventWeaponUnlock: mod.WeaponUnlock
+    ): void {
+        this.dispatchEvent(
+            'OnPlayerEarnedKill',
             eventOtherPlayer,
-            eventDamageType,
+            eventDeathType,
             eventWeaponUnlock
         )
     }
 
+    OnMandown(eventOtherPlayer: mod.Player): void {
+        this.dispatchEvent('OnMandown', eventOtherPlayer)
+    }
+
+    OnRevived(eventOtherPlayer: mod.Player): void {
+        this.dispatchEvent('OnRevived', eventOtherPlayer)
+    }
+
+    OnPlayerEnterCapturePoint(eventCapturePoint: mod.CapturePoint): void {
+        this.dispatchEvent('OnPlayerEnterCapturePoint', eventCapturePoint)
+    }
+
+    OnPlayerExitCapturePoint(eventCapturePoint: mod.CapturePoint): void {
+        this.dispatchEvent('OnPlayerExitCapturePoint', eventCapturePoint)
+    }
+
+    OnPlayerEnterAreaTrigger(eventAreaTrigger: mod.AreaTrigger): void {
+        this.dispatchEvent('OnPlayerEnterAreaTrigger', eventAreaTrigger)
+    }
+
+    OnPlayerExitAreaTrigger(eventAreaTrigger: mod.AreaTrigger): void {
+        this.dispatchEvent('OnPlayerExitAreaTrigger', eventAreaTrigger)
+    }
+
     /* ------------------------------------------------------------
-     * Raycast hit event
+     * Match-wide events (forwarded to every brain)
      * ------------------------------------------------------------ */
 
-    OnRayCastHit(eventPoint: mod.Vector, eventNormal: mod.Vector): void {
-        const battleSensor = this.getSensor(CoreAI_BattleSensor)
-        if (!battleSensor) return
+    OnVehicleDestroyed(eventVehicle: mod.Vehicle): void {
+        this.dispatchEvent('OnVehicleDestroyed', eventVehicle)
+    }
 
-        const tickCtx: CoreAI_TickContext = {
-            player: this.player,
-            memory: this.memory,
-            time: this.memory.time,
-        }
+    OnMCOMArmed(eventMCOM: mod.MCOM): void {
+        this.dispatchEvent('OnMCOMArmed', eventMCOM)
+    }
 
-        battleSensor.OnRayCastHit?.(tickCtx, eventPoint, eventNormal)
+    OnMCOMDefused(eventMCOM: mod.MCOM): void {
+        this.dispatchEvent('OnMCOMDefused', eventMCOM)
+    }
+
+    OnMCOMDestroyed(eventMCOM: mod.MCOM): void {
+        this.dispatchEvent('OnMCOMDestroyed', eventMCOM)
+    }
+
+    /* ------------------------------------------------------------
+     * Raycast events (routed to the requesting sensor by the broker)
+     * ------------------------------------------------------------ */
+
+    OnRayCastHit(eventPoint: mod.Vector, eventNormal: mod.Vector): void {
+        this.rayCasts.resolveHit(eventPoint, eventNormal)
+    }
+
+    OnRayCastMissed(): void {
+        this.rayCasts.resolveMiss()
     }
 
     /* ------------------------------------------------------------
@@ -274,7 +667,8 @@ export class CoreAI_Brain {
             return
         }
 
-        this.memory.time = Date.now()
+        this.ticked = true
+        this.memory.time = this.clock.now()
         this.memory.prune()
 
         if (!mod.GetSoldierState(this.player, mod.SoldierStateBool.IsAlive)) {
@@ -283,19 +677,35 @@ export class CoreAI_Brain {
 
         this.debugWI?.tick()
 
-        const tickCtx: CoreAI_TickContext = {
-            player: this.player,
-            memory: this.memory,
-            time: this.memory.time,
+        const tickCtx = this.createTickContext()
+
+        this.rayCasts.expire()
+        this.moveBlacklist.prune(tickCtx.time)
+
+        if (this.stateMachine) {
+            this.installStateProfile(this.stateMachine.tick(tickCtx))
         }
 
         this.perception.tick(tickCtx)
         this.actionRunner.tick(tickCtx)
 
-        this.behaviorSelector?.update(tickCtx)
+        this.getActiveController()?.update(tickCtx)
+    }
+
+    private createTickContext(): CoreAI_TickContext {
+        return {
+            player: this.player,
+            memory: this.memory,
+            time: this.memory.time,
+            random: this.random,
+            rayCasts: this.rayCasts,
+            moveBlacklist: this.moveBlacklist,
+            teams: this.teams,
+            commands: this.commands,
+        }
     }
 
     getBehaviorLabel(): string | null {
-        return this.behaviorSelector?.getCurrent() ?? null
+        return this.getActiveController()?.getCurrent() ?? null
     }
 }
@@ -0,0 +1,54 @@
+/**
+ * CoreAI_IClock:
+ * Time source for a Brain.
+ *
+ * The Brain samples now() once per tick and publishes it as memory.time /
+ * ctx.time. Every TTL, sensor interval and action interval is measured
+ * against that value, so the clock is chosen once, before the brain's
+ * first tick (CoreAI_Brain.setClock).
+ *
+ * All values are milliseconds.
+ */
+export interface CoreAI_IClock {
+    now(): number
+}
+
+/**
+ * Wall clock (Date.now()).
+ * Default. Keeps running through pauses and ignores slow-mo.
+ */
+export class CoreAI_WallClock implements CoreAI_IClock {
+    now(): number {
+        return Date.now()
+    }
+}
+
+/**
+ * Engine match clock (mod.GetMatchTimeElapsed()).
+ * Follows game time, so TTLs and intervals stay in sync with the match.
+ */
+export class CoreAI_MatchClock implements CoreAI_IClock {
+    now(): number {
+        return mod.GetMatchTimeElapsed() * 1000
+    }
+}
+
+/**
+ * Manually driven clock for tests and replays.
+ * Time only moves when set() or advance() is called.
+ */
+export class CoreAI_ManualClock implements CoreAI_IClock {
+    constructor(private time: number = 0) {}
+
+    now(): number {
+        return this.time
+    }
+
+    set(timeMs: number): void {
+        this.time = timeMs
+    }
+
+    advance(ms: number): void {
+        this.time += ms
+    }
+}
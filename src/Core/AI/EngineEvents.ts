@@ -0,0 +1,90 @@
+import { CoreAI_TickContext } from './TickContext'
+
+/**
+ * CoreAI_EngineEventHandlers:
+ * Engine events a Brain fans out to its sensors and actions.
+ *
+ * Sensors and actions opt in by overriding the hook; each handler gets
+ * a fresh tick context followed by the engine arguments (minus the
+ * bot player, which is ctx.player).
+ *
+ * Notes:
+ * - Per-player events (OnPlayerDied, OnMandown, ...) reach only the
+ *   brain of the event player; match-wide events (OnVehicleDestroyed,
+ *   OnMCOM*) reach every brain.
+ * - The event name is also sent to the state machine.
+ */
+export interface CoreAI_EngineEventHandlers {
+    OnPlayerDamaged?(
+        ctx: CoreAI_TickContext,
+        eventOtherPlayer: mod.Player,
+        eventDamageType: mod.DamageType,
+        eventWeaponUnlock: mod.WeaponUnlock
+    ): void
+
+    OnPlayerDied?(
+        ctx: CoreAI_TickContext,
+        eventOtherPlayer: mod.Player,
+        eventDeathType: mod.DeathType,
+        eventWeaponUnlock: mod.WeaponUnlock
+    ): void
+
+    OnPlayerEarnedKill?(
+        ctx: CoreAI_TickContext,
+        eventOtherPlayer: mod.Player,
+        eventDeathType: mod.DeathType,
+        eventWeaponUnlock: mod.WeaponUnlock
+    ): void
+
+    OnMandown?(ctx: CoreAI_TickContext, eventOtherPlayer: mod.Player): void
+
+    OnRevived?(ctx: CoreAI_TickContext, eventOtherPlayer: mod.Player): void
+
+    OnAIMoveToSucceeded?(ctx: CoreAI_TickContext): void
+
+    OnAIMoveToFailed?(ctx: CoreAI_TickContext): void
+
+    OnPlayerEnterCapturePoint?(
+        ctx: CoreAI_TickContext,
+        eventCapturePoint: mod.CapturePoint
+    ): void
+
+    OnPlayerExitCapturePoint?(
+        ctx: CoreAI_TickContext,
+        eventCapturePoint: mod.CapturePoint
+    ): void
+
+    OnPlayerEnterAreaTrigger?(
+        ctx: CoreAI_TickContext,
+        eventAreaTrigger: mod.AreaTrigger
+    ): void
+
+    OnPlayerExitAreaTrigger?(
+        ctx: CoreAI_TickContext,
+        eventAreaTrigger: mod.AreaTrigger
+    ): void
+
+    OnVehicleDestroyed?(
+        ctx: CoreAI_TickContext,
+        eventVehicle: mod.Vehicle
+    ): void
+
+    OnMCOMArmed?(ctx: CoreAI_TickContext, eventMCOM: mod.MCOM): void
+
+    OnMCOMDefused?(ctx: CoreAI_TickContext, eventMCOM: mod.MCOM): void
+
+    OnMCOMDestroyed?(ctx: CoreAI_TickContext, eventMCOM: mod.MCOM): void
+}
+
+export type CoreAI_EngineEvent = keyof CoreAI_EngineEventHandlers
+
+/**
+ * Engine arguments of an event (handler parameters after ctx).
+ */
+export type CoreAI_EngineEventArgs<K extends CoreAI_EngineEvent> =
+    NonNullable<CoreAI_EngineEventHandlers[K]> extends (
+        ctx: CoreAI_TickContext,
+        ...args: infer A
+    ) => void
+        ? A
+        : never
@@ -1,4 +1,11 @@
 import { CoreAI_TickContext } from '../../TickContext'
+import { CoreAI_EngineEventHandlers } from '../../EngineEvents'
+
+/**
+ * Engine events: override any CoreAI_EngineEventHandlers hook; the Brain
+ * calls it on every installed action.
+ */
+export interface CoreAI_AAction extends CoreAI_EngineEventHandlers {}
 
 export abstract class CoreAI_AAction {
     protected intervalMs: number
@@ -25,5 +32,3 @@ export abstract class CoreAI_AAction {
 
     protected abstract update(ctx: CoreAI_TickContext): void
 }
-
-
@@ -14,11 +14,13 @@ export class CoreAI_ActionRunner {
         }
     }
 
+    getActions(): readonly CoreAI_AAction[] {
+        return this.actions
+    }
+
     reset(): void {
         for (const action of this.actions) {
             action.reset()
         }
     }
 }
-
-
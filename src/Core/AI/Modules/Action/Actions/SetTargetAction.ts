@@ -1,22 +1,102 @@
 import { CoreAI_AAction } from '../AAction'
 import { CoreAI_TickContext } from '../../../TickContext'
 
+/**
+ * Picks the enemy the bot aims at (null clears the target).
+ */
+export type CoreAI_TargetPolicy = (ctx: CoreAI_TickContext) => mod.Player | null
+
+function liveEnemy(enemy: mod.Player | null | undefined): mod.Player | null {
+    if (!enemy || !mod.IsPlayerValid(enemy)) return null
+    if (!mod.GetSoldierState(enemy, mod.SoldierStateBool.IsAlive)) {
+        return null
+    }
+
+    return enemy
+}
+
+/** Enemy is in sight: a visible knownEnemies entry or closestEnemy. */
+function isSeen(ctx: CoreAI_TickContext, enemy: mod.Player): boolean {
+    const id = mod.GetObjId(enemy)
+
+    const closest = ctx.memory.get('closestEnemy')
+    if (closest && mod.GetObjId(closest) === id) return true
+
+    return (ctx.memory.get('knownEnemies') ?? []).some(
+        (known) => known.visible && mod.GetObjId(known.enemy) === id
+    )
+}
+
+/**
+ * Built-in target policies. Only visible memory.knownEnemies entries
+ * are considered; each falls back to memory.closestEnemy (vision-gated)
+ * when none is visible or the list is empty (no EnemyListSensor).
+ */
+export const CoreAI_TargetPolicies: Record<
+    'attackerFirst' | 'ranked' | 'closest',
+    CoreAI_TargetPolicy
+> = {
+    /** lastAttacker while in sight, then the best ranked enemy (default) */
+    attackerFirst: (ctx) => {
+        const attacker = liveEnemy(ctx.memory.get('lastAttacker'))
+        if (attacker && isSeen(ctx, attacker)) return attacker
+
+        return CoreAI_TargetPolicies.ranked(ctx)
+    },
+
+    /** Best ranked enemy (see CoreAI_EnemyListSensor) */
+    ranked: (ctx) => {
+        for (const known of ctx.memory.get('knownEnemies') ?? []) {
+            if (!known.visible) continue
+
+            const enemy = liveEnemy(known.enemy)
+            if (enemy) return enemy
+        }
+
+        return liveEnemy(ctx.memory.get('closestEnemy'))
+    },
+
+    /** Nearest known enemy, ignoring the ranking */
+    closest: (ctx) => {
+        let best: mod.Player | null = null
+        let bestDist = Infinity
+
+        for (const known of ctx.memory.get('knownEnemies') ?? []) {
+            if (!known.visible || known.distance >= bestDist) continue
+            if (!liveEnemy(known.enemy)) continue
+
+            bestDist = known.distance
+            best = known.enemy
+        }
+
+        return best ?? liveEnemy(ctx.memory.get('closestEnemy'))
+    },
+}
+
+/**
+ * Aims the bot at the enemy chosen by the target policy
+ * (default: CoreAI_TargetPolicies.attackerFirst).
+ */
 export class CoreAI_SetTargetAction extends CoreAI_AAction {
-    constructor() {
+    constructor(
+        private policy: CoreAI_TargetPolicy = CoreAI_TargetPolicies.attackerFirst
+    ) {
         super(200)
     }
 
+    setPolicy(policy: CoreAI_TargetPolicy): void {
+        this.policy = policy
+    }
+
     protected update(ctx: CoreAI_TickContext): void {
         const player = ctx.player
         if (!mod.IsPlayerValid(player)) return
 
-        const enemy = ctx.memory.get('closestEnemy')
-        if (enemy && mod.IsPlayerValid(enemy)) {
+        const enemy = this.policy(ctx)
+        if (enemy) {
             mod.AISetTarget(player, enemy)
         } else {
             mod.AISetTarget(player)
         }
     }
 }
-
-
@@ -0,0 +1,189 @@
+import { CoreAI_TickContext } from '../../TickContext'
+import { CoreAI_MemoryFields } from '../Memory/MemoryManager'
+
+/**
+ * Engine behavior run by a binding:
+ * - battlefield: AIBattlefieldBehavior
+ * - defend:      AIDefendPositionBehavior around the target
+ * - moveto:      move to the target (see CoreAI_MoveMode)
+ * - losmoveto:   AILOSMoveToBehavior (stop once the target is in sight)
+ * - idle:        AIIdleBehavior (hold the current position)
+ * - patrol:      AIWaypointIdleBehavior along a waypoint path
+ * - parachute:   AIParachuteBehavior (only while in the air)
+ * - search:      move to the target, then sweep around it
+ *                (CoreAI_SearchCommand); dropped once the sweep ends
+ */
+export type CoreAI_KeyedBehaviorKind =
+    | 'battlefield'
+    | 'defend'
+    | 'moveto'
+    | 'losmoveto'
+    | 'idle'
+    | 'patrol'
+    | 'parachute'
+    | 'search'
+
+/**
+ * Engine move used by a moveto binding:
+ * - validated: AIValidatedMoveToBehavior (snaps to navmesh)
+ * - direct:    AIMoveToBehavior
+ */
+export type CoreAI_MoveMode = 'validated' | 'direct'
+
+export type CoreAI_TargetResolver = (
+    ctx: CoreAI_TickContext,
+    key: keyof CoreAI_MemoryFields
+) => mod.Vector | null
+
+/**
+ * What to run when a memory key wins selection.
+ */
+export interface CoreAI_BehaviorBinding {
+    kind: CoreAI_KeyedBehaviorKind
+
+    /**
+     * Target for moveto/losmoveto/defend/search
+     * (default: CoreAI_BehaviorTargets.auto)
+     */
+    target?: CoreAI_TargetResolver
+
+    /** moveto only (default: 'validated') */
+    move?: CoreAI_MoveMode
+
+    /** defend only: AIDefendPositionBehavior radii (default: 2 / 8) */
+    minDistance?: number
+    maxDistance?: number
+
+    /** search only: sweep circle radius and point count (default: 8 / 4) */
+    searchRadius?: number
+    sweepPoints?: number
+
+    /**
+     * patrol only: waypoint path number for mod.GetWaypointPath
+     * (default: the memory value, if it is a number)
+     */
+    waypointPath?: number
+}
+
+export type CoreAI_BehaviorBindings = Partial<
+    Record<keyof CoreAI_MemoryFields, CoreAI_BehaviorBinding>
+>
+
+/**
+ * Target resolvers for common memory value types.
+ */
+export const CoreAI_BehaviorTargets: Record<
+    'vector' | 'player' | 'vehicle' | 'object' | 'auto',
+    CoreAI_TargetResolver
+> = {
+    /** Memory value is a mod.Vector */
+    vector: (ctx, key) => (ctx.memory.get(key) as mod.Vector | null) ?? null,
+
+    /** Memory value is a mod.Player; uses its soldier position */
+    player: (ctx, key) => {
+        const player = ctx.memory.get(key) as mod.Player | null
+        if (!player || !mod.IsPlayerValid(player)) return null
+
+        return mod.GetSoldierState(player, mod.SoldierStateVector.GetPosition)
+    },
+
+    /** Memory value is a mod.Vehicle */
+    vehicle: (ctx, key) => {
+        const vehicle = ctx.memory.get(key) as mod.Vehicle | null
+        if (!vehicle) return null
+
+        return mod.GetVehicleState(
+            vehicle,
+            mod.VehicleStateVector.VehiclePosition
+        )
+    },
+
+    /** Memory value is any placed object (CapturePoint, HQ, ...) */
+    object: (ctx, key) => {
+        const obj = ctx.memory.get(key) as mod.Object | null
+        if (!obj) return null
+
+        return mod.GetObjectPosition(obj)
+    },
+
+    /**
+     * Inspect the memory value type at runtime.
+     * Booleans, numbers and lists have no position and resolve to null.
+     */
+    auto: (ctx, key) => {
+        const value = ctx.memory.get(key) as unknown
+        if (value === null || value === undefined) return null
+        if (typeof value !== 'object' || Array.isArray(value)) return null
+
+        if (mod.IsType(value, mod.Types.Vector)) {
+            return CoreAI_BehaviorTargets.vector(ctx, key)
+        }
+        if (mod.IsType(value, mod.Types.Player)) {
+            return CoreAI_BehaviorTargets.player(ctx, key)
+        }
+        if (mod.IsType(value, mod.Types.Vehicle)) {
+            return CoreAI_BehaviorTargets.vehicle(ctx, key)
+        }
+
+        return CoreAI_BehaviorTargets.object(ctx, key)
+    },
+}
+
+/**
+ * Built-in key mapping. Profiles override per key via
+ * CoreAI_BaseSoldier.behaviors; keys without a binding fall back to
+ * a validated moveto on CoreAI_BehaviorTargets.auto.
+ */
+export const CoreAI_DEFAULT_BEHAVIOR_BINDINGS: CoreAI_BehaviorBindings = {
+    isInBattle: { kind: 'battlefield' },
+    arrivedPos: {
+        kind: 'defend',
+        target: CoreAI_BehaviorTargets.vector,
+        minDistance: 2.0,
+        maxDistance: 8.0,
+    },
+    closestEnemy: { kind: 'moveto', target: CoreAI_BehaviorTargets.player },
+    vehicleToDrive: {
+        kind: 'moveto',
+        target: CoreAI_BehaviorTargets.vehicle,
+        move: 'direct',
+    },
+    roamPos: { kind: 'moveto', target: CoreAI_BehaviorTargets.vector },
+    capturePoint: { kind: 'moveto', target: CoreAI_BehaviorTargets.object },
+    lastAttacker: { kind: 'battlefield' },
+    lastAttackerPos: {
+        kind: 'losmoveto',
+        target: CoreAI_BehaviorTargets.vector,
+    },
+    searchPos: { kind: 'search', target: CoreAI_BehaviorTargets.vector },
+    retreatPos: { kind: 'moveto', target: CoreAI_BehaviorTargets.vector },
+    investigatePos: {
+        kind: 'losmoveto',
+        target: CoreAI_BehaviorTargets.vector,
+    },
+    knownEnemies: {
+        kind: 'battlefield',
+        target: (ctx) => ctx.memory.get('knownEnemies')?.[0]?.position ?? null,
+    },
+    // Holds the bot at the MCOM; the game mode arms/defuses it
+    // (see CoreAI_MCOMSensor).
+    mcomAttack: {
+        kind: 'defend',
+        target: CoreAI_BehaviorTargets.object,
+        minDistance: 0.5,
+        maxDistance: 2.0,
+    },
+    mcomDefend: {
+        kind: 'defend',
+        target: CoreAI_BehaviorTargets.object,
+        minDistance: 5.0,
+        maxDistance: 20.0,
+    },
+    // Holds the bot at the MCOM; the game mode defuses it.
+    mcomDefuse: {
+        kind: 'defend',
+        target: CoreAI_BehaviorTargets.object,
+        minDistance: 0.5,
+        maxDistance: 2.0,
+    },
+}
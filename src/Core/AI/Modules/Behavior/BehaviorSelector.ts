@@ -1,66 +1,252 @@
 import { CoreAI_TickContext } from '../../TickContext'
 import { CoreAI_MemoryFields } from '../Memory/MemoryManager'
+import { CoreAI_BehaviorBinding } from './BehaviorBindings'
+import { CoreAI_BehaviorBindings } from './BehaviorBindings'
+import { CoreAI_BehaviorTargets } from './BehaviorBindings'
+import { CoreAI_DEFAULT_BEHAVIOR_BINDINGS } from './BehaviorBindings'
+import { CoreAI_KeyedBehaviorKind } from './BehaviorBindings'
+import { CoreAI_KeyScore } from './Utility'
+import { CoreAI_evaluateScore } from './Utility'
+import { CoreAI_IBehaviorController } from './IBehaviorController'
+import { CoreAI_CommandQueue } from './CommandQueue'
+import { CoreAI_MoveIssuer } from './MoveIssuer'
+import { CoreAI_SearchCommand } from './Commands/SearchCommand'
+import { CoreAI_DecisionCandidate } from './DecisionTrace'
+import { CoreAI_DecisionRecord } from './DecisionTrace'
+import { CoreAI_DecisionTrace } from './DecisionTrace'
 
-export type CoreAI_KeyedBehaviorKind = 'battlefield' | 'defend' | 'moveto'
+/**
+ * Decision commitment (hysteresis). All values default to 0 (off).
+ */
+export interface CoreAI_SelectorCommitment {
+    /** Minimum time (ms) on a winner before another key may take over */
+    minDwellMs?: number
+
+    /** Score a challenger must add over the current winner to take over */
+    switchMargin?: number
+
+    /** Time (ms) the current winner stays a candidate after its key drops */
+    graceMs?: number
+
+    /** Per-key time (ms) before a key may win again after losing */
+    cooldowns?: Partial<Record<keyof CoreAI_MemoryFields, number>>
+}
 
 export interface CoreAI_KeyedBehaviorProfile {
-    weights: Partial<Record<keyof CoreAI_MemoryFields, number>>
+    weights: Partial<Record<keyof CoreAI_MemoryFields, CoreAI_KeyScore>>
+    behaviors?: CoreAI_BehaviorBindings
+    commitment?: CoreAI_SelectorCommitment
 }
 
 /**
  * CoreAI_BehaviorSelector
  *
  * Minimal selector:
- * - Find the highest-weight memory key that is currently set.
- * - Run the engine behavior mapped to that key.
+ * - Find the highest-scoring memory key that is currently set.
+ * - Run the engine behavior bound to that key.
+ *
+ * Scores:
+ * - A constant weight, or a utility score evaluated against the tick
+ *   context every tick (see CoreAI_evaluateScore).
+ * - Keys scoring <= 0 are not candidates.
+ * - Keys whose move target is on ctx.moveBlacklist are not candidates.
+ *
+ * Commitment:
+ * - The current winner holds for minDwellMs and keeps its last score
+ *   for graceMs after its key drops (TTL flicker).
+ * - A challenger must beat it by switchMargin.
+ * - A key that lost the decision is skipped for its cooldown.
+ *
+ * Bindings:
+ * - CoreAI_DEFAULT_BEHAVIOR_BINDINGS, overridden per key by the profile.
+ * - Keys without a binding (custom fields) move to the position their
+ *   value resolves to; keys that resolve no position are skipped.
  *
  * Notes:
+ * - Multi-step engine sequences (vehicle re-seat, search) run through the
+ *   brain's CoreAI_CommandQueue and are cancelled when a new behavior
+ *   is issued.
+ * - A search whose sweep completed is not actionable again for the same
+ *   position, so the bot gives up and falls back to the next key.
+ * - Every change of winning key or behavior is recorded in the
+ *   brain's CoreAI_DecisionTrace.
  * - No behavior instances or TaskSelector.
  * - It just picks one engine behavior per tick.
- * - Avoids restarts unless the behavior or target changes.
+ * - Avoids restarts unless the behavior or target changes:
+ *   positions within POS_EPSILON, the same waypoint path, and an
+ *   already running idle/battlefield/parachute count as unchanged.
  */
-export class CoreAI_BehaviorSelector {
+export class CoreAI_BehaviorSelector implements CoreAI_IBehaviorController {
     private static readonly POS_EPSILON = 0.5
+    private static readonly FALLBACK_BINDING: CoreAI_BehaviorBinding = {
+        kind: 'moveto',
+    }
+
     private cfg: CoreAI_KeyedBehaviorProfile
+    private bindings: CoreAI_BehaviorBindings = {}
     private current: CoreAI_KeyedBehaviorKind | null = null
+    private currentKey: keyof CoreAI_MemoryFields | null = null
+    private currentScore = 0
+    private currentSeenAt = 0
+    private switchedAt = 0
+    private leftAt: Partial<Record<keyof CoreAI_MemoryFields, number>> = {}
     private lastMoveToPos: mod.Vector | null = null
     private lastDefendPos: mod.Vector | null = null
-
-    constructor(profile: CoreAI_KeyedBehaviorProfile) {
+    private lastPatrolPath: number | null = null
+    private moves: CoreAI_MoveIssuer = new CoreAI_MoveIssuer()
+    private lastSearchPos: mod.Vector | null = null
+    private searchedPos: mod.Vector | null = null
+    private candidates: CoreAI_DecisionCandidate[] = []
+    private reason: CoreAI_DecisionRecord['reason'] = 'best'
+
+    constructor(
+        profile: CoreAI_KeyedBehaviorProfile,
+        private readonly commands: CoreAI_CommandQueue = new CoreAI_CommandQueue(),
+        private readonly trace: CoreAI_DecisionTrace = new CoreAI_DecisionTrace()
+    ) {
         this.cfg = profile
+        this.setBehaviors(profile.behaviors)
     }
 
     /**
      * Update the weight table without resetting runtime state.
      */
     setWeights(weights: CoreAI_KeyedBehaviorProfile['weights']): void {
-        this.cfg = { weights }
+        this.cfg = { ...this.cfg, weights }
+    }
+
+    /**
+     * Replace the per-key behavior bindings (merged over the defaults)
+     * without resetting runtime state.
+     */
+    setBehaviors(behaviors: CoreAI_BehaviorBindings = {}): void {
+        this.cfg = { ...this.cfg, behaviors }
+        this.bindings = { ...CoreAI_DEFAULT_BEHAVIOR_BINDINGS, ...behaviors }
+    }
+
+    /**
+     * Replace the commitment settings without resetting runtime state.
+     */
+    setCommitment(commitment: CoreAI_SelectorCommitment = {}): void {
+        this.cfg = { ...this.cfg, commitment }
+    }
+
+    /**
+     * Forget the current decision, commitment and cooldown timestamps
+     * (death or undeploy; memory.time restarts).
+     */
+    reset(): void {
+        this.current = null
+        this.currentKey = null
+        this.currentScore = 0
+        this.currentSeenAt = 0
+        this.switchedAt = 0
+        this.leftAt = {}
+        this.lastMoveToPos = null
+        this.lastDefendPos = null
+        this.lastPatrolPath = null
+        this.moves = new CoreAI_MoveIssuer()
+        this.lastSearchPos = null
+        this.searchedPos = null
+        this.candidates = []
+        this.reason = 'best'
     }
 
     /**
      * Select and apply the active engine behavior for this tick.
      */
-    async update(ctx: CoreAI_TickContext): Promise<void> {
+    update(ctx: CoreAI_TickContext): void {
         const winner = this.getWinnerKey(ctx)
         if (!winner) return
 
-        const behavior = this.getBehaviorForKey(winner)
-        if (!behavior) return
+        const binding = this.getBinding(winner)
 
         const player = ctx.player
         if (!mod.IsPlayerValid(player)) return
 
-        switch (behavior) {
+        const previousKey = this.currentKey
+        const previousBehavior = this.current
+
+        this.commit(winner, ctx.time)
+        this.apply(ctx, winner, binding)
+
+        if (winner !== previousKey || this.current !== previousBehavior) {
+            this.trace.push({
+                time: ctx.time,
+                key: winner,
+                behavior: this.current ?? binding.kind,
+                target: this.resolveTargetPos(ctx, winner),
+                previousKey,
+                previousBehavior,
+                reason: this.reason,
+                candidates: this.candidates,
+            })
+        }
+    }
+
+    /**
+     * Issue the engine behavior bound to the winning key.
+     */
+    private apply(
+        ctx: CoreAI_TickContext,
+        winner: keyof CoreAI_MemoryFields,
+        binding: CoreAI_BehaviorBinding
+    ): void {
+        const player = ctx.player
+
+        switch (binding.kind) {
             case 'battlefield': {
                 if (this.current === 'battlefield') {
                     return
                 }
 
                 mod.AIBattlefieldBehavior(player)
-                
-                this.current = behavior
-                this.lastMoveToPos = null
-                this.lastDefendPos = null
+
+                this.markCurrent(ctx, binding.kind)
+                return
+            }
+
+            case 'idle': {
+                // Idle anchors at the position it was started from.
+                if (this.current === 'idle') {
+                    return
+                }
+
+                mod.AIIdleBehavior(player)
+
+                this.markCurrent(ctx, binding.kind)
+                return
+            }
+
+            case 'parachute': {
+                if (
+                    this.current === 'parachute' ||
+                    mod.GetSoldierState(
+                        player,
+                        mod.SoldierStateBool.IsParachuting
+                    )
+                ) {
+                    return
+                }
+
+                mod.AIParachuteBehavior(player)
+
+                this.markCurrent(ctx, binding.kind)
+                return
+            }
+
+            case 'patrol': {
+                const path = this.resolveWaypointPath(ctx, winner)
+                if (path === null) return
+
+                if (this.current === 'patrol' && this.lastPatrolPath === path) {
+                    return
+                }
+
+                mod.AIWaypointIdleBehavior(player, mod.GetWaypointPath(path))
+
+                this.markCurrent(ctx, binding.kind)
+                this.lastPatrolPath = path
                 return
             }
 
@@ -77,11 +263,32 @@ export class CoreAI_BehaviorSelector {
                     return
                 }
 
-                mod.AIDefendPositionBehavior(player, pos, 2.0, 8.0)
+                mod.AIDefendPositionBehavior(
+                    player,
+                    pos,
+                    binding.minDistance ?? 2.0,
+                    binding.maxDistance ?? 8.0
+                )
 
-                this.current = behavior
+                this.markCurrent(ctx, binding.kind)
                 this.lastDefendPos = pos
-                this.lastMoveToPos = null
+                ctx.moveBlacklist.setTarget(pos)
+                return
+            }
+
+            case 'losmoveto': {
+                const pos = this.resolveTargetPos(ctx, winner)
+                if (!pos) return
+
+                if (this.isSameMoveTo(binding.kind, pos)) {
+                    return
+                }
+
+                mod.AILOSMoveToBehavior(player, pos)
+
+                this.markCurrent(ctx, binding.kind)
+                this.lastMoveToPos = pos
+                ctx.moveBlacklist.setTarget(pos)
                 return
             }
 
@@ -89,137 +296,298 @@ export class CoreAI_BehaviorSelector {
                 const pos = this.resolveTargetPos(ctx, winner)
                 if (!pos) return
 
-                if (
-                    this.current === 'moveto' &&
-                    this.lastMoveToPos &&
-                    mod.DistanceBetween(this.lastMoveToPos, pos) <=
-                        CoreAI_BehaviorSelector.POS_EPSILON
-                ) {
+                if (this.isSameMoveTo(binding.kind, pos)) {
                     return
                 }
 
+                this.markCurrent(ctx, binding.kind)
+                this.lastMoveToPos = pos
+
+                this.moves.moveTo(ctx, pos, binding.move ?? 'validated')
+                return
+            }
+
+            case 'search': {
+                const pos = this.resolveTargetPos(ctx, winner)
+                if (!pos) return
+
                 if (
-                    mod.GetSoldierState(
-                        player,
-                        mod.SoldierStateBool.IsInVehicle
-                    ) &&
-                    mod.GetPlayerVehicleSeat(player) === 0
+                    this.current === 'search' &&
+                    this.lastSearchPos &&
+                    mod.DistanceBetween(this.lastSearchPos, pos) <=
+                        CoreAI_BehaviorSelector.POS_EPSILON
                 ) {
-                    const vehicle = mod.GetVehicleFromPlayer(player)
-                    mod.ForcePlayerExitVehicle(player, vehicle)
-                    await mod.Wait(0)
-                    await mod.Wait(0)
-                    mod.ForcePlayerToSeat(player, vehicle, 0)
-
-                    mod.AIDefendPositionBehavior(player, pos, 10, 20)
-                } else {
-                    if (winner === 'vehicleToDrive') {
-                        mod.AIMoveToBehavior(player, pos)
-                    } else {
-                        mod.AIValidatedMoveToBehavior(player, pos)
-                    }
+                    return
                 }
 
-                this.current = behavior
-                this.lastMoveToPos = pos
-                this.lastDefendPos = null
+                this.markCurrent(ctx, binding.kind)
+                this.lastSearchPos = pos
+
+                this.commands.enqueue(
+                    new CoreAI_SearchCommand(
+                        player,
+                        pos,
+                        ctx.moveBlacklist,
+                        () => (this.searchedPos = pos),
+                        binding.searchRadius ?? 8,
+                        binding.sweepPoints ?? 4
+                    )
+                )
                 return
             }
         }
     }
 
     /**
-     * Pick the highest-weight memory key that is currently set.
+     * Set the running behavior and forget the previous behavior's target.
+     * Supersedes any queued engine sequence.
+     */
+    private markCurrent(
+        ctx: CoreAI_TickContext,
+        kind: CoreAI_KeyedBehaviorKind
+    ): void {
+        this.commands.cancelAll()
+        ctx.moveBlacklist.setTarget(null)
+
+        this.current = kind
+        this.lastMoveToPos = null
+        this.lastDefendPos = null
+        this.lastPatrolPath = null
+        this.lastSearchPos = null
+    }
+
+    /**
+     * True if the same move behavior already runs toward pos.
+     */
+    private isSameMoveTo(
+        kind: CoreAI_KeyedBehaviorKind,
+        pos: mod.Vector
+    ): boolean {
+        return (
+            this.current === kind &&
+            this.lastMoveToPos !== null &&
+            mod.DistanceBetween(this.lastMoveToPos, pos) <=
+                CoreAI_BehaviorSelector.POS_EPSILON
+        )
+    }
+
+    /**
+     * Pick the highest-scoring memory key that is currently set,
+     * then apply commitment against the current winner.
      */
     private getWinnerKey(
         ctx: CoreAI_TickContext
     ): keyof CoreAI_MemoryFields | null {
+        const commitment = this.cfg.commitment ?? {}
+        const current = this.currentKey
+
         let bestKey: keyof CoreAI_MemoryFields | null = null
         let bestScore = -Infinity
+        let currentScore: number | null = null
+
+        const candidates: CoreAI_DecisionCandidate[] = []
+        this.candidates = candidates
+        this.reason = 'best'
 
         for (const key of Object.keys(this.cfg.weights) as Array<
             keyof CoreAI_MemoryFields
         >) {
-            if (!ctx.memory.has(key)) continue
+            if (!ctx.memory.has(key)) {
+                candidates.push({ key, score: null, skipped: 'unset' })
+                continue
+            }
+            if (!this.isActionable(ctx, key)) {
+                candidates.push({ key, score: null, skipped: 'notActionable' })
+                continue
+            }
+            if (this.isBlacklisted(ctx, key)) {
+                candidates.push({ key, score: null, skipped: 'blacklisted' })
+                continue
+            }
+            if (key !== current && this.isCoolingDown(key, ctx.time)) {
+                candidates.push({ key, score: null, skipped: 'coolingDown' })
+                continue
+            }
+
+            const score = CoreAI_evaluateScore(this.cfg.weights[key], ctx, key)
+            if (score <= 0) {
+                candidates.push({ key, score, skipped: 'nonPositive' })
+                continue
+            }
+
+            candidates.push({ key, score })
+
+            if (key === current) currentScore = score
 
-            const score = this.cfg.weights[key] ?? 0
             if (score > bestScore) {
                 bestScore = score
                 bestKey = key
             }
         }
 
+        if (!current) return bestKey
+
+        if (currentScore !== null) {
+            this.currentScore = currentScore
+            this.currentSeenAt = ctx.time
+        } else if (ctx.time - this.currentSeenAt < (commitment.graceMs ?? 0)) {
+            // Key dropped out recently: keep competing with its last score.
+            currentScore = this.currentScore
+        }
+
+        if (bestKey === current) return current
+
+        this.reason = 'commitment'
+
+        if (ctx.time - this.switchedAt < (commitment.minDwellMs ?? 0)) {
+            // Hold; null leaves the running engine behavior untouched.
+            return currentScore !== null ? current : null
+        }
+
+        if (
+            currentScore !== null &&
+            (bestKey === null ||
+                bestScore < currentScore + (commitment.switchMargin ?? 0))
+        ) {
+            return current
+        }
+
+        this.reason = 'best'
+
         return bestKey
     }
 
     /**
-     * Map memory keys to engine behaviors.
+     * Record a change of winner for dwell and cooldown tracking.
      */
-    private getBehaviorForKey(
-        key: keyof CoreAI_MemoryFields
-    ): CoreAI_KeyedBehaviorKind | null {
-        switch (key) {
-            case 'isInBattle':
-                return 'battlefield'
+    private commit(key: keyof CoreAI_MemoryFields, time: number): void {
+        if (key === this.currentKey) return
 
-            case 'arrivedPos':
-                return 'defend'
+        if (this.currentKey) this.leftAt[this.currentKey] = time
 
-            case 'closestEnemy':
-            case 'vehicleToDrive':
-            case 'roamPos':
-            case 'capturePoint':
-                return 'moveto'
+        this.currentKey = key
+        this.currentSeenAt = time
+        this.switchedAt = time
+    }
 
-            default:
-                return null
-        }
+    /**
+     * True while a key that lost the decision is on cooldown.
+     */
+    private isCoolingDown(
+        key: keyof CoreAI_MemoryFields,
+        time: number
+    ): boolean {
+        const cooldown = this.cfg.commitment?.cooldowns?.[key] ?? 0
+        const leftAt = this.leftAt[key]
+        if (cooldown <= 0 || leftAt === undefined) return false
+
+        return time - leftAt < cooldown
     }
 
     /**
-     * Resolve a target position for moveto/defend behavior.
+     * A key can win only if its behavior can run now.
      */
-    private resolveTargetPos(
+    private isActionable(
         ctx: CoreAI_TickContext,
         key: keyof CoreAI_MemoryFields
-    ): mod.Vector | null {
-        switch (key) {
-            case 'closestEnemy': {
-                const enemy = ctx.memory.get('closestEnemy')
-                if (!enemy) return null
-
-                return mod.GetSoldierState(
-                    enemy,
-                    mod.SoldierStateVector.GetPosition
+    ): boolean {
+        switch (this.getBinding(key).kind) {
+            case 'battlefield':
+            case 'idle':
+                return true
+
+            case 'parachute':
+                return (
+                    mod.GetSoldierState(
+                        ctx.player,
+                        mod.SoldierStateBool.IsInAir
+                    ) &&
+                    !mod.GetSoldierState(
+                        ctx.player,
+                        mod.SoldierStateBool.IsInVehicle
+                    )
                 )
+
+            case 'patrol':
+                return this.resolveWaypointPath(ctx, key) !== null
+
+            case 'search': {
+                const pos = this.resolveTargetPos(ctx, key)
+                return pos !== null && !this.wasSearched(pos)
             }
 
-            case 'vehicleToDrive': {
-                const vehicle = ctx.memory.get('vehicleToDrive')
-                if (!vehicle) return null
+            default:
+                return this.resolveTargetPos(ctx, key) !== null
+        }
+    }
 
-                return mod.GetVehicleState(
-                    vehicle,
-                    mod.VehicleStateVector.VehiclePosition
+    /**
+     * True if the key moves toward a target the engine recently failed
+     * to reach.
+     */
+    private isBlacklisted(
+        ctx: CoreAI_TickContext,
+        key: keyof CoreAI_MemoryFields
+    ): boolean {
+        switch (this.getBinding(key).kind) {
+            case 'moveto':
+            case 'losmoveto':
+            case 'defend':
+            case 'search': {
+                const pos = this.resolveTargetPos(ctx, key)
+                return (
+                    pos !== null &&
+                    ctx.moveBlacklist.isBlacklisted(pos, ctx.time)
                 )
             }
 
-            case 'roamPos':
-                return ctx.memory.get('roamPos')
+            default:
+                return false
+        }
+    }
+
+    /**
+     * True if a completed search already swept pos.
+     */
+    private wasSearched(pos: mod.Vector): boolean {
+        return (
+            this.searchedPos !== null &&
+            mod.DistanceBetween(this.searchedPos, pos) <=
+                CoreAI_BehaviorSelector.POS_EPSILON
+        )
+    }
 
-            case 'arrivedPos':
-                return ctx.memory.get('arrivedPos')
+    /**
+     * Binding for a memory key (profile, default, or fallback).
+     */
+    private getBinding(key: keyof CoreAI_MemoryFields): CoreAI_BehaviorBinding {
+        return this.bindings[key] ?? CoreAI_BehaviorSelector.FALLBACK_BINDING
+    }
 
-            case 'capturePoint': {
-                const cp = ctx.memory.get('capturePoint')
-                if (!cp) return null
+    /**
+     * Resolve a target position for moveto/losmoveto/defend/search behavior.
+     */
+    private resolveTargetPos(
+        ctx: CoreAI_TickContext,
+        key: keyof CoreAI_MemoryFields
+    ): mod.Vector | null {
+        const target =
+            this.getBinding(key).target ?? CoreAI_BehaviorTargets.auto
+        return target(ctx, key)
+    }
 
-                return mod.GetObjectPosition(cp)
-            }
+    /**
+     * Resolve a waypoint path number for patrol behavior.
+     */
+    private resolveWaypointPath(
+        ctx: CoreAI_TickContext,
+        key: keyof CoreAI_MemoryFields
+    ): number | null {
+        const path = this.getBinding(key).waypointPath
+        if (path !== undefined) return path
 
-            default:
-                return null
-        }
+        const value = ctx.memory.get(key) as unknown
+        return typeof value === 'number' ? value : null
     }
 
     /**
@@ -228,4 +596,11 @@ export class CoreAI_BehaviorSelector {
     getCurrent(): CoreAI_KeyedBehaviorKind | null {
         return this.current
     }
+
+    /**
+     * Expose the memory key that currently owns the decision.
+     */
+    getCurrentKey(): keyof CoreAI_MemoryFields | null {
+        return this.currentKey
+    }
 }
@@ -0,0 +1,126 @@
+/**
+ * Cancellation flag handed to a running command.
+ */
+export class CoreAI_CommandToken {
+    private cancelled = false
+
+    cancel(): void {
+        this.cancelled = true
+    }
+
+    isCancelled(): boolean {
+        return this.cancelled
+    }
+}
+
+/**
+ * Multi-step engine sequence (exit vehicle -> Wait -> re-seat ...).
+ *
+ * run() MUST check token.isCancelled() after every await and stop
+ * issuing engine calls once cancelled.
+ */
+export interface CoreAI_Command {
+    /** Label for debug/UI */
+    name: string
+
+    run(token: CoreAI_CommandToken): Promise<void>
+}
+
+interface CoreAI_QueuedCommand {
+    command: CoreAI_Command
+    token: CoreAI_CommandToken
+}
+
+/**
+ * A command whose run() threw or rejected.
+ */
+export interface CoreAI_CommandFailure {
+    name: string
+    error: unknown
+}
+
+/**
+ * CoreAI_CommandQueue
+ *
+ * Per-brain queue of async engine sequences.
+ *
+ * Responsibilities:
+ * - Runs commands one at a time, in order; they never overlap.
+ * - Cancels running and pending commands on demand (cancelAll/replace).
+ *
+ * Notes:
+ * - A cancelled running command still finishes its current await
+ *   before the next command starts.
+ * - A command that throws or rejects is dropped and the queue moves on;
+ *   the last failure is kept for debug (getLastFailure).
+ */
+export class CoreAI_CommandQueue {
+    private pending: CoreAI_QueuedCommand[] = []
+    private running: CoreAI_QueuedCommand | null = null
+    private lastFailure: CoreAI_CommandFailure | null = null
+
+    /**
+     * Queue a command after the ones already queued.
+     */
+    enqueue(command: CoreAI_Command): CoreAI_CommandToken {
+        const token = new CoreAI_CommandToken()
+        this.pending.push({ command, token })
+
+        if (!this.running) {
+            void this.pump()
+        }
+
+        return token
+    }
+
+    /**
+     * Cancel everything queued or running, then queue the command.
+     */
+    replace(command: CoreAI_Command): CoreAI_CommandToken {
+        this.cancelAll()
+        return this.enqueue(command)
+    }
+
+    cancelAll(): void {
+        this.running?.token.cancel()
+
+        for (const queued of this.pending) {
+            queued.token.cancel()
+        }
+        this.pending = []
+    }
+
+    isBusy(): boolean {
+        return this.running !== null || this.pending.length > 0
+    }
+
+    /**
+     * Name of the running command (for debug/UI).
+     */
+    getRunning(): string | null {
+        return this.running?.command.name ?? null
+    }
+
+    /**
+     * Last command that threw or rejected (for debug/UI).
+     */
+    getLastFailure(): CoreAI_CommandFailure | null {
+        return this.lastFailure
+    }
+
+    private async pump(): Promise<void> {
+        while (this.pending.length > 0) {
+            const next = this.pending.shift()!
+            if (next.token.isCancelled()) continue
+
+            this.running = next
+            try {
+                await next.command.run(next.token)
+            } catch (error) {
+                this.lastFailure = { name: next.command.name, error }
+            } finally {
+                this.running = null
+            }
+        }
+    }
+}
@@ -0,0 +1,82 @@
+import { CoreAI_Command } from '../CommandQueue'
+import { CoreAI_CommandToken } from '../CommandQueue'
+import { CoreAI_MoveBlacklist } from '../../Memory/MoveBlacklist'
+
+/**
+ * CoreAI_SearchCommand:
+ * Searches for a lost enemy around its last known position.
+ *
+ * Moves to the position, then sweeps sweepPoints points on a circle of
+ * radius around it. Each leg ends on arrival or after legTimeoutMs.
+ * onDone runs only when the whole sweep completed uncancelled, i.e.
+ * the bot gave up.
+ *
+ * Each leg is the move target on the blacklist, so a leg the engine
+ * cannot reach blacklists that leg, not the searched position.
+ */
+export class CoreAI_SearchCommand implements CoreAI_Command {
+    private static readonly POLL_MS = 250
+
+    readonly name = 'search'
+
+    constructor(
+        private readonly player: mod.Player,
+        private readonly pos: mod.Vector,
+        private readonly moveBlacklist: CoreAI_MoveBlacklist,
+        private readonly onDone: () => void,
+        private readonly radius: number = 8,
+        private readonly sweepPoints: number = 4,
+        private readonly arriveDistance: number = 3,
+        private readonly legTimeoutMs: number = 10_000
+    ) {}
+
+    async run(token: CoreAI_CommandToken): Promise<void> {
+        for (const leg of this.getLegs()) {
+            if (token.isCancelled() || !mod.IsPlayerValid(this.player)) return
+
+            mod.AIValidatedMoveToBehavior(this.player, leg)
+            this.moveBlacklist.setTarget(leg)
+
+            await this.waitArrival(token, leg)
+        }
+
+        if (token.isCancelled()) return
+
+        this.onDone()
+    }
+
+    private getLegs(): mod.Vector[] {
+        const legs = [this.pos]
+
+        for (let i = 0; i < this.sweepPoints; i++) {
+            const angle = (2 * Math.PI * i) / this.sweepPoints
+            legs.push(
+                mod.CreateVector(
+                    mod.XComponentOf(this.pos) + Math.cos(angle) * this.radius,
+                    mod.YComponentOf(this.pos),
+                    mod.ZComponentOf(this.pos) + Math.sin(angle) * this.radius
+                )
+            )
+        }
+
+        return legs
+    }
+
+    private async waitArrival(
+        token: CoreAI_CommandToken,
+        leg: mod.Vector
+    ): Promise<void> {
+        const pollMs = CoreAI_SearchCommand.POLL_MS
+
+        for (let waited = 0; waited < this.legTimeoutMs; waited += pollMs) {
+            await mod.Wait(pollMs / 1000)
+            if (token.isCancelled() || !mod.IsPlayerValid(this.player)) return
+
+            const dist = mod.DistanceBetween(
+                mod.GetObjectPosition(this.player),
+                leg
+            )
+            if (dist <= this.arriveDistance) return
+        }
+    }
+}
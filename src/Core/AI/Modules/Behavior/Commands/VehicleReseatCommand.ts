@@ -0,0 +1,35 @@
+import { CoreAI_Command } from '../CommandQueue'
+import { CoreAI_CommandToken } from '../CommandQueue'
+
+/**
+ * CoreAI_VehicleReseatCommand:
+ * Drives an AI driver toward a position.
+ *
+ * Exits and re-enters the driver seat (two Wait(0) frames apart) so the
+ * engine picks up the new behavior, then defends around the position.
+ * Once started, the re-seat always completes so a cancelled command
+ * never leaves the driver on foot; only the defend step is skipped.
+ */
+export class CoreAI_VehicleReseatCommand implements CoreAI_Command {
+    readonly name = 'vehicleReseat'
+
+    constructor(
+        private readonly player: mod.Player,
+        private readonly vehicle: mod.Vehicle,
+        private readonly pos: mod.Vector,
+        private readonly seat: number = 0
+    ) {}
+
+    async run(token: CoreAI_CommandToken): Promise<void> {
+        mod.ForcePlayerExitVehicle(this.player, this.vehicle)
+
+        await mod.Wait(0)
+        await mod.Wait(0)
+        if (!mod.IsPlayerValid(this.player)) return
+
+        mod.ForcePlayerToSeat(this.player, this.vehicle, this.seat)
+        if (token.isCancelled()) return
+
+        mod.AIDefendPositionBehavior(this.player, this.pos, 10, 20)
+    }
+}
@@ -0,0 +1,94 @@
+import { CoreAI_MemoryFields } from '../Memory/MemoryManager'
+
+/**
+ * Why a weighted key could not win this tick.
+ */
+export type CoreAI_CandidateSkip =
+    /** Memory key empty */
+    | 'unset'
+    /** No target to act on */
+    | 'notActionable'
+    /** Target recently unreachable (ctx.moveBlacklist) */
+    | 'blacklisted'
+    /** Left too recently (commitment cooldown) */
+    | 'coolingDown'
+    /** Score <= 0 */
+    | 'nonPositive'
+
+export interface CoreAI_DecisionCandidate {
+    key: keyof CoreAI_MemoryFields
+
+    /** Score this tick (null if the key was skipped before scoring) */
+    score: number | null
+
+    skipped?: CoreAI_CandidateSkip
+}
+
+/**
+ * One behavior change made by the selector.
+ */
+export interface CoreAI_DecisionRecord {
+    /** Brain clock time (ms) */
+    time: number
+
+    key: keyof CoreAI_MemoryFields
+    behavior: string
+
+    /** Resolved target position (null for target-less behaviors) */
+    target: mod.Vector | null
+
+    previousKey: keyof CoreAI_MemoryFields | null
+    previousBehavior: string | null
+
+    /** 'best': highest score; 'commitment': held by dwell/margin/grace */
+    reason: 'best' | 'commitment'
+
+    candidates: CoreAI_DecisionCandidate[]
+}
+
+/**
+ * CoreAI_DecisionTrace
+ *
+ * Bounded per-brain history of selector decisions, oldest first.
+ * Read via CoreAI_Brain.getDecisionTrace().
+ */
+export class CoreAI_DecisionTrace {
+    private records: CoreAI_DecisionRecord[] = []
+
+    constructor(private capacity: number = 32) {}
+
+    push(record: CoreAI_DecisionRecord): void {
+        this.records.push(record)
+
+        if (this.records.length > this.capacity) {
+            this.records.splice(0, this.records.length - this.capacity)
+        }
+    }
+
+    getLast(): CoreAI_DecisionRecord | null {
+        return this.records[this.records.length - 1] ?? null
+    }
+
+    getAll(): readonly CoreAI_DecisionRecord[] {
+        return this.records
+    }
+
+    /**
+     * Records made at or after a brain clock time.
+     */
+    since(time: number): CoreAI_DecisionRecord[] {
+        return this.records.filter((r) => r.time >= time)
+    }
+
+    setCapacity(capacity: number): void {
+        this.capacity = Math.max(1, capacity)
+
+        if (this.records.length > this.capacity) {
+            this.records.splice(0, this.records.length - this.capacity)
+        }
+    }
+
+    clear(): void {
+        this.records = []
+    }
+}
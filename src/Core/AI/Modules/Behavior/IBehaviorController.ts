@@ -0,0 +1,21 @@
+import { CoreAI_TickContext } from '../../TickContext'
+
+/**
+ * CoreAI_IBehaviorController:
+ * Decides which engine AI behavior runs each tick.
+ *
+ * Implemented by CoreAI_BehaviorSelector (default) and by alternative
+ * decision runtimes plugged into CoreAI_Brain.setBehaviorController().
+ */
+export interface CoreAI_IBehaviorController {
+    /** Select and apply the engine behavior for this tick */
+    update(ctx: CoreAI_TickContext): void | Promise<void>
+
+    /** Current engine behavior label (for debug/UI) */
+    getCurrent(): string | null
+}
+
+/**
+ * Creates a fresh controller per brain (controllers hold runtime state).
+ */
+export type CoreAI_BehaviorControllerFactory = () => CoreAI_IBehaviorController
@@ -0,0 +1,75 @@
+import { CoreAI_TickContext } from '../../TickContext'
+import { CoreAI_MoveMode } from './BehaviorBindings'
+import { CoreAI_CommandToken } from './CommandQueue'
+import { CoreAI_VehicleReseatCommand } from './Commands/VehicleReseatCommand'
+
+/**
+ * CoreAI_MoveIssuer
+ *
+ * Issues moveto orders for a behavior controller (selector, BT leaves).
+ *
+ * Responsibilities:
+ * - Drivers (seat 0) ignore a plain move order: they are moved with a
+ *   CoreAI_VehicleReseatCommand on ctx.commands instead.
+ * - On foot, issues the engine move for the move mode.
+ * - Records pos as the move target on ctx.moveBlacklist.
+ *
+ * Notes:
+ * - One issuer per controller/leaf: it remembers the vehicle of a
+ *   re-seat in flight, while the bot is briefly on foot.
+ */
+export class CoreAI_MoveIssuer {
+    private reseatVehicle: mod.Vehicle | null = null
+
+    /**
+     * Move toward pos. Returns the command token when the move runs as
+     * a re-seat sequence, otherwise null.
+     */
+    moveTo(
+        ctx: CoreAI_TickContext,
+        pos: mod.Vector,
+        move: CoreAI_MoveMode
+    ): CoreAI_CommandToken | null {
+        const player = ctx.player
+        ctx.moveBlacklist.setTarget(pos)
+
+        // A re-seat in flight means the bot is still the driver.
+        const reseating = ctx.commands.getRunning() === 'vehicleReseat'
+        const vehicle =
+            (reseating ? this.reseatVehicle : null) ??
+            CoreAI_MoveIssuer.getDrivenVehicle(player)
+
+        this.reseatVehicle = vehicle
+        if (vehicle) {
+            return ctx.commands.replace(
+                new CoreAI_VehicleReseatCommand(player, vehicle, pos)
+            )
+        }
+
+        switch (move) {
+            case 'direct':
+                mod.AIMoveToBehavior(player, pos)
+                break
+
+            case 'validated':
+                mod.AIValidatedMoveToBehavior(player, pos)
+                break
+        }
+
+        return null
+    }
+
+    /**
+     * Vehicle the bot drives (seat 0), if any.
+     */
+    static getDrivenVehicle(player: mod.Player): mod.Vehicle | null {
+        if (
+            !mod.GetSoldierState(player, mod.SoldierStateBool.IsInVehicle) ||
+            mod.GetPlayerVehicleSeat(player) !== 0
+        ) {
+            return null
+        }
+
+        return mod.GetVehicleFromPlayer(player)
+    }
+}
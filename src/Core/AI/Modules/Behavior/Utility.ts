@@ -0,0 +1,155 @@
+import { CoreAI_TickContext } from '../../TickContext'
+import { CoreAI_MemoryFields } from '../Memory/MemoryManager'
+import { CoreAI_BehaviorTargets } from './BehaviorBindings'
+import { CoreAI_TargetResolver } from './BehaviorBindings'
+
+/**
+ * Utility scoring for CoreAI_BehaviorSelector.
+ *
+ * A key score is one of:
+ * - number:  constant weight (the simple case, unchanged behavior)
+ * - function: (ctx, key) => score
+ * - CoreAI_UtilityScore: weight * product of curved considerations
+ *
+ * Considerations:
+ * - input() reads a raw value from the tick context
+ * - [min, max] normalizes it into 0..1
+ * - curve maps 0..1 to 0..1 (response curve)
+ */
+
+export type CoreAI_ResponseCurve = (x: number) => number
+
+export type CoreAI_UtilityInput = (
+    ctx: CoreAI_TickContext,
+    key: keyof CoreAI_MemoryFields
+) => number
+
+export interface CoreAI_UtilityConsideration {
+    input: CoreAI_UtilityInput
+
+    /** Raw input range mapped to 0..1 (default 0..1) */
+    min?: number
+    max?: number
+
+    /** Response curve (default linear) */
+    curve?: CoreAI_ResponseCurve
+}
+
+export interface CoreAI_UtilityScore {
+    /** Score when every consideration returns 1 */
+    weight: number
+    considerations: CoreAI_UtilityConsideration[]
+}
+
+export type CoreAI_KeyScore =
+    | number
+    | CoreAI_UtilityScore
+    | ((ctx: CoreAI_TickContext, key: keyof CoreAI_MemoryFields) => number)
+
+function clamp01(x: number): number {
+    return x < 0 ? 0 : x > 1 ? 1 : x
+}
+
+/**
+ * Response curves. All take and return values in 0..1.
+ */
+export const CoreAI_Curves = {
+    linear:
+        (slope: number = 1, offset: number = 0): CoreAI_ResponseCurve =>
+        (x) =>
+            clamp01(slope * x + offset),
+
+    /** 1 at x=0, 0 at x=1 */
+    inverse: (): CoreAI_ResponseCurve => (x) => 1 - clamp01(x),
+
+    /** x^exponent; >1 stays low until late, <1 rises early */
+    power:
+        (exponent: number = 2): CoreAI_ResponseCurve =>
+        (x) =>
+            Math.pow(clamp01(x), exponent),
+
+    /** S-curve centered on midpoint */
+    logistic:
+        (
+            steepness: number = 10,
+            midpoint: number = 0.5
+        ): CoreAI_ResponseCurve =>
+        (x) =>
+            1 / (1 + Math.exp(-steepness * (x - midpoint))),
+
+    /** 0 below threshold, 1 at or above */
+    step:
+        (threshold: number = 0.5): CoreAI_ResponseCurve =>
+        (x) =>
+            x >= threshold ? 1 : 0,
+}
+
+/**
+ * Common consideration inputs.
+ */
+export const CoreAI_UtilityInputs = {
+    /** Distance (m) from the bot to the key's target position */
+    distance:
+        (
+            target: CoreAI_TargetResolver = CoreAI_BehaviorTargets.auto
+        ): CoreAI_UtilityInput =>
+        (ctx, key) => {
+            const pos = target(ctx, key)
+            if (!pos) return Infinity
+
+            return mod.DistanceBetween(mod.GetObjectPosition(ctx.player), pos)
+        },
+
+    /** Bot health, 0..1 */
+    health: (): CoreAI_UtilityInput => (ctx) =>
+        mod.GetSoldierState(
+            ctx.player,
+            mod.SoldierStateNumber.NormalizedHealth
+        ),
+
+    /** Time (ms) left before the key's memory TTL expires (0 if none) */
+    ttlRemaining: (): CoreAI_UtilityInput => (ctx, key) =>
+        ctx.memory.getTimeRemaining(key),
+
+    /** Alive friendly players (bot included) */
+    teammatesAlive: (): CoreAI_UtilityInput => (ctx) =>
+        ctx.teams.getPlayers(ctx.player, 'friendly').length,
+
+    /** Alive hostile players */
+    enemiesAlive: (): CoreAI_UtilityInput => (ctx) =>
+        ctx.teams.getEnemies(ctx.player).length,
+
+    /** Known enemies within distance (m), see memory.knownEnemies */
+    enemiesWithin:
+        (distance: number): CoreAI_UtilityInput =>
+        (ctx) =>
+            ctx.memory.countEnemiesWithin(distance),
+}
+
+/**
+ * Evaluate a key score for this tick.
+ */
+export function CoreAI_evaluateScore(
+    score: CoreAI_KeyScore | undefined,
+    ctx: CoreAI_TickContext,
+    key: keyof CoreAI_MemoryFields
+): number {
+    if (score === undefined) return 0
+    if (typeof score === 'number') return score
+    if (typeof score === 'function') return score(ctx, key)
+
+    let product = 1
+
+    for (const c of score.considerations) {
+        const min = c.min ?? 0
+        const max = c.max ?? 1
+        const raw = c.input(ctx, key)
+        const x = max === min ? (raw >= max ? 1 : 0) : (raw - min) / (max - min)
+        const y = c.curve ? c.curve(clamp01(x)) : clamp01(x)
+
+        product *= clamp01(y)
+        if (product <= 0) return 0
+    }
+
+    return score.weight * product
+}
@@ -0,0 +1,80 @@
+import { CoreAI_TickContext } from '../../TickContext'
+import { CoreAI_MemoryFields } from '../Memory/MemoryManager'
+import { CoreAI_BehaviorTargets } from '../Behavior/BehaviorBindings'
+
+export type CoreAI_BTStatus = 'success' | 'failure' | 'running'
+
+/**
+ * Position source for leaf nodes: a memory key (resolved with
+ * CoreAI_BehaviorTargets.auto) or a function of the tick context.
+ */
+export type CoreAI_BTTarget =
+    keyof CoreAI_MemoryFields | ((ctx: CoreAI_TickContext) => mod.Vector | null)
+
+export function CoreAI_resolveBTTarget(
+    target: CoreAI_BTTarget,
+    ctx: CoreAI_TickContext
+): mod.Vector | null {
+    if (typeof target === 'function') return target(ctx)
+
+    return CoreAI_BehaviorTargets.auto(ctx, target)
+}
+
+/**
+ * CoreAI_ABTNode:
+ * Base class for all behavior-tree nodes.
+ *
+ * Responsibilities:
+ * - tick(ctx) runs update(ctx) and tracks whether the node is running.
+ * - onEnter() fires on the first tick of a run, onExit() when the run
+ *   completes or is aborted.
+ *
+ * Notes:
+ * - Nodes MUST use ctx.time / ctx.random like sensors.
+ * - abort() is called by parents on nodes they stop ticking.
+ */
+export abstract class CoreAI_ABTNode {
+    private running = false
+
+    tick(ctx: CoreAI_TickContext): CoreAI_BTStatus {
+        if (!this.running) {
+            this.onEnter(ctx)
+        }
+
+        const status = this.update(ctx)
+
+        this.running = status === 'running'
+        if (!this.running) {
+            this.onExit(ctx)
+        }
+
+        return status
+    }
+
+    /**
+     * Stop a running node without completing it.
+     */
+    abort(ctx: CoreAI_TickContext): void {
+        if (!this.running) return
+
+        this.running = false
+        this.onExit(ctx)
+    }
+
+    isRunning(): boolean {
+        return this.running
+    }
+
+    /**
+     * Engine behavior label of the running leaf under this node.
+     */
+    getLabel(): string | null {
+        return null
+    }
+
+    protected onEnter(ctx: CoreAI_TickContext): void {}
+
+    protected onExit(ctx: CoreAI_TickContext): void {}
+
+    protected abstract update(ctx: CoreAI_TickContext): CoreAI_BTStatus
+}
@@ -0,0 +1,46 @@
+import { CoreAI_TickContext } from '../../TickContext'
+import { CoreAI_IBehaviorController } from '../Behavior/IBehaviorController'
+import { CoreAI_ABTNode } from './BTNode'
+import { CoreAI_BTStatus } from './BTNode'
+
+/**
+ * CoreAI_BehaviorTree
+ *
+ * Behavior-tree runtime, pluggable in place of CoreAI_BehaviorSelector:
+ *   brain.setBehaviorController(new CoreAI_BehaviorTree(root))
+ *
+ * Responsibilities:
+ * - Tick the root node once per brain tick.
+ * - Report the engine behavior of the running leaf.
+ *
+ * Notes:
+ * - Reads Perception results through memory (CoreAI_BTHasMemory,
+ *   CoreAI_BTCondition); sensors keep running as usual.
+ * - A root that completes starts over on the next tick.
+ */
+export class CoreAI_BehaviorTree implements CoreAI_IBehaviorController {
+    private current: string | null = null
+    private status: CoreAI_BTStatus | null = null
+
+    constructor(private readonly root: CoreAI_ABTNode) {}
+
+    update(ctx: CoreAI_TickContext): void {
+        if (!mod.IsPlayerValid(ctx.player)) return
+
+        this.status = this.root.tick(ctx)
+
+        // The engine keeps the last behavior until another is issued.
+        this.current = this.root.getLabel() ?? this.current
+    }
+
+    getCurrent(): string | null {
+        return this.current
+    }
+
+    /**
+     * Root status of the last tick (null before the first tick).
+     */
+    getStatus(): CoreAI_BTStatus | null {
+        return this.status
+    }
+}
@@ -0,0 +1,139 @@
+import { CoreAI_TickContext } from '../../TickContext'
+import { CoreAI_ABTNode } from './BTNode'
+import { CoreAI_BTStatus } from './BTNode'
+
+/**
+ * CoreAI_ABTComposite:
+ * Node with ordered children. Aborts running children on exit.
+ */
+export abstract class CoreAI_ABTComposite extends CoreAI_ABTNode {
+    constructor(protected readonly children: CoreAI_ABTNode[]) {
+        super()
+    }
+
+    override getLabel(): string | null {
+        for (const child of this.children) {
+            if (!child.isRunning()) continue
+
+            const label = child.getLabel()
+            if (label) return label
+        }
+
+        return null
+    }
+
+    protected override onExit(ctx: CoreAI_TickContext): void {
+        for (const child of this.children) {
+            child.abort(ctx)
+        }
+    }
+}
+
+/**
+ * CoreAI_BTSelector:
+ * Runs the first child that does not fail.
+ *
+ * Reactive: children are re-evaluated in priority order every tick, so a
+ * higher-priority child that becomes runnable aborts a lower one.
+ */
+export class CoreAI_BTSelector extends CoreAI_ABTComposite {
+    protected update(ctx: CoreAI_TickContext): CoreAI_BTStatus {
+        for (let i = 0; i < this.children.length; i++) {
+            const status = this.children[i].tick(ctx)
+            if (status === 'failure') continue
+
+            for (let j = i + 1; j < this.children.length; j++) {
+                this.children[j].abort(ctx)
+            }
+
+            return status
+        }
+
+        return 'failure'
+    }
+}
+
+/**
+ * CoreAI_BTSequence:
+ * Runs children one after another; fails as soon as one fails.
+ *
+ * Remembers the running child, so finished steps are not re-checked
+ * (e.g. "enter vehicle, drive, dismount, defend", see
+ * CoreAI_driveAndDefendTree). Conditions in front of a running step are
+ * not re-checked either: wrap the sequence in a CoreAI_BTGuard to abort
+ * it when they stop holding.
+ */
+export class CoreAI_BTSequence extends CoreAI_ABTComposite {
+    private index = 0
+
+    protected override onEnter(ctx: CoreAI_TickContext): void {
+        this.index = 0
+    }
+
+    protected update(ctx: CoreAI_TickContext): CoreAI_BTStatus {
+        while (this.index < this.children.length) {
+            const status = this.children[this.index].tick(ctx)
+            if (status !== 'success') return status
+
+            this.index++
+        }
+
+        return 'success'
+    }
+}
+
+/**
+ * CoreAI_BTParallel:
+ * Ticks all unfinished children every tick.
+ *
+ * Policy:
+ * - 'all': succeeds when every child succeeded, fails on the first failure.
+ * - 'one': succeeds on the first success, fails when every child failed.
+ *
+ * Notes:
+ * - Only one child should issue engine behaviors; use the others for
+ *   conditions and timers.
+ * - A child that completed without ever running (a condition) is
+ *   re-checked every tick; a child that ran keeps its result.
+ */
+export class CoreAI_BTParallel extends CoreAI_ABTComposite {
+    private results: Array<CoreAI_BTStatus | null> = []
+    private ran: boolean[] = []
+
+    constructor(
+        children: CoreAI_ABTNode[],
+        private readonly policy: 'all' | 'one' = 'all'
+    ) {
+        super(children)
+    }
+
+    protected override onEnter(ctx: CoreAI_TickContext): void {
+        this.results = this.children.map(() => null)
+        this.ran = this.children.map(() => false)
+    }
+
+    protected update(ctx: CoreAI_TickContext): CoreAI_BTStatus {
+        let successes = 0
+        let failures = 0
+
+        for (let i = 0; i < this.children.length; i++) {
+            if (!this.ran[i] || this.results[i] === 'running') {
+                this.results[i] = this.children[i].tick(ctx)
+            }
+            if (this.results[i] === 'running') this.ran[i] = true
+
+            if (this.results[i] === 'success') successes++
+            if (this.results[i] === 'failure') failures++
+        }
+
+        if (this.policy === 'one') {
+            if (successes > 0) return 'success'
+            if (failures === this.children.length) return 'failure'
+        } else {
+            if (failures > 0) return 'failure'
+            if (successes === this.children.length) return 'success'
+        }
+
+        return 'running'
+    }
+}
@@ -0,0 +1,34 @@
+import { CoreAI_TickContext } from '../../TickContext'
+import { CoreAI_MemoryFields } from '../Memory/MemoryManager'
+import { CoreAI_ABTNode } from './BTNode'
+import { CoreAI_BTStatus } from './BTNode'
+
+/**
+ * CoreAI_BTHasMemory:
+ * Succeeds while a memory key is set (CoreAI_MemoryManager.has).
+ */
+export class CoreAI_BTHasMemory extends CoreAI_ABTNode {
+    constructor(private readonly key: keyof CoreAI_MemoryFields) {
+        super()
+    }
+
+    protected update(ctx: CoreAI_TickContext): CoreAI_BTStatus {
+        return ctx.memory.has(this.key) ? 'success' : 'failure'
+    }
+}
+
+/**
+ * CoreAI_BTCondition:
+ * Succeeds while the predicate holds.
+ */
+export class CoreAI_BTCondition extends CoreAI_ABTNode {
+    constructor(
+        private readonly predicate: (ctx: CoreAI_TickContext) => boolean
+    ) {
+        super()
+    }
+
+    protected update(ctx: CoreAI_TickContext): CoreAI_BTStatus {
+        return this.predicate(ctx) ? 'success' : 'failure'
+    }
+}
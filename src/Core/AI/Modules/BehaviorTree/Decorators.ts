@@ -0,0 +1,120 @@
+import { CoreAI_TickContext } from '../../TickContext'
+import { CoreAI_ABTNode } from './BTNode'
+import { CoreAI_BTStatus } from './BTNode'
+
+/**
+ * CoreAI_ABTDecorator:
+ * Node wrapping a single child. Aborts the child on exit.
+ */
+export abstract class CoreAI_ABTDecorator extends CoreAI_ABTNode {
+    constructor(protected readonly child: CoreAI_ABTNode) {
+        super()
+    }
+
+    override getLabel(): string | null {
+        return this.child.isRunning() ? this.child.getLabel() : null
+    }
+
+    protected override onExit(ctx: CoreAI_TickContext): void {
+        this.child.abort(ctx)
+    }
+}
+
+/**
+ * CoreAI_BTInverter:
+ * Swaps success and failure of its child.
+ */
+export class CoreAI_BTInverter extends CoreAI_ABTDecorator {
+    protected update(ctx: CoreAI_TickContext): CoreAI_BTStatus {
+        const status = this.child.tick(ctx)
+
+        if (status === 'success') return 'failure'
+        if (status === 'failure') return 'success'
+        return status
+    }
+}
+
+/**
+ * CoreAI_BTGuard:
+ * Runs its child only while a condition holds.
+ *
+ * The condition is re-ticked every tick, also while the child runs, so
+ * a long-running leaf (battlefield, defend, idle, patrol) is aborted as
+ * soon as the condition stops succeeding. Use it to keep a branch under
+ * a reactive CoreAI_BTSelector pre-emptible.
+ */
+export class CoreAI_BTGuard extends CoreAI_ABTDecorator {
+    constructor(
+        private readonly condition: CoreAI_ABTNode,
+        child: CoreAI_ABTNode
+    ) {
+        super(child)
+    }
+
+    protected update(ctx: CoreAI_TickContext): CoreAI_BTStatus {
+        if (this.condition.tick(ctx) !== 'success') {
+            this.condition.abort(ctx)
+            return 'failure'
+        }
+
+        return this.child.tick(ctx)
+    }
+}
+
+/**
+ * CoreAI_BTCooldown:
+ * Fails for cooldownMs after its child completes (success or failure).
+ */
+export class CoreAI_BTCooldown extends CoreAI_ABTDecorator {
+    private lastDone = -Infinity
+
+    constructor(
+        child: CoreAI_ABTNode,
+        private readonly cooldownMs: number
+    ) {
+        super(child)
+    }
+
+    protected update(ctx: CoreAI_TickContext): CoreAI_BTStatus {
+        if (
+            !this.child.isRunning() &&
+            ctx.time - this.lastDone < this.cooldownMs
+        ) {
+            return 'failure'
+        }
+
+        const status = this.child.tick(ctx)
+        if (status !== 'running') {
+            this.lastDone = ctx.time
+        }
+
+        return status
+    }
+}
+
+/**
+ * CoreAI_BTTimeout:
+ * Aborts its child and fails once it has been running for timeoutMs.
+ */
+export class CoreAI_BTTimeout extends CoreAI_ABTDecorator {
+    private startedAt = 0
+
+    constructor(
+        child: CoreAI_ABTNode,
+        private readonly timeoutMs: number
+    ) {
+        super(child)
+    }
+
+    protected override onEnter(ctx: CoreAI_TickContext): void {
+        this.startedAt = ctx.time
+    }
+
+    protected update(ctx: CoreAI_TickContext): CoreAI_BTStatus {
+        if (ctx.time - this.startedAt >= this.timeoutMs) {
+            return 'failure'
+        }
+
+        return this.child.tick(ctx)
+    }
+}
@@ -0,0 +1,322 @@
+import { CoreAI_TickContext } from '../../TickContext'
+import { CoreAI_MemoryFields } from '../Memory/MemoryManager'
+import { CoreAI_MoveMode } from '../Behavior/BehaviorBindings'
+import { CoreAI_MoveIssuer } from '../Behavior/MoveIssuer'
+import { CoreAI_CommandToken } from '../Behavior/CommandQueue'
+import { CoreAI_ABTNode } from './BTNode'
+import { CoreAI_BTStatus } from './BTNode'
+import { CoreAI_BTTarget } from './BTNode'
+import { CoreAI_resolveBTTarget } from './BTNode'
+
+/** Target movement (m) that re-issues a running move/defend */
+const CoreAI_BT_POS_EPSILON = 0.5
+
+function CoreAI_playerPos(player: mod.Player): mod.Vector {
+    return mod.GetSoldierState(player, mod.SoldierStateVector.GetPosition)
+}
+
+/**
+ * CoreAI_BTMoveTo:
+ * Moves to a target; succeeds within arriveDistance, fails when the
+ * target cannot be resolved or is on ctx.moveBlacklist.
+ *
+ * Re-issues the move only when the target moves beyond POS_EPSILON.
+ * Drivers are moved with a re-seat sequence (CoreAI_MoveIssuer), which
+ * is cancelled when the node exits.
+ */
+export class CoreAI_BTMoveTo extends CoreAI_ABTNode {
+    private lastPos: mod.Vector | null = null
+    private moves: CoreAI_MoveIssuer = new CoreAI_MoveIssuer()
+    private reseat: CoreAI_CommandToken | null = null
+
+    constructor(
+        private readonly target: CoreAI_BTTarget,
+        private readonly opts: {
+            arriveDistance?: number
+            move?: CoreAI_MoveMode
+            /** AILOSMoveToBehavior: stop once the target is in sight */
+            los?: boolean
+        } = {}
+    ) {
+        super()
+    }
+
+    override getLabel(): string | null {
+        return this.opts.los ? 'losmoveto' : 'moveto'
+    }
+
+    protected override onEnter(ctx: CoreAI_TickContext): void {
+        this.lastPos = null
+    }
+
+    protected override onExit(ctx: CoreAI_TickContext): void {
+        this.reseat?.cancel()
+        this.reseat = null
+    }
+
+    protected update(ctx: CoreAI_TickContext): CoreAI_BTStatus {
+        const pos = CoreAI_resolveBTTarget(this.target, ctx)
+        if (!pos) return 'failure'
+
+        const dist = mod.DistanceBetween(CoreAI_playerPos(ctx.player), pos)
+        if (dist <= (this.opts.arriveDistance ?? 3.0)) return 'success'
+
+        if (ctx.moveBlacklist.isBlacklisted(pos, ctx.time)) return 'failure'
+
+        if (
+            this.lastPos &&
+            mod.DistanceBetween(this.lastPos, pos) <= CoreAI_BT_POS_EPSILON
+        ) {
+            return 'running'
+        }
+
+        if (this.opts.los) {
+            mod.AILOSMoveToBehavior(ctx.player, pos)
+            ctx.moveBlacklist.setTarget(pos)
+        } else {
+            this.reseat = this.moves.moveTo(
+                ctx,
+                pos,
+                this.opts.move ?? 'validated'
+            )
+        }
+
+        this.lastPos = pos
+        return 'running'
+    }
+}
+
+/**
+ * CoreAI_BTDefend:
+ * Defends a target position. Runs until aborted; fails without target
+ * or when the target is on ctx.moveBlacklist.
+ */
+export class CoreAI_BTDefend extends CoreAI_ABTNode {
+    private lastPos: mod.Vector | null = null
+
+    constructor(
+        private readonly target: CoreAI_BTTarget,
+        private readonly minDistance: number = 2.0,
+        private readonly maxDistance: number = 8.0
+    ) {
+        super()
+    }
+
+    override getLabel(): string | null {
+        return 'defend'
+    }
+
+    protected override onEnter(ctx: CoreAI_TickContext): void {
+        this.lastPos = null
+    }
+
+    protected update(ctx: CoreAI_TickContext): CoreAI_BTStatus {
+        const pos = CoreAI_resolveBTTarget(this.target, ctx)
+        if (!pos) return 'failure'
+
+        if (ctx.moveBlacklist.isBlacklisted(pos, ctx.time)) return 'failure'
+
+        if (
+            this.lastPos &&
+            mod.DistanceBetween(this.lastPos, pos) <= CoreAI_BT_POS_EPSILON
+        ) {
+            return 'running'
+        }
+
+        mod.AIDefendPositionBehavior(
+            ctx.player,
+            pos,
+            this.minDistance,
+            this.maxDistance
+        )
+        ctx.moveBlacklist.setTarget(pos)
+
+        this.lastPos = pos
+        return 'running'
+    }
+}
+
+/**
+ * CoreAI_ABTEngineBehavior:
+ * Issues one target-less engine behavior on enter and runs until aborted.
+ */
+export abstract class CoreAI_ABTEngineBehavior extends CoreAI_ABTNode {
+    protected override onEnter(ctx: CoreAI_TickContext): void {
+        this.issue(ctx.player)
+        ctx.moveBlacklist.setTarget(null)
+    }
+
+    protected update(ctx: CoreAI_TickContext): CoreAI_BTStatus {
+        return 'running'
+    }
+
+    protected abstract issue(player: mod.Player): void
+}
+
+export class CoreAI_BTBattlefield extends CoreAI_ABTEngineBehavior {
+    override getLabel(): string | null {
+        return 'battlefield'
+    }
+
+    protected issue(player: mod.Player): void {
+        mod.AIBattlefieldBehavior(player)
+    }
+}
+
+export class CoreAI_BTIdle extends CoreAI_ABTEngineBehavior {
+    override getLabel(): string | null {
+        return 'idle'
+    }
+
+    protected issue(player: mod.Player): void {
+        mod.AIIdleBehavior(player)
+    }
+}
+
+export class CoreAI_BTPatrol extends CoreAI_ABTEngineBehavior {
+    constructor(private readonly waypointPath: number) {
+        super()
+    }
+
+    override getLabel(): string | null {
+        return 'patrol'
+    }
+
+    protected issue(player: mod.Player): void {
+        mod.AIWaypointIdleBehavior(
+            player,
+            mod.GetWaypointPath(this.waypointPath)
+        )
+    }
+}
+
+/**
+ * CoreAI_BTParachute:
+ * Deploys the parachute while in the air; succeeds once grounded.
+ */
+export class CoreAI_BTParachute extends CoreAI_ABTNode {
+    override getLabel(): string | null {
+        return 'parachute'
+    }
+
+    protected update(ctx: CoreAI_TickContext): CoreAI_BTStatus {
+        const player = ctx.player
+
+        if (!mod.GetSoldierState(player, mod.SoldierStateBool.IsInAir)) {
+            return 'success'
+        }
+
+        if (!mod.GetSoldierState(player, mod.SoldierStateBool.IsParachuting)) {
+            mod.AIParachuteBehavior(player)
+            ctx.moveBlacklist.setTarget(null)
+        }
+
+        return 'running'
+    }
+}
+
+/**
+ * CoreAI_BTEnterVehicle:
+ * Walks to a vehicle and takes a seat; succeeds once in a vehicle.
+ * Fails when the vehicle is gone, the seat is taken or the vehicle is
+ * on ctx.moveBlacklist.
+ */
+export class CoreAI_BTEnterVehicle extends CoreAI_ABTNode {
+    private moving = false
+
+    constructor(
+        private readonly vehicle:
+            | keyof CoreAI_MemoryFields
+            | ((ctx: CoreAI_TickContext) => mod.Vehicle | null),
+        private readonly seat: number = 0,
+        private readonly enterDistance: number = 3.0
+    ) {
+        super()
+    }
+
+    override getLabel(): string | null {
+        return 'moveto'
+    }
+
+    protected override onEnter(ctx: CoreAI_TickContext): void {
+        this.moving = false
+    }
+
+    protected update(ctx: CoreAI_TickContext): CoreAI_BTStatus {
+        const player = ctx.player
+
+        if (mod.GetSoldierState(player, mod.SoldierStateBool.IsInVehicle)) {
+            return 'success'
+        }
+
+        const vehicle =
+            typeof this.vehicle === 'function'
+                ? this.vehicle(ctx)
+                : (ctx.memory.get(this.vehicle) as mod.Vehicle | null)
+        if (!vehicle) return 'failure'
+
+        if (mod.IsVehicleSeatOccupied(vehicle, this.seat)) return 'failure'
+
+        const vPos = mod.GetVehicleState(
+            vehicle,
+            mod.VehicleStateVector.VehiclePosition
+        )
+
+        if (
+            mod.DistanceBetween(CoreAI_playerPos(player), vPos) <=
+            this.enterDistance
+        ) {
+            mod.ForcePlayerToSeat(player, vehicle, this.seat)
+            return 'running'
+        }
+
+        if (ctx.moveBlacklist.isBlacklisted(vPos, ctx.time)) return 'failure'
+
+        if (!this.moving) {
+            mod.AIMoveToBehavior(player, vPos)
+            ctx.moveBlacklist.setTarget(vPos)
+            this.moving = true
+        }
+
+        return 'running'
+    }
+}
+
+/**
+ * CoreAI_BTExitVehicle:
+ * Leaves the current vehicle; succeeds once on foot.
+ */
+export class CoreAI_BTExitVehicle extends CoreAI_ABTNode {
+    protected update(ctx: CoreAI_TickContext): CoreAI_BTStatus {
+        const player = ctx.player
+
+        if (!mod.GetSoldierState(player, mod.SoldierStateBool.IsInVehicle)) {
+            return 'success'
+        }
+
+        mod.ForcePlayerExitVehicle(player, mod.GetVehicleFromPlayer(player))
+        return 'running'
+    }
+}
+
+/**
+ * CoreAI_BTWait:
+ * Runs for durationMs, then succeeds.
+ */
+export class CoreAI_BTWait extends CoreAI_ABTNode {
+    private startedAt = 0
+
+    constructor(private readonly durationMs: number) {
+        super()
+    }
+
+    protected override onEnter(ctx: CoreAI_TickContext): void {
+        this.startedAt = ctx.time
+    }
+
+    protected update(ctx: CoreAI_TickContext): CoreAI_BTStatus {
+        return ctx.time - this.startedAt >= this.durationMs
+            ? 'success'
+            : 'running'
+    }
+}
@@ -0,0 +1,71 @@
+import { CoreAI_TickContext } from '../../TickContext'
+import { CoreAI_MemoryFields } from '../Memory/MemoryManager'
+import { CoreAI_ABTNode } from './BTNode'
+import { CoreAI_BTSelector } from './Composites'
+import { CoreAI_BTSequence } from './Composites'
+import { CoreAI_BTGuard } from './Decorators'
+import { CoreAI_BTHasMemory } from './Conditions'
+import { CoreAI_BTCondition } from './Conditions'
+import { CoreAI_BTBattlefield } from './Leaves'
+import { CoreAI_BTDefend } from './Leaves'
+import { CoreAI_BTEnterVehicle } from './Leaves'
+import { CoreAI_BTExitVehicle } from './Leaves'
+import { CoreAI_BTMoveTo } from './Leaves'
+
+/**
+ * CoreAI_driveAndDefendTree:
+ * "Enter vehicle, drive, dismount, defend", fighting whenever an enemy
+ * is known:
+ *   brain.setBehaviorController(
+ *       new CoreAI_BehaviorTree(CoreAI_driveAndDefendTree())
+ *   )
+ *
+ * - Both branches sit behind a CoreAI_BTGuard, so the fight pre-empts
+ *   the defend leaf and ends as soon as closestEnemy clears.
+ * - The vehicle is optional: without one the bot walks to the point.
+ * - The defend branch restarts from the first step after a fight, so a
+ *   bot that dismounted elsewhere gets back in.
+ * - CoreAI_EnterVehicleAction also seats the bot next to
+ *   memory.vehicleToDrive; pass a resolver as `vehicle` to keep the bot
+ *   on foot next to a vehicle at the point.
+ */
+export function CoreAI_driveAndDefendTree(
+    opts: {
+        point?: keyof CoreAI_MemoryFields
+        vehicle?:
+            | keyof CoreAI_MemoryFields
+            | ((ctx: CoreAI_TickContext) => mod.Vehicle | null)
+        enemy?: keyof CoreAI_MemoryFields
+        /** Distance (m) from the point where the bot dismounts */
+        dismountDistance?: number
+        defendMinDistance?: number
+        defendMaxDistance?: number
+    } = {}
+): CoreAI_ABTNode {
+    const point = opts.point ?? 'capturePoint'
+
+    return new CoreAI_BTSelector([
+        new CoreAI_BTGuard(
+            new CoreAI_BTHasMemory(opts.enemy ?? 'closestEnemy'),
+            new CoreAI_BTBattlefield()
+        ),
+        new CoreAI_BTGuard(
+            new CoreAI_BTHasMemory(point),
+            new CoreAI_BTSequence([
+                new CoreAI_BTSelector([
+                    new CoreAI_BTEnterVehicle(opts.vehicle ?? 'vehicleToDrive'),
+                    new CoreAI_BTCondition(() => true),
+                ]),
+                new CoreAI_BTMoveTo(point, {
+                    arriveDistance: opts.dismountDistance ?? 15,
+                }),
+                new CoreAI_BTExitVehicle(),
+                new CoreAI_BTDefend(
+                    point,
+                    opts.defendMinDistance ?? 5,
+                    opts.defendMaxDistance ?? 20
+                ),
+            ])
+        ),
+    ])
+}
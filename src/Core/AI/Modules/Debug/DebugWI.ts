@@ -2,9 +2,11 @@ import { CoreUI_Colors } from 'src/Core/UI/UIColors'
 import { CoreAI_Brain } from '../../Brain'
 import { CoreAI_MemoryFields } from '../Memory/MemoryManager'
 
-// @stringkeys core.ai.debug.brain.memory: closestEnemy {}, vehicleToDrive {}, isInBattle {}, roamPos {}, arrivedPos {}
+// @stringkeys core.ai.debug.brain.memory: closestEnemy {}, vehicleToDrive {}, isInBattle {}, roamPos {}, arrivedPos {}, capturePoint {}, mcomAttack {}, mcomDefend {}, mcomDefuse {}, lastAttacker {}, lastAttackerPos {}, searchPos {}, knownEnemies {}, investigatePos {}, lowHealth {}, criticalHealth {}, retreatPos {}
 
-// @stringkeys core.ai.debug.brain.behaviors: battlefield, defend, moveto, none
+// @stringkeys core.ai.debug.brain.behaviors: defend, moveto, battlefield, losmoveto, idle, patrol, parachute, search, none
+
+// @stringkeys core.ai.debug.brain: decision
 
 export interface CoreAI_IDebugWI {
     index: number
@@ -25,11 +27,17 @@ export class CoreAI_DebugWI {
         ['battlefield', mod.CreateVector(1, 0, 0)],
         ['defend', mod.CreateVector(1, 1, 0)],
         ['moveto', mod.CreateVector(0, 1, 1)],
+        ['losmoveto', mod.CreateVector(0, 0.5, 1)],
+        ['idle', mod.CreateVector(0.5, 0.5, 0.5)],
+        ['patrol', mod.CreateVector(0, 1, 0)],
+        ['parachute', mod.CreateVector(1, 0, 1)],
+        ['search', mod.CreateVector(1, 0.5, 0)],
         ['none', mod.CreateVector(1, 1, 1)],
     ])
 
     private roamPosWI: mod.WorldIcon
     private vehicleToDriveWI: mod.WorldIcon
+    private decisionWI: mod.WorldIcon
 
     private memoryWIs: Map<keyof CoreAI_MemoryFields, mod.WorldIcon> = new Map()
 
@@ -44,20 +52,7 @@ export class CoreAI_DebugWI {
         )
         mod.SetWorldIconOwner(this.behaviorWI, receiver)
 
-        let i = 1
-        for (const key of Object.keys(this.brain.memory.data) as Array<
-            keyof typeof this.brain.memory.data
-        >) {
-            const wi = mod.SpawnObject(
-                mod.RuntimeSpawn_Common.WorldIcon,
-                mod.CreateVector(0, 0, 0),
-                mod.CreateVector(0, 0, 0)
-            )
-            mod.SetWorldIconOwner(wi, receiver)
-
-            this.memoryWIs.set(key, wi)
-            i++
-        }
+        this.syncMemoryWIs()
 
         this.roamPosWI = mod.SpawnObject(
             mod.RuntimeSpawn_Common.WorldIcon,
@@ -78,9 +73,39 @@ export class CoreAI_DebugWI {
         mod.SetWorldIconImage(this.vehicleToDriveWI, mod.WorldIconImages.Assist)
         mod.EnableWorldIconImage(this.vehicleToDriveWI, true)
         mod.SetWorldIconColor(this.vehicleToDriveWI, mod.CreateVector(1, 1, 0))
+
+        this.decisionWI = mod.SpawnObject(
+            mod.RuntimeSpawn_Common.WorldIcon,
+            mod.CreateVector(0, 0, 0),
+            mod.CreateVector(0, 0, 0)
+        )
+        mod.SetWorldIconOwner(this.decisionWI, receiver)
+        mod.SetWorldIconColor(this.decisionWI, mod.CreateVector(0, 1, 0))
+    }
+
+    /**
+     * Spawn a memory icon for every known memory field that has none yet.
+     * Custom fields defined after construction show up on the next tick.
+     * Each field needs a `core.ai.debug.brain.memory.<key>` string.
+     */
+    private syncMemoryWIs(): void {
+        for (const key of this.brain.memory.keys()) {
+            if (this.memoryWIs.has(key)) continue
+
+            const wi = mod.SpawnObject(
+                mod.RuntimeSpawn_Common.WorldIcon,
+                mod.CreateVector(0, 0, 0),
+                mod.CreateVector(0, 0, 0)
+            )
+            mod.SetWorldIconOwner(wi, this.receiver)
+
+            this.memoryWIs.set(key, wi)
+        }
     }
 
     tick() {
+        this.syncMemoryWIs()
+
         const isValid =
             mod.IsPlayerValid(this.brain.player) &&
             mod.GetSoldierState(this.brain.player, mod.SoldierStateBool.IsAlive)
@@ -206,6 +231,32 @@ export class CoreAI_DebugWI {
             mod.EnableWorldIconImage(this.vehicleToDriveWI, false)
             mod.EnableWorldIconText(this.vehicleToDriveWI, false)
         }
+
+        /**
+         * Last decision (winner score and scored candidates at its target)
+         */
+        const decision = this.brain.getDecisionTrace().getLast()
+        if (isValid && decision?.target) {
+            const winner = decision.candidates.find(
+                (c) => c.key === decision.key
+            )
+            const scored = decision.candidates.filter(
+                (c) => c.skipped === undefined
+            ).length
+
+            mod.SetWorldIconPosition(this.decisionWI, decision.target)
+            mod.SetWorldIconText(
+                this.decisionWI,
+                mod.Message(
+                    'core.ai.debug.brain.decision',
+                    this.round2decimal(winner?.score ?? 0),
+                    scored
+                )
+            )
+            mod.EnableWorldIconText(this.decisionWI, true)
+        } else {
+            mod.EnableWorldIconText(this.decisionWI, false)
+        }
     }
 
     private round2decimal(num: number): number {
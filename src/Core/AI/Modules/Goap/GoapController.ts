@@ -0,0 +1,162 @@
+import { CoreAI_TickContext } from '../../TickContext'
+import { CoreAI_IBehaviorController } from '../Behavior/IBehaviorController'
+import { CoreAI_GoapAction } from './GoapPlanner'
+import { CoreAI_GoapFacts } from './GoapPlanner'
+import { CoreAI_GoapGoal } from './GoapPlanner'
+import { CoreAI_GoapState } from './GoapPlanner'
+import { CoreAI_goapSatisfies } from './GoapPlanner'
+import { CoreAI_planGoap } from './GoapPlanner'
+
+export interface CoreAI_GoapConfig {
+    facts: CoreAI_GoapFacts
+    actions: CoreAI_GoapAction[]
+    goals: CoreAI_GoapGoal[]
+
+    /** Planner expansion budget per replan (default 256) */
+    maxIterations?: number
+
+    /** Delay (ms) before retrying when no goal could be planned */
+    retryMs?: number
+}
+
+/**
+ * CoreAI_GoapController
+ *
+ * Goal-oriented planner, pluggable in place of CoreAI_BehaviorSelector
+ * (per profile via CoreAI_BaseSoldier.controller).
+ *
+ * Each tick:
+ * - Reads the world state from memory through the fact readers.
+ * - Picks the highest-priority goal that does not hold yet.
+ * - Replans when the goal changes, the plan ran out, a step failed or
+ *   the current step's preconditions no longer hold.
+ * - Ticks the current step's node; success advances the plan.
+ *
+ * Notes:
+ * - Build the config inside the profile's controller factory: action
+ *   nodes hold per-brain runtime state and must not be shared.
+ */
+export class CoreAI_GoapController implements CoreAI_IBehaviorController {
+    private goal: CoreAI_GoapGoal | null = null
+    private plan: CoreAI_GoapAction[] = []
+    private step = 0
+    private invalid = true
+    private retryAt = 0
+    private current: string | null = null
+
+    constructor(private readonly cfg: CoreAI_GoapConfig) {}
+
+    update(ctx: CoreAI_TickContext): void {
+        if (!mod.IsPlayerValid(ctx.player)) return
+
+        const state = this.readState(ctx)
+        const goal = this.pickGoal(ctx, state)
+
+        if (goal !== this.goal || this.needsReplan(state)) {
+            if (goal !== this.goal || ctx.time >= this.retryAt) {
+                this.replan(ctx, state, goal)
+            }
+        }
+
+        const action = this.plan[this.step]
+        if (!action) return
+
+        const status = action.node.tick(ctx)
+        this.current = action.node.getLabel() ?? this.current
+
+        if (status === 'success') {
+            this.step++
+        } else if (status === 'failure') {
+            this.invalid = true
+        }
+    }
+
+    getCurrent(): string | null {
+        return this.current
+    }
+
+    /**
+     * Active goal name (for debug/UI).
+     */
+    getGoal(): string | null {
+        return this.goal?.name ?? null
+    }
+
+    /**
+     * Remaining plan steps (for debug/UI).
+     */
+    getPlan(): string[] {
+        return this.plan.slice(this.step).map((a) => a.name)
+    }
+
+    private readState(ctx: CoreAI_TickContext): CoreAI_GoapState {
+        const state: CoreAI_GoapState = {}
+        for (const fact in this.cfg.facts) {
+            state[fact] = this.cfg.facts[fact](ctx)
+        }
+
+        return state
+    }
+
+    private pickGoal(
+        ctx: CoreAI_TickContext,
+        state: CoreAI_GoapState
+    ): CoreAI_GoapGoal | null {
+        let best: CoreAI_GoapGoal | null = null
+        let bestPriority = 0
+
+        for (const goal of this.cfg.goals) {
+            if (CoreAI_goapSatisfies(state, goal.conditions)) continue
+
+            const priority =
+                typeof goal.priority === 'function'
+                    ? goal.priority(ctx)
+                    : goal.priority
+            if (priority > bestPriority) {
+                bestPriority = priority
+                best = goal
+            }
+        }
+
+        return best
+    }
+
+    private needsReplan(state: CoreAI_GoapState): boolean {
+        if (this.invalid) return true
+
+        const action = this.plan[this.step]
+        if (!action) return true
+
+        return !CoreAI_goapSatisfies(state, action.preconditions)
+    }
+
+    private replan(
+        ctx: CoreAI_TickContext,
+        state: CoreAI_GoapState,
+        goal: CoreAI_GoapGoal | null
+    ): void {
+        this.plan[this.step]?.node.abort(ctx)
+
+        this.goal = goal
+        this.plan = []
+        this.step = 0
+        this.invalid = false
+
+        if (!goal) return
+
+        const plan = CoreAI_planGoap(
+            ctx,
+            state,
+            goal.conditions,
+            this.cfg.actions,
+            this.cfg.maxIterations
+        )
+
+        if (plan) {
+            this.plan = plan
+        } else {
+            this.invalid = true
+            this.retryAt = ctx.time + (this.cfg.retryMs ?? 1000)
+        }
+    }
+}
@@ -0,0 +1,42 @@
+import { CoreAI_TickContext } from '../../TickContext'
+import { CoreAI_MemoryFields } from '../Memory/MemoryManager'
+import { CoreAI_BTTarget } from '../BehaviorTree/BTNode'
+import { CoreAI_resolveBTTarget } from '../BehaviorTree/BTNode'
+
+type CoreAI_GoapFactReader = (ctx: CoreAI_TickContext) => boolean
+
+/**
+ * Common fact readers for CoreAI_GoapFacts.
+ *
+ * Example:
+ *   facts: {
+ *       hasVehicle: CoreAI_GoapFactReaders.inVehicle(),
+ *       enemyNear:  CoreAI_GoapFactReaders.memory('closestEnemy'),
+ *       atPos:      CoreAI_GoapFactReaders.near('capturePoint', 5),
+ *   }
+ */
+export const CoreAI_GoapFactReaders = {
+    /** Memory key is set */
+    memory:
+        (key: keyof CoreAI_MemoryFields): CoreAI_GoapFactReader =>
+        (ctx) =>
+            ctx.memory.has(key),
+
+    /** Bot sits in any vehicle */
+    inVehicle: (): CoreAI_GoapFactReader => (ctx) =>
+        mod.GetSoldierState(ctx.player, mod.SoldierStateBool.IsInVehicle),
+
+    /** Bot is within radius (m) of a target; false without target */
+    near:
+        (target: CoreAI_BTTarget, radius: number): CoreAI_GoapFactReader =>
+        (ctx) => {
+            const pos = CoreAI_resolveBTTarget(target, ctx)
+            if (!pos) return false
+
+            const myPos = mod.GetSoldierState(
+                ctx.player,
+                mod.SoldierStateVector.GetPosition
+            )
+            return mod.DistanceBetween(myPos, pos) <= radius
+        },
+}
@@ -0,0 +1,173 @@
+import { CoreAI_TickContext } from '../../TickContext'
+import { CoreAI_ABTNode } from '../BehaviorTree/BTNode'
+
+/**
+ * World state as named boolean facts (hasVehicle, atPos, enemyNear...).
+ * Missing facts count as false.
+ */
+export type CoreAI_GoapState = Record<string, boolean>
+
+/**
+ * Fact readers: derive each fact from memory / the player every tick.
+ */
+export type CoreAI_GoapFacts = Record<
+    string,
+    (ctx: CoreAI_TickContext) => boolean
+>
+
+/**
+ * Declarative planner action.
+ */
+export interface CoreAI_GoapAction {
+    name: string
+
+    /** Facts that must hold before the action can run */
+    preconditions: CoreAI_GoapState
+
+    /** Facts the action makes true/false when it succeeds */
+    effects: CoreAI_GoapState
+
+    /** Plan cost (default 1, must not be negative) */
+    cost?: number | ((ctx: CoreAI_TickContext) => number)
+
+    /** Procedural check at plan time (e.g. vehicle seat free) */
+    available?: (ctx: CoreAI_TickContext) => boolean
+
+    /**
+     * Executor: a behavior-tree node issuing engine behaviors.
+     * Step completes on success; failure forces a replan.
+     */
+    node: CoreAI_ABTNode
+}
+
+export interface CoreAI_GoapGoal {
+    name: string
+
+    /** Facts the goal wants to hold */
+    conditions: CoreAI_GoapState
+
+    /** Highest unsatisfied goal is planned for; <= 0 disables it */
+    priority: number | ((ctx: CoreAI_TickContext) => number)
+}
+
+interface CoreAI_GoapNode {
+    state: CoreAI_GoapState
+    actions: CoreAI_GoapAction[]
+    cost: number
+    estimate: number
+}
+
+/**
+ * True if every fact in conditions matches state.
+ */
+export function CoreAI_goapSatisfies(
+    state: CoreAI_GoapState,
+    conditions: CoreAI_GoapState
+): boolean {
+    for (const fact in conditions) {
+        if ((state[fact] ?? false) !== conditions[fact]) return false
+    }
+
+    return true
+}
+
+function CoreAI_goapUnsatisfied(
+    state: CoreAI_GoapState,
+    conditions: CoreAI_GoapState
+): number {
+    let n = 0
+    for (const fact in conditions) {
+        if ((state[fact] ?? false) !== conditions[fact]) n++
+    }
+
+    return n
+}
+
+function CoreAI_goapStateKey(state: CoreAI_GoapState): string {
+    return Object.keys(state)
+        .filter((fact) => state[fact])
+        .sort()
+        .join('|')
+}
+
+/**
+ * Cheapest action sequence turning start into a state satisfying goal
+ * (A* over fact states). Returns null if no plan is found within
+ * maxIterations expansions; an empty array if goal already holds.
+ *
+ * The estimate (unmet goal facts over the most effects of one action,
+ * times the cheapest action cost) never overestimates, so plans stay
+ * cheapest with fractional costs too. Costs must not be negative.
+ */
+export function CoreAI_planGoap(
+    ctx: CoreAI_TickContext,
+    start: CoreAI_GoapState,
+    goal: CoreAI_GoapState,
+    actions: CoreAI_GoapAction[],
+    maxIterations: number = 256
+): CoreAI_GoapAction[] | null {
+    const usable = actions.filter((a) => a.available?.(ctx) ?? true)
+    const costs = new Map<CoreAI_GoapAction, number>()
+    let minCost = Infinity
+    let maxEffects = 1
+    for (const a of usable) {
+        const cost = typeof a.cost === 'function' ? a.cost(ctx) : (a.cost ?? 1)
+        costs.set(a, cost)
+        minCost = Math.min(minCost, cost)
+        maxEffects = Math.max(maxEffects, Object.keys(a.effects).length)
+    }
+
+    const estimate = (state: CoreAI_GoapState): number => {
+        const unmet = CoreAI_goapUnsatisfied(state, goal)
+        if (unmet === 0) return 0
+
+        return Math.ceil(unmet / maxEffects) * minCost
+    }
+
+    const open: CoreAI_GoapNode[] = [
+        {
+            state: start,
+            actions: [],
+            cost: 0,
+            estimate: estimate(start),
+        },
+    ]
+    const closed = new Set<string>()
+
+    for (let i = 0; i < maxIterations && open.length > 0; i++) {
+        let best = 0
+        for (let j = 1; j < open.length; j++) {
+            if (
+                open[j].cost + open[j].estimate <
+                open[best].cost + open[best].estimate
+            ) {
+                best = j
+            }
+        }
+
+        const node = open.splice(best, 1)[0]
+        if (CoreAI_goapSatisfies(node.state, goal)) return node.actions
+
+        const key = CoreAI_goapStateKey(node.state)
+        if (closed.has(key)) continue
+        closed.add(key)
+
+        for (const action of usable) {
+            if (!CoreAI_goapSatisfies(node.state, action.preconditions)) {
+                continue
+            }
+
+            const state = { ...node.state, ...action.effects }
+            if (closed.has(CoreAI_goapStateKey(state))) continue
+
+            open.push({
+                state,
+                actions: [...node.actions, action],
+                cost: node.cost + (costs.get(action) ?? 1),
+                estimate: estimate(state),
+            })
+        }
+    }
+
+    return null
+}
@@ -0,0 +1,108 @@
+/**
+ * Last known state of one enemy.
+ */
+export interface CoreAI_EnemyTrack {
+    enemy: mod.Player
+    position: mod.Vector
+    velocity: mod.Vector
+
+    /** Brain clock time (ms) the enemy was last seen */
+    lastSeen: number
+}
+
+/**
+ * CoreAI_EnemyTracks
+ *
+ * Last-known-position store for spotted enemies.
+ *
+ * Responsibilities:
+ * - observe() refreshes an enemy's position, velocity and lastSeen.
+ * - Confidence is 1 while the enemy is seen and decays linearly to 0
+ *   over forgetMs; tracks at 0 or of dead enemies are pruned.
+ * - getLastKnownPosition() extrapolates along the last velocity
+ *   (capped at predictMs) to where the enemy probably went.
+ */
+export class CoreAI_EnemyTracks {
+    private tracks: Map<number, CoreAI_EnemyTrack> = new Map()
+
+    constructor(
+        private readonly forgetMs: number = 20_000,
+        private readonly predictMs: number = 2000
+    ) {}
+
+    observe(enemy: mod.Player, time: number): CoreAI_EnemyTrack {
+        const id = mod.GetObjId(enemy)
+
+        const track: CoreAI_EnemyTrack = {
+            enemy,
+            position: mod.GetObjectPosition(enemy),
+            velocity: mod.GetSoldierState(
+                enemy,
+                mod.SoldierStateVector.GetLinearVelocity
+            ),
+            lastSeen: time,
+        }
+        this.tracks.set(id, track)
+
+        return track
+    }
+
+    get(enemy: mod.Player): CoreAI_EnemyTrack | undefined {
+        return this.tracks.get(mod.GetObjId(enemy))
+    }
+
+    getAll(): CoreAI_EnemyTrack[] {
+        return [...this.tracks.values()]
+    }
+
+    /** 1 when just seen, 0 once forgotten */
+    getConfidence(track: CoreAI_EnemyTrack, time: number): number {
+        return Math.max(0, 1 - (time - track.lastSeen) / this.forgetMs)
+    }
+
+    getLastKnownPosition(track: CoreAI_EnemyTrack): mod.Vector {
+        return mod.Add(
+            track.position,
+            mod.Multiply(track.velocity, this.predictMs / 1000)
+        )
+    }
+
+    /**
+     * Most confident track not seen at `time`, or null.
+     */
+    getBestLost(
+        time: number,
+        minConfidence: number = 0
+    ): CoreAI_EnemyTrack | null {
+        let best: CoreAI_EnemyTrack | null = null
+        let bestConfidence = minConfidence
+
+        for (const track of this.tracks.values()) {
+            if (track.lastSeen >= time) continue
+
+            const confidence = this.getConfidence(track, time)
+            if (confidence > bestConfidence) {
+                bestConfidence = confidence
+                best = track
+            }
+        }
+
+        return best
+    }
+
+    prune(time: number): void {
+        for (const [id, track] of this.tracks) {
+            if (
+                this.getConfidence(track, time) <= 0 ||
+                !mod.IsPlayerValid(track.enemy) ||
+                !mod.GetSoldierState(track.enemy, mod.SoldierStateBool.IsAlive)
+            ) {
+                this.tracks.delete(id)
+            }
+        }
+    }
+
+    clear(): void {
+        this.tracks.clear()
+    }
+}
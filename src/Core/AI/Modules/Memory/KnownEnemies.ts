@@ -0,0 +1,27 @@
+/**
+ * One hostile the bot knows about (memory.knownEnemies entry).
+ */
+export interface CoreAI_KnownEnemy {
+    enemy: mod.Player
+    position: mod.Vector
+
+    /** Distance (m) from the bot when the list was built */
+    distance: number
+
+    /** Line of sight confirmed recently */
+    visible: boolean
+
+    inVehicle: boolean
+
+    /** Facing the bot (within the sensor's aim cone) */
+    aimingAtUs: boolean
+
+    /** Is the bot's current lastAttacker */
+    attacker: boolean
+
+    /** Danger regardless of distance (sum of the matching preferences) */
+    threat: number
+
+    /** Rank score; the list is sorted by it, best target first */
+    score: number
+}
@@ -1,37 +1,114 @@
+import { CoreAI_KnownEnemy } from './KnownEnemies'
+
 /**
  * CoreAI_MemoryManager:
  * Typed TTL-based memory storage for AI.
  *
  * Memory fields are strictly typed via CoreAI_MemoryFields.
  * TTL expiration handled internally via prune().
+ *
+ * Custom fields:
+ * - Declare the type by merging into CoreAI_MemoryFields
+ *   (in __SCRIPT.ts: `export interface CoreAI_MemoryFields { lowHealth: boolean }`).
+ * - Register the default with define(), or via CoreAI_BaseSoldier.memory.
+ * - Defined fields take part in TTL, prune(), clear() and reset() exactly
+ *   like the built-in ones, and are picked up by selector weights and DebugWI.
  */
 
-export type CoreAI_MemoryFields = {
+export interface CoreAI_MemoryFields {
     closestEnemy: mod.Player | null
     vehicleToDrive: mod.Vehicle | null
     isInBattle: boolean
     roamPos: mod.Vector | null // movement target
     arrivedPos: mod.Vector | null // semantic arrival
     capturePoint: mod.CapturePoint | null
+    mcomAttack: mod.MCOM | null // MCOM to arm
+    mcomDefend: mod.MCOM | null // MCOM to guard
+    mcomDefuse: mod.MCOM | null // armed MCOM to defuse
+    lastAttacker: mod.Player | null // who hurt us most recently
+    lastAttackerPos: mod.Vector | null // where they hit us from
+    searchPos: mod.Vector | null // where a lost enemy probably went
+    knownEnemies: CoreAI_KnownEnemy[] | null // ranked hostiles, best first
+    investigatePos: mod.Vector | null // heard gunfire / vehicle noise
+    lowHealth: boolean
+    criticalHealth: boolean
+    retreatPos: mod.Vector | null // where to fall back to while wounded
 }
 
-export class CoreAI_MemoryManager {
-    /** Unified tick timestamp updated by the Brain */
-    public time: number = 0
+export type CoreAI_MemoryDefaults = Partial<CoreAI_MemoryFields>
 
-    /** All memory values live here */
-    public data: CoreAI_MemoryFields = {
+export class CoreAI_MemoryManager {
+    /** Built-in fields and their reset values */
+    static readonly CORE_DEFAULTS: CoreAI_MemoryDefaults = {
         closestEnemy: null,
         vehicleToDrive: null,
         isInBattle: false,
         roamPos: null,
         arrivedPos: null,
         capturePoint: null,
+        mcomAttack: null,
+        mcomDefend: null,
+        mcomDefuse: null,
+        lastAttacker: null,
+        lastAttackerPos: null,
+        searchPos: null,
+        knownEnemies: null,
+        investigatePos: null,
+        lowHealth: false,
+        criticalHealth: false,
+        retreatPos: null,
+    }
+
+    /** Unified tick timestamp updated by the Brain */
+    public time: number = 0
+
+    /** Reset value per field (built-ins + defined custom fields) */
+    private defaults: CoreAI_MemoryDefaults = {
+        ...CoreAI_MemoryManager.CORE_DEFAULTS,
     }
 
+    /** All memory values live here */
+    public data: CoreAI_MemoryFields = {
+        ...this.defaults,
+    } as CoreAI_MemoryFields
+
     /** TTL expiration registry */
     private expirations: Map<keyof CoreAI_MemoryFields, number> = new Map()
 
+    /**
+     * Register a custom field with its default value.
+     * A field that already holds a value keeps it, so re-installing a
+     * profile does not wipe live memory.
+     */
+    public define<K extends keyof CoreAI_MemoryFields>(
+        key: K,
+        defaultValue: CoreAI_MemoryFields[K]
+    ): void {
+        this.defaults[key] = defaultValue
+
+        if (this.data[key] === undefined) {
+            this.data[key] = defaultValue
+        }
+    }
+
+    /**
+     * Register several custom fields at once.
+     */
+    public defineAll(defaults: CoreAI_MemoryDefaults): void {
+        for (const key of Object.keys(defaults) as Array<
+            keyof CoreAI_MemoryFields
+        >) {
+            this.define(key, defaults[key] as CoreAI_MemoryFields[typeof key])
+        }
+    }
+
+    /**
+     * All known field keys (built-in + defined).
+     */
+    public keys(): Array<keyof CoreAI_MemoryFields> {
+        return Object.keys(this.defaults) as Array<keyof CoreAI_MemoryFields>
+    }
+
     /**
      * Set a memory field with optional TTL.
      * TTL <= 0 or value null means no expiration.
@@ -69,10 +146,10 @@ export class CoreAI_MemoryManager {
     }
 
     /**
-     * Clear a memory field and remove expiration.
+     * Clear a memory field back to its default and remove expiration.
      */
     public clear<K extends keyof CoreAI_MemoryFields>(key: K): void {
-        this.data[key] = null as any
+        this.data[key] = this.defaultOf(key)
         this.expirations.delete(key)
     }
 
@@ -103,8 +180,7 @@ export class CoreAI_MemoryManager {
 
         for (const [key, exp] of this.expirations) {
             if (now >= exp) {
-                this.data[key] = null as any
-                this.expirations.delete(key)
+                this.clear(key)
             }
         }
     }
@@ -115,15 +191,31 @@ export class CoreAI_MemoryManager {
     public reset(): void {
         this.time = 0
 
-        this.data = {
-            closestEnemy: null,
-            vehicleToDrive: null,
-            isInBattle: false,
-            roamPos: null,
-            arrivedPos: null,
-            capturePoint: null,
-        }
+        this.data = { ...this.defaults } as CoreAI_MemoryFields
 
         this.expirations.clear()
     }
+
+    /**
+     * Count known enemies (memory.knownEnemies), optionally filtered.
+     */
+    public countEnemies(
+        filter?: (enemy: CoreAI_KnownEnemy) => boolean
+    ): number {
+        const enemies = this.data.knownEnemies ?? []
+        return filter ? enemies.filter(filter).length : enemies.length
+    }
+
+    /**
+     * Count known enemies within distance (m) of the bot.
+     */
+    public countEnemiesWithin(distance: number): number {
+        return this.countEnemies((e) => e.distance <= distance)
+    }
+
+    private defaultOf<K extends keyof CoreAI_MemoryFields>(
+        key: K
+    ): CoreAI_MemoryFields[K] {
+        return (this.defaults[key] ?? null) as CoreAI_MemoryFields[K]
+    }
 }
@@ -0,0 +1,93 @@
+interface CoreAI_MoveBlacklistEntry {
+    pos: mod.Vector
+    failures: number
+
+    /** Brain clock time (ms) the position becomes eligible again */
+    until: number
+}
+
+/**
+ * CoreAI_MoveBlacklist
+ *
+ * Per-brain memory of move targets the engine failed to reach
+ * (available to sensors and controllers as ctx.moveBlacklist).
+ *
+ * Responsibilities:
+ * - Remembers the target of the running move; controllers and commands
+ *   set it when they issue the move (setTarget).
+ * - OnAIMoveToFailed blacklists that target; OnAIMoveToSucceeded
+ *   clears it again.
+ * - Repeated failures near the same spot double the blacklist time,
+ *   up to maxMs; a position not failing for maxMs after its blacklist
+ *   ends is forgotten.
+ *
+ * Notes:
+ * - Positions within radius of a failed target count as the same target.
+ */
+export class CoreAI_MoveBlacklist {
+    private entries: CoreAI_MoveBlacklistEntry[] = []
+    private target: mod.Vector | null = null
+
+    constructor(
+        private readonly radius: number = 3,
+        private readonly baseMs: number = 15_000,
+        private readonly maxMs: number = 120_000
+    ) {}
+
+    /** Target of the move being issued (null when not moving) */
+    setTarget(pos: mod.Vector | null): void {
+        this.target = pos
+    }
+
+    getTarget(): mod.Vector | null {
+        return this.target
+    }
+
+    onFailed(time: number): void {
+        if (this.target) this.record(this.target, time)
+        this.target = null
+    }
+
+    onSucceeded(): void {
+        const target = this.target
+        if (target) {
+            this.entries = this.entries.filter((e) => !this.isNear(e, target))
+        }
+        this.target = null
+    }
+
+    /**
+     * Blacklist a position, doubling the time on repeated failures.
+     */
+    record(pos: mod.Vector, time: number): void {
+        let entry = this.entries.find((e) => this.isNear(e, pos))
+        if (!entry) {
+            entry = { pos, failures: 0, until: 0 }
+            this.entries.push(entry)
+        }
+
+        entry.failures++
+        entry.until =
+            time + Math.min(this.maxMs, this.baseMs * 2 ** (entry.failures - 1))
+    }
+
+    isBlacklisted(pos: mod.Vector, time: number): boolean {
+        return this.entries.some((e) => time < e.until && this.isNear(e, pos))
+    }
+
+    /**
+     * Forget positions whose blacklist ended more than maxMs ago.
+     */
+    prune(time: number): void {
+        this.entries = this.entries.filter((e) => time < e.until + this.maxMs)
+    }
+
+    clear(): void {
+        this.entries = []
+        this.target = null
+    }
+
+    private isNear(entry: CoreAI_MoveBlacklistEntry, pos: mod.Vector): boolean {
+        return mod.DistanceBetween(entry.pos, pos) <= this.radius
+    }
+}
@@ -1,3 +1,10 @@
+import { CoreAI_CapturePointPreferences } from './Sensors/CapturePointSensor'
+import { CoreAI_CapturePointScore } from './Sensors/CapturePointSensor'
+import { CoreAI_EnemyPreferences } from './Sensors/EnemyListSensor'
+import { CoreAI_EnemyScore } from './Sensors/EnemyListSensor'
+import { CoreAI_HearingRanges } from './Sensors/HearingSensor'
+import { CoreAI_HealthThresholds } from './Sensors/SelfStatusSensor'
+
 export interface CoreAI_BattleSensorOptions {
     intervalMs?: number
     ttlMs?: number
@@ -9,6 +16,73 @@ export interface CoreAI_ClosestEnemySensorOptions {
     ttlMs?: number
 }
 
+export interface CoreAI_VisionSensorOptions {
+    intervalMs?: number
+    ttlMs?: number
+    fovDeg?: number
+    nearDistance?: number
+    midDistance?: number
+    maxDistance?: number
+    detectionRate?: number
+    decayRate?: number
+    losMemoryMs?: number
+}
+
+export interface CoreAI_ThreatSensorOptions {
+    intervalMs?: number
+    ttlMs?: number
+    forgetMs?: number
+}
+
+export interface CoreAI_EnemyListSensorOptions {
+    intervalMs?: number
+    ttlMs?: number
+    maxDistance?: number
+    aimConeDeg?: number
+    losMemoryMs?: number
+
+    /** Override individual default threat rules */
+    preferences?: Partial<CoreAI_EnemyPreferences>
+
+    /** Replace the ranking with a custom score */
+    score?: CoreAI_EnemyScore
+}
+
+export interface CoreAI_EnemyTrackSensorOptions {
+    intervalMs?: number
+    forgetMs?: number
+    predictMs?: number
+    minConfidence?: number
+}
+
+export interface CoreAI_HearingSensorOptions {
+    intervalMs?: number
+    ttlMs?: number
+
+    /** Multiplies every hearing range (default 1) */
+    sensitivity?: number
+
+    /** Slower hostile vehicles make no noise (m/s) */
+    minVehicleSpeed?: number
+
+    /** Override individual default ranges (m) */
+    weaponRanges?: Partial<CoreAI_HearingRanges['weapons']>
+    vehicleRanges?: Partial<CoreAI_HearingRanges['vehicles']>
+}
+
+export interface CoreAI_SelfStatusSensorOptions {
+    intervalMs?: number
+
+    /** Override individual default health thresholds (0..1) */
+    thresholds?: Partial<CoreAI_HealthThresholds>
+
+    /** Extra places to fall back to (HQ, cover...) */
+    getRetreatPoints?: () => mod.Vector[]
+
+    /** Back-off distance (m) when no retreat point qualifies */
+    fallbackDistance?: number
+}
+
 export interface CoreAI_VehicleToDriveSensorOptions {
     intervalMs?: number
     radius?: number
@@ -35,13 +109,37 @@ export interface CoreAI_CapturePointSensorOptions {
     ttlMs?: number
 }
 
+export interface CoreAI_MCOMSensorOptions {
+    getMCOMs?: () => mod.MCOM[]
+
+    /** Attacking side of the Rush match (required with getMCOMs) */
+    isAttacker?: (player: mod.Player) => boolean
+    intervalMs?: number
+    ttlMs?: number
+}
+
+export interface CoreAI_CapturePointAwarenessOptions extends CoreAI_CapturePointSensorOptions {
+    /** Override individual default preference rules */
+    preferences?: Partial<CoreAI_CapturePointPreferences>
+
+    /** Replace the preference rules with a custom score */
+    score?: CoreAI_CapturePointScore
+}
+
 export interface CoreAI_SensorOptions {
     battleSensor?: CoreAI_BattleSensorOptions
     closestEnemySensor?: CoreAI_ClosestEnemySensorOptions
+    visionSensor?: CoreAI_VisionSensorOptions
+    threatSensor?: CoreAI_ThreatSensorOptions
+    enemyListSensor?: CoreAI_EnemyListSensorOptions
+    enemyTrackSensor?: CoreAI_EnemyTrackSensorOptions
+    hearingSensor?: CoreAI_HearingSensorOptions
+    selfStatusSensor?: CoreAI_SelfStatusSensorOptions
     vehicleToDriveSensor?: CoreAI_VehicleToDriveSensorOptions
     arrivalSensor?: CoreAI_ArrivalSensorOptions
     roamSensor?: CoreAI_MoveToSensorOptions
     onDriveMoveToSensor?: CoreAI_MoveToSensorOptions
-    capturePointSensor?: CoreAI_CapturePointSensorOptions
+    capturePointSensor?: CoreAI_CapturePointAwarenessOptions
     moveToCapturePointSensor?: CoreAI_CapturePointSensorOptions
+    mcomSensor?: CoreAI_MCOMSensorOptions
 }
@@ -0,0 +1,122 @@
+export type CoreAI_RayCastOutcome = 'hit' | 'miss' | 'timeout'
+
+export interface CoreAI_RayCastResult {
+    outcome: CoreAI_RayCastOutcome
+
+    /** Hit point and surface normal ('hit' only) */
+    point: mod.Vector | null
+    normal: mod.Vector | null
+
+    /** Brain clock time (ms) the result arrived */
+    time: number
+}
+
+export interface CoreAI_RayCastRequest {
+    start: mod.Vector
+    stop: mod.Vector
+
+    /** Caller data echoed back with the result (e.g. the enemy aimed at) */
+    target: unknown
+
+    issuedAt: number
+    onResult: (
+        result: CoreAI_RayCastResult,
+        request: CoreAI_RayCastRequest
+    ) => void
+}
+
+/**
+ * CoreAI_RayCastBroker
+ *
+ * Issues raycasts for one bot and routes the engine results back to
+ * the caller (available to sensors as ctx.rayCasts).
+ *
+ * Responsibilities:
+ * - Tracks in-flight requests in issue order.
+ * - Matches each OnRayCastHit/OnRayCastMissed of the bot to the oldest
+ *   in-flight request.
+ * - Times out requests the engine never answered.
+ *
+ * Notes:
+ * - Engine results carry no request id, so every RayCast of this bot
+ *   MUST go through the broker or the order breaks.
+ */
+export class CoreAI_RayCastBroker {
+    private inFlight: CoreAI_RayCastRequest[] = []
+
+    constructor(
+        private readonly player: mod.Player,
+        private readonly now: () => number,
+        private readonly timeoutMs: number = 1000
+    ) {}
+
+    cast(
+        start: mod.Vector,
+        stop: mod.Vector,
+        onResult: CoreAI_RayCastRequest['onResult'],
+        target: unknown = null
+    ): CoreAI_RayCastRequest {
+        const request: CoreAI_RayCastRequest = {
+            start,
+            stop,
+            target,
+            issuedAt: this.now(),
+            onResult,
+        }
+
+        this.inFlight.push(request)
+        mod.RayCast(this.player, start, stop)
+
+        return request
+    }
+
+    resolveHit(point: mod.Vector, normal: mod.Vector): void {
+        this.resolve('hit', point, normal)
+    }
+
+    resolveMiss(): void {
+        this.resolve('miss', null, null)
+    }
+
+    /**
+     * Drop requests older than timeoutMs, reporting 'timeout'.
+     */
+    expire(): void {
+        const time = this.now()
+
+        while (
+            this.inFlight.length > 0 &&
+            time - this.inFlight[0].issuedAt >= this.timeoutMs
+        ) {
+            const request = this.inFlight.shift()!
+            request.onResult(
+                { outcome: 'timeout', point: null, normal: null, time },
+                request
+            )
+        }
+    }
+
+    /**
+     * Forget in-flight requests without reporting (respawn / reset).
+     */
+    clear(): void {
+        this.inFlight = []
+    }
+
+    getInFlightCount(): number {
+        return this.inFlight.length
+    }
+
+    private resolve(
+        outcome: CoreAI_RayCastOutcome,
+        point: mod.Vector | null,
+        normal: mod.Vector | null
+    ): void {
+        this.expire()
+
+        const request = this.inFlight.shift()
+        if (!request) return
+
+        request.onResult({ outcome, point, normal, time: this.now() }, request)
+    }
+}
@@ -1,4 +1,5 @@
 import { CoreAI_TickContext } from '../../../TickContext'
+import { CoreAI_EngineEventHandlers } from '../../../EngineEvents'
 
 /**
  * ASensor:
@@ -13,7 +14,13 @@ import { CoreAI_TickContext } from '../../../TickContext'
  * - Sensors must always check player validity.
  * - Sensors do NOT store Brain internally.
  * - Sensors MUST use ctx.time, not Date.now().
+ * - Sensors MUST use ctx.random, not Math.random().
+ * - Sensors MUST cast rays through ctx.rayCasts, not mod.RayCast().
+ * - Engine events: override any CoreAI_EngineEventHandlers hook
+ *   (e.g. OnPlayerDamaged); the Brain calls it on every installed sensor.
  */
+export interface CoreAI_ASensor extends CoreAI_EngineEventHandlers {}
+
 export abstract class CoreAI_ASensor {
     private lastUpdate = 0
 
@@ -45,23 +52,6 @@ export abstract class CoreAI_ASensor {
      */
     protected abstract update(ctx: CoreAI_TickContext): void
 
-    /**
-     * Optional event hooks for sensors that react to game events.
-     * (BattleSensor overrides onDamaged)
-     */
-    OnPlayerDamaged?(
-        ctx: CoreAI_TickContext,
-        eventOtherPlayer: mod.Player,
-        eventDamageType: mod.DamageType,
-        eventWeaponUnlock: mod.WeaponUnlock
-    ): void {}
-
-    OnRayCastHit?(
-        ctx: CoreAI_TickContext,
-        eventPoint: mod.Vector,
-        eventNormal: mod.Vector
-    ): void {}
-
     reset(): void {
         this.lastUpdate = 0
     }
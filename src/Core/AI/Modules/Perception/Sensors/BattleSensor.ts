@@ -1,5 +1,6 @@
 import { CoreAI_ASensor } from './ASensor'
 import { CoreAI_TickContext } from '../../../TickContext'
+import { CoreAI_MemoryManager } from '../../Memory/MemoryManager'
 
 /**
  * BattleSensor:
@@ -9,7 +10,7 @@ import { CoreAI_TickContext } from '../../../TickContext'
  * - memory.isInBattle (TTL-based boolean)
  *
  * Notes:
- * - OnRayCastHit is used to confirm nearby enemy presence.
+ * - Raycast hits (via ctx.rayCasts) confirm nearby enemy presence.
  * - No POIs.
  * - No behaviors spawned.
  * - TaskSelector checks memory.isInBattle to understand combat state.
@@ -93,8 +94,6 @@ export class CoreAI_BattleSensor extends CoreAI_ASensor {
             return
         }
 
-        const myTeamId = mod.GetObjId(mod.GetTeam(player))
-
         const playerVehiclePos = mod.GetVehicleState(
             mod.GetVehicleFromPlayer(player),
             mod.VehicleStateVector.VehiclePosition
@@ -106,17 +105,7 @@ export class CoreAI_BattleSensor extends CoreAI_ASensor {
             mod.ZComponentOf(playerVehiclePos)
         )
 
-        const allPlayers = mod.AllPlayers()
-        const count = mod.CountOf(allPlayers)
-
-        for (let i = 0; i < count; i++) {
-            const p = mod.ValueInArray(allPlayers, i) as mod.Player
-            if (!mod.IsPlayerValid(p)) continue
-
-            if (mod.GetObjId(mod.GetTeam(p)) === myTeamId) continue
-
-            if (!mod.GetSoldierState(p, mod.SoldierStateBool.IsAlive)) continue
-
+        for (const p of ctx.teams.getEnemies(player)) {
             let targetPos = mod.GetSoldierState(
                 p,
                 mod.SoldierStateVector.EyePosition
@@ -143,7 +132,16 @@ export class CoreAI_BattleSensor extends CoreAI_ASensor {
                 mod.Multiply(dir, this.VEHICLE_OFFSET)
             )
 
-            mod.RayCast(player, startPos, targetPos)
+            const memory = ctx.memory
+            ctx.rayCasts.cast(
+                startPos,
+                targetPos,
+                (result) => {
+                    if (result.outcome !== 'hit' || !result.point) return
+                    this.onEnemyRayHit(memory, result.point, p)
+                },
+                p
+            )
 
             /**
              *
@@ -156,25 +154,21 @@ export class CoreAI_BattleSensor extends CoreAI_ASensor {
         }
     }
 
-    override OnRayCastHit?(
-        ctx: CoreAI_TickContext,
+    /**
+     * A ray cast toward an enemy hit something: in battle if it hit
+     * that enemy.
+     */
+    private onEnemyRayHit(
+        memory: CoreAI_MemoryManager,
         eventPoint: mod.Vector,
-        eventNormal: mod.Vector
+        enemy: mod.Player
     ): void {
-        const player = ctx.player
-        if (!mod.IsPlayerValid(player)) return
-
         /**
          *
          */
         /* mod.EnableWorldIconImage(this.hitWI, true)
         mod.SetWorldIconPosition(this.hitWI, eventPoint) */
 
-        const myTeamId = mod.GetObjId(mod.GetTeam(player))
-        const enemyTeamId = mod.GetTeam(myTeamId === 1 ? 2 : 1)
-
-        const enemy = mod.ClosestPlayerTo(eventPoint, enemyTeamId)
-
         if (!mod.IsPlayerValid(enemy)) return
 
         let enemyPos = mod.GetSoldierState(
@@ -207,7 +201,7 @@ export class CoreAI_BattleSensor extends CoreAI_ASensor {
 
         if (hitDist > maxHitDist) return
 
-        ctx.memory.set('isInBattle', true, this.ttlMs)
+        memory.set('isInBattle', true, this.ttlMs)
     }
 
     override OnPlayerDamaged?(
@@ -7,6 +7,7 @@ import { CoreAI_TickContext } from '../../../TickContext'
  * Purpose:
  * - Selects a movement target from a set of capture points.
  * - Chooses only capture points not owned by the player's team.
+ * - Skips capture points on ctx.moveBlacklist (recently unreachable).
  *
  * Behavior:
  * - Evaluates distance to all valid capture points.
@@ -53,8 +54,6 @@ export class CoreAI_CapturePointMoveToSensor extends CoreAI_ASensor {
 
         const playerPos = mod.GetObjectPosition(player)
 
-        const playerTeamId = mod.GetObjId(mod.GetTeam(player))
-
         // store up to two closest
         let closest: { pos: mod.Vector; dist: number } | null = null
         let secondClosest: { pos: mod.Vector; dist: number } | null = null
@@ -62,12 +61,18 @@ export class CoreAI_CapturePointMoveToSensor extends CoreAI_ASensor {
         for (const cp of capturePoints) {
             const owner = mod.GetCurrentOwnerTeam(cp)
 
-            // exclude CPs already owned by player team
-            if (mod.GetObjId(owner) === playerTeamId) {
+            // exclude CPs already owned by a friendly team
+            if (ctx.teams.isFriendlyTeam(player, mod.GetObjId(owner))) {
                 continue
             }
 
             const cpPos = mod.GetObjectPosition(cp)
+
+            // exclude CPs the engine recently failed to reach
+            if (ctx.moveBlacklist.isBlacklisted(cpPos, ctx.time)) {
+                continue
+            }
+
             const dist = mod.DistanceBetween(playerPos, cpPos)
 
             if (!closest || dist < closest.dist) {
@@ -94,11 +99,8 @@ export class CoreAI_CapturePointMoveToSensor extends CoreAI_ASensor {
 
         ctx.memory.set(
             'roamPos',
-            Math.random() < 1 ? closest.pos : secondClosest.pos,
+            ctx.random.next() < 1 ? closest.pos : secondClosest.pos,
             this.ttlMs
         )
     }
 }
-
-
-
@@ -1,72 +1,257 @@
 import { CoreAI_ASensor } from './ASensor'
 import { CoreAI_TickContext } from '../../../TickContext'
+import { CoreAI_TeamRelation } from '../../../TeamRelations'
 
 /**
- * VehicleToDriveSensor:
- * Finds the closest vehicle with a free driver seat within radius.
+ * Snapshot of one capture point, relative to the sensing bot.
+ */
+export interface CoreAI_CapturePointState {
+    point: mod.CapturePoint
+    position: mod.Vector
+    distance: number
+
+    /** Owner team id (0 = neutral) */
+    ownerTeam: number
+
+    /** Team currently capturing (0 = none) */
+    progressTeam: number
+
+    /** GetCaptureProgress (0..1) */
+    progress: number
+
+    friendliesOnPoint: number
+    enemiesOnPoint: number
+
+    /** Relation of the owner team to the bot */
+    owner: CoreAI_TeamRelation
+
+    /** Friendly point an enemy is capturing */
+    beingLost: boolean
+
+    /** Friendlies and enemies on the point at once */
+    contested: boolean
+}
+
+/**
+ * Base scores per point category, scaled down by distance.
+ * A score of 0 or less never selects the point.
+ */
+export interface CoreAI_CapturePointPreferences {
+    beingLost: number
+    neutral: number
+    enemyHeld: number
+    friendlyHeld: number
+
+    /** Added to enemy-held points with at most weakDefenders enemies on them */
+    weaklyDefended: number
+    weakDefenders: number
+
+    /** Added to contested points */
+    contested: number
+
+    /** Distance (m) at which the score is halved */
+    distanceFalloff: number
+
+    /** Points further than this are ignored */
+    maxDistance: number
+}
+
+export type CoreAI_CapturePointScore = (
+    state: CoreAI_CapturePointState,
+    ctx: CoreAI_TickContext
+) => number
+
+export const CoreAI_DEFAULT_CAPTURE_POINT_PREFERENCES: CoreAI_CapturePointPreferences =
+    {
+        beingLost: 100,
+        neutral: 60,
+        enemyHeld: 40,
+        friendlyHeld: 0,
+        weaklyDefended: 30,
+        weakDefenders: 1,
+        contested: 10,
+        distanceFalloff: 50,
+        maxDistance: Infinity,
+    }
+
+/**
+ * CapturePointSensor:
+ * Tracks ownership, capture progress and presence on every capture point
+ * and picks the most relevant one.
  *
  * Writes:
- * - memory.vehicleToDrive
+ * - memory.capturePoint (highest scoring point, null if none scores > 0)
+ *
+ * Scoring (default rules):
+ * - Friendly point being lost > neutral point > enemy-held point,
+ *   with a bonus for weakly defended enemy points and contested points.
+ * - Scores are divided by (1 + distance / distanceFalloff), so nearby
+ *   points win among equals.
+ * - Pass `score` to replace the rules entirely.
+ *
+ * Notes:
+ * - Enemy/friendly is decided by ctx.teams; team 0 means "no team".
+ * - Per-point state is available through getStates() (debug/custom).
  */
 export class CoreAI_CapturePointSensor extends CoreAI_ASensor {
+    private readonly preferences: CoreAI_CapturePointPreferences
+    private states: CoreAI_CapturePointState[] = []
+
     constructor(
-        // private readonly radius: number = 30,
         intervalMs: number = 1000,
-        private readonly ttlMs: number = 3000
+        private readonly ttlMs: number = 3000,
+        preferences: Partial<CoreAI_CapturePointPreferences> = {},
+        private readonly score: CoreAI_CapturePointScore | null = null,
+        private readonly getCapturePoints:
+            (() => mod.CapturePoint[]) | null = null
     ) {
         super(intervalMs)
+
+        this.preferences = {
+            ...CoreAI_DEFAULT_CAPTURE_POINT_PREFERENCES,
+            ...preferences,
+        }
     }
 
     protected update(ctx: CoreAI_TickContext): void {
         const player = ctx.player
         if (!mod.IsPlayerValid(player)) return
 
+        const myPos = mod.GetObjectPosition(player)
+
+        this.states = []
+
+        let best: mod.CapturePoint | null = null
+        let bestScore = 0
+
+        for (const cp of this.collectCapturePoints()) {
+            const state = this.readState(ctx, cp, myPos)
+            this.states.push(state)
+
+            if (state.distance > this.preferences.maxDistance) continue
+
+            const score = this.score
+                ? this.score(state, ctx)
+                : this.scoreState(state)
+
+            if (score > bestScore) {
+                bestScore = score
+                best = cp
+            }
+        }
+
+        if (best) {
+            ctx.memory.set('capturePoint', best, this.ttlMs)
+        } else {
+            ctx.memory.set('capturePoint', null)
+        }
+    }
+
+    /**
+     * Capture point states from the last update.
+     */
+    getStates(): readonly CoreAI_CapturePointState[] {
+        return this.states
+    }
+
+    override reset(): void {
+        super.reset()
+        this.states = []
+    }
+
+    private collectCapturePoints(): mod.CapturePoint[] {
+        if (this.getCapturePoints) return this.getCapturePoints()
+
+        const out: mod.CapturePoint[] = []
+
         const capturePoints = mod.AllCapturePoints()
         const count = mod.CountOf(capturePoints)
 
-        let closest: mod.CapturePoint | null = null
-        let closestDist = Infinity
+        for (let i = 0; i < count; i++) {
+            out.push(mod.ValueInArray(capturePoints, i) as mod.CapturePoint)
+        }
+
+        return out
+    }
+
+    private readState(
+        ctx: CoreAI_TickContext,
+        cp: mod.CapturePoint,
+        myPos: mod.Vector
+    ): CoreAI_CapturePointState {
+        const position = mod.GetObjectPosition(cp)
+        const ownerTeam = mod.GetObjId(mod.GetCurrentOwnerTeam(cp))
+        const progressTeam = mod.GetObjId(mod.GetOwnerProgressTeam(cp))
+
+        let friendliesOnPoint = 0
+        let enemiesOnPoint = 0
+
+        const onPoint = mod.GetPlayersOnPoint(cp)
+        const count = mod.CountOf(onPoint)
 
         for (let i = 0; i < count; i++) {
-            const cp = mod.ValueInArray(capturePoints, i) as mod.CapturePoint
-
-            // console.log(mod.GetObjId(cp))
-            // console.log(mod.GetCapturePoint(mod.GetObjId(cp)))
-
-            /* const pos = mod.GetObjectPosition(cp)
-            console.log(
-                mod.XComponentOf(pos),
-                ' ',
-                mod.YComponentOf(pos),
-                ' ',
-                mod.ZComponentOf(pos),
-                ' '
-            ) */
-
-            /* if (mod.IsVehicleSeatOccupied(v, 0)) {
-                continue
-            }
+            const p = mod.ValueInArray(onPoint, i) as mod.Player
+            if (!mod.IsPlayerValid(p)) continue
+            if (!mod.GetSoldierState(p, mod.SoldierStateBool.IsAlive)) continue
 
-            const vPos = mod.GetVehicleState(
-                v,
-                mod.VehicleStateVector.VehiclePosition
-            )
-            const dist = mod.DistanceBetween(myPos, vPos)
-            if (dist > this.radius) continue
-
-            if (dist < closestDist) {
-                closestDist = dist
-                closest = v
-            } */
+            const relation = ctx.teams.getRelation(ctx.player, p)
+            if (relation === 'friendly') friendliesOnPoint++
+            else if (relation === 'hostile') enemiesOnPoint++
         }
 
-        if (closest) {
-            ctx.memory.set('capturePoint', closest, this.ttlMs)
-        } else {
-            ctx.memory.set('capturePoint', null)
+        const owner = this.teamRelation(ctx, ownerTeam)
+
+        return {
+            point: cp,
+            position,
+            distance: mod.DistanceBetween(myPos, position),
+            ownerTeam,
+            progressTeam,
+            progress: mod.GetCaptureProgress(cp),
+            friendliesOnPoint,
+            enemiesOnPoint,
+            owner,
+            beingLost:
+                owner === 'friendly' &&
+                (this.teamRelation(ctx, progressTeam) === 'hostile' ||
+                    enemiesOnPoint > friendliesOnPoint),
+            contested: friendliesOnPoint > 0 && enemiesOnPoint > 0,
         }
     }
-}
 
+    private teamRelation(
+        ctx: CoreAI_TickContext,
+        teamId: number
+    ): CoreAI_TeamRelation {
+        if (teamId === 0) return 'neutral'
+
+        return ctx.teams.getTeamRelation(
+            mod.GetObjId(mod.GetTeam(ctx.player)),
+            teamId
+        )
+    }
 
+    private scoreState(state: CoreAI_CapturePointState): number {
+        const prefs = this.preferences
 
+        let score: number
+        if (state.beingLost) {
+            score = prefs.beingLost
+        } else if (state.owner === 'neutral') {
+            score = prefs.neutral
+        } else if (state.owner === 'hostile') {
+            score = prefs.enemyHeld
+            if (state.enemiesOnPoint <= prefs.weakDefenders) {
+                score += prefs.weaklyDefended
+            }
+        } else {
+            score = prefs.friendlyHeld
+        }
+
+        if (score <= 0) return 0
+
+        if (state.contested) score += prefs.contested
+
+        return score / (1 + state.distance / prefs.distanceFalloff)
+    }
+}
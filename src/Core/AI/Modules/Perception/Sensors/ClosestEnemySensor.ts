@@ -29,14 +29,9 @@ export class CoreAI_ClosestEnemySensor extends CoreAI_ASensor {
 
         const myPos = mod.GetObjectPosition(player)
 
-        // Determine enemy team
-        const myTeam = mod.GetObjId(mod.GetTeam(player))
-        const enemyTeamId = myTeam === 1 ? 2 : 1
-        const enemyTeamObj = mod.GetTeam(enemyTeamId)
-
-        // Find closest visible enemy
-        const newEnemy = mod.ClosestPlayerTo(myPos, enemyTeamObj)
-        if (!mod.IsPlayerValid(newEnemy)) {
+        // Find closest enemy (any hostile team)
+        const newEnemy = ctx.teams.getClosestEnemy(player, myPos)
+        if (!newEnemy) {
             // Clear enemy memory (TTL = immediate)
             ctx.memory.set('closestEnemy', null)
             return
@@ -52,12 +47,9 @@ export class CoreAI_ClosestEnemySensor extends CoreAI_ASensor {
 
         const dist = mod.DistanceBetween(myPos, enemyPos)
         const prob = Math.exp(-0.12 * dist * (1.0 / this.sensitivity))
-        if (Math.random() > prob) return
+        if (ctx.random.next() > prob) return
 
         // Write memory with TTL
         ctx.memory.set('closestEnemy', newEnemy, this.ttlMs)
     }
 }
-
-
-
@@ -0,0 +1,223 @@
+import { CoreAI_ASensor } from './ASensor'
+import { CoreAI_TickContext } from '../../../TickContext'
+import { CoreAI_KnownEnemy } from '../../Memory/KnownEnemies'
+
+/**
+ * Threat rules used by the default enemy ranking.
+ * Matching rules add up to CoreAI_KnownEnemy.threat.
+ */
+export interface CoreAI_EnemyPreferences {
+    /** Every known enemy */
+    base: number
+
+    /** Enemy is the bot's lastAttacker */
+    attacker: number
+
+    /** Enemy faces the bot */
+    aimingAtUs: number
+
+    /** Enemy is in a vehicle */
+    inVehicle: number
+
+    /** Line of sight to the enemy */
+    visible: number
+
+    /** Distance (m) at which the score is halved */
+    distanceFalloff: number
+}
+
+export type CoreAI_EnemyScore = (
+    enemy: CoreAI_KnownEnemy,
+    ctx: CoreAI_TickContext
+) => number
+
+export const CoreAI_DEFAULT_ENEMY_PREFERENCES: CoreAI_EnemyPreferences = {
+    base: 10,
+    attacker: 50,
+    aimingAtUs: 30,
+    inVehicle: 20,
+    visible: 40,
+    distanceFalloff: 30,
+}
+
+/**
+ * EnemyListSensor:
+ * Keeps a ranked list of the hostiles around the bot.
+ *
+ * Writes:
+ * - memory.knownEnemies (enemies within maxDistance, best target first;
+ *   null when there are none)
+ *
+ * Ranking (default rules):
+ * - threat = base + attacker + aimingAtUs + inVehicle + visible
+ *   (matching preferences only).
+ * - score = threat / (1 + distance / distanceFalloff).
+ * - Pass `score` to replace the ranking entirely.
+ *
+ * Notes:
+ * - Visibility is confirmed with one ray per enemy (ctx.rayCasts) and
+ *   holds for losMemoryMs, so it lags one update behind.
+ * - Enemies are chosen through ctx.teams.
+ * - Query counts with ctx.memory.countEnemies()/countEnemiesWithin().
+ * - CoreAI_TargetPolicies pick the aim target from this list.
+ */
+export class CoreAI_EnemyListSensor extends CoreAI_ASensor {
+    private static readonly HIT_TOLERANCE = 0.6
+    private static readonly RAY_OVERSHOOT = 0.5
+
+    private readonly preferences: CoreAI_EnemyPreferences
+    private lastSeen: Map<number, number> = new Map()
+
+    constructor(
+        intervalMs: number = 500,
+        private readonly ttlMs: number = 2000,
+        private readonly maxDistance: number = 150,
+        private readonly aimConeDeg: number = 10,
+        private readonly losMemoryMs: number = 1000,
+        preferences: Partial<CoreAI_EnemyPreferences> = {},
+        private readonly score: CoreAI_EnemyScore | null = null
+    ) {
+        super(intervalMs)
+        this.preferences = {
+            ...CoreAI_DEFAULT_ENEMY_PREFERENCES,
+            ...preferences,
+        }
+    }
+
+    protected update(ctx: CoreAI_TickContext): void {
+        const player = ctx.player
+        if (!mod.IsPlayerValid(player)) return
+
+        const eye = mod.GetSoldierState(
+            player,
+            mod.SoldierStateVector.EyePosition
+        )
+        const attacker = ctx.memory.get('lastAttacker')
+        const present = new Set<number>()
+        const enemies: CoreAI_KnownEnemy[] = []
+
+        for (const p of ctx.teams.getEnemies(player)) {
+            const enemyEye = mod.GetSoldierState(
+                p,
+                mod.SoldierStateVector.EyePosition
+            )
+
+            const distance = mod.DistanceBetween(eye, enemyEye)
+            if (distance > this.maxDistance) continue
+
+            const id = mod.GetObjId(p)
+            present.add(id)
+            this.castLineOfSight(ctx, eye, enemyEye, p, id)
+
+            const known: CoreAI_KnownEnemy = {
+                enemy: p,
+                position: mod.GetObjectPosition(p),
+                distance,
+                visible:
+                    ctx.time - (this.lastSeen.get(id) ?? -Infinity) <=
+                    this.losMemoryMs,
+                inVehicle: mod.GetSoldierState(
+                    p,
+                    mod.SoldierStateBool.IsInVehicle
+                ),
+                aimingAtUs: this.isAimingAt(p, enemyEye, eye),
+                attacker:
+                    attacker !== undefined &&
+                    attacker !== null &&
+                    mod.GetObjId(attacker) === id,
+                threat: 0,
+                score: 0,
+            }
+            known.threat = this.getThreat(known)
+            known.score = this.score
+                ? this.score(known, ctx)
+                : this.getDefaultScore(known)
+
+            enemies.push(known)
+        }
+
+        for (const id of this.lastSeen.keys()) {
+            if (!present.has(id)) this.lastSeen.delete(id)
+        }
+
+        if (enemies.length === 0) {
+            ctx.memory.set('knownEnemies', null)
+            return
+        }
+
+        enemies.sort((a, b) => b.score - a.score)
+        ctx.memory.set('knownEnemies', enemies, this.ttlMs)
+    }
+
+    override reset(): void {
+        super.reset()
+        this.lastSeen.clear()
+    }
+
+    private castLineOfSight(
+        ctx: CoreAI_TickContext,
+        eye: mod.Vector,
+        enemyEye: mod.Vector,
+        enemy: mod.Player,
+        id: number
+    ): void {
+        // Ray slightly past the eye so it intersects the enemy.
+        const dir = mod.DirectionTowards(eye, enemyEye)
+
+        ctx.rayCasts.cast(
+            eye,
+            mod.Add(
+                enemyEye,
+                mod.Multiply(dir, CoreAI_EnemyListSensor.RAY_OVERSHOOT)
+            ),
+            (result) => {
+                if (
+                    result.outcome === 'miss' ||
+                    (result.outcome === 'hit' &&
+                        result.point &&
+                        mod.DistanceBetween(result.point, enemyEye) <=
+                            CoreAI_EnemyListSensor.HIT_TOLERANCE)
+                ) {
+                    this.lastSeen.set(id, result.time)
+                }
+            },
+            enemy
+        )
+    }
+
+    private isAimingAt(
+        enemy: mod.Player,
+        enemyEye: mod.Vector,
+        eye: mod.Vector
+    ): boolean {
+        const facing = mod.GetSoldierState(
+            enemy,
+            mod.SoldierStateVector.GetFacingDirection
+        )
+        const angle = mod.AngleBetweenVectors(
+            facing,
+            mod.DirectionTowards(enemyEye, eye)
+        )
+
+        return angle <= this.aimConeDeg
+    }
+
+    private getThreat(enemy: CoreAI_KnownEnemy): number {
+        const prefs = this.preferences
+
+        let threat = prefs.base
+        if (enemy.attacker) threat += prefs.attacker
+        if (enemy.aimingAtUs) threat += prefs.aimingAtUs
+        if (enemy.inVehicle) threat += prefs.inVehicle
+        if (enemy.visible) threat += prefs.visible
+
+        return threat
+    }
+
+    private getDefaultScore(enemy: CoreAI_KnownEnemy): number {
+        return (
+            enemy.threat /
+            (1 + enemy.distance / this.preferences.distanceFalloff)
+        )
+    }
+}
@@ -0,0 +1,75 @@
+import { CoreAI_ASensor } from './ASensor'
+import { CoreAI_TickContext } from '../../../TickContext'
+import { CoreAI_EnemyTracks } from '../../Memory/EnemyTracks'
+
+/**
+ * EnemyTrackSensor:
+ * Keeps last known positions of enemies the bot sees and points the
+ * bot at where a lost enemy probably went.
+ *
+ * Reads:
+ * - memory.knownEnemies entries with visible set (EnemyListSensor)
+ *
+ * Writes:
+ * - memory.searchPos (last known position of the most confident lost
+ *   enemy; null while an enemy is known or once confidence drops
+ *   below minConfidence)
+ *
+ * Notes:
+ * - Only enemies in sight right now are tracked: memory-held enemies
+ *   (closestEnemy, lastAttacker) would leak their true position.
+ * - Bind searchPos to the 'search' behavior (default binding) to move
+ *   there and sweep around before giving up.
+ * - Tracks are available through getTracks() (debug/custom).
+ */
+export class CoreAI_EnemyTrackSensor extends CoreAI_ASensor {
+    private readonly tracks: CoreAI_EnemyTracks
+
+    constructor(
+        intervalMs: number = 500,
+        forgetMs: number = 20_000,
+        predictMs: number = 2000,
+        private readonly minConfidence: number = 0.25
+    ) {
+        super(intervalMs)
+        this.tracks = new CoreAI_EnemyTracks(forgetMs, predictMs)
+    }
+
+    protected update(ctx: CoreAI_TickContext): void {
+        const player = ctx.player
+        if (!mod.IsPlayerValid(player)) return
+
+        let seen = false
+        for (const known of ctx.memory.get('knownEnemies') ?? []) {
+            const enemy = known.enemy
+            if (!known.visible || !mod.IsPlayerValid(enemy)) continue
+            if (!mod.GetSoldierState(enemy, mod.SoldierStateBool.IsAlive)) {
+                continue
+            }
+
+            this.tracks.observe(enemy, ctx.time)
+            seen = true
+        }
+
+        this.tracks.prune(ctx.time)
+
+        const lost = seen
+            ? null
+            : this.tracks.getBestLost(ctx.time, this.minConfidence)
+        if (!lost) {
+            ctx.memory.set('searchPos', null)
+            return
+        }
+
+        ctx.memory.set('searchPos', this.tracks.getLastKnownPosition(lost))
+    }
+
+    getTracks(): CoreAI_EnemyTracks {
+        return this.tracks
+    }
+
+    override reset(): void {
+        super.reset()
+        this.tracks.clear()
+    }
+}
@@ -0,0 +1,344 @@
+import { CoreAI_ASensor } from './ASensor'
+import { CoreAI_TickContext } from '../../../TickContext'
+
+export type CoreAI_WeaponClass =
+    | 'sniper'
+    | 'dmr'
+    | 'lmg'
+    | 'rifle'
+    | 'carbine'
+    | 'shotgun'
+    | 'smg'
+    | 'sidearm'
+    | 'other'
+
+export type CoreAI_VehicleClass = 'jet' | 'heli' | 'armor' | 'light' | 'other'
+
+/**
+ * Distance (m) at which a noise fades out, per source class.
+ */
+export interface CoreAI_HearingRanges {
+    weapons: Record<CoreAI_WeaponClass, number>
+    vehicles: Record<CoreAI_VehicleClass, number>
+}
+
+export const CoreAI_DEFAULT_HEARING_RANGES: CoreAI_HearingRanges = {
+    weapons: {
+        sniper: 150,
+        dmr: 120,
+        lmg: 110,
+        rifle: 100,
+        carbine: 90,
+        shotgun: 90,
+        smg: 70,
+        sidearm: 50,
+        other: 80,
+    },
+    vehicles: {
+        jet: 300,
+        heli: 200,
+        armor: 120,
+        light: 60,
+        other: 80,
+    },
+}
+
+/**
+ * HearingSensor:
+ * Hears gunfire and moving vehicles the bot cannot see.
+ *
+ * Writes:
+ * - memory.investigatePos (position of the loudest noise heard)
+ *
+ * Sources (polled every update):
+ * - Any other living player that is firing (IsFiring). Friendly
+ *   gunfire counts too: it means a fight nearby.
+ * - Hostile vehicles moving faster than minVehicleSpeed (heard once
+ *   per vehicle, from the driver).
+ *
+ * Attenuation:
+ * - loudness = 1 - distance / (range * sensitivity); sources at or
+ *   past their range are not heard.
+ * - range comes from the weapon class (active inventory slot and
+ *   HasEquipment) or the vehicle class (CompareVehicleName).
+ *
+ * Notes:
+ * - Bind investigatePos to a move (default: losmoveto, stop once the
+ *   spot is in sight).
+ * - Memory is left to expire (ttlMs) when nothing is heard.
+ */
+export class CoreAI_HearingSensor extends CoreAI_ASensor {
+    private static weaponClasses: Array<
+        [mod.Weapons, CoreAI_WeaponClass]
+    > | null = null
+    private static vehicleClasses: Array<
+        [mod.VehicleList, CoreAI_VehicleClass]
+    > | null = null
+
+    private readonly ranges: CoreAI_HearingRanges
+
+    constructor(
+        intervalMs: number = 500,
+        private readonly ttlMs: number = 6000,
+        private readonly sensitivity: number = 1,
+        private readonly minVehicleSpeed: number = 3,
+        ranges: {
+            weapons?: Partial<CoreAI_HearingRanges['weapons']>
+            vehicles?: Partial<CoreAI_HearingRanges['vehicles']>
+        } = {}
+    ) {
+        super(intervalMs)
+        this.ranges = {
+            weapons: {
+                ...CoreAI_DEFAULT_HEARING_RANGES.weapons,
+                ...ranges.weapons,
+            },
+            vehicles: {
+                ...CoreAI_DEFAULT_HEARING_RANGES.vehicles,
+                ...ranges.vehicles,
+            },
+        }
+    }
+
+    protected update(ctx: CoreAI_TickContext): void {
+        const player = ctx.player
+        if (!mod.IsPlayerValid(player)) return
+
+        const myPos = mod.GetObjectPosition(player)
+        const myId = mod.GetObjId(player)
+
+        let bestPos: mod.Vector | null = null
+        let bestLoudness = 0
+
+        const hear = (pos: mod.Vector, range: number): void => {
+            const loudness =
+                1 - mod.DistanceBetween(myPos, pos) / (range * this.sensitivity)
+            if (loudness > bestLoudness) {
+                bestLoudness = loudness
+                bestPos = pos
+            }
+        }
+
+        for (const other of [
+            ...ctx.teams.getPlayers(player, 'hostile'),
+            ...ctx.teams.getPlayers(player, 'friendly'),
+        ]) {
+            if (mod.GetObjId(other) === myId) continue
+
+            if (mod.GetSoldierState(other, mod.SoldierStateBool.IsFiring)) {
+                hear(
+                    mod.GetObjectPosition(other),
+                    this.ranges.weapons[this.getWeaponClass(other)]
+                )
+            }
+        }
+
+        for (const enemy of ctx.teams.getEnemies(player)) {
+            const vehicle = this.getMovingVehicle(enemy)
+            if (!vehicle) continue
+
+            hear(
+                mod.GetVehicleState(
+                    vehicle,
+                    mod.VehicleStateVector.VehiclePosition
+                ),
+                this.ranges.vehicles[this.getVehicleClass(vehicle)]
+            )
+        }
+
+        if (!bestPos) return
+
+        ctx.memory.set('investigatePos', bestPos, this.ttlMs)
+    }
+
+    /**
+     * Class of the weapon a player holds (for custom hearing rules).
+     */
+    getWeaponClass(player: mod.Player): CoreAI_WeaponClass {
+        if (
+            mod.IsInventorySlotActive(
+                player,
+                mod.InventorySlots.SecondaryWeapon
+            )
+        ) {
+            return 'sidearm'
+        }
+        if (
+            !mod.IsInventorySlotActive(player, mod.InventorySlots.PrimaryWeapon)
+        ) {
+            return 'other'
+        }
+
+        for (const [
+            weapon,
+            weaponClass,
+        ] of CoreAI_HearingSensor.getWeaponClasses()) {
+            if (mod.HasEquipment(player, weapon)) return weaponClass
+        }
+
+        return 'other'
+    }
+
+    /**
+     * Class of a vehicle (for custom hearing rules).
+     */
+    getVehicleClass(vehicle: mod.Vehicle): CoreAI_VehicleClass {
+        for (const [
+            name,
+            vehicleClass,
+        ] of CoreAI_HearingSensor.getVehicleClasses()) {
+            if (mod.CompareVehicleName(vehicle, name)) return vehicleClass
+        }
+
+        return 'other'
+    }
+
+    /**
+     * Vehicle driven by the player if it moves fast enough to be heard.
+     */
+    private getMovingVehicle(player: mod.Player): mod.Vehicle | null {
+        if (
+            !mod.GetSoldierState(player, mod.SoldierStateBool.IsInVehicle) ||
+            mod.GetPlayerVehicleSeat(player) !== 0
+        ) {
+            return null
+        }
+
+        // A driver's speed is its vehicle's speed.
+        const speed = mod.GetSoldierState(player, mod.SoldierStateNumber.Speed)
+
+        return speed >= this.minVehicleSpeed
+            ? mod.GetVehicleFromPlayer(player)
+            : null
+    }
+
+    /** Built on first use rather than at script load */
+    private static getWeaponClasses(): Array<
+        [mod.Weapons, CoreAI_WeaponClass]
+    > {
+        if (CoreAI_HearingSensor.weaponClasses) {
+            return CoreAI_HearingSensor.weaponClasses
+        }
+
+        const classes: Array<[mod.Weapons[], CoreAI_WeaponClass]> = [
+            [
+                [
+                    mod.Weapons.Sniper_M2010_ESR,
+                    mod.Weapons.Sniper_PSR,
+                    mod.Weapons.Sniper_SV_98,
+                ],
+                'sniper',
+            ],
+            [
+                [
+                    mod.Weapons.DMR_LMR27,
+                    mod.Weapons.DMR_M39_EMR,
+                    mod.Weapons.DMR_SVDM,
+                    mod.Weapons.DMR_SVK_86,
+                ],
+                'dmr',
+            ],
+            [
+                [
+                    mod.Weapons.LMG_DRS_IAR,
+                    mod.Weapons.LMG_KTS100_MK8,
+                    mod.Weapons.LMG_L110,
+                    mod.Weapons.LMG_M_60,
+                    mod.Weapons.LMG_M123K,
+                    mod.Weapons.LMG_M240L,
+                    mod.Weapons.LMG_M250,
+                    mod.Weapons.LMG_RPKM,
+                ],
+                'lmg',
+            ],
+            [
+                [
+                    mod.Weapons.AssaultRifle_AK4D,
+                    mod.Weapons.AssaultRifle_B36A4,
+                    mod.Weapons.AssaultRifle_KORD_6P67,
+                    mod.Weapons.AssaultRifle_L85A3,
+                    mod.Weapons.AssaultRifle_M433,
+                    mod.Weapons.AssaultRifle_NVO_228E,
+                    mod.Weapons.AssaultRifle_SOR_556_Mk2,
+                    mod.Weapons.AssaultRifle_TR_7,
+                ],
+                'rifle',
+            ],
+            [
+                [
+                    mod.Weapons.Carbine_AK_205,
+                    mod.Weapons.Carbine_GRT_BC,
+                    mod.Weapons.Carbine_M277,
+                    mod.Weapons.Carbine_M417_A2,
+                    mod.Weapons.Carbine_M4A1,
+                    mod.Weapons.Carbine_QBZ_192,
+                    mod.Weapons.Carbine_SG_553R,
+                ],
+                'carbine',
+            ],
+            [
+                [
+                    mod.Weapons.Shotgun__185KS_K,
+                    mod.Weapons.Shotgun_M1014,
+                    mod.Weapons.Shotgun_M87A1,
+                ],
+                'shotgun',
+            ],
+            [
+                [
+                    mod.Weapons.SMG_KV9,
+                    mod.Weapons.SMG_PW5A3,
+                    mod.Weapons.SMG_PW7A2,
+                    mod.Weapons.SMG_SCW_10,
+                    mod.Weapons.SMG_SGX,
+                    mod.Weapons.SMG_SL9,
+                    mod.Weapons.SMG_UMG_40,
+                    mod.Weapons.SMG_USG_90,
+                ],
+                'smg',
+            ],
+        ]
+
+        CoreAI_HearingSensor.weaponClasses = classes.flatMap(
+            ([weapons, weaponClass]) =>
+                weapons.map((w): [mod.Weapons, CoreAI_WeaponClass] => [
+                    w,
+                    weaponClass,
+                ])
+        )
+        return CoreAI_HearingSensor.weaponClasses
+    }
+
+    private static getVehicleClasses(): Array<
+        [mod.VehicleList, CoreAI_VehicleClass]
+    > {
+        if (CoreAI_HearingSensor.vehicleClasses) {
+            return CoreAI_HearingSensor.vehicleClasses
+        }
+
+        CoreAI_HearingSensor.vehicleClasses = [
+            [mod.VehicleList.F16, 'jet'],
+            [mod.VehicleList.F22, 'jet'],
+            [mod.VehicleList.JAS39, 'jet'],
+            [mod.VehicleList.SU57, 'jet'],
+            [mod.VehicleList.AH64, 'heli'],
+            [mod.VehicleList.Eurocopter, 'heli'],
+            [mod.VehicleList.UH60, 'heli'],
+            [mod.VehicleList.UH60_Pax, 'heli'],
+            [mod.VehicleList.Abrams, 'armor'],
+            [mod.VehicleList.Leopard, 'armor'],
+            [mod.VehicleList.CV90, 'armor'],
+            [mod.VehicleList.M2Bradley, 'armor'],
+            [mod.VehicleList.Cheetah, 'armor'],
+            [mod.VehicleList.Gepard, 'armor'],
+            [mod.VehicleList.Marauder, 'light'],
+            [mod.VehicleList.Marauder_Pax, 'light'],
+            [mod.VehicleList.Vector, 'light'],
+            [mod.VehicleList.Quadbike, 'light'],
+            [mod.VehicleList.GolfCart, 'light'],
+            [mod.VehicleList.Flyer60, 'light'],
+            [mod.VehicleList.RHIB, 'light'],
+        ]
+        return CoreAI_HearingSensor.vehicleClasses
+    }
+}
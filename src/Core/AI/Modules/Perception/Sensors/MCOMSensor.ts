@@ -0,0 +1,144 @@
+import { CoreAI_ASensor } from './ASensor'
+import { CoreAI_TickContext } from '../../../TickContext'
+
+/**
+ * CoreAI_MCOMState:
+ * Armed/destroyed MCOMs of the match.
+ *
+ * The engine exposes no MCOM state, so it is tracked from the MCOM
+ * events. Shared by every MCOMSensor so it survives respawns and
+ * profile switches; updates are idempotent, so every brain may report
+ * the same event.
+ */
+export class CoreAI_MCOMState {
+    private armed: Set<number> = new Set()
+    private destroyed: Set<number> = new Set()
+
+    setArmed(mcom: mod.MCOM, armed: boolean): void {
+        if (armed) {
+            this.armed.add(mod.GetObjId(mcom))
+        } else {
+            this.armed.delete(mod.GetObjId(mcom))
+        }
+    }
+
+    setDestroyed(mcom: mod.MCOM): void {
+        this.armed.delete(mod.GetObjId(mcom))
+        this.destroyed.add(mod.GetObjId(mcom))
+    }
+
+    isArmed(mcom: mod.MCOM): boolean {
+        return this.armed.has(mod.GetObjId(mcom))
+    }
+
+    isDestroyed(mcom: mod.MCOM): boolean {
+        return this.destroyed.has(mod.GetObjId(mcom))
+    }
+
+    /** New match / round */
+    clear(): void {
+        this.armed.clear()
+        this.destroyed.clear()
+    }
+}
+
+export const CoreAI_DEFAULT_MCOM_STATE = new CoreAI_MCOMState()
+
+/**
+ * MCOMSensor:
+ * Rush objective awareness.
+ *
+ * Writes (closest matching MCOM, null otherwise):
+ * - memory.mcomAttack (attackers: active MCOM to move to and arm)
+ * - memory.mcomDefend (defenders: active MCOM to guard;
+ *   attackers: armed MCOM to protect until it detonates)
+ * - memory.mcomDefuse (defenders: armed MCOM to rush and defuse)
+ *
+ * Notes:
+ * - Armed/destroyed comes from CoreAI_MCOMState, fed by
+ *   OnMCOMArmed/OnMCOMDefused/OnMCOMDestroyed forwarded by the Brain.
+ * - Memory is rewritten on every event, so bots react immediately.
+ * - The engine has no arm/defuse call for bots: the mcomAttack and
+ *   mcomDefuse bindings only hold the bot at the MCOM. The game mode
+ *   arms or defuses it (e.g. once a bot stays within a few meters).
+ */
+export class CoreAI_MCOMSensor extends CoreAI_ASensor {
+    constructor(
+        private readonly getMCOMs: () => mod.MCOM[],
+        private readonly isAttacker: (player: mod.Player) => boolean,
+        intervalMs: number = 1000,
+        private readonly ttlMs: number = 3000,
+        private readonly state: CoreAI_MCOMState = CoreAI_DEFAULT_MCOM_STATE
+    ) {
+        super(intervalMs)
+    }
+
+    protected update(ctx: CoreAI_TickContext): void {
+        const player = ctx.player
+        if (!mod.IsPlayerValid(player)) return
+
+        const myPos = mod.GetObjectPosition(player)
+
+        let closestActive: mod.MCOM | null = null
+        let closestArmed: mod.MCOM | null = null
+        let activeDist = Infinity
+        let armedDist = Infinity
+
+        for (const mcom of this.getMCOMs()) {
+            if (this.state.isDestroyed(mcom)) continue
+
+            const dist = mod.DistanceBetween(myPos, mod.GetObjectPosition(mcom))
+
+            if (this.state.isArmed(mcom)) {
+                if (dist < armedDist) {
+                    armedDist = dist
+                    closestArmed = mcom
+                }
+            } else if (dist < activeDist) {
+                activeDist = dist
+                closestActive = mcom
+            }
+        }
+
+        if (this.isAttacker(player)) {
+            this.write(ctx, 'mcomAttack', closestActive)
+            this.write(ctx, 'mcomDefend', closestActive ? null : closestArmed)
+            this.write(ctx, 'mcomDefuse', null)
+        } else {
+            this.write(ctx, 'mcomAttack', null)
+            this.write(ctx, 'mcomDefend', closestActive)
+            this.write(ctx, 'mcomDefuse', closestArmed)
+        }
+    }
+
+    /* ------------------------------------------------------------
+     * MCOM events (forwarded by the Brain)
+     * ------------------------------------------------------------ */
+
+    override OnMCOMArmed(ctx: CoreAI_TickContext, mcom: mod.MCOM): void {
+        this.state.setArmed(mcom, true)
+        this.update(ctx)
+    }
+
+    override OnMCOMDefused(ctx: CoreAI_TickContext, mcom: mod.MCOM): void {
+        this.state.setArmed(mcom, false)
+        this.update(ctx)
+    }
+
+    override OnMCOMDestroyed(ctx: CoreAI_TickContext, mcom: mod.MCOM): void {
+        this.state.setDestroyed(mcom)
+        this.update(ctx)
+    }
+
+    private write(
+        ctx: CoreAI_TickContext,
+        key: 'mcomAttack' | 'mcomDefend' | 'mcomDefuse',
+        mcom: mod.MCOM | null
+    ): void {
+        if (mcom) {
+            ctx.memory.set(key, mcom, this.ttlMs)
+        } else {
+            ctx.memory.set(key, null)
+        }
+    }
+}
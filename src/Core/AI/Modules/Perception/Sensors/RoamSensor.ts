@@ -1,5 +1,6 @@
 import { CoreAI_ASensor } from './ASensor'
 import { CoreAI_TickContext } from '../../../TickContext'
+import { CoreAI_IRandom } from '../../../Random'
 
 /**
  * RoamSensor:
@@ -10,6 +11,7 @@ import { CoreAI_TickContext } from '../../../TickContext'
  * - While moving, backward targets are forbidden.
  * - Velocity is preferred when speed > threshold.
  * - Intent direction stabilizes steering across replans.
+ * - Points on ctx.moveBlacklist (recently unreachable) are skipped.
  */
 export class CoreAI_RoamSensor extends CoreAI_ASensor {
     private readonly ttlMs: number
@@ -104,6 +106,11 @@ export class CoreAI_RoamSensor extends CoreAI_ASensor {
                 continue
             }
 
+            // Recently unreachable
+            if (ctx.moveBlacklist.isBlacklisted(pos, ctx.time)) {
+                continue
+            }
+
             const dir = mod.DirectionTowards(myPos, pos)
             const dot = mod.DotProduct(forward, dir)
 
@@ -132,7 +139,7 @@ export class CoreAI_RoamSensor extends CoreAI_ASensor {
         let bestScore = -Infinity
 
         for (const c of usable) {
-            const score = this.scoreCandidate(c)
+            const score = this.scoreCandidate(c, ctx.random)
             if (score > bestScore) {
                 bestScore = score
                 best = c
@@ -148,11 +155,14 @@ export class CoreAI_RoamSensor extends CoreAI_ASensor {
         this.coldStart = false
     }
 
-    private scoreCandidate(c: {
-        pos: mod.Vector
-        dist: number
-        dot: number
-    }): number {
+    private scoreCandidate(
+        c: {
+            pos: mod.Vector
+            dist: number
+            dot: number
+        },
+        random: CoreAI_IRandom
+    ): number {
         // Distance band scoring
         let distScore = 0
         if (c.dist <= 15) {
@@ -167,7 +177,7 @@ export class CoreAI_RoamSensor extends CoreAI_ASensor {
         const dirScore = Math.max(0, c.dot)
 
         const jitterMax = this.coldStart ? 0.8 : 0.4
-        const jitter = Math.random() * jitterMax
+        const jitter = random.next() * jitterMax
 
         return distScore * 0.7 + dirScore * 0.3 + jitter
     }
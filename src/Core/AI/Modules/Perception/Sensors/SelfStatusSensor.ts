@@ -0,0 +1,214 @@
+import { CoreAI_ASensor } from './ASensor'
+import { CoreAI_TickContext } from '../../../TickContext'
+
+/**
+ * Health thresholds (fractions of max health, 0..1).
+ */
+export interface CoreAI_HealthThresholds {
+    /** memory.lowHealth at or below */
+    low: number
+
+    /** memory.criticalHealth at or below */
+    critical: number
+
+    /** Start retreating at or below */
+    retreat: number
+
+    /** Stop retreating at or above */
+    recovered: number
+}
+
+export const CoreAI_DEFAULT_HEALTH_THRESHOLDS: CoreAI_HealthThresholds = {
+    low: 0.5,
+    critical: 0.25,
+    retreat: 0.25,
+    recovered: 0.8,
+}
+
+/**
+ * SelfStatusSensor:
+ * Watches the bot's own health and picks where to fall back to.
+ *
+ * Writes:
+ * - memory.lowHealth, memory.criticalHealth
+ * - memory.retreatPos (while retreating; cleared once recovered)
+ *
+ * Retreat:
+ * - Starts at thresholds.retreat and lasts until thresholds.recovered,
+ *   so regenerating health does not flip the decision back and forth.
+ * - Threats are lastAttacker, closestEnemy and visible knownEnemies.
+ * - Candidates are living friendly players and getRetreatPoints()
+ *   (HQ, cover...). A candidate must lie farther from the nearest
+ *   threat than the bot does; the one farthest from threats per metre
+ *   travelled wins.
+ * - Without candidates the bot backs off fallbackDistance straight away
+ *   from the threats; without threats it holds (retreatPos stays null).
+ * - The chosen position is kept until reached or no longer away from
+ *   the threats, so moving friends do not restart the move every update.
+ *
+ * Notes:
+ * - Blacklisted positions (ctx.moveBlacklist) are skipped.
+ * - Bind retreatPos above combat keys so a wounded bot disengages.
+ */
+export class CoreAI_SelfStatusSensor extends CoreAI_ASensor {
+    private static readonly ARRIVE_DISTANCE = 3
+
+    private readonly thresholds: CoreAI_HealthThresholds
+    private retreating = false
+
+    constructor(
+        intervalMs: number = 500,
+        thresholds: Partial<CoreAI_HealthThresholds> = {},
+        private readonly getRetreatPoints: (() => mod.Vector[]) | null = null,
+        private readonly fallbackDistance: number = 25
+    ) {
+        super(intervalMs)
+        this.thresholds = { ...CoreAI_DEFAULT_HEALTH_THRESHOLDS, ...thresholds }
+    }
+
+    protected update(ctx: CoreAI_TickContext): void {
+        const player = ctx.player
+        if (!mod.IsPlayerValid(player)) return
+
+        const health = this.readHealth(player)
+
+        ctx.memory.set('lowHealth', health <= this.thresholds.low)
+        ctx.memory.set('criticalHealth', health <= this.thresholds.critical)
+
+        if (health <= this.thresholds.retreat) {
+            this.retreating = true
+        } else if (health >= this.thresholds.recovered) {
+            this.retreating = false
+        }
+
+        if (!this.retreating) {
+            ctx.memory.set('retreatPos', null)
+            return
+        }
+
+        ctx.memory.set('retreatPos', this.pickRetreatPos(ctx))
+    }
+
+    /**
+     * Whether the bot is falling back (for debug/UI).
+     */
+    isRetreating(): boolean {
+        return this.retreating
+    }
+
+    /** Normalized health (0..1) */
+    private readHealth(player: mod.Player): number {
+        const max = mod.GetSoldierState(
+            player,
+            mod.SoldierStateNumber.MaxHealth
+        )
+        if (max <= 0) return 1
+
+        return (
+            mod.GetSoldierState(player, mod.SoldierStateNumber.CurrentHealth) /
+            max
+        )
+    }
+
+    private pickRetreatPos(ctx: CoreAI_TickContext): mod.Vector | null {
+        const threats = this.getThreatPositions(ctx)
+        if (threats.length === 0) return null
+
+        const myPos = mod.GetObjectPosition(ctx.player)
+        const myThreatDist = this.distanceToThreats(myPos, threats)
+
+        const current = ctx.memory.get('retreatPos')
+        if (
+            current &&
+            mod.DistanceBetween(myPos, current) >
+                CoreAI_SelfStatusSensor.ARRIVE_DISTANCE &&
+            this.distanceToThreats(current, threats) > myThreatDist
+        ) {
+            return current
+        }
+
+        let best: mod.Vector | null = null
+        let bestScore = -Infinity
+
+        for (const pos of this.getCandidates(ctx)) {
+            if (ctx.moveBlacklist.isBlacklisted(pos, ctx.time)) continue
+
+            const threatDist = this.distanceToThreats(pos, threats)
+            if (threatDist <= myThreatDist) continue
+
+            const score = threatDist / (1 + mod.DistanceBetween(myPos, pos))
+            if (score > bestScore) {
+                bestScore = score
+                best = pos
+            }
+        }
+
+        return best ?? this.backOff(myPos, threats)
+    }
+
+    private getThreatPositions(ctx: CoreAI_TickContext): mod.Vector[] {
+        const enemies = [
+            ctx.memory.get('lastAttacker'),
+            ctx.memory.get('closestEnemy'),
+            ...(ctx.memory.get('knownEnemies') ?? [])
+                .filter((e) => e.visible)
+                .map((e) => e.enemy),
+        ]
+
+        const positions: mod.Vector[] = []
+        for (const enemy of enemies) {
+            if (!enemy || !mod.IsPlayerValid(enemy)) continue
+            if (!mod.GetSoldierState(enemy, mod.SoldierStateBool.IsAlive)) {
+                continue
+            }
+
+            positions.push(mod.GetObjectPosition(enemy))
+        }
+
+        return positions
+    }
+
+    private getCandidates(ctx: CoreAI_TickContext): mod.Vector[] {
+        const myId = mod.GetObjId(ctx.player)
+        const candidates: mod.Vector[] = []
+
+        for (const friend of ctx.teams.getPlayers(ctx.player, 'friendly')) {
+            if (mod.GetObjId(friend) === myId) continue
+            candidates.push(mod.GetObjectPosition(friend))
+        }
+
+        if (this.getRetreatPoints) {
+            candidates.push(...this.getRetreatPoints())
+        }
+
+        return candidates
+    }
+
+    private distanceToThreats(pos: mod.Vector, threats: mod.Vector[]): number {
+        let min = Infinity
+        for (const threat of threats) {
+            min = Math.min(min, mod.DistanceBetween(pos, threat))
+        }
+        return min
+    }
+
+    /**
+     * Point fallbackDistance away from the threats' centre.
+     */
+    private backOff(myPos: mod.Vector, threats: mod.Vector[]): mod.Vector {
+        let centre = threats[0]
+        for (let i = 1; i < threats.length; i++) {
+            centre = mod.Add(centre, threats[i])
+        }
+        centre = mod.Multiply(centre, 1 / threats.length)
+
+        const away = mod.DirectionTowards(centre, myPos)
+
+        return mod.Add(myPos, mod.Multiply(away, this.fallbackDistance))
+    }
+
+    override reset(): void {
+        super.reset()
+        this.retreating = false
+    }
+}
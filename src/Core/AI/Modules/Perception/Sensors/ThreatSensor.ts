@@ -0,0 +1,166 @@
+import { CoreAI_ASensor } from './ASensor'
+import { CoreAI_TickContext } from '../../../TickContext'
+
+/**
+ * What one attacker did to the bot.
+ */
+export interface CoreAI_Threat {
+    attacker: mod.Player
+
+    /** Attacker position at the last hit */
+    position: mod.Vector
+
+    damageType: mod.DamageType
+    weaponUnlock: mod.WeaponUnlock
+
+    /** Health lost to this attacker since it was first remembered */
+    totalDamage: number
+    hits: number
+
+    /** Brain clock time (ms) of the last hit */
+    lastHitAt: number
+}
+
+/**
+ * ThreatSensor:
+ * Remembers who damaged the bot and from where.
+ *
+ * Writes:
+ * - memory.lastAttacker (most dangerous live attacker: highest damage
+ *   among the recently remembered ones)
+ * - memory.lastAttackerPos (where that attacker hit from)
+ *
+ * Notes:
+ * - Fed by OnPlayerDamaged; damage is the health drop since the
+ *   previous sample, since the event carries no amount.
+ * - Friendly fire and self damage are ignored (ctx.teams).
+ * - Attackers are forgotten forgetMs after their last hit.
+ * - CoreAI_SetTargetAction prefers lastAttacker over closestEnemy.
+ */
+export class CoreAI_ThreatSensor extends CoreAI_ASensor {
+    private threats: Map<number, CoreAI_Threat> = new Map()
+    private lastHealth: number | null = null
+
+    constructor(
+        intervalMs: number = 500,
+        private readonly ttlMs: number = 6000,
+        private readonly forgetMs: number = 15000
+    ) {
+        super(intervalMs)
+    }
+
+    protected update(ctx: CoreAI_TickContext): void {
+        const player = ctx.player
+        if (!mod.IsPlayerValid(player)) return
+
+        this.lastHealth = this.readHealth(player)
+
+        for (const [id, threat] of this.threats) {
+            if (ctx.time - threat.lastHitAt > this.forgetMs) {
+                this.threats.delete(id)
+            }
+        }
+
+        const current = ctx.memory.get('lastAttacker')
+        if (current && !this.isAlive(current)) {
+            ctx.memory.set('lastAttacker', null)
+        }
+    }
+
+    override OnPlayerDamaged(
+        ctx: CoreAI_TickContext,
+        eventOtherPlayer: mod.Player,
+        eventDamageType: mod.DamageType,
+        eventWeaponUnlock: mod.WeaponUnlock
+    ): void {
+        const player = ctx.player
+        if (!mod.IsPlayerValid(player)) return
+
+        const health = this.readHealth(player)
+        const damage = Math.max(0, (this.lastHealth ?? health) - health)
+        this.lastHealth = health
+
+        if (!this.isAlive(eventOtherPlayer)) return
+        if (!ctx.teams.isHostile(player, eventOtherPlayer)) return
+
+        const id = mod.GetObjId(eventOtherPlayer)
+        const position = mod.GetObjectPosition(eventOtherPlayer)
+
+        let threat = this.threats.get(id)
+        if (!threat) {
+            threat = {
+                attacker: eventOtherPlayer,
+                position,
+                damageType: eventDamageType,
+                weaponUnlock: eventWeaponUnlock,
+                totalDamage: 0,
+                hits: 0,
+                lastHitAt: ctx.time,
+            }
+            this.threats.set(id, threat)
+        }
+
+        threat.position = position
+        threat.damageType = eventDamageType
+        threat.weaponUnlock = eventWeaponUnlock
+        threat.totalDamage += damage
+        threat.hits++
+        threat.lastHitAt = ctx.time
+
+        const primary = this.getPrimaryThreat()
+        if (!primary) return
+
+        ctx.memory.set('lastAttacker', primary.attacker, this.ttlMs)
+        ctx.memory.set('lastAttackerPos', primary.position, this.ttlMs)
+    }
+
+    /**
+     * Remembered attackers (for debug/UI and custom selection).
+     */
+    getThreats(): CoreAI_Threat[] {
+        return [...this.threats.values()]
+    }
+
+    /**
+     * Health lost to an attacker while it is remembered.
+     */
+    getDamageFrom(attacker: mod.Player): number {
+        return this.threats.get(mod.GetObjId(attacker))?.totalDamage ?? 0
+    }
+
+    override reset(): void {
+        super.reset()
+        this.threats.clear()
+        this.lastHealth = null
+    }
+
+    private getPrimaryThreat(): CoreAI_Threat | null {
+        let best: CoreAI_Threat | null = null
+
+        for (const threat of this.threats.values()) {
+            if (!this.isAlive(threat.attacker)) continue
+
+            if (
+                !best ||
+                threat.totalDamage > best.totalDamage ||
+                (threat.totalDamage === best.totalDamage &&
+                    threat.lastHitAt > best.lastHitAt)
+            ) {
+                best = threat
+            }
+        }
+
+        return best
+    }
+
+    private readHealth(player: mod.Player): number {
+        return mod.GetSoldierState(player, mod.SoldierStateNumber.CurrentHealth)
+    }
+
+    private isAlive(player: mod.Player): boolean {
+        return (
+            mod.IsPlayerValid(player) &&
+            mod.GetSoldierState(player, mod.SoldierStateBool.IsAlive)
+        )
+    }
+}
@@ -0,0 +1,232 @@
+import { CoreAI_ASensor } from './ASensor'
+import { CoreAI_TickContext } from '../../../TickContext'
+
+interface CoreAI_VisionTrack {
+    enemy: mod.Player
+    awareness: number
+    lastSeen: number
+}
+
+/**
+ * VisionSensor:
+ * Detects enemies in a view cone with line-of-sight confirmation.
+ *
+ * Writes:
+ * - memory.closestEnemy (closest fully detected enemy)
+ *
+ * Detection:
+ * - Enemy must be inside fovDeg around the facing direction, or within
+ *   nearDistance (peripheral awareness), and within maxDistance.
+ * - Each update casts one ray per candidate (ctx.rayCasts); a hit on
+ *   the enemy or a clear miss confirms line of sight for losMemoryMs.
+ * - Awareness (0..1) builds while the enemy is seen and decays
+ *   otherwise; the enemy is detected at 1.
+ * - Build-up rate depends on distance band (near/mid/far), view angle
+ *   and target stance, speed and firing.
+ *
+ * Notes:
+ * - Replaces the distance coin-flip of ClosestEnemySensor.
+ * - No behaviors spawned.
+ */
+export class CoreAI_VisionSensor extends CoreAI_ASensor {
+    private static readonly HIT_TOLERANCE = 0.6
+    private static readonly RAY_OVERSHOOT = 0.5
+
+    private tracks: Map<number, CoreAI_VisionTrack> = new Map()
+    private lastSampleAt: number | null = null
+
+    constructor(
+        intervalMs: number = 250,
+        private readonly ttlMs: number = 8000,
+        private readonly fovDeg: number = 120,
+        private readonly nearDistance: number = 8,
+        private readonly midDistance: number = 40,
+        private readonly maxDistance: number = 120,
+        private readonly detectionRate: number = 1, // awareness per second (mid band)
+        private readonly decayRate: number = 0.25, // awareness per second
+        private readonly losMemoryMs: number = 1000
+    ) {
+        super(intervalMs)
+    }
+
+    protected update(ctx: CoreAI_TickContext): void {
+        const player = ctx.player
+        if (!mod.IsPlayerValid(player)) return
+
+        const dt =
+            this.lastSampleAt === null
+                ? 0
+                : (ctx.time - this.lastSampleAt) / 1000
+        this.lastSampleAt = ctx.time
+
+        const eye = mod.GetSoldierState(
+            player,
+            mod.SoldierStateVector.EyePosition
+        )
+        const facing = mod.GetSoldierState(
+            player,
+            mod.SoldierStateVector.GetFacingDirection
+        )
+        const seen = new Set<number>()
+
+        for (const p of ctx.teams.getEnemies(player)) {
+            const id = mod.GetObjId(p)
+            const enemyEye = mod.GetSoldierState(
+                p,
+                mod.SoldierStateVector.EyePosition
+            )
+
+            const dist = mod.DistanceBetween(eye, enemyEye)
+            if (dist > this.maxDistance) continue
+
+            const dir = mod.DirectionTowards(eye, enemyEye)
+            const angle = mod.AngleBetweenVectors(facing, dir)
+            const halfFov = this.fovDeg / 2
+            if (angle > halfFov && dist > this.nearDistance) continue
+
+            let track = this.tracks.get(id)
+            if (!track) {
+                track = {
+                    enemy: p,
+                    awareness: 0,
+                    lastSeen: -Infinity,
+                }
+                this.tracks.set(id, track)
+            }
+            seen.add(id)
+
+            // Ray slightly past the eye so it intersects the enemy.
+            const seenTrack = track
+            ctx.rayCasts.cast(
+                eye,
+                mod.Add(
+                    enemyEye,
+                    mod.Multiply(dir, CoreAI_VisionSensor.RAY_OVERSHOOT)
+                ),
+                (result) => {
+                    if (
+                        result.outcome === 'miss' ||
+                        (result.outcome === 'hit' &&
+                            result.point &&
+                            mod.DistanceBetween(result.point, enemyEye) <=
+                                CoreAI_VisionSensor.HIT_TOLERANCE)
+                    ) {
+                        seenTrack.lastSeen = result.time
+                    }
+                },
+                p
+            )
+
+            if (ctx.time - track.lastSeen > this.losMemoryMs) {
+                this.decay(track, dt)
+                continue
+            }
+
+            const rate =
+                this.detectionRate *
+                this.bandFactor(dist) *
+                this.angleFactor(angle, halfFov) *
+                this.targetFactor(p)
+
+            track.awareness = Math.min(1, track.awareness + rate * dt)
+        }
+
+        for (const [id, track] of this.tracks) {
+            if (seen.has(id)) continue
+
+            this.decay(track, dt)
+        }
+
+        this.writeClosestDetected(ctx, eye)
+    }
+
+    /**
+     * Awareness of an enemy (0..1), for debug/UI and custom selection.
+     */
+    getAwareness(enemy: mod.Player): number {
+        return this.tracks.get(mod.GetObjId(enemy))?.awareness ?? 0
+    }
+
+    override reset(): void {
+        super.reset()
+        this.tracks.clear()
+        this.lastSampleAt = null
+    }
+
+    private writeClosestDetected(
+        ctx: CoreAI_TickContext,
+        eye: mod.Vector
+    ): void {
+        let best: mod.Player | null = null
+        let bestDist = Infinity
+
+        for (const [id, track] of this.tracks) {
+            if (
+                !mod.IsPlayerValid(track.enemy) ||
+                !mod.GetSoldierState(track.enemy, mod.SoldierStateBool.IsAlive)
+            ) {
+                this.tracks.delete(id)
+                continue
+            }
+
+            if (track.awareness < 1) continue
+
+            const dist = mod.DistanceBetween(
+                eye,
+                mod.GetSoldierState(
+                    track.enemy,
+                    mod.SoldierStateVector.EyePosition
+                )
+            )
+            if (dist < bestDist) {
+                bestDist = dist
+                best = track.enemy
+            }
+        }
+
+        if (!best) return
+
+        ctx.memory.set('closestEnemy', best, this.ttlMs)
+    }
+
+    private decay(track: CoreAI_VisionTrack, dt: number): void {
+        track.awareness = Math.max(0, track.awareness - this.decayRate * dt)
+    }
+
+    private bandFactor(dist: number): number {
+        if (dist <= this.nearDistance) return 4
+        if (dist <= this.midDistance) return 1
+        return 0.35
+    }
+
+    /** 1 at the center of view, 0.5 at the cone edge */
+    private angleFactor(angle: number, halfFov: number): number {
+        return 1 - 0.5 * Math.min(1, angle / halfFov)
+    }
+
+    private targetFactor(enemy: mod.Player): number {
+        let f = 1
+
+        if (mod.GetSoldierState(enemy, mod.SoldierStateBool.IsProne)) {
+            f *= 0.4
+        } else if (
+            mod.GetSoldierState(enemy, mod.SoldierStateBool.IsCrouching)
+        ) {
+            f *= 0.7
+        }
+
+        const speed = mod.GetSoldierState(enemy, mod.SoldierStateNumber.Speed)
+        if (
+            speed > 4 ||
+            mod.GetSoldierState(enemy, mod.SoldierStateBool.IsSprinting)
+        ) {
+            f *= 1.5
+        }
+
+        if (mod.GetSoldierState(enemy, mod.SoldierStateBool.IsFiring)) {
+            f *= 2.5
+        }
+
+        return f
+    }
+}
@@ -0,0 +1,219 @@
+import { CoreAI_TickContext } from '../../TickContext'
+import { CoreAI_BaseSoldier } from '../../Profiles/BaseSoldier'
+
+export interface CoreAI_StateTransition {
+    /** Target state name (anywhere in the hierarchy) */
+    to: string
+
+    /** Memory/world condition; checked every tick unless `on` is set */
+    when?: (ctx: CoreAI_TickContext) => boolean
+
+    /** Brain event name (e.g. 'OnPlayerDamaged'); `when` acts as guard */
+    on?: string
+}
+
+export interface CoreAI_MachineState {
+    /**
+     * Sensors, weights, bindings (and optional controller) while this
+     * state is active. Child states without a profile inherit it.
+     */
+    profile?: CoreAI_BaseSoldier
+
+    onEnter?(ctx: CoreAI_TickContext): void
+    onExit?(ctx: CoreAI_TickContext): void
+
+    transitions?: CoreAI_StateTransition[]
+
+    /** Child states; `initial` is entered together with this state */
+    states?: Record<string, CoreAI_MachineState>
+    initial?: string
+}
+
+export interface CoreAI_StateMachineConfig {
+    states: Record<string, CoreAI_MachineState>
+    initial: string
+}
+
+interface CoreAI_StateEntry {
+    state: CoreAI_MachineState
+    parent: string | null
+}
+
+/**
+ * CoreAI_StateMachine
+ *
+ * Hierarchical FSM driving which profile a brain runs
+ * (CoreAI_Brain.setStateMachine).
+ *
+ * Responsibilities:
+ * - Track the active state path (root -> leaf).
+ * - Fire onExit/onEnter hooks along the path on transitions.
+ * - Report the innermost active profile after each transition; the
+ *   brain installs it unless it already runs that profile.
+ *
+ * Notes:
+ * - State names must be unique across the whole hierarchy.
+ * - Transitions of outer states are checked before inner ones.
+ * - A transition always re-enters its target state; condition
+ *   transitions into an already active state are ignored.
+ */
+export class CoreAI_StateMachine {
+    private index = new Map<string, CoreAI_StateEntry>()
+    private active: string[] = []
+
+    constructor(private readonly cfg: CoreAI_StateMachineConfig) {
+        this.indexStates(cfg.states, null)
+    }
+
+    /**
+     * Enter the initial state if not started yet, then apply the first
+     * matching condition transition. Returns the active profile if a
+     * state was entered, otherwise null.
+     */
+    tick(ctx: CoreAI_TickContext): CoreAI_BaseSoldier | null {
+        let entered = false
+
+        if (this.active.length === 0) {
+            this.transitionTo(this.cfg.initial, ctx)
+            entered = true
+        }
+
+        const target = this.findTransition(
+            ctx,
+            (t) =>
+                t.on === undefined &&
+                !this.active.includes(t.to) &&
+                (t.when?.(ctx) ?? false)
+        )
+        if (target) {
+            this.transitionTo(target, ctx)
+            entered = true
+        }
+
+        return entered ? this.getProfile() : null
+    }
+
+    /**
+     * Apply the first transition listening to a brain event.
+     * Returns the active profile if a state was entered, otherwise null.
+     */
+    handleEvent(
+        eventName: string,
+        ctx: CoreAI_TickContext
+    ): CoreAI_BaseSoldier | null {
+        if (this.active.length === 0) return null
+
+        const target = this.findTransition(
+            ctx,
+            (t) => t.on === eventName && (t.when?.(ctx) ?? true)
+        )
+        if (!target) return null
+
+        this.transitionTo(target, ctx)
+        return this.getProfile()
+    }
+
+    /**
+     * Active state path, outermost first (for debug/UI).
+     */
+    getActivePath(): readonly string[] {
+        return this.active
+    }
+
+    isIn(name: string): boolean {
+        return this.active.includes(name)
+    }
+
+    /**
+     * Innermost profile along the active path, if any.
+     */
+    getProfile(): CoreAI_BaseSoldier | null {
+        let profile: CoreAI_BaseSoldier | null = null
+
+        for (const name of this.active) {
+            profile = this.index.get(name)?.state.profile ?? profile
+        }
+
+        return profile
+    }
+
+    /* ------------------------------------------------------------
+     * Internals
+     * ------------------------------------------------------------ */
+
+    private indexStates(
+        states: Record<string, CoreAI_MachineState>,
+        parent: string | null
+    ): void {
+        for (const name in states) {
+            this.index.set(name, { state: states[name], parent })
+
+            const children = states[name].states
+            if (children) this.indexStates(children, name)
+        }
+    }
+
+    private findTransition(
+        ctx: CoreAI_TickContext,
+        matches: (t: CoreAI_StateTransition) => boolean
+    ): string | null {
+        for (const name of this.active) {
+            const transitions = this.index.get(name)?.state.transitions ?? []
+
+            for (const t of transitions) {
+                if (matches(t)) return t.to
+            }
+        }
+
+        return null
+    }
+
+    /**
+     * Path from the root to the target, drilling into initial children.
+     */
+    private pathTo(name: string): string[] {
+        const path: string[] = []
+
+        for (let n: string | null = name; n !== null;) {
+            const entry = this.index.get(n)
+            if (!entry) return []
+
+            path.unshift(n)
+            n = entry.parent
+        }
+
+        let leaf = this.index.get(name)?.state
+        while (leaf?.initial && leaf.states?.[leaf.initial]) {
+            path.push(leaf.initial)
+            leaf = leaf.states[leaf.initial]
+        }
+
+        return path
+    }
+
+    private transitionTo(name: string, ctx: CoreAI_TickContext): void {
+        const target = this.pathTo(name)
+        if (target.length === 0) return
+
+        // Keep shared ancestors, but always re-enter the target itself.
+        const targetDepth = target.indexOf(name)
+        let keep = 0
+        while (
+            keep < targetDepth &&
+            keep < this.active.length &&
+            this.active[keep] === target[keep]
+        ) {
+            keep++
+        }
+
+        for (let i = this.active.length - 1; i >= keep; i--) {
+            this.index.get(this.active[i])?.state.onExit?.(ctx)
+        }
+
+        this.active = target
+
+        for (let i = keep; i < target.length; i++) {
+            this.index.get(target[i])?.state.onEnter?.(ctx)
+        }
+    }
+}
@@ -1,38 +1,82 @@
 import { CoreAI_MemoryFields } from '../Modules/Memory/MemoryManager'
+import { CoreAI_MemoryDefaults } from '../Modules/Memory/MemoryManager'
 import { CoreAI_SensorOptions } from '../Modules/Perception/ISensorOptions'
+import { CoreAI_BehaviorBindings } from '../Modules/Behavior/BehaviorBindings'
+import { CoreAI_KeyScore } from '../Modules/Behavior/Utility'
+import { CoreAI_SelectorCommitment } from '../Modules/Behavior/BehaviorSelector'
+import { CoreAI_BehaviorControllerFactory } from '../Modules/Behavior/IBehaviorController'
+import { CoreAI_TargetPolicy } from '../Modules/Action/Actions/SetTargetAction'
 
+/**
+ * Per-key score: a constant weight or a utility score.
+ */
 export type CoreAI_BaseSoldierWeights = Partial<
-    Record<keyof CoreAI_MemoryFields, number>
+    Record<keyof CoreAI_MemoryFields, CoreAI_KeyScore>
 >
 
 /**
  * BaseSoldier
  *
- * Holds sensor config and baseline memory weights.
+ * Holds sensor config, baseline memory weights, per-key behavior
+ * bindings, selector commitment and custom memory fields.
+ *
+ * controller: optional decision runtime used instead of the behavior
+ * selector (e.g. () => new CoreAI_GoapController({...})).
+ *
+ * targetPolicy: enemy the bot aims at (default:
+ * CoreAI_TargetPolicies.attackerFirst).
  */
 export class CoreAI_BaseSoldier {
     public sensors: CoreAI_SensorOptions
     public weights: CoreAI_BaseSoldierWeights
+    public behaviors: CoreAI_BehaviorBindings
+    public memory: CoreAI_MemoryDefaults
+    public commitment: CoreAI_SelectorCommitment
+    public controller: CoreAI_BehaviorControllerFactory | null
+    public targetPolicy: CoreAI_TargetPolicy | null
 
-    constructor(args: {
-        sensors?: CoreAI_SensorOptions
-        weights?: CoreAI_BaseSoldierWeights
-    } = {}) {
+    constructor(
+        args: {
+            sensors?: CoreAI_SensorOptions
+            weights?: CoreAI_BaseSoldierWeights
+            behaviors?: CoreAI_BehaviorBindings
+            memory?: CoreAI_MemoryDefaults
+            commitment?: CoreAI_SelectorCommitment
+            controller?: CoreAI_BehaviorControllerFactory
+            targetPolicy?: CoreAI_TargetPolicy
+        } = {}
+    ) {
         this.sensors = args.sensors ?? {}
         this.weights = args.weights ?? {}
+        this.behaviors = args.behaviors ?? {}
+        this.memory = args.memory ?? {}
+        this.commitment = args.commitment ?? {}
+        this.controller = args.controller ?? null
+        this.targetPolicy = args.targetPolicy ?? null
     }
 
     static default(): CoreAI_BaseSoldier {
         return new CoreAI_BaseSoldier({
             weights: {
+                retreatPos: 110,
                 isInBattle: 100,
+                mcomDefuse: 95,
                 vehicleToDrive: 90,
+                lastAttacker: 85,
                 closestEnemy: 80,
+                lastAttackerPos: 75,
+                mcomAttack: 72,
                 capturePoint: 70,
+                mcomDefend: 65,
                 arrivedPos: 60,
+                investigatePos: 50,
+                searchPos: 40,
                 roamPos: 30,
             },
+            commitment: {
+                minDwellMs: 1000,
+                graceMs: 1500,
+            },
         })
     }
 }
-
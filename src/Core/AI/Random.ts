@@ -0,0 +1,48 @@
+/**
+ * CoreAI_IRandom:
+ * Random source for a Brain.
+ *
+ * Sensors and the selector MUST draw from ctx.random instead of
+ * Math.random(), so a brain seeded with the same value replays the same
+ * decisions.
+ */
+export interface CoreAI_IRandom {
+    /** Uniform float in [0, 1) */
+    next(): number
+}
+
+/**
+ * Deterministic PRNG (mulberry32).
+ *
+ * Seed is a 32-bit integer. Use mix() to combine a match seed with a
+ * bot id so every bot gets its own reproducible stream.
+ */
+export class CoreAI_SeededRandom implements CoreAI_IRandom {
+    private state: number
+
+    constructor(private readonly seed: number) {
+        this.state = seed >>> 0
+    }
+
+    next(): number {
+        this.state = (this.state + 0x6d2b79f5) >>> 0
+
+        let t = this.state
+        t = Math.imul(t ^ (t >>> 15), t | 1)
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+    }
+
+    /** Seed this generator was created with. */
+    getSeed(): number {
+        return this.seed
+    }
+
+    /** Hash two integers into one 32-bit seed. */
+    static mix(a: number, b: number): number {
+        let h = Math.imul((a >>> 0) ^ 0x9e3779b9, 0x85ebca6b)
+        h = Math.imul(h ^ (b >>> 0) ^ (h >>> 13), 0xc2b2ae35)
+        return (h ^ (h >>> 16)) >>> 0
+    }
+}
@@ -0,0 +1,153 @@
+export type CoreAI_TeamRelation = 'hostile' | 'friendly' | 'neutral'
+
+/**
+ * CoreAI_TeamRelations:
+ * Who is an enemy of whom.
+ *
+ * Sensors and actions MUST choose enemies through ctx.teams instead of
+ * comparing team ids, so the brain works in FFA, 3+ team and
+ * infected-style modes.
+ *
+ * Rules (first match wins):
+ * - Same player: friendly.
+ * - Explicit pair set via set(): that relation (same team included).
+ * - Same team: friendly, or hostile in free-for-all.
+ * - Otherwise: defaultRelation (hostile).
+ *
+ * Notes:
+ * - Teams are read on every call, so team swaps (infected) apply at once.
+ * - One instance is meant to be shared by every brain of the match.
+ */
+export class CoreAI_TeamRelations {
+    private pairs: Map<string, CoreAI_TeamRelation> = new Map()
+
+    constructor(
+        private freeForAll: boolean = false,
+        private defaultRelation: CoreAI_TeamRelation = 'hostile'
+    ) {}
+
+    /* ------------------------------------------------------------
+     * Configuration
+     * ------------------------------------------------------------ */
+
+    setFreeForAll(enabled: boolean): void {
+        this.freeForAll = enabled
+    }
+
+    isFreeForAll(): boolean {
+        return this.freeForAll
+    }
+
+    /** Relation of teams that have no explicit pair */
+    setDefault(relation: CoreAI_TeamRelation): void {
+        this.defaultRelation = relation
+    }
+
+    /** Symmetric relation between two team ids */
+    set(teamA: number, teamB: number, relation: CoreAI_TeamRelation): void {
+        this.pairs.set(CoreAI_TeamRelations.pairKey(teamA, teamB), relation)
+    }
+
+    clear(): void {
+        this.pairs.clear()
+    }
+
+    /* ------------------------------------------------------------
+     * Queries
+     * ------------------------------------------------------------ */
+
+    getTeamRelation(teamA: number, teamB: number): CoreAI_TeamRelation {
+        const pair = this.pairs.get(CoreAI_TeamRelations.pairKey(teamA, teamB))
+        if (pair) return pair
+
+        if (teamA === teamB) return this.freeForAll ? 'hostile' : 'friendly'
+
+        return this.defaultRelation
+    }
+
+    getRelation(a: mod.Player, b: mod.Player): CoreAI_TeamRelation {
+        if (mod.GetObjId(a) === mod.GetObjId(b)) return 'friendly'
+
+        return this.getTeamRelation(
+            CoreAI_TeamRelations.teamOf(a),
+            CoreAI_TeamRelations.teamOf(b)
+        )
+    }
+
+    isHostile(a: mod.Player, b: mod.Player): boolean {
+        return this.getRelation(a, b) === 'hostile'
+    }
+
+    isFriendly(a: mod.Player, b: mod.Player): boolean {
+        return this.getRelation(a, b) === 'friendly'
+    }
+
+    /** Whether a team (e.g. a capture point owner) is friendly to a player */
+    isFriendlyTeam(player: mod.Player, teamId: number): boolean {
+        return (
+            this.getTeamRelation(
+                CoreAI_TeamRelations.teamOf(player),
+                teamId
+            ) === 'friendly'
+        )
+    }
+
+    /**
+     * Valid, alive players with the given relation to `player`
+     * (`player` itself counts as friendly).
+     */
+    getPlayers(
+        player: mod.Player,
+        relation: CoreAI_TeamRelation
+    ): mod.Player[] {
+        const out: mod.Player[] = []
+
+        const allPlayers = mod.AllPlayers()
+        const count = mod.CountOf(allPlayers)
+
+        for (let i = 0; i < count; i++) {
+            const p = mod.ValueInArray(allPlayers, i) as mod.Player
+            if (!mod.IsPlayerValid(p)) continue
+            if (!mod.GetSoldierState(p, mod.SoldierStateBool.IsAlive)) continue
+            if (this.getRelation(player, p) !== relation) continue
+
+            out.push(p)
+        }
+
+        return out
+    }
+
+    getEnemies(player: mod.Player): mod.Player[] {
+        return this.getPlayers(player, 'hostile')
+    }
+
+    /** Closest alive enemy of `player` to a position, or null */
+    getClosestEnemy(player: mod.Player, pos: mod.Vector): mod.Player | null {
+        let best: mod.Player | null = null
+        let bestDist = Infinity
+
+        for (const enemy of this.getEnemies(player)) {
+            const dist = mod.DistanceBetween(pos, mod.GetObjectPosition(enemy))
+            if (dist < bestDist) {
+                bestDist = dist
+                best = enemy
+            }
+        }
+
+        return best
+    }
+
+    private static teamOf(player: mod.Player): number {
+        return mod.GetObjId(mod.GetTeam(player))
+    }
+
+    private static pairKey(teamA: number, teamB: number): string {
+        return teamA < teamB ? `${teamA}:${teamB}` : `${teamB}:${teamA}`
+    }
+}
+
+/**
+ * Match-wide relations used by every brain unless replaced through
+ * CoreAI_Brain.setTeamRelations().
+ */
+export const CoreAI_DEFAULT_TEAM_RELATIONS = new CoreAI_TeamRelations()
@@ -1,4 +1,9 @@
 import { CoreAI_MemoryManager } from './Modules/Memory/MemoryManager'
+import { CoreAI_IRandom } from './Random'
+import { CoreAI_RayCastBroker } from './Modules/Perception/RayCastBroker'
+import { CoreAI_TeamRelations } from './TeamRelations'
+import { CoreAI_MoveBlacklist } from './Modules/Memory/MoveBlacklist'
+import { CoreAI_CommandQueue } from './Modules/Behavior/CommandQueue'
 
 /**
  * CoreAI_TickContext:
@@ -20,6 +25,21 @@ export interface CoreAI_TickContext {
     /** Shared AI memory for this brain */
     memory: CoreAI_MemoryManager
 
-    /** Unified tick time (copied from memory.time) */
+    /** Unified tick time in ms (brain clock, copied from memory.time) */
     time: number
+
+    /** Per-brain random source (use instead of Math.random()) */
+    random: CoreAI_IRandom
+
+    /** Per-brain raycasts with results routed back (use instead of mod.RayCast()) */
+    rayCasts: CoreAI_RayCastBroker
+
+    /** Team relationships (use instead of comparing team ids) */
+    teams: CoreAI_TeamRelations
+
+    /** Move targets the engine failed to reach (skip them when picking targets) */
+    moveBlacklist: CoreAI_MoveBlacklist
+
+    /** Per-brain engine sequences (behavior controllers only, not sensors) */
+    commands: CoreAI_CommandQueue
 }
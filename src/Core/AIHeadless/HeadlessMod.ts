@@ -0,0 +1,452 @@
+import { CoreAI_HeadlessWorld } from './HeadlessWorld'
+import { CoreAI_HeadlessVector } from './HeadlessWorld'
+import { CoreAI_HeadlessPlayer } from './HeadlessWorld'
+import { CoreAI_HeadlessVehicle } from './HeadlessWorld'
+import { CoreAI_HeadlessCapturePoint } from './HeadlessWorld'
+import { CoreAI_HeadlessTeam } from './HeadlessWorld'
+
+/**
+ * CoreAI_createHeadlessMod
+ *
+ * Builds a stand-in for the global `mod` namespace backed by a
+ * CoreAI_HeadlessWorld, so CoreAI code can run outside the Portal runtime.
+ *
+ * Notes:
+ * - Enum members resolve to '<Enum>.<Member>' strings. The engine values are
+ *   opaque anyway, and strings keep SoldierStateBool/Number/Vector apart in
+ *   the overloaded GetSoldierState.
+ * - Every AI* and ForcePlayer* call is recorded into world.calls.
+ * - Functions the brain does not use throw on call instead of silently
+ *   returning undefined, so a missing stub is obvious in a failing test.
+ */
+
+type Vec = CoreAI_HeadlessVector
+type Player = CoreAI_HeadlessPlayer
+
+const ENUM_NAMES = new Set([
+    'AmmoTypes',
+    'ArmorTypes',
+    'Cameras',
+    'CustomNotificationSlots',
+    'Factions',
+    'Gadgets',
+    'InventorySlots',
+    'Maps',
+    'MeleeWeapons',
+    'MiscGadgets',
+    'MoveSpeed',
+    'MusicEvents',
+    'MusicPackages',
+    'MusicParams',
+    'OpenGadgets',
+    'PlayerDamageTypes',
+    'PlayerDeathTypes',
+    'PlayerFilterTypes',
+    'PrimaryWeapons',
+    'RestrictedInputs',
+    'ResupplyTypes',
+    'RuntimeSpawn_Common',
+    'ScoreboardType',
+    'ScreenEffects',
+    'SecondaryWeapons',
+    'SoldierClass',
+    'SoldierEffects',
+    'SoldierStateBool',
+    'SoldierStateNumber',
+    'SoldierStateVector',
+    'SpawnModes',
+    'SpotStatus',
+    'Stance',
+    'StationaryEmplacements',
+    'Throwables',
+    'Types',
+    'UIAnchor',
+    'UIBgFill',
+    'UIButtonEvent',
+    'UIDepth',
+    'UIImageType',
+    'VehicleList',
+    'VehicleStateVector',
+    'VoiceOverEvents2D',
+    'VoiceOverFlags',
+    'WeaponAttachments',
+    'Weapons',
+    'WorldIconImages',
+])
+
+const EYE_HEIGHT = 1.6
+
+function createEnum(name: string): Record<string, string> {
+    return new Proxy(
+        {},
+        {
+            get: (_t, member) =>
+                typeof member === 'string' ? `${name}.${member}` : undefined,
+        }
+    )
+}
+
+function enumMember(value: unknown, enumName: string): string | null {
+    const s = String(value)
+    const prefix = `${enumName}.`
+    return s.startsWith(prefix) ? s.slice(prefix.length) : null
+}
+
+/* ------------------------------------------------------------
+ * Vector math
+ * ------------------------------------------------------------ */
+
+function vec(x: number, y: number, z: number): Vec {
+    return { x, y, z }
+}
+
+function isVec(v: unknown): v is Vec {
+    return (
+        typeof v === 'object' &&
+        v !== null &&
+        typeof (v as Vec).x === 'number' &&
+        typeof (v as Vec).y === 'number' &&
+        typeof (v as Vec).z === 'number' &&
+        !('kind' in v)
+    )
+}
+
+function length(v: Vec): number {
+    return Math.sqrt(v.x * v.x + v.y * v.y + v.z * v.z)
+}
+
+function normalize(v: Vec): Vec {
+    const len = length(v)
+    return len > 0 ? vec(v.x / len, v.y / len, v.z / len) : vec(0, 0, 0)
+}
+
+function sub(a: Vec, b: Vec): Vec {
+    return vec(a.x - b.x, a.y - b.y, a.z - b.z)
+}
+
+/**
+ * Arithmetic shared by numbers and vectors (vector op vector applies
+ * per component, vector op number scales).
+ */
+function combine(
+    a: Vec | number,
+    b: Vec | number,
+    op: (x: number, y: number) => number
+): Vec | number {
+    if (typeof a === 'number' && typeof b === 'number') return op(a, b)
+    if (isVec(a) && isVec(b)) {
+        return vec(op(a.x, b.x), op(a.y, b.y), op(a.z, b.z))
+    }
+    if (isVec(a) && typeof b === 'number') {
+        return vec(op(a.x, b), op(a.y, b), op(a.z, b))
+    }
+
+    throw new Error(`CoreAI_HeadlessMod: cannot combine a number and a vector`)
+}
+
+export function CoreAI_createHeadlessMod(
+    world: CoreAI_HeadlessWorld
+): typeof mod {
+    const positionOf = (obj: unknown): Vec => {
+        if (obj instanceof CoreAI_HeadlessPlayer) return world.positionOf(obj)
+
+        const pos =
+            typeof obj === 'object' && obj !== null && 'position' in obj
+                ? obj.position
+                : null
+        if (isVec(pos)) return pos
+
+        throw new Error(`CoreAI_HeadlessMod: object has no position`)
+    }
+
+    const toArray = (items: readonly unknown[]): unknown[] => items.slice()
+
+    const recorder =
+        (name: string) =>
+        (...args: unknown[]): void => {
+            world.record(name, args)
+        }
+
+    let spawnedId = 100000
+
+    const impl: Record<string, unknown> = {
+        /* --------------------------- arrays --------------------------- */
+
+        AllPlayers: () => toArray(world.players.filter((p) => p.valid)),
+        AllVehicles: () => toArray(world.vehicles),
+        AllCapturePoints: () => toArray(world.capturePoints),
+        CountOf: (arr: unknown[]) => arr.length,
+        ValueInArray: (arr: unknown[], i: number) => arr[i],
+        FirstOf: (arr: unknown[]) => arr[0],
+        EmptyArray: () => [],
+        AppendToArray: (arr: unknown[], v: unknown) => [...arr, v],
+
+        /* --------------------------- vectors -------------------------- */
+
+        CreateVector: vec,
+        XComponentOf: (v: Vec) => v.x,
+        YComponentOf: (v: Vec) => v.y,
+        ZComponentOf: (v: Vec) => v.z,
+        Add: (a: Vec | number, b: Vec | number) =>
+            combine(a, b, (x, y) => x + y),
+        Subtract: (a: Vec | number, b: Vec | number) =>
+            combine(a, b, (x, y) => x - y),
+        Multiply: (a: Vec | number, n: number) =>
+            combine(a, n, (x, y) => x * y),
+        Divide: (a: Vec | number, n: number) => combine(a, n, (x, y) => x / y),
+        DistanceBetween: (a: Vec, b: Vec) => length(sub(a, b)),
+        DirectionTowards: (a: Vec, b: Vec) => normalize(sub(b, a)),
+        VectorTowards: (a: Vec, b: Vec) => sub(b, a),
+        Normalize: normalize,
+        DotProduct: (a: Vec, b: Vec) => a.x * b.x + a.y * b.y + a.z * b.z,
+        CrossProduct: (a: Vec, b: Vec) =>
+            vec(
+                a.y * b.z - a.z * b.y,
+                a.z * b.x - a.x * b.z,
+                a.x * b.y - a.y * b.x
+            ),
+        AngleBetweenVectors: (a: Vec, b: Vec) => {
+            const d = length(a) * length(b)
+            if (d === 0) return 0
+
+            const cos = (a.x * b.x + a.y * b.y + a.z * b.z) / d
+            return (Math.acos(Math.max(-1, Math.min(1, cos))) * 180) / Math.PI
+        },
+
+        /* --------------------------- objects -------------------------- */
+
+        GetObjId: (obj: { id: number }) => obj.id,
+        GetObjectPosition: positionOf,
+        Equals: (a: unknown, b: unknown) => a === b,
+        IsType: (value: unknown, type: unknown) => {
+            const t = enumMember(type, 'Types')
+            switch (t) {
+                case 'Vector':
+                    return isVec(value)
+                case 'Number':
+                    return typeof value === 'number'
+                case 'Boolean':
+                    return typeof value === 'boolean'
+                case 'String':
+                    return typeof value === 'string'
+                default:
+                    return (
+                        typeof value === 'object' &&
+                        value !== null &&
+                        (value as { kind?: string }).kind === t
+                    )
+            }
+        },
+        GetSpatialObject: (id: number) => {
+            const obj = world.spatialObjects.get(id)
+            if (!obj) {
+                throw new Error(`CoreAI_HeadlessMod: no spatial object ${id}`)
+            }
+            return obj
+        },
+        GetWaypointPath: (id: number) => ({ kind: 'WaypointPath', id }),
+
+        /* ------------------------ capture points ---------------------- */
+
+        GetCapturePoint: (id: number) =>
+            world.capturePoints.find((cp) => cp.id === id),
+        GetCurrentOwnerTeam: (cp: CoreAI_HeadlessCapturePoint) =>
+            cp.owner ?? world.team(0),
+        GetOwnerProgressTeam: (cp: CoreAI_HeadlessCapturePoint) =>
+            cp.progressTeam ?? world.team(0),
+        GetCaptureProgress: (cp: CoreAI_HeadlessCapturePoint) => cp.progress,
+        GetPlayersOnPoint: (cp: CoreAI_HeadlessCapturePoint) =>
+            toArray(cp.playersOnPoint),
+
+        /* --------------------------- players -------------------------- */
+
+        GetTeam: (arg: Player | number): CoreAI_HeadlessTeam =>
+            typeof arg === 'number' ? world.team(arg) : arg.team,
+        IsPlayerValid: (p: unknown) =>
+            p instanceof CoreAI_HeadlessPlayer && p.valid,
+        ClosestPlayerTo: (pos: Vec, team?: CoreAI_HeadlessTeam) => {
+            let best: Player = world.invalidPlayer
+            let bestDist = Infinity
+
+            for (const p of world.players) {
+                if (!p.valid || !p.alive) continue
+                if (team && p.team !== team) continue
+
+                const d = length(sub(world.positionOf(p), pos))
+                if (d < bestDist) {
+                    bestDist = d
+                    best = p
+                }
+            }
+
+            return best
+        },
+        GetSoldierState: (p: Player, state: unknown) => {
+            const b = enumMember(state, 'SoldierStateBool')
+            if (b) {
+                switch (b) {
+                    case 'IsAlive':
+                        return p.alive
+                    case 'IsDead':
+                        return !p.alive
+                    case 'IsAISoldier':
+                        return p.isAI
+                    case 'IsInVehicle':
+                        return p.vehicle !== null
+                    default:
+                        return p.flags[b] ?? false
+                }
+            }
+
+            const n = enumMember(state, 'SoldierStateNumber')
+            if (n) {
+                switch (n) {
+                    case 'CurrentHealth':
+                        return p.health
+                    case 'MaxHealth':
+                        return p.maxHealth
+                    case 'NormalizedHealth':
+                        return p.maxHealth > 0 ? p.health / p.maxHealth : 0
+                    case 'Speed':
+                        return length(
+                            p.vehicle ? p.vehicle.velocity : p.velocity
+                        )
+                    default:
+                        return 0
+                }
+            }
+
+            const v = enumMember(state, 'SoldierStateVector')
+            switch (v) {
+                case 'GetPosition':
+                    return world.positionOf(p)
+                case 'EyePosition': {
+                    const pos = world.positionOf(p)
+                    return vec(pos.x, pos.y + EYE_HEIGHT, pos.z)
+                }
+                case 'GetFacingDirection':
+                    return p.facing
+                case 'GetLinearVelocity':
+                    return p.vehicle ? p.vehicle.velocity : p.velocity
+            }
+
+            throw new Error(
+                `CoreAI_HeadlessMod: unknown soldier state ${String(state)}`
+            )
+        },
+
+        /* --------------------------- vehicles ------------------------- */
+
+        HasEquipment: (p: Player, weapon: unknown) =>
+            p.weapons.includes(enumMember(weapon, 'Weapons') ?? ''),
+        IsInventorySlotActive: (p: Player, slot: unknown) =>
+            enumMember(slot, 'InventorySlots') === p.activeSlot,
+        GetVehicleFromPlayer: (p: Player) => p.vehicle,
+        CompareVehicleName: (v: CoreAI_HeadlessVehicle, name: unknown) =>
+            v.model !== null && enumMember(name, 'VehicleList') === v.model,
+        GetPlayerVehicleSeat: (p: Player) => p.seat,
+        IsVehicleSeatOccupied: (v: CoreAI_HeadlessVehicle, seat: number) =>
+            v.seats[seat] != null,
+        GetPlayerFromVehicleSeat: (v: CoreAI_HeadlessVehicle, seat: number) =>
+            v.seats[seat] ?? world.invalidPlayer,
+        GetAllPlayersInVehicle: (v: CoreAI_HeadlessVehicle) =>
+            toArray(v.seats.filter((p) => p !== null)),
+        GetVehicleState: (v: CoreAI_HeadlessVehicle, state: unknown) => {
+            switch (enumMember(state, 'VehicleStateVector')) {
+                case 'VehiclePosition':
+                    return v.position
+                case 'FacingDirection':
+                    return v.facing
+                case 'LinearVelocity':
+                    return v.velocity
+            }
+            throw new Error(
+                `CoreAI_HeadlessMod: unknown vehicle state ${String(state)}`
+            )
+        },
+        ForcePlayerToSeat: (
+            p: Player,
+            v: CoreAI_HeadlessVehicle,
+            seat: number
+        ) => {
+            world.record('ForcePlayerToSeat', [p, v, seat])
+            world.seat(p, v, seat)
+        },
+        ForcePlayerExitVehicle: (p: Player, v?: CoreAI_HeadlessVehicle) => {
+            world.record('ForcePlayerExitVehicle', v ? [p, v] : [p])
+            world.unseat(p)
+        },
+
+        /* ------------------------- time / events ---------------------- */
+
+        Wait: (seconds: number) =>
+            new Promise<void>((resolve) => {
+                world.pendingWaits.push({
+                    due: world.time + seconds * 1000,
+                    resolve,
+                })
+            }),
+        GetMatchTimeElapsed: () => world.time / 1000,
+        RayCast: (...args: unknown[]) => {
+            const hasPlayer = args[0] instanceof CoreAI_HeadlessPlayer
+            world.pendingRayCasts.push({
+                player: hasPlayer ? (args[0] as Player) : null,
+                start: (hasPlayer ? args[1] : args[0]) as Vec,
+                stop: (hasPlayer ? args[2] : args[1]) as Vec,
+                time: world.time,
+            })
+        },
+
+        /* ----------------------------- ui ----------------------------- */
+
+        Message: (key: unknown, ...args: unknown[]) => ({ key, args }),
+        DisplayHighlightedWorldLogMessage: recorder(
+            'DisplayHighlightedWorldLogMessage'
+        ),
+        SpawnObject: (type: unknown, position: Vec, rotation: Vec) => ({
+            kind: 'Spawned',
+            id: spawnedId++,
+            type,
+            position,
+            rotation,
+        }),
+        SetWorldIconOwner: () => {},
+        SetWorldIconImage: () => {},
+        SetWorldIconColor: () => {},
+        SetWorldIconText: () => {},
+        SetWorldIconPosition: (wi: { position: Vec }, pos: Vec) => {
+            wi.position = pos
+        },
+        EnableWorldIconImage: () => {},
+        EnableWorldIconText: () => {},
+    }
+
+    const enums = new Map<string, Record<string, string>>()
+
+    return new Proxy(impl, {
+        get: (target, name) => {
+            if (typeof name !== 'string') return undefined
+            if (name in target) return target[name]
+
+            if (ENUM_NAMES.has(name)) {
+                let e = enums.get(name)
+                if (!e) {
+                    e = createEnum(name)
+                    enums.set(name, e)
+                }
+                return e
+            }
+
+            if (name.startsWith('AI')) {
+                target[name] = recorder(name)
+                return target[name]
+            }
+
+            return () => {
+                throw new Error(
+                    `CoreAI_HeadlessMod: mod.${name} is not implemented`
+                )
+            }
+        },
+    }) as unknown as typeof mod
+}
@@ -0,0 +1,222 @@
+import { CoreAI_Brain } from '../AI/Brain'
+import { CoreAI_BaseSoldier } from '../AI/Profiles/BaseSoldier'
+import { CoreAI_MatchClock } from '../AI/Clock'
+import { CoreAI_createHeadlessMod } from './HeadlessMod'
+import { CoreAI_HeadlessWorld } from './HeadlessWorld'
+import { CoreAI_HeadlessPlayer } from './HeadlessWorld'
+import { CoreAI_HeadlessRayCast } from './HeadlessWorld'
+import { CoreAI_HeadlessVector } from './HeadlessWorld'
+
+/** globalThis once the headless `mod` is installed */
+type CoreAI_HeadlessGlobal = typeof globalThis & { mod: typeof mod }
+
+export interface CoreAI_HeadlessRayCastResult {
+    point: CoreAI_HeadlessVector
+    normal: CoreAI_HeadlessVector
+}
+
+export interface CoreAI_HeadlessRunnerOptions {
+    /** Simulated time per tick (default 33ms, ~30Hz like OngoingPlayer) */
+    tickMs?: number
+
+    /**
+     * Decide what a RayCast hits. Return null for a miss.
+     * Default: unobstructed, every ray hits its stop point.
+     */
+    resolveRayCast?: (
+        ray: CoreAI_HeadlessRayCast
+    ) => CoreAI_HeadlessRayCastResult | null
+}
+
+/**
+ * CoreAI_HeadlessRunner
+ *
+ * Drives CoreAI_Brain instances against a CoreAI_HeadlessWorld.
+ *
+ * Responsibilities:
+ * - Install the headless `mod` as the global namespace
+ * - Advance world time and resolve due mod.Wait timers
+ * - Run every brain on CoreAI_MatchClock, i.e. on world time
+ * - Call Brain.OngoingPlayer for every registered bot each tick
+ * - Deliver RayCast results back to the issuing brain
+ *
+ * Usage:
+ *   const runner = new CoreAI_HeadlessRunner()
+ *   const bot = runner.world.addPlayer(1, CoreAI_headlessVec(0, 0, 0))
+ *   runner.addBrain(bot, CoreAI_BaseSoldier.default())
+ *   await runner.run(30)
+ *   runner.world.lastBehavior(bot)
+ */
+export class CoreAI_HeadlessRunner {
+    public readonly world: CoreAI_HeadlessWorld
+
+    private readonly tickMs: number
+    private readonly resolveRayCast: NonNullable<
+        CoreAI_HeadlessRunnerOptions['resolveRayCast']
+    >
+    private brains: Map<CoreAI_HeadlessPlayer, CoreAI_Brain> = new Map()
+
+    constructor(
+        world: CoreAI_HeadlessWorld = new CoreAI_HeadlessWorld(),
+        options: CoreAI_HeadlessRunnerOptions = {}
+    ) {
+        this.world = world
+        this.tickMs = options.tickMs ?? 33
+        this.resolveRayCast =
+            options.resolveRayCast ??
+            ((ray) => ({
+                point: ray.stop,
+                normal: CoreAI_HeadlessRunner.reverseDir(ray),
+            }))
+
+        CoreAI_HeadlessRunner.install(world)
+    }
+
+    /**
+     * Replace the global `mod` namespace with a headless one.
+     */
+    static install(world: CoreAI_HeadlessWorld): typeof mod {
+        const fake = CoreAI_createHeadlessMod(world)
+        ;(globalThis as CoreAI_HeadlessGlobal).mod = fake
+        return fake
+    }
+
+    /* ------------------------------------------------------------
+     * Brains
+     * ------------------------------------------------------------ */
+
+    addBrain(
+        player: CoreAI_HeadlessPlayer,
+        profile: CoreAI_BaseSoldier,
+        enableDebug: boolean = false
+    ): CoreAI_Brain {
+        const brain = new CoreAI_Brain(
+            player as unknown as mod.Player,
+            profile,
+            enableDebug
+        )
+        brain.setClock(new CoreAI_MatchClock())
+        this.brains.set(player, brain)
+        return brain
+    }
+
+    brainOf(player: CoreAI_HeadlessPlayer): CoreAI_Brain | undefined {
+        return this.brains.get(player)
+    }
+
+    removeBrain(player: CoreAI_HeadlessPlayer): void {
+        this.brains.delete(player)
+    }
+
+    /* ------------------------------------------------------------
+     * Ticking
+     * ------------------------------------------------------------ */
+
+    /**
+     * Advance one tick: time, timers, OngoingPlayer, raycasts.
+     * Awaits pending promise continuations so async selector work
+     * (e.g. the vehicle re-seat sequence) settles inside the tick.
+     */
+    async tick(): Promise<void> {
+        this.world.time += this.tickMs
+
+        this.resolveWaits()
+        await CoreAI_HeadlessRunner.flush()
+
+        for (const brain of this.brains.values()) {
+            brain.OngoingPlayer()
+        }
+        await CoreAI_HeadlessRunner.flush()
+
+        this.deliverRayCasts()
+        await CoreAI_HeadlessRunner.flush()
+    }
+
+    async run(ticks: number): Promise<void> {
+        for (let i = 0; i < ticks; i++) {
+            await this.tick()
+        }
+    }
+
+    /** Tick until at least `ms` of world time has passed. */
+    async advance(ms: number): Promise<void> {
+        const until = this.world.time + ms
+        while (this.world.time < until) {
+            await this.tick()
+        }
+    }
+
+    /* ------------------------------------------------------------
+     * Engine events
+     * ------------------------------------------------------------ */
+
+    damage(
+        victim: CoreAI_HeadlessPlayer,
+        attacker: CoreAI_HeadlessPlayer,
+        amount: number = 0
+    ): void {
+        victim.health = Math.max(0, victim.health - amount)
+
+        this.brainOf(victim)?.OnPlayerDamaged(
+            attacker as unknown as mod.Player,
+            {} as mod.DamageType,
+            {} as mod.WeaponUnlock
+        )
+    }
+
+    /* ------------------------------------------------------------
+     * Internals
+     * ------------------------------------------------------------ */
+
+    private resolveWaits(): void {
+        const due = this.world.pendingWaits.filter(
+            (w) => w.due <= this.world.time
+        )
+        this.world.pendingWaits = this.world.pendingWaits.filter(
+            (w) => w.due > this.world.time
+        )
+
+        for (const w of due) {
+            w.resolve()
+        }
+    }
+
+    private deliverRayCasts(): void {
+        const rays = this.world.pendingRayCasts
+        this.world.pendingRayCasts = []
+
+        for (const ray of rays) {
+            if (!ray.player) continue
+
+            const brain = this.brainOf(ray.player)
+            if (!brain) continue
+
+            const hit = this.resolveRayCast(ray)
+            if (!hit) {
+                brain.OnRayCastMissed()
+                continue
+            }
+
+            brain.OnRayCastHit(
+                hit.point as unknown as mod.Vector,
+                hit.normal as unknown as mod.Vector
+            )
+        }
+    }
+
+    private static reverseDir(
+        ray: CoreAI_HeadlessRayCast
+    ): CoreAI_HeadlessVector {
+        const dx = ray.start.x - ray.stop.x
+        const dy = ray.start.y - ray.stop.y
+        const dz = ray.start.z - ray.stop.z
+        const len = Math.sqrt(dx * dx + dy * dy + dz * dz) || 1
+        return { x: dx / len, y: dy / len, z: dz / len }
+    }
+
+    private static async flush(): Promise<void> {
+        for (let i = 0; i < 10; i++) {
+            await Promise.resolve()
+        }
+    }
+}
@@ -0,0 +1,73 @@
+/**
+ * CoreAI_headlessTest
+ *
+ * Minimal test registry for the headless regression suite
+ * (src/Core/AIHeadless/Tests/*.test.ts, run by `npm test`).
+ *
+ * Usage:
+ *   CoreAI_headlessTest('RoamSensor picks a waypoint', async () => {
+ *       const runner = new CoreAI_HeadlessRunner()
+ *       ...
+ *       CoreAI_assertEqual(brain.memory.get('roamPos'), wp, 'roamPos')
+ *   })
+ *
+ * Notes:
+ * - Cases run one after another, each with its own runner and world.
+ * - A case fails by throwing (assertions throw CoreAI_HeadlessAssertion).
+ */
+
+export interface CoreAI_HeadlessTestCase {
+    name: string
+    run: () => void | Promise<void>
+}
+
+const CoreAI_HEADLESS_TESTS: CoreAI_HeadlessTestCase[] = []
+
+export class CoreAI_HeadlessAssertion extends Error {
+    constructor(message: string) {
+        super(message)
+        this.name = 'CoreAI_HeadlessAssertion'
+    }
+}
+
+export function CoreAI_headlessTest(
+    name: string,
+    run: CoreAI_HeadlessTestCase['run']
+): void {
+    CoreAI_HEADLESS_TESTS.push({ name, run })
+}
+
+/** Registered cases, in registration order. */
+export function CoreAI_headlessTests(): readonly CoreAI_HeadlessTestCase[] {
+    return CoreAI_HEADLESS_TESTS
+}
+
+export function CoreAI_assert(
+    condition: unknown,
+    message: string
+): asserts condition {
+    if (!condition) throw new CoreAI_HeadlessAssertion(message)
+}
+
+/** Strict equality (===), reporting both values on failure. */
+export function CoreAI_assertEqual<T>(
+    actual: T,
+    expected: T,
+    message: string
+): void {
+    if (actual === expected) return
+
+    throw new CoreAI_HeadlessAssertion(
+        `${message}: expected ${CoreAI_describe(expected)}, ` +
+            `got ${CoreAI_describe(actual)}`
+    )
+}
+
+function CoreAI_describe(value: unknown): string {
+    if (typeof value !== 'object' || value === null) return String(value)
+    if ('kind' in value && 'id' in value) {
+        return `${String(value.kind)}#${String(value.id)}`
+    }
+
+    return JSON.stringify(value)
+}
@@ -0,0 +1,298 @@
+/**
+ * CoreAI_HeadlessWorld
+ *
+ * Minimal world model backing the headless `mod` stand-in.
+ *
+ * Holds:
+ * - teams, players, vehicles, capture points, spatial objects
+ * - the simulated match clock
+ * - a log of every AI* call issued against the world
+ * - pending RayCast requests and mod.Wait timers resolved by the runner
+ *
+ * Notes:
+ * - Entities ARE the opaque engine handles: the object returned by
+ *   mod.ClosestPlayerTo is the same instance the test created, so identity
+ *   comparisons in sensors keep working.
+ * - No physics, no navmesh. Tests move entities by writing their fields.
+ */
+
+export interface CoreAI_HeadlessVector {
+    x: number
+    y: number
+    z: number
+}
+
+export function CoreAI_headlessVec(
+    x: number = 0,
+    y: number = 0,
+    z: number = 0
+): CoreAI_HeadlessVector {
+    return { x, y, z }
+}
+
+export class CoreAI_HeadlessTeam {
+    readonly kind = 'Team'
+
+    constructor(public readonly id: number) {}
+}
+
+export class CoreAI_HeadlessPlayer {
+    readonly kind = 'Player'
+
+    /** false once the player left the game */
+    public valid: boolean = true
+    public alive: boolean = true
+    public isAI: boolean = true
+
+    public position: CoreAI_HeadlessVector = CoreAI_headlessVec()
+    public facing: CoreAI_HeadlessVector = CoreAI_headlessVec(0, 0, 1)
+    public velocity: CoreAI_HeadlessVector = CoreAI_headlessVec()
+
+    public health: number = 100
+    public maxHealth: number = 100
+
+    public vehicle: CoreAI_HeadlessVehicle | null = null
+    public seat: number = -1
+
+    /** Extra SoldierStateBool flags by enum member name (IsFiring, IsProne...) */
+    public flags: Record<string, boolean> = {}
+
+    /** Held weapons and the active slot, by enum member name */
+    public weapons: string[] = []
+    public activeSlot: string = 'PrimaryWeapon'
+
+    constructor(
+        public readonly id: number,
+        public team: CoreAI_HeadlessTeam
+    ) {}
+}
+
+export class CoreAI_HeadlessVehicle {
+    readonly kind = 'Vehicle'
+
+    public position: CoreAI_HeadlessVector = CoreAI_headlessVec()
+    public facing: CoreAI_HeadlessVector = CoreAI_headlessVec(0, 0, 1)
+    public velocity: CoreAI_HeadlessVector = CoreAI_headlessVec()
+    public seats: Array<CoreAI_HeadlessPlayer | null>
+
+    /** VehicleList member name (null: matches no CompareVehicleName) */
+    public model: string | null = null
+
+    constructor(
+        public readonly id: number,
+        seatCount: number = 4
+    ) {
+        this.seats = new Array(seatCount).fill(null)
+    }
+}
+
+export class CoreAI_HeadlessCapturePoint {
+    readonly kind = 'CapturePoint'
+
+    public position: CoreAI_HeadlessVector = CoreAI_headlessVec()
+    public owner: CoreAI_HeadlessTeam | null = null
+    public progressTeam: CoreAI_HeadlessTeam | null = null
+    public progress: number = 0
+    public playersOnPoint: CoreAI_HeadlessPlayer[] = []
+
+    constructor(public readonly id: number) {}
+}
+
+export class CoreAI_HeadlessSpatialObject {
+    readonly kind = 'SpatialObject'
+
+    public position: CoreAI_HeadlessVector = CoreAI_headlessVec()
+
+    constructor(public readonly id: number) {}
+}
+
+export interface CoreAI_HeadlessCall {
+    /** mod function name, e.g. AIMoveToBehavior */
+    name: string
+    /** First argument when it is a player, otherwise null */
+    player: CoreAI_HeadlessPlayer | null
+    /** Remaining arguments */
+    args: unknown[]
+    /** World time at call */
+    time: number
+}
+
+export interface CoreAI_HeadlessRayCast {
+    player: CoreAI_HeadlessPlayer | null
+    start: CoreAI_HeadlessVector
+    stop: CoreAI_HeadlessVector
+    time: number
+}
+
+export interface CoreAI_HeadlessWait {
+    /** World time at which the mod.Wait promise resolves */
+    due: number
+    resolve: () => void
+}
+
+export class CoreAI_HeadlessWorld {
+    /** Simulated match time in milliseconds */
+    public time: number = 0
+
+    public readonly teams: Map<number, CoreAI_HeadlessTeam> = new Map()
+    public readonly players: CoreAI_HeadlessPlayer[] = []
+    public readonly vehicles: CoreAI_HeadlessVehicle[] = []
+    public readonly capturePoints: CoreAI_HeadlessCapturePoint[] = []
+    public readonly spatialObjects: Map<number, CoreAI_HeadlessSpatialObject> =
+        new Map()
+
+    /** Every AI* call in issue order */
+    public readonly calls: CoreAI_HeadlessCall[] = []
+
+    /** RayCasts issued since the last drain */
+    public pendingRayCasts: CoreAI_HeadlessRayCast[] = []
+
+    /** mod.Wait calls not yet resolved */
+    public pendingWaits: CoreAI_HeadlessWait[] = []
+
+    /** Stand-in for the engine's invalid player handle */
+    public readonly invalidPlayer: CoreAI_HeadlessPlayer
+
+    private nextId = 1
+
+    constructor() {
+        this.invalidPlayer = new CoreAI_HeadlessPlayer(-1, this.team(0))
+        this.invalidPlayer.valid = false
+        this.invalidPlayer.alive = false
+    }
+
+    /* ------------------------------------------------------------
+     * Entity creation
+     * ------------------------------------------------------------ */
+
+    /** Get or create a team by id. Team 0 is treated as neutral. */
+    team(id: number): CoreAI_HeadlessTeam {
+        let team = this.teams.get(id)
+        if (!team) {
+            team = new CoreAI_HeadlessTeam(id)
+            this.teams.set(id, team)
+        }
+        return team
+    }
+
+    addPlayer(
+        teamId: number,
+        position: CoreAI_HeadlessVector = CoreAI_headlessVec(),
+        isAI: boolean = true
+    ): CoreAI_HeadlessPlayer {
+        const player = new CoreAI_HeadlessPlayer(
+            this.nextId++,
+            this.team(teamId)
+        )
+        player.position = position
+        player.isAI = isAI
+        this.players.push(player)
+        return player
+    }
+
+    addVehicle(
+        position: CoreAI_HeadlessVector = CoreAI_headlessVec(),
+        seatCount: number = 4
+    ): CoreAI_HeadlessVehicle {
+        const vehicle = new CoreAI_HeadlessVehicle(this.nextId++, seatCount)
+        vehicle.position = position
+        this.vehicles.push(vehicle)
+        return vehicle
+    }
+
+    addCapturePoint(
+        id: number,
+        position: CoreAI_HeadlessVector = CoreAI_headlessVec(),
+        ownerTeamId: number | null = null
+    ): CoreAI_HeadlessCapturePoint {
+        const cp = new CoreAI_HeadlessCapturePoint(id)
+        cp.position = position
+        cp.owner = ownerTeamId == null ? null : this.team(ownerTeamId)
+        this.capturePoints.push(cp)
+        return cp
+    }
+
+    addSpatialObject(
+        id: number,
+        position: CoreAI_HeadlessVector = CoreAI_headlessVec()
+    ): CoreAI_HeadlessSpatialObject {
+        const obj = new CoreAI_HeadlessSpatialObject(id)
+        obj.position = position
+        this.spatialObjects.set(id, obj)
+        return obj
+    }
+
+    /* ------------------------------------------------------------
+     * State helpers
+     * ------------------------------------------------------------ */
+
+    seat(
+        player: CoreAI_HeadlessPlayer,
+        vehicle: CoreAI_HeadlessVehicle,
+        seat: number
+    ): void {
+        this.unseat(player)
+        if (seat < 0 || seat >= vehicle.seats.length) return
+        if (vehicle.seats[seat]) return
+
+        vehicle.seats[seat] = player
+        player.vehicle = vehicle
+        player.seat = seat
+    }
+
+    unseat(player: CoreAI_HeadlessPlayer): void {
+        const vehicle = player.vehicle
+        if (!vehicle) return
+
+        vehicle.seats[player.seat] = null
+        player.position = { ...vehicle.position }
+        player.vehicle = null
+        player.seat = -1
+    }
+
+    /** Current position, following the vehicle while seated. */
+    positionOf(player: CoreAI_HeadlessPlayer): CoreAI_HeadlessVector {
+        return player.vehicle ? player.vehicle.position : player.position
+    }
+
+    /* ------------------------------------------------------------
+     * Call log
+     * ------------------------------------------------------------ */
+
+    record(name: string, args: unknown[]): void {
+        const first = args[0]
+        const player = first instanceof CoreAI_HeadlessPlayer ? first : null
+
+        this.calls.push({
+            name,
+            player,
+            args: player ? args.slice(1) : args,
+            time: this.time,
+        })
+    }
+
+    /** All recorded calls for a player, optionally filtered by name. */
+    callsFor(
+        player: CoreAI_HeadlessPlayer,
+        name?: string
+    ): CoreAI_HeadlessCall[] {
+        return this.calls.filter(
+            (c) => c.player === player && (!name || c.name === name)
+        )
+    }
+
+    /** Last recorded *Behavior call for a player, or null. */
+    lastBehavior(player: CoreAI_HeadlessPlayer): CoreAI_HeadlessCall | null {
+        for (let i = this.calls.length - 1; i >= 0; i--) {
+            const c = this.calls[i]
+            if (c.player === player && c.name.endsWith('Behavior')) {
+                return c
+            }
+        }
+        return null
+    }
+
+    clearCalls(): void {
+        this.calls.length = 0
+    }
+}
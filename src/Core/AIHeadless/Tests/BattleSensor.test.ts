@@ -0,0 +1,108 @@
+import { CoreAI_BaseSoldier } from '../../AI/Profiles/BaseSoldier'
+import { CoreAI_HeadlessRunner } from '../HeadlessRunner'
+import { CoreAI_HeadlessRunnerOptions } from '../HeadlessRunner'
+import { CoreAI_HeadlessWorld } from '../HeadlessWorld'
+import { CoreAI_headlessVec } from '../HeadlessWorld'
+import { CoreAI_headlessTest } from '../HeadlessTest'
+import { CoreAI_assertEqual } from '../HeadlessTest'
+
+function battleProfile(): CoreAI_BaseSoldier {
+    return new CoreAI_BaseSoldier({
+        weights: { isInBattle: 100 },
+        sensors: { battleSensor: { intervalMs: 100, ttlMs: 5_000 } },
+    })
+}
+
+/** Bot driving a vehicle 30m from an enemy soldier. */
+function driverScene(options: CoreAI_HeadlessRunnerOptions = {}) {
+    const runner = new CoreAI_HeadlessRunner(
+        new CoreAI_HeadlessWorld(),
+        options
+    )
+    const world = runner.world
+    const bot = world.addPlayer(1, CoreAI_headlessVec(0, 0, 0))
+    const enemy = world.addPlayer(2, CoreAI_headlessVec(0, 0, 30), false)
+    world.seat(bot, world.addVehicle(CoreAI_headlessVec(0, 0, 0)), 0)
+
+    return { runner, bot, enemy, brain: runner.addBrain(bot, battleProfile()) }
+}
+
+CoreAI_headlessTest(
+    'BattleSensor: calm infantry is not in battle',
+    async () => {
+        const runner = new CoreAI_HeadlessRunner()
+        const bot = runner.world.addPlayer(1, CoreAI_headlessVec(0, 0, 0))
+        runner.world.addPlayer(2, CoreAI_headlessVec(0, 0, 30), false)
+        const brain = runner.addBrain(bot, battleProfile())
+
+        await runner.run(10)
+
+        CoreAI_assertEqual(brain.memory.get('isInBattle'), false, 'isInBattle')
+    }
+)
+
+CoreAI_headlessTest('BattleSensor: firing starts a battle', async () => {
+    const runner = new CoreAI_HeadlessRunner()
+    const bot = runner.world.addPlayer(1, CoreAI_headlessVec(0, 0, 0))
+    const brain = runner.addBrain(bot, battleProfile())
+
+    bot.flags.IsFiring = true
+    await runner.run(10)
+
+    CoreAI_assertEqual(brain.memory.get('isInBattle'), true, 'isInBattle')
+    CoreAI_assertEqual(
+        runner.world.lastBehavior(bot)?.name,
+        'AIBattlefieldBehavior',
+        'behavior'
+    )
+})
+
+CoreAI_headlessTest(
+    'BattleSensor: damage starts a battle that expires',
+    async () => {
+        const runner = new CoreAI_HeadlessRunner()
+        const bot = runner.world.addPlayer(1, CoreAI_headlessVec(0, 0, 0))
+        const enemy = runner.world.addPlayer(
+            2,
+            CoreAI_headlessVec(0, 0, 80),
+            false
+        )
+        const brain = runner.addBrain(bot, battleProfile())
+
+        await runner.run(2)
+        runner.damage(bot, enemy, 10)
+        await runner.run(2)
+        CoreAI_assertEqual(brain.memory.get('isInBattle'), true, 'after damage')
+
+        await runner.advance(5_500)
+        CoreAI_assertEqual(brain.memory.get('isInBattle'), false, 'after ttl')
+    }
+)
+
+CoreAI_headlessTest(
+    'BattleSensor: driver sees an enemy in the open',
+    async () => {
+        const { runner, brain } = driverScene()
+
+        await runner.run(10)
+
+        CoreAI_assertEqual(brain.memory.get('isInBattle'), true, 'isInBattle')
+    }
+)
+
+CoreAI_headlessTest(
+    'BattleSensor: driver ignores an enemy behind cover',
+    async () => {
+        // Every ray stops at a wall halfway to the enemy.
+        const { runner, brain } = driverScene({
+            resolveRayCast: () => ({
+                point: CoreAI_headlessVec(0, 1, 15),
+                normal: CoreAI_headlessVec(0, 0, -1),
+            }),
+        })
+
+        await runner.run(10)
+
+        CoreAI_assertEqual(brain.memory.get('isInBattle'), false, 'isInBattle')
+    }
+)
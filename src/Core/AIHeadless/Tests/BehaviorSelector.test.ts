@@ -0,0 +1,350 @@
+import { CoreAI_BaseSoldier } from '../../AI/Profiles/BaseSoldier'
+import { CoreAI_Brain } from '../../AI/Brain'
+import { CoreAI_MemoryFields } from '../../AI/Modules/Memory/MemoryManager'
+import { CoreAI_KeyScore } from '../../AI/Modules/Behavior/Utility'
+import { CoreAI_SelectorCommitment } from '../../AI/Modules/Behavior/BehaviorSelector'
+import { CoreAI_HeadlessRunner } from '../HeadlessRunner'
+import { CoreAI_headlessVec } from '../HeadlessWorld'
+import { CoreAI_headlessTest } from '../HeadlessTest'
+import { CoreAI_assertEqual } from '../HeadlessTest'
+
+function selectorScene() {
+    const runner = new CoreAI_HeadlessRunner()
+    const bot = runner.world.addPlayer(1, CoreAI_headlessVec(0, 0, 0))
+    const brain = runner.addBrain(
+        bot,
+        new CoreAI_BaseSoldier({
+            weights: {
+                retreatPos: 110,
+                isInBattle: 90,
+                roamPos: 30,
+            },
+        })
+    )
+
+    return { runner, bot, brain }
+}
+
+CoreAI_headlessTest('BehaviorSelector: idles without intents', async () => {
+    const { runner, bot, brain } = selectorScene()
+
+    await runner.run(10)
+
+    CoreAI_assertEqual(runner.world.lastBehavior(bot), null, 'behavior')
+    CoreAI_assertEqual(brain.getDecisionTrace().getLast(), null, 'decision')
+})
+
+CoreAI_headlessTest('BehaviorSelector: highest weight wins', async () => {
+    const { runner, bot, brain } = selectorScene()
+    const roamPos = CoreAI_headlessVec(0, 0, 30)
+
+    brain.memory.set('roamPos', roamPos as unknown as mod.Vector)
+    await runner.run(5)
+    CoreAI_assertEqual(
+        runner.world.lastBehavior(bot)?.name,
+        'AIValidatedMoveToBehavior',
+        'roaming'
+    )
+
+    brain.memory.set('isInBattle', true)
+    await runner.run(5)
+    CoreAI_assertEqual(
+        runner.world.lastBehavior(bot)?.name,
+        'AIBattlefieldBehavior',
+        'battle over roam'
+    )
+
+    const retreatPos = CoreAI_headlessVec(0, 0, -30)
+    brain.memory.set('retreatPos', retreatPos as unknown as mod.Vector)
+    await runner.run(5)
+    const retreat = runner.world.lastBehavior(bot)
+    CoreAI_assertEqual(
+        retreat?.name,
+        'AIValidatedMoveToBehavior',
+        'retreat over battle'
+    )
+    CoreAI_assertEqual(retreat?.args[0], retreatPos, 'retreat target')
+    CoreAI_assertEqual(
+        brain.getDecisionTrace().getLast()?.key,
+        'retreatPos',
+        'decision key'
+    )
+})
+
+CoreAI_headlessTest(
+    'BehaviorSelector: falls back once an intent clears',
+    async () => {
+        const { runner, bot, brain } = selectorScene()
+
+        brain.memory.set(
+            'roamPos',
+            CoreAI_headlessVec(0, 0, 30) as unknown as mod.Vector
+        )
+        brain.memory.set('isInBattle', true)
+        await runner.run(5)
+
+        brain.memory.set('isInBattle', false)
+        await runner.run(5)
+
+        CoreAI_assertEqual(
+            runner.world.lastBehavior(bot)?.name,
+            'AIValidatedMoveToBehavior',
+            'behavior'
+        )
+    }
+)
+
+CoreAI_headlessTest(
+    'BehaviorSelector: does not re-issue a running behavior',
+    async () => {
+        const { runner, bot, brain } = selectorScene()
+
+        brain.memory.set('isInBattle', true)
+        await runner.run(60)
+
+        CoreAI_assertEqual(
+            runner.world.callsFor(bot, 'AIBattlefieldBehavior').length,
+            1,
+            'battlefield orders'
+        )
+    }
+)
+
+CoreAI_headlessTest(
+    'BehaviorSelector: a failed search leg blacklists the leg',
+    async () => {
+        const runner = new CoreAI_HeadlessRunner()
+        const bot = runner.world.addPlayer(1, CoreAI_headlessVec(0, 0, 0))
+        const brain = runner.addBrain(
+            bot,
+            new CoreAI_BaseSoldier({
+                weights: { searchPos: 40, isInBattle: 30 },
+            })
+        )
+        const center = CoreAI_headlessVec(0, 0, 30)
+
+        brain.memory.set('searchPos', center as unknown as mod.Vector)
+        brain.memory.set('isInBattle', true)
+        await runner.run(2)
+
+        // Arrive at the center; the sweep moves on to its first point.
+        bot.position = center
+        await runner.run(10)
+        const leg = runner.world.lastBehavior(bot)
+        CoreAI_assertEqual(leg?.name, 'AIValidatedMoveToBehavior', 'sweeping')
+        CoreAI_assertEqual(leg?.args[0] === center, false, 'past center')
+
+        brain.OnAIMoveToFailed()
+        await runner.run(5)
+
+        CoreAI_assertEqual(
+            brain.getDecisionTrace().getLast()?.key,
+            'searchPos',
+            'still searching'
+        )
+    }
+)
+
+function commitmentScene(
+    commitment: CoreAI_SelectorCommitment,
+    weights: Partial<Record<keyof CoreAI_MemoryFields, CoreAI_KeyScore>> = {
+        isInBattle: 90,
+        roamPos: 30,
+    }
+) {
+    const runner = new CoreAI_HeadlessRunner()
+    const bot = runner.world.addPlayer(1, CoreAI_headlessVec(0, 0, 0))
+    const brain = runner.addBrain(
+        bot,
+        new CoreAI_BaseSoldier({ weights, commitment })
+    )
+    brain.memory.set(
+        'roamPos',
+        CoreAI_headlessVec(0, 0, 30) as unknown as mod.Vector
+    )
+
+    return { runner, bot, brain }
+}
+
+function lastKey(brain: CoreAI_Brain): keyof CoreAI_MemoryFields | null {
+    return brain.getDecisionTrace().getLast()?.key ?? null
+}
+
+CoreAI_headlessTest('Commitment: a winner holds for minDwellMs', async () => {
+    const { runner, brain } = commitmentScene({ minDwellMs: 1000 })
+
+    await runner.run(2)
+    CoreAI_assertEqual(lastKey(brain), 'roamPos', 'first winner')
+
+    brain.memory.set('isInBattle', true)
+    await runner.advance(500)
+    CoreAI_assertEqual(lastKey(brain), 'roamPos', 'within dwell')
+
+    await runner.advance(600)
+    CoreAI_assertEqual(lastKey(brain), 'isInBattle', 'after dwell')
+})
+
+CoreAI_headlessTest(
+    'Commitment: a challenger must beat the winner by switchMargin',
+    async () => {
+        let battle = 10
+        const { runner, brain } = commitmentScene(
+            { switchMargin: 20 },
+            { isInBattle: () => battle, roamPos: 30 }
+        )
+        brain.memory.set('isInBattle', true)
+
+        await runner.run(2)
+        CoreAI_assertEqual(lastKey(brain), 'roamPos', 'first winner')
+
+        battle = 45
+        await runner.run(2)
+        CoreAI_assertEqual(lastKey(brain), 'roamPos', 'within margin')
+
+        battle = 55
+        await runner.run(2)
+        CoreAI_assertEqual(lastKey(brain), 'isInBattle', 'beyond margin')
+    }
+)
+
+CoreAI_headlessTest(
+    'Commitment: a dropped winner competes for graceMs',
+    async () => {
+        const { runner, bot, brain } = commitmentScene({ graceMs: 1000 })
+        brain.memory.set('isInBattle', true)
+
+        await runner.run(2)
+        CoreAI_assertEqual(lastKey(brain), 'isInBattle', 'first winner')
+
+        brain.memory.set('isInBattle', false)
+        await runner.advance(500)
+        CoreAI_assertEqual(lastKey(brain), 'isInBattle', 'within grace')
+        CoreAI_assertEqual(
+            runner.world.callsFor(bot, 'AIValidatedMoveToBehavior').length,
+            0,
+            'no roam yet'
+        )
+
+        await runner.advance(600)
+        CoreAI_assertEqual(lastKey(brain), 'roamPos', 'after grace')
+    }
+)
+
+CoreAI_headlessTest(
+    'Commitment: a key that lost is skipped for its cooldown',
+    async () => {
+        const { runner, brain } = commitmentScene(
+            { cooldowns: { isInBattle: 2000 } },
+            { retreatPos: 110, isInBattle: 90, roamPos: 30 }
+        )
+        const retreatPos = CoreAI_headlessVec(0, 0, -30)
+        brain.memory.set('isInBattle', true)
+
+        await runner.run(2)
+        CoreAI_assertEqual(lastKey(brain), 'isInBattle', 'first winner')
+
+        brain.memory.set('retreatPos', retreatPos as unknown as mod.Vector)
+        await runner.run(2)
+        CoreAI_assertEqual(lastKey(brain), 'retreatPos', 'retreat')
+
+        brain.memory.set('retreatPos', null)
+        await runner.run(2)
+        CoreAI_assertEqual(lastKey(brain), 'roamPos', 'battle cooling down')
+        CoreAI_assertEqual(
+            brain
+                .getDecisionTrace()
+                .getLast()
+                ?.candidates.find((c) => c.key === 'isInBattle')?.skipped,
+            'coolingDown',
+            'skip reason'
+        )
+
+        await runner.advance(2000)
+        CoreAI_assertEqual(lastKey(brain), 'isInBattle', 'after cooldown')
+    }
+)
+
+CoreAI_headlessTest(
+    'Commitment: Brain.reset clears cooldowns and the winner',
+    async () => {
+        const { runner, brain } = commitmentScene(
+            { cooldowns: { isInBattle: 2000 }, minDwellMs: 1000 },
+            { retreatPos: 110, isInBattle: 90, roamPos: 30 }
+        )
+        brain.memory.set('isInBattle', true)
+        await runner.run(2)
+
+        brain.memory.set(
+            'retreatPos',
+            CoreAI_headlessVec(0, 0, -30) as unknown as mod.Vector
+        )
+        await runner.advance(1100)
+        CoreAI_assertEqual(lastKey(brain), 'retreatPos', 'retreat')
+
+        brain.reset()
+        brain.memory.set('isInBattle', true)
+        brain.memory.set(
+            'roamPos',
+            CoreAI_headlessVec(0, 0, 30) as unknown as mod.Vector
+        )
+        await runner.run(2)
+        CoreAI_assertEqual(lastKey(brain), 'isInBattle', 'after reset')
+    }
+)
+
+CoreAI_headlessTest(
+    'DecisionTrace: records why each key was skipped',
+    async () => {
+        const runner = new CoreAI_HeadlessRunner()
+        const bot = runner.world.addPlayer(1, CoreAI_headlessVec(0, 0, 0))
+        const brain = runner.addBrain(
+            bot,
+            new CoreAI_BaseSoldier({
+                weights: {
+                    retreatPos: 110,
+                    isInBattle: 90,
+                    investigatePos: 80,
+                    lastAttackerPos: 0,
+                    arrivedPos: 20,
+                },
+                // On the ground, a parachute key cannot run.
+                behaviors: { investigatePos: { kind: 'parachute' } },
+            })
+        )
+        const vec = (z: number) =>
+            CoreAI_headlessVec(0, 0, z) as unknown as mod.Vector
+
+        brain.memory.set('retreatPos', vec(-30))
+        brain.memory.set('investigatePos', vec(10))
+        brain.memory.set('lastAttackerPos', vec(20))
+        brain.memory.set('arrivedPos', vec(5))
+        await runner.run(2)
+        CoreAI_assertEqual(
+            brain.getDecisionTrace().getLast()?.key,
+            'retreatPos',
+            'retreat'
+        )
+
+        // The retreat move fails: its target is blacklisted.
+        brain.OnAIMoveToFailed()
+        await runner.run(2)
+
+        const decision = brain.getDecisionTrace().getLast()
+        CoreAI_assertEqual(decision?.key, 'arrivedPos', 'fallback')
+        const skipped = (key: keyof CoreAI_MemoryFields) =>
+            decision?.candidates.find((c) => c.key === key)?.skipped
+        CoreAI_assertEqual(skipped('retreatPos'), 'blacklisted', 'retreatPos')
+        CoreAI_assertEqual(skipped('isInBattle'), 'unset', 'isInBattle')
+        CoreAI_assertEqual(
+            skipped('investigatePos'),
+            'notActionable',
+            'investigatePos'
+        )
+        CoreAI_assertEqual(
+            skipped('lastAttackerPos'),
+            'nonPositive',
+            'lastAttackerPos'
+        )
+        CoreAI_assertEqual(skipped('arrivedPos'), undefined, 'arrivedPos')
+    }
+)
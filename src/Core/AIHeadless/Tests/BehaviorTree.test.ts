@@ -0,0 +1,266 @@
+import { CoreAI_BaseSoldier } from '../../AI/Profiles/BaseSoldier'
+import { CoreAI_BehaviorTree } from '../../AI/Modules/BehaviorTree/BehaviorTree'
+import { CoreAI_TickContext } from '../../AI/TickContext'
+import { CoreAI_ABTNode } from '../../AI/Modules/BehaviorTree/BTNode'
+import { CoreAI_BTStatus } from '../../AI/Modules/BehaviorTree/BTNode'
+import { CoreAI_BTParallel } from '../../AI/Modules/BehaviorTree/Composites'
+import { CoreAI_BTSelector } from '../../AI/Modules/BehaviorTree/Composites'
+import { CoreAI_BTSequence } from '../../AI/Modules/BehaviorTree/Composites'
+import { CoreAI_BTCooldown } from '../../AI/Modules/BehaviorTree/Decorators'
+import { CoreAI_BTGuard } from '../../AI/Modules/BehaviorTree/Decorators'
+import { CoreAI_BTTimeout } from '../../AI/Modules/BehaviorTree/Decorators'
+import { CoreAI_BTCondition } from '../../AI/Modules/BehaviorTree/Conditions'
+import { CoreAI_BTIdle } from '../../AI/Modules/BehaviorTree/Leaves'
+import { CoreAI_BTMoveTo } from '../../AI/Modules/BehaviorTree/Leaves'
+import { CoreAI_HeadlessRunner } from '../HeadlessRunner'
+import { CoreAI_headlessVec } from '../HeadlessWorld'
+import { CoreAI_headlessTest } from '../HeadlessTest'
+import { CoreAI_assert } from '../HeadlessTest'
+import { CoreAI_assertEqual } from '../HeadlessTest'
+
+/** Leaf returning `status` every tick, counting ticks and exits. */
+class ScriptedNode extends CoreAI_ABTNode {
+    ticks = 0
+    exits = 0
+
+    constructor(public status: CoreAI_BTStatus) {
+        super()
+    }
+
+    protected override onExit(ctx: CoreAI_TickContext): void {
+        this.exits++
+    }
+
+    protected update(ctx: CoreAI_TickContext): CoreAI_BTStatus {
+        this.ticks++
+        return this.status
+    }
+}
+
+/** Bot at the origin running `root` as its behavior controller. */
+function treeScene(root: CoreAI_ABTNode) {
+    const runner = new CoreAI_HeadlessRunner()
+    const bot = runner.world.addPlayer(1, CoreAI_headlessVec(0, 0, 0))
+    const tree = new CoreAI_BehaviorTree(root)
+    const brain = runner.addBrain(
+        bot,
+        new CoreAI_BaseSoldier({ controller: () => tree })
+    )
+
+    return { runner, world: runner.world, bot, tree, brain }
+}
+
+CoreAI_headlessTest('BTMoveTo: drivers move through a re-seat', async () => {
+    const pos = CoreAI_headlessVec(0, 0, 100)
+    const { runner, world, bot } = treeScene(
+        new CoreAI_BTMoveTo(() => pos as unknown as mod.Vector)
+    )
+    world.seat(bot, world.addVehicle(CoreAI_headlessVec(0, 0, 0)), 0)
+
+    await runner.run(5)
+
+    CoreAI_assertEqual(
+        world.callsFor(bot, 'AIValidatedMoveToBehavior').length,
+        0,
+        'plain moves'
+    )
+    CoreAI_assertEqual(
+        world.callsFor(bot, 'ForcePlayerToSeat').length,
+        1,
+        're-seats'
+    )
+    CoreAI_assertEqual(
+        world.lastBehavior(bot)?.name,
+        'AIDefendPositionBehavior',
+        'behavior'
+    )
+    CoreAI_assertEqual(world.lastBehavior(bot)?.args[0], pos, 'target')
+})
+
+CoreAI_headlessTest('BTMoveTo: soldiers on foot get a plain move', async () => {
+    const pos = CoreAI_headlessVec(0, 0, 100)
+    const { runner, world, bot } = treeScene(
+        new CoreAI_BTMoveTo(() => pos as unknown as mod.Vector)
+    )
+
+    await runner.run(5)
+
+    const moves = world.callsFor(bot, 'AIValidatedMoveToBehavior')
+    CoreAI_assertEqual(moves.length, 1, 'moves')
+    CoreAI_assertEqual(moves[0].args[0], pos, 'target')
+})
+
+CoreAI_headlessTest(
+    'BTMoveTo: fails once the move target is blacklisted',
+    async () => {
+        const pos = CoreAI_headlessVec(0, 0, 100)
+        const { runner, world, bot, brain } = treeScene(
+            new CoreAI_BTSelector([
+                new CoreAI_BTMoveTo(() => pos as unknown as mod.Vector),
+                new CoreAI_BTIdle(),
+            ])
+        )
+
+        await runner.run(2)
+        CoreAI_assertEqual(
+            world.lastBehavior(bot)?.name,
+            'AIValidatedMoveToBehavior',
+            'moving'
+        )
+
+        brain.OnAIMoveToFailed()
+        await runner.run(2)
+
+        CoreAI_assertEqual(
+            world.lastBehavior(bot)?.name,
+            'AIIdleBehavior',
+            'gave up'
+        )
+    }
+)
+
+CoreAI_headlessTest(
+    'BTSelector: a higher child that stops failing pre-empts',
+    async () => {
+        const high = new ScriptedNode('failure')
+        const low = new ScriptedNode('running')
+        const { runner, tree } = treeScene(new CoreAI_BTSelector([high, low]))
+
+        await runner.run(3)
+        CoreAI_assertEqual(low.ticks, 3, 'low runs')
+        CoreAI_assertEqual(high.ticks, 3, 'high re-checked every tick')
+
+        high.status = 'running'
+        await runner.run(1)
+        CoreAI_assertEqual(low.exits, 1, 'low aborted')
+        CoreAI_assertEqual(low.ticks, 3, 'low no longer ticked')
+        CoreAI_assertEqual(tree.getStatus(), 'running', 'status')
+    }
+)
+
+CoreAI_headlessTest(
+    'BTSequence: finished steps are not re-checked',
+    async () => {
+        const first = new ScriptedNode('success')
+        const second = new ScriptedNode('running')
+        const { runner, tree } = treeScene(
+            new CoreAI_BTSequence([first, second])
+        )
+
+        await runner.run(3)
+        CoreAI_assertEqual(first.ticks, 1, 'first step once')
+        CoreAI_assertEqual(second.ticks, 3, 'second step running')
+
+        second.status = 'success'
+        await runner.run(1)
+        CoreAI_assertEqual(tree.getStatus(), 'success', 'sequence done')
+
+        // A completed root starts over.
+        await runner.run(1)
+        CoreAI_assertEqual(first.ticks, 2, 'restarted')
+
+        second.status = 'failure'
+        await runner.run(1)
+        CoreAI_assertEqual(tree.getStatus(), 'failure', 'step failed')
+    }
+)
+
+CoreAI_headlessTest(
+    "BTParallel: 'all' fails as soon as a condition stops holding",
+    async () => {
+        const condition = new ScriptedNode('success')
+        const leaf = new ScriptedNode('running')
+        const { runner, tree } = treeScene(
+            new CoreAI_BTParallel([condition, leaf], 'all')
+        )
+
+        await runner.run(3)
+        CoreAI_assertEqual(tree.getStatus(), 'running', 'running')
+        CoreAI_assertEqual(condition.ticks, 3, 'condition re-checked')
+
+        condition.status = 'failure'
+        await runner.run(1)
+        CoreAI_assertEqual(tree.getStatus(), 'failure', 'failed')
+        CoreAI_assertEqual(leaf.exits, 1, 'leaf aborted')
+    }
+)
+
+CoreAI_headlessTest(
+    "BTParallel: 'one' succeeds on the first success",
+    async () => {
+        const slow = new ScriptedNode('running')
+        const fast = new ScriptedNode('running')
+        const { runner, tree } = treeScene(
+            new CoreAI_BTParallel([slow, fast], 'one')
+        )
+
+        await runner.run(2)
+        CoreAI_assertEqual(tree.getStatus(), 'running', 'running')
+
+        fast.status = 'success'
+        await runner.run(1)
+        CoreAI_assertEqual(tree.getStatus(), 'success', 'succeeded')
+        CoreAI_assertEqual(slow.exits, 1, 'other child aborted')
+    }
+)
+
+CoreAI_headlessTest(
+    'BTGuard: aborts a running child once the condition fails',
+    async () => {
+        let holds = true
+        const leaf = new ScriptedNode('running')
+        const { runner, tree } = treeScene(
+            new CoreAI_BTGuard(new CoreAI_BTCondition(() => holds), leaf)
+        )
+
+        await runner.run(3)
+        CoreAI_assertEqual(leaf.ticks, 3, 'child runs')
+
+        holds = false
+        await runner.run(1)
+        CoreAI_assertEqual(tree.getStatus(), 'failure', 'guard failed')
+        CoreAI_assertEqual(leaf.exits, 1, 'child aborted')
+        CoreAI_assertEqual(leaf.ticks, 3, 'child not ticked')
+    }
+)
+
+CoreAI_headlessTest(
+    'BTCooldown: fails for cooldownMs after the child completes',
+    async () => {
+        const leaf = new ScriptedNode('success')
+        const { runner, tree } = treeScene(new CoreAI_BTCooldown(leaf, 1000))
+
+        await runner.run(1)
+        CoreAI_assertEqual(tree.getStatus(), 'success', 'first run')
+
+        await runner.advance(500)
+        CoreAI_assertEqual(tree.getStatus(), 'failure', 'cooling down')
+        CoreAI_assertEqual(leaf.ticks, 1, 'child not ticked')
+
+        await runner.advance(600)
+        CoreAI_assertEqual(leaf.ticks, 2, 'child ran again')
+    }
+)
+
+CoreAI_headlessTest(
+    'BTTimeout: aborts the child and fails after timeoutMs',
+    async () => {
+        const leaf = new ScriptedNode('running')
+        const { runner, world, tree } = treeScene(
+            new CoreAI_BTTimeout(leaf, 500)
+        )
+
+        await runner.run(1)
+        const startedAt = world.time
+        while (tree.getStatus() === 'running' && world.time < 2000) {
+            await runner.run(1)
+        }
+
+        CoreAI_assertEqual(tree.getStatus(), 'failure', 'timed out')
+        CoreAI_assert(
+            world.time - startedAt >= 500 && world.time - startedAt < 550,
+            `fails at 500ms, got ${world.time - startedAt}ms`
+        )
+        CoreAI_assertEqual(leaf.exits, 1, 'child aborted')
+    }
+)
@@ -0,0 +1,123 @@
+import { CoreAI_BaseSoldier } from '../../AI/Profiles/BaseSoldier'
+import { CoreAI_ManualClock } from '../../AI/Clock'
+import { CoreAI_StateMachine } from '../../AI/Modules/StateMachine/StateMachine'
+import { CoreAI_HeadlessRunner } from '../HeadlessRunner'
+import { CoreAI_headlessVec } from '../HeadlessWorld'
+import { CoreAI_headlessTest } from '../HeadlessTest'
+import { CoreAI_assert } from '../HeadlessTest'
+import { CoreAI_assertEqual } from '../HeadlessTest'
+
+CoreAI_headlessTest(
+    'Brain: the clock cannot be swapped once ticking',
+    async () => {
+        const runner = new CoreAI_HeadlessRunner()
+        const bot = runner.world.addPlayer(1, CoreAI_headlessVec(0, 0, 0))
+        const brain = runner.addBrain(bot, new CoreAI_BaseSoldier())
+
+        await runner.run(1)
+
+        let threw = false
+        try {
+            brain.setClock(new CoreAI_ManualClock())
+        } catch {
+            threw = true
+        }
+        CoreAI_assert(threw, 'setClock after the first tick throws')
+    }
+)
+
+CoreAI_headlessTest(
+    'Brain: one move result notifies the state machine once',
+    async () => {
+        const runner = new CoreAI_HeadlessRunner()
+        const bot = runner.world.addPlayer(1, CoreAI_headlessVec(0, 0, 0))
+        const brain = runner.addBrain(bot, new CoreAI_BaseSoldier())
+
+        const seen: string[] = []
+        const listen = (on: string) => ({
+            to: 'idle',
+            on,
+            when: () => {
+                seen.push(on)
+                return false
+            },
+        })
+        brain.setStateMachine(
+            new CoreAI_StateMachine({
+                initial: 'idle',
+                states: {
+                    idle: {
+                        transitions: [
+                            listen('OnAIMoveFinished'),
+                            listen('OnAIMoveToSucceeded'),
+                            listen('OnAIMoveToFailed'),
+                        ],
+                    },
+                },
+            })
+        )
+        await runner.run(1)
+
+        brain.OnAIMoveToSucceeded()
+        brain.OnAIMoveToFailed()
+
+        CoreAI_assertEqual(
+            seen.join(),
+            'OnAIMoveToSucceeded,OnAIMoveToFailed',
+            'notified events'
+        )
+    }
+)
+
+CoreAI_headlessTest(
+    'Brain: re-entering a state restores its profile after the game mode swapped it',
+    async () => {
+        const runner = new CoreAI_HeadlessRunner()
+        const bot = runner.world.addPlayer(1, CoreAI_headlessVec(0, 0, 0))
+        const brain = runner.addBrain(bot, new CoreAI_BaseSoldier())
+
+        brain.setStateMachine(
+            new CoreAI_StateMachine({
+                initial: 'fight',
+                states: {
+                    fight: {
+                        profile: new CoreAI_BaseSoldier({
+                            weights: { isInBattle: 90 },
+                        }),
+                        transitions: [{ to: 'fight', on: 'OnAIMoveToFailed' }],
+                    },
+                },
+            })
+        )
+        brain.memory.set('isInBattle', true)
+        await runner.run(2)
+        CoreAI_assertEqual(
+            runner.world.lastBehavior(bot)?.name,
+            'AIBattlefieldBehavior',
+            'state profile'
+        )
+
+        // The game mode installs its own profile (e.g. on vehicle enter).
+        brain.installProfile(
+            new CoreAI_BaseSoldier({ weights: { roamPos: 30 } })
+        )
+        brain.memory.set(
+            'roamPos',
+            CoreAI_headlessVec(0, 0, 30) as unknown as mod.Vector
+        )
+        await runner.run(2)
+        CoreAI_assertEqual(
+            runner.world.lastBehavior(bot)?.name,
+            'AIValidatedMoveToBehavior',
+            'game mode profile'
+        )
+
+        brain.OnAIMoveToFailed()
+        await runner.run(2)
+        CoreAI_assertEqual(
+            runner.world.lastBehavior(bot)?.name,
+            'AIBattlefieldBehavior',
+            'state profile again'
+        )
+    }
+)
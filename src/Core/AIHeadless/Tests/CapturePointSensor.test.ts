@@ -0,0 +1,95 @@
+import { CoreAI_BaseSoldier } from '../../AI/Profiles/BaseSoldier'
+import { CoreAI_HeadlessRunner } from '../HeadlessRunner'
+import { CoreAI_HeadlessCapturePoint } from '../HeadlessWorld'
+import { CoreAI_headlessVec } from '../HeadlessWorld'
+import { CoreAI_headlessTest } from '../HeadlessTest'
+import { CoreAI_assertEqual } from '../HeadlessTest'
+
+/** Team 1 bot at the origin sensing capture points every 100ms. */
+function scene() {
+    const runner = new CoreAI_HeadlessRunner()
+    const world = runner.world
+    const bot = world.addPlayer(1, CoreAI_headlessVec(0, 0, 0))
+    const brain = runner.addBrain(
+        bot,
+        new CoreAI_BaseSoldier({
+            sensors: { capturePointSensor: { intervalMs: 100 } },
+        })
+    )
+
+    let nextId = 100
+    const point = (z: number, owner: number | null = null) =>
+        world.addCapturePoint(nextId++, CoreAI_headlessVec(0, 0, z), owner)
+    const occupy = (cp: CoreAI_HeadlessCapturePoint, team: number) =>
+        cp.playersOnPoint.push(world.addPlayer(team, cp.position, false))
+    const picked = async () => {
+        await runner.run(5)
+        return brain.memory.get('capturePoint') as unknown
+    }
+
+    return { world, point, occupy, picked }
+}
+
+CoreAI_headlessTest(
+    'CapturePointSensor: a point being lost beats neutral and enemy points',
+    async () => {
+        const { point, occupy, picked } = scene()
+        const lost = point(20, 1)
+        lost.progressTeam = lost.owner
+        const neutral = point(-20)
+        const enemy = point(30, 2)
+        occupy(enemy, 2)
+        occupy(enemy, 2)
+
+        CoreAI_assertEqual(await picked(), neutral, 'not being lost')
+
+        occupy(lost, 2)
+        CoreAI_assertEqual(await picked(), lost, 'enemy on our point')
+    }
+)
+
+CoreAI_headlessTest(
+    'CapturePointSensor: weakly defended enemy points beat neutral ones',
+    async () => {
+        const { point, occupy, picked } = scene()
+        const neutral = point(20)
+        const enemy = point(-20, 2)
+        occupy(enemy, 2)
+
+        CoreAI_assertEqual(await picked(), enemy, 'one defender')
+
+        occupy(enemy, 2)
+        CoreAI_assertEqual(await picked(), neutral, 'two defenders')
+    }
+)
+
+CoreAI_headlessTest(
+    'CapturePointSensor: nearer and contested points win among equals',
+    async () => {
+        const { point, occupy, picked } = scene()
+        const far = point(60)
+        const near = point(-20)
+
+        CoreAI_assertEqual(await picked(), near, 'nearer')
+
+        occupy(far, 1)
+        occupy(far, 2)
+        CoreAI_assertEqual(await picked(), near, 'distance still wins')
+
+        const contested = point(20)
+        occupy(contested, 1)
+        occupy(contested, 2)
+        CoreAI_assertEqual(await picked(), contested, 'contested bonus')
+    }
+)
+
+CoreAI_headlessTest(
+    'CapturePointSensor: friendly points alone select nothing',
+    async () => {
+        const { point, picked } = scene()
+        point(20, 1)
+        point(40, 1)
+
+        CoreAI_assertEqual(await picked(), null, 'capturePoint')
+    }
+)
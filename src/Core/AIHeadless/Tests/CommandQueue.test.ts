@@ -0,0 +1,46 @@
+import { CoreAI_CommandQueue } from '../../AI/Modules/Behavior/CommandQueue'
+import { CoreAI_headlessTest } from '../HeadlessTest'
+import { CoreAI_assertEqual } from '../HeadlessTest'
+
+async function settle(): Promise<void> {
+    for (let i = 0; i < 10; i++) {
+        await Promise.resolve()
+    }
+}
+
+CoreAI_headlessTest(
+    'CommandQueue: keeps draining after a failing command',
+    async () => {
+        const queue = new CoreAI_CommandQueue()
+        const ran: string[] = []
+
+        queue.enqueue({
+            name: 'throws',
+            run: () => {
+                throw new Error('boom')
+            },
+        })
+        queue.enqueue({
+            name: 'rejects',
+            run: async () => {
+                await Promise.resolve()
+                throw new Error('boom')
+            },
+        })
+        queue.enqueue({
+            name: 'works',
+            run: async () => {
+                ran.push('works')
+            },
+        })
+        await settle()
+
+        CoreAI_assertEqual(ran.join(), 'works', 'ran')
+        CoreAI_assertEqual(queue.isBusy(), false, 'busy')
+        CoreAI_assertEqual(
+            queue.getLastFailure()?.name,
+            'rejects',
+            'last failure'
+        )
+    }
+)
@@ -0,0 +1,95 @@
+import { CoreAI_BaseSoldier } from '../../AI/Profiles/BaseSoldier'
+import { CoreAI_HeadlessRunner } from '../HeadlessRunner'
+import { CoreAI_HeadlessPlayer } from '../HeadlessWorld'
+import { CoreAI_HeadlessWorld } from '../HeadlessWorld'
+import { CoreAI_headlessVec } from '../HeadlessWorld'
+import { CoreAI_headlessTest } from '../HeadlessTest'
+import { CoreAI_assert } from '../HeadlessTest'
+import { CoreAI_assertEqual } from '../HeadlessTest'
+
+/**
+ * Bot at the origin, `hidden` 10m ahead behind a wall at z=5 and
+ * `open` 15m to the side in plain sight.
+ */
+function scene() {
+    const runner = new CoreAI_HeadlessRunner(new CoreAI_HeadlessWorld(), {
+        resolveRayCast: (ray) => ({
+            point: ray.stop.x < 1 ? CoreAI_headlessVec(0, 1.6, 5) : ray.stop,
+            normal: CoreAI_headlessVec(0, 0, -1),
+        }),
+    })
+    const world = runner.world
+    const bot = world.addPlayer(1, CoreAI_headlessVec(0, 0, 0))
+    const hidden = world.addPlayer(2, CoreAI_headlessVec(0, 0, 10), false)
+    const open = world.addPlayer(2, CoreAI_headlessVec(15, 0, 0), false)
+    const brain = runner.addBrain(
+        bot,
+        new CoreAI_BaseSoldier({
+            sensors: { enemyListSensor: { intervalMs: 100 } },
+        })
+    )
+
+    return { runner, world, bot, hidden, open, brain }
+}
+
+function lastTarget(
+    world: CoreAI_HeadlessWorld,
+    bot: CoreAI_HeadlessPlayer
+): unknown {
+    const calls = world.callsFor(bot, 'AISetTarget')
+    return calls[calls.length - 1]?.args[0] ?? null
+}
+
+CoreAI_headlessTest(
+    'EnemyListSensor: lists enemies, visible ones flagged',
+    async () => {
+        const { runner, hidden, open, brain } = scene()
+
+        await runner.run(15)
+
+        const known = brain.memory.get('knownEnemies')
+        CoreAI_assert(known, 'knownEnemies set')
+        CoreAI_assertEqual(known.length, 2, 'count')
+
+        const byEnemy = (p: CoreAI_HeadlessPlayer) =>
+            known.find((k) => (k.enemy as unknown) === p)
+        CoreAI_assertEqual(byEnemy(open)?.visible, true, 'open visible')
+        CoreAI_assertEqual(byEnemy(hidden)?.visible, false, 'hidden visible')
+        CoreAI_assertEqual<unknown>(known[0].enemy, open, 'best target')
+    }
+)
+
+CoreAI_headlessTest(
+    'TargetPolicies: never aim at an enemy behind a wall',
+    async () => {
+        const { runner, world, bot, hidden, open, brain } = scene()
+
+        // The hidden enemy hit us: it outranks the visible one.
+        brain.memory.set('lastAttacker', hidden as unknown as mod.Player)
+        open.alive = false
+        await runner.run(15)
+
+        CoreAI_assertEqual(lastTarget(world, bot), null, 'no visible target')
+
+        open.alive = true
+        await runner.run(15)
+
+        CoreAI_assertEqual(lastTarget(world, bot), open, 'visible target')
+    }
+)
+
+CoreAI_headlessTest('EnemyListSensor: matches the attacker by id', async () => {
+    const { runner, open, brain } = scene()
+
+    // Same player, distinct handle (the engine does not guarantee one).
+    const handle = Object.assign(
+        Object.create(CoreAI_HeadlessPlayer.prototype),
+        open
+    )
+    brain.memory.set('lastAttacker', handle as mod.Player)
+    await runner.run(15)
+
+    const known = brain.memory.get('knownEnemies') ?? []
+    const entry = known.find((k) => (k.enemy as unknown) === open)
+    CoreAI_assertEqual(entry?.attacker, true, 'attacker flag')
+})
@@ -0,0 +1,69 @@
+import { CoreAI_BaseSoldier } from '../../AI/Profiles/BaseSoldier'
+import { CoreAI_HeadlessRunner } from '../HeadlessRunner'
+import { CoreAI_HeadlessWorld } from '../HeadlessWorld'
+import { CoreAI_headlessVec } from '../HeadlessWorld'
+import { CoreAI_headlessTest } from '../HeadlessTest'
+import { CoreAI_assert } from '../HeadlessTest'
+import { CoreAI_assertEqual } from '../HeadlessTest'
+
+/**
+ * Bot at the origin facing a wall at z=5; an enemy 15m to the side in
+ * plain sight.
+ */
+function scene() {
+    const runner = new CoreAI_HeadlessRunner(new CoreAI_HeadlessWorld(), {
+        resolveRayCast: (ray) => ({
+            point: ray.stop.x < 1 ? CoreAI_headlessVec(0, 1.6, 5) : ray.stop,
+            normal: CoreAI_headlessVec(0, 0, -1),
+        }),
+    })
+    const world = runner.world
+    const bot = world.addPlayer(1, CoreAI_headlessVec(0, 0, 0))
+    const enemy = world.addPlayer(2, CoreAI_headlessVec(15, 0, 0), false)
+    const brain = runner.addBrain(
+        bot,
+        new CoreAI_BaseSoldier({
+            sensors: {
+                enemyListSensor: { intervalMs: 100, losMemoryMs: 150 },
+                enemyTrackSensor: { intervalMs: 100 },
+            },
+        })
+    )
+
+    return { runner, enemy, brain }
+}
+
+CoreAI_headlessTest(
+    'EnemyTrackSensor: no search while the enemy is in sight',
+    async () => {
+        const { runner, brain } = scene()
+
+        await runner.run(15)
+
+        CoreAI_assertEqual(brain.memory.get('searchPos'), null, 'searchPos')
+    }
+)
+
+CoreAI_headlessTest(
+    'EnemyTrackSensor: searches where the enemy was last seen',
+    async () => {
+        const { runner, enemy, brain } = scene()
+
+        await runner.run(15)
+
+        // Out of sight behind the wall, then moving on while still
+        // remembered as attacker.
+        enemy.position = CoreAI_headlessVec(0, 0, 20)
+        await runner.run(30)
+        enemy.position = CoreAI_headlessVec(0, 0, 60)
+        brain.memory.set('lastAttacker', enemy as unknown as mod.Player)
+        await runner.run(30)
+
+        const searchPos = brain.memory.get('searchPos')
+        CoreAI_assert(searchPos, 'searchPos set')
+        CoreAI_assert(
+            mod.ZComponentOf(searchPos) <= 20,
+            `searchPos at last sighting, got z=${mod.ZComponentOf(searchPos)}`
+        )
+    }
+)
@@ -0,0 +1,158 @@
+import { CoreAI_BaseSoldier } from '../../AI/Profiles/BaseSoldier'
+import { CoreAI_ABTNode } from '../../AI/Modules/BehaviorTree/BTNode'
+import { CoreAI_BTSequence } from '../../AI/Modules/BehaviorTree/Composites'
+import { CoreAI_BTCondition } from '../../AI/Modules/BehaviorTree/Conditions'
+import { CoreAI_BTWait } from '../../AI/Modules/BehaviorTree/Leaves'
+import { CoreAI_GoapConfig } from '../../AI/Modules/Goap/GoapController'
+import { CoreAI_GoapController } from '../../AI/Modules/Goap/GoapController'
+import { CoreAI_GoapAction } from '../../AI/Modules/Goap/GoapPlanner'
+import { CoreAI_GoapState } from '../../AI/Modules/Goap/GoapPlanner'
+import { CoreAI_HeadlessRunner } from '../HeadlessRunner'
+import { CoreAI_headlessVec } from '../HeadlessWorld'
+import { CoreAI_headlessTest } from '../HeadlessTest'
+import { CoreAI_assertEqual } from '../HeadlessTest'
+
+/** Bot at the origin driven by a GOAP controller built from cfg. */
+function goapScene(cfg: CoreAI_GoapConfig) {
+    const runner = new CoreAI_HeadlessRunner()
+    const bot = runner.world.addPlayer(1, CoreAI_headlessVec(0, 0, 0))
+    const goap = new CoreAI_GoapController(cfg)
+    const brain = runner.addBrain(
+        bot,
+        new CoreAI_BaseSoldier({ controller: () => goap })
+    )
+
+    return { runner, bot, goap, brain }
+}
+
+/** Action running node (by default a wait that outlasts the test). */
+function action(
+    name: string,
+    preconditions: CoreAI_GoapState,
+    effects: CoreAI_GoapState,
+    cost?: number,
+    node: CoreAI_ABTNode = new CoreAI_BTWait(60_000)
+): CoreAI_GoapAction {
+    return { name, preconditions, effects, cost, node }
+}
+
+/** Node that waits durationMs, then runs apply and succeeds. */
+function after(durationMs: number, apply: () => void): CoreAI_ABTNode {
+    return new CoreAI_BTSequence([
+        new CoreAI_BTWait(durationMs),
+        new CoreAI_BTCondition(() => {
+            apply()
+            return true
+        }),
+    ])
+}
+
+CoreAI_headlessTest(
+    'planGoap: picks the cheapest plan with costs below 1',
+    async () => {
+        const { runner, goap } = goapScene({
+            facts: {},
+            actions: [
+                action('direct', {}, { done: true }, 1),
+                action('prepare', {}, { ready: true }, 0.1),
+                action('finish', { ready: true }, { done: true }, 0.1),
+            ],
+            goals: [
+                { name: 'finish', conditions: { done: true }, priority: 1 },
+            ],
+        })
+
+        await runner.run(1)
+
+        CoreAI_assertEqual(goap.getPlan().join(), 'prepare,finish', 'plan')
+    }
+)
+
+CoreAI_headlessTest('GoapController: runs the plan step by step', async () => {
+    const world = { armed: false, done: false }
+    const { runner, goap } = goapScene({
+        facts: { armed: () => world.armed, done: () => world.done },
+        actions: [
+            action(
+                'finish',
+                { armed: true },
+                { done: true },
+                1,
+                after(300, () => (world.done = true))
+            ),
+            action(
+                'arm',
+                {},
+                { armed: true },
+                1,
+                after(300, () => (world.armed = true))
+            ),
+        ],
+        goals: [{ name: 'finish', conditions: { done: true }, priority: 1 }],
+    })
+
+    await runner.run(1)
+    CoreAI_assertEqual(goap.getGoal(), 'finish', 'goal')
+    CoreAI_assertEqual(goap.getPlan().join(), 'arm,finish', 'plan')
+
+    await runner.advance(400)
+    CoreAI_assertEqual(goap.getPlan().join(), 'finish', 'first step done')
+
+    await runner.advance(400)
+    CoreAI_assertEqual(goap.getGoal(), null, 'goal reached')
+    CoreAI_assertEqual(goap.getPlan().length, 0, 'plan done')
+})
+
+CoreAI_headlessTest('GoapController: replans when a step fails', async () => {
+    let shortcutTried = false
+    const shortcut = action(
+        'shortcut',
+        {},
+        { done: true },
+        1,
+        new CoreAI_BTCondition(() => {
+            shortcutTried = true
+            return false
+        })
+    )
+    shortcut.available = () => !shortcutTried
+
+    const { runner, goap } = goapScene({
+        facts: {},
+        actions: [shortcut, action('detour', {}, { done: true }, 5)],
+        goals: [{ name: 'finish', conditions: { done: true }, priority: 1 }],
+    })
+
+    await runner.run(1)
+    CoreAI_assertEqual(shortcutTried, true, 'cheapest step tried')
+
+    await runner.run(1)
+    CoreAI_assertEqual(goap.getPlan().join(), 'detour', 'replanned')
+})
+
+CoreAI_headlessTest(
+    'GoapController: plans for the highest unsatisfied goal',
+    async () => {
+        const world = { safe: false }
+        const { runner, goap } = goapScene({
+            facts: { safe: () => world.safe },
+            actions: [
+                action('hide', {}, { safe: true }),
+                action('attack', {}, { won: true }),
+            ],
+            goals: [
+                { name: 'win', conditions: { won: true }, priority: 1 },
+                { name: 'survive', conditions: { safe: true }, priority: 2 },
+            ],
+        })
+
+        await runner.run(1)
+        CoreAI_assertEqual(goap.getGoal(), 'survive', 'urgent goal')
+        CoreAI_assertEqual(goap.getPlan().join(), 'hide', 'urgent plan')
+
+        world.safe = true
+        await runner.run(1)
+        CoreAI_assertEqual(goap.getGoal(), 'win', 'next goal')
+        CoreAI_assertEqual(goap.getPlan().join(), 'attack', 'next plan')
+    }
+)
@@ -0,0 +1,89 @@
+import { CoreAI_BaseSoldier } from '../../AI/Profiles/BaseSoldier'
+import { CoreAI_HeadlessRunner } from '../HeadlessRunner'
+import { CoreAI_HeadlessPlayer } from '../HeadlessWorld'
+import { CoreAI_headlessVec } from '../HeadlessWorld'
+import { CoreAI_headlessTest } from '../HeadlessTest'
+import { CoreAI_assertEqual } from '../HeadlessTest'
+
+/** Team 1 bot at the origin listening every 100ms. */
+function scene() {
+    const runner = new CoreAI_HeadlessRunner()
+    const world = runner.world
+    const bot = world.addPlayer(1, CoreAI_headlessVec(0, 0, 0))
+    const brain = runner.addBrain(
+        bot,
+        new CoreAI_BaseSoldier({
+            sensors: { hearingSensor: { intervalMs: 100 } },
+        })
+    )
+
+    /** Player z metres away, firing weapon. */
+    const shooter = (team: number, z: number, weapon: string) => {
+        const p = world.addPlayer(team, CoreAI_headlessVec(0, 0, z), false)
+        p.weapons = [weapon]
+        p.flags.IsFiring = true
+        return p
+    }
+    const heard = async () => {
+        await runner.run(5)
+        return brain.memory.get('investigatePos') as unknown
+    }
+
+    return { world, shooter, heard }
+}
+
+CoreAI_headlessTest(
+    'HearingSensor: gunfire carries as far as the weapon class',
+    async () => {
+        const { shooter, heard } = scene()
+        const sniper = shooter(2, 120, 'Sniper_PSR')
+
+        CoreAI_assertEqual(await heard(), sniper.position, 'sniper at 120m')
+    }
+)
+
+CoreAI_headlessTest(
+    'HearingSensor: a sidearm past its range is not heard',
+    async () => {
+        const { shooter, heard } = scene()
+        const pistol = shooter(2, 60, 'Sniper_PSR')
+        pistol.activeSlot = 'SecondaryWeapon'
+
+        CoreAI_assertEqual(await heard(), null, 'sidearm at 60m')
+    }
+)
+
+CoreAI_headlessTest('HearingSensor: the loudest noise wins', async () => {
+    const { shooter, heard } = scene()
+    shooter(2, 50, 'AssaultRifle_M433')
+    const smg = shooter(1, -20, 'SMG_KV9')
+
+    // 1 - 20/70 beats 1 - 50/100; friendly gunfire counts.
+    CoreAI_assertEqual(await heard(), smg.position, 'nearby smg')
+})
+
+CoreAI_headlessTest(
+    'HearingSensor: hears hostile vehicles moving fast enough',
+    async () => {
+        const { world, heard } = scene()
+        const drive = (team: number, z: number, speed: number) => {
+            const tank = world.addVehicle(CoreAI_headlessVec(0, 0, z))
+            tank.model = 'Abrams'
+            tank.velocity = CoreAI_headlessVec(speed, 0, 0)
+            const driver: CoreAI_HeadlessPlayer = world.addPlayer(
+                team,
+                tank.position,
+                false
+            )
+            world.seat(driver, tank, 0)
+            return tank
+        }
+
+        drive(2, 50, 1)
+        drive(1, 20, 10)
+        CoreAI_assertEqual(await heard(), null, 'idle or friendly')
+
+        const moving = drive(2, 100, 10)
+        CoreAI_assertEqual(await heard(), moving.position, 'armor at 100m')
+    }
+)
@@ -0,0 +1,94 @@
+import { CoreAI_MoveBlacklist } from '../../AI/Modules/Memory/MoveBlacklist'
+import { CoreAI_HeadlessRunner } from '../HeadlessRunner'
+import { CoreAI_HeadlessWorld } from '../HeadlessWorld'
+import { CoreAI_headlessVec } from '../HeadlessWorld'
+import { CoreAI_headlessTest } from '../HeadlessTest'
+import { CoreAI_assertEqual } from '../HeadlessTest'
+
+/** Radius 3m, 1s base blacklist, at most 4s. */
+function blacklistScene() {
+    CoreAI_HeadlessRunner.install(new CoreAI_HeadlessWorld())
+    const vec = (x: number) =>
+        CoreAI_headlessVec(x, 0, 0) as unknown as mod.Vector
+
+    return { blacklist: new CoreAI_MoveBlacklist(3, 1000, 4000), vec }
+}
+
+CoreAI_headlessTest(
+    'MoveBlacklist: repeated failures double the time up to maxMs',
+    () => {
+        const { blacklist, vec } = blacklistScene()
+        const target = vec(10)
+
+        blacklist.record(target, 0)
+        CoreAI_assertEqual(blacklist.isBlacklisted(target, 999), true, '1s')
+        CoreAI_assertEqual(blacklist.isBlacklisted(target, 1000), false, 'ends')
+
+        // Within the radius counts as the same target.
+        blacklist.record(vec(12), 1000)
+        CoreAI_assertEqual(blacklist.isBlacklisted(target, 2999), true, '2s')
+        CoreAI_assertEqual(blacklist.isBlacklisted(target, 3000), false, 'ends')
+
+        blacklist.record(target, 3000)
+        blacklist.record(target, 3000)
+        blacklist.record(target, 3000)
+        CoreAI_assertEqual(blacklist.isBlacklisted(target, 6999), true, 'max')
+        CoreAI_assertEqual(
+            blacklist.isBlacklisted(target, 7000),
+            false,
+            'capped'
+        )
+
+        CoreAI_assertEqual(
+            blacklist.isBlacklisted(vec(14), 3000),
+            false,
+            'outside radius'
+        )
+    }
+)
+
+CoreAI_headlessTest('MoveBlacklist: pruning forgets old failures', () => {
+    const { blacklist, vec } = blacklistScene()
+    const target = vec(10)
+
+    blacklist.record(target, 0)
+    blacklist.record(target, 1000)
+
+    // Ended at 3000; kept until 3000 + maxMs, so the next failure doubles.
+    blacklist.prune(6999)
+    blacklist.record(target, 6999)
+    CoreAI_assertEqual(blacklist.isBlacklisted(target, 10_998), true, 'doubled')
+
+    // Ended at 10999; pruned at 14999, so the next failure starts over.
+    blacklist.prune(14_999)
+    blacklist.record(target, 14_999)
+    CoreAI_assertEqual(blacklist.isBlacklisted(target, 15_998), true, 'base')
+    CoreAI_assertEqual(blacklist.isBlacklisted(target, 15_999), false, 'reset')
+})
+
+CoreAI_headlessTest(
+    'MoveBlacklist: the move result applies to the issued target',
+    () => {
+        const { blacklist, vec } = blacklistScene()
+
+        blacklist.setTarget(vec(10))
+        blacklist.onFailed(0)
+        CoreAI_assertEqual(blacklist.isBlacklisted(vec(10), 0), true, 'failed')
+        CoreAI_assertEqual(blacklist.getTarget(), null, 'target consumed')
+
+        blacklist.onFailed(0)
+        CoreAI_assertEqual(
+            blacklist.isBlacklisted(vec(10), 1500),
+            false,
+            'no target'
+        )
+
+        blacklist.setTarget(vec(11))
+        blacklist.onSucceeded()
+        CoreAI_assertEqual(
+            blacklist.isBlacklisted(vec(10), 0),
+            false,
+            'reached'
+        )
+    }
+)
@@ -0,0 +1,79 @@
+import { CoreAI_RayCastBroker } from '../../AI/Modules/Perception/RayCastBroker'
+import { CoreAI_RayCastResult } from '../../AI/Modules/Perception/RayCastBroker'
+import { CoreAI_HeadlessRunner } from '../HeadlessRunner'
+import { CoreAI_HeadlessWorld } from '../HeadlessWorld'
+import { CoreAI_headlessVec } from '../HeadlessWorld'
+import { CoreAI_headlessTest } from '../HeadlessTest'
+import { CoreAI_assertEqual } from '../HeadlessTest'
+
+/** Broker for a headless bot on a clock the test sets. */
+function brokerScene() {
+    const world = new CoreAI_HeadlessWorld()
+    CoreAI_HeadlessRunner.install(world)
+    const bot = world.addPlayer(1, CoreAI_headlessVec(0, 0, 0))
+    const clock = { now: 0 }
+    const broker = new CoreAI_RayCastBroker(
+        bot as unknown as mod.Player,
+        () => clock.now
+    )
+    const results: Array<[unknown, CoreAI_RayCastResult]> = []
+    const cast = (target: string) =>
+        broker.cast(
+            CoreAI_headlessVec(0, 0, 0) as unknown as mod.Vector,
+            CoreAI_headlessVec(0, 0, 10) as unknown as mod.Vector,
+            (result, request) => results.push([request.target, result]),
+            target
+        )
+
+    return { world, clock, broker, results, cast }
+}
+
+CoreAI_headlessTest(
+    'RayCastBroker: matches results to requests in issue order',
+    () => {
+        const { world, broker, results, cast } = brokerScene()
+
+        cast('first')
+        cast('second')
+        CoreAI_assertEqual(world.pendingRayCasts.length, 2, 'engine casts')
+
+        const point = CoreAI_headlessVec(0, 0, 4) as unknown as mod.Vector
+        broker.resolveHit(point, point)
+        broker.resolveMiss()
+        broker.resolveMiss()
+
+        CoreAI_assertEqual(results.length, 2, 'results')
+        CoreAI_assertEqual(results[0][0], 'first', 'first target')
+        CoreAI_assertEqual(results[0][1].outcome, 'hit', 'first outcome')
+        CoreAI_assertEqual(results[0][1].point, point, 'hit point')
+        CoreAI_assertEqual(results[1][0], 'second', 'second target')
+        CoreAI_assertEqual(results[1][1].outcome, 'miss', 'second outcome')
+        CoreAI_assertEqual(broker.getInFlightCount(), 0, 'in flight')
+    }
+)
+
+CoreAI_headlessTest(
+    'RayCastBroker: times out unanswered requests after 1s',
+    () => {
+        const { clock, broker, results, cast } = brokerScene()
+
+        cast('lost')
+        clock.now = 500
+        cast('answered')
+
+        clock.now = 999
+        broker.expire()
+        CoreAI_assertEqual(results.length, 0, 'before timeout')
+
+        // The late result belongs to the request still in flight.
+        clock.now = 1000
+        broker.resolveMiss()
+
+        CoreAI_assertEqual(results.length, 2, 'results')
+        CoreAI_assertEqual(results[0][0], 'lost', 'timed out target')
+        CoreAI_assertEqual(results[0][1].outcome, 'timeout', 'timeout')
+        CoreAI_assertEqual(results[0][1].time, 1000, 'timeout time')
+        CoreAI_assertEqual(results[1][0], 'answered', 'answered target')
+        CoreAI_assertEqual(results[1][1].outcome, 'miss', 'answered outcome')
+    }
+)
@@ -0,0 +1,99 @@
+import { CoreAI_BaseSoldier } from '../../AI/Profiles/BaseSoldier'
+import { CoreAI_HeadlessRunner } from '../HeadlessRunner'
+import { CoreAI_HeadlessVector } from '../HeadlessWorld'
+import { CoreAI_headlessVec } from '../HeadlessWorld'
+import { CoreAI_headlessTest } from '../HeadlessTest'
+import { CoreAI_assert } from '../HeadlessTest'
+import { CoreAI_assertEqual } from '../HeadlessTest'
+
+function roamProfile(points: CoreAI_HeadlessVector[]): CoreAI_BaseSoldier {
+    return new CoreAI_BaseSoldier({
+        weights: { roamPos: 30 },
+        sensors: {
+            roamSensor: {
+                getWPs: () => points as unknown as mod.Vector[],
+                intervalMs: 100,
+                ttlMs: 60_000,
+            },
+        },
+    })
+}
+
+CoreAI_headlessTest(
+    'RoamSensor: picks a waypoint and moves to it',
+    async () => {
+        const runner = new CoreAI_HeadlessRunner()
+        const bot = runner.world.addPlayer(1, CoreAI_headlessVec(0, 0, 0))
+        const wp = CoreAI_headlessVec(0, 0, 25)
+        const brain = runner.addBrain(bot, roamProfile([wp]))
+
+        await runner.run(10)
+
+        CoreAI_assertEqual<unknown>(brain.memory.get('roamPos'), wp, 'roamPos')
+        const move = runner.world.lastBehavior(bot)
+        CoreAI_assertEqual(move?.name, 'AIValidatedMoveToBehavior', 'behavior')
+        CoreAI_assertEqual(move?.args[0], wp, 'move target')
+    }
+)
+
+CoreAI_headlessTest(
+    'RoamSensor: never picks the waypoint it stands on',
+    async () => {
+        const runner = new CoreAI_HeadlessRunner()
+        const bot = runner.world.addPlayer(1, CoreAI_headlessVec(0, 0, 0))
+        const here = CoreAI_headlessVec(1, 0, 1)
+        const brain = runner.addBrain(bot, roamProfile([here]))
+
+        await runner.run(10)
+
+        CoreAI_assertEqual(brain.memory.get('roamPos'), null, 'roamPos')
+    }
+)
+
+CoreAI_headlessTest('RoamSensor: does not turn back while moving', async () => {
+    const ahead = CoreAI_headlessVec(0, 0, 25)
+    const behind = CoreAI_headlessVec(0, 0, -25)
+
+    // Jitter would pick either point half the time without the filter.
+    for (let seed = 1; seed <= 10; seed++) {
+        const runner = new CoreAI_HeadlessRunner()
+        const bot = runner.world.addPlayer(1, CoreAI_headlessVec(0, 0, 0))
+        bot.velocity = CoreAI_headlessVec(0, 0, 3)
+        const brain = runner.addBrain(bot, roamProfile([behind, ahead]))
+        brain.setSeed(seed)
+
+        await runner.run(10)
+
+        CoreAI_assertEqual<unknown>(
+            brain.memory.get('roamPos'),
+            ahead,
+            `roamPos (seed ${seed})`
+        )
+    }
+})
+
+CoreAI_headlessTest(
+    'RoamSensor: keeps its target until it expires',
+    async () => {
+        const runner = new CoreAI_HeadlessRunner()
+        const bot = runner.world.addPlayer(1, CoreAI_headlessVec(0, 0, 0))
+        const points = [
+            CoreAI_headlessVec(20, 0, 0),
+            CoreAI_headlessVec(-20, 0, 0),
+        ]
+        const brain = runner.addBrain(bot, roamProfile(points))
+
+        await runner.run(10)
+        const first = brain.memory.get('roamPos')
+        CoreAI_assert(first, 'roamPos set')
+
+        await runner.run(60)
+
+        CoreAI_assertEqual(brain.memory.get('roamPos'), first, 'roamPos')
+        CoreAI_assertEqual(
+            runner.world.callsFor(bot, 'AIValidatedMoveToBehavior').length,
+            1,
+            'move orders'
+        )
+    }
+)
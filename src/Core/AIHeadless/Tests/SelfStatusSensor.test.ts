@@ -0,0 +1,88 @@
+import { CoreAI_BaseSoldier } from '../../AI/Profiles/BaseSoldier'
+import { CoreAI_HeadlessRunner } from '../HeadlessRunner'
+import { CoreAI_headlessVec } from '../HeadlessWorld'
+import { CoreAI_headlessTest } from '../HeadlessTest'
+import { CoreAI_assert } from '../HeadlessTest'
+import { CoreAI_assertEqual } from '../HeadlessTest'
+
+/** Team 1 bot at the origin attacked by an enemy 20m ahead. */
+function scene() {
+    const runner = new CoreAI_HeadlessRunner()
+    const world = runner.world
+    const bot = world.addPlayer(1, CoreAI_headlessVec(0, 0, 0))
+    const enemy = world.addPlayer(2, CoreAI_headlessVec(0, 0, 20), false)
+    const brain = runner.addBrain(
+        bot,
+        new CoreAI_BaseSoldier({
+            sensors: { selfStatusSensor: { intervalMs: 100 } },
+        })
+    )
+    brain.memory.set('lastAttacker', enemy as unknown as mod.Player)
+
+    const sample = async (health: number) => {
+        bot.health = health
+        await runner.run(5)
+    }
+
+    return { world, bot, brain, sample }
+}
+
+CoreAI_headlessTest(
+    'SelfStatusSensor: health flags and retreat hysteresis',
+    async () => {
+        const { brain, sample } = scene()
+
+        await sample(40)
+        CoreAI_assertEqual(brain.memory.get('lowHealth'), true, 'low')
+        CoreAI_assertEqual(
+            brain.memory.get('criticalHealth'),
+            false,
+            'critical'
+        )
+        CoreAI_assertEqual(brain.memory.get('retreatPos'), null, 'holds')
+
+        await sample(20)
+        CoreAI_assertEqual(brain.memory.get('criticalHealth'), true, 'critical')
+        CoreAI_assert(brain.memory.get('retreatPos'), 'retreats')
+
+        await sample(60)
+        CoreAI_assertEqual(brain.memory.get('lowHealth'), false, 'not low')
+        CoreAI_assert(brain.memory.get('retreatPos'), 'still retreating')
+
+        await sample(80)
+        CoreAI_assertEqual(brain.memory.get('retreatPos'), null, 'recovered')
+    }
+)
+
+CoreAI_headlessTest(
+    'SelfStatusSensor: falls back to a friend away from the threat',
+    async () => {
+        const { world, sample, brain } = scene()
+        world.addPlayer(1, CoreAI_headlessVec(0, 0, 25), false)
+        const behind = world.addPlayer(1, CoreAI_headlessVec(5, 0, -30), false)
+
+        await sample(20)
+
+        CoreAI_assertEqual<unknown>(
+            brain.memory.get('retreatPos'),
+            behind.position,
+            'retreatPos'
+        )
+    }
+)
+
+CoreAI_headlessTest(
+    'SelfStatusSensor: backs off from the threat without friends',
+    async () => {
+        const { sample, brain } = scene()
+
+        await sample(20)
+
+        const retreatPos = brain.memory.get('retreatPos')
+        CoreAI_assert(retreatPos, 'retreatPos set')
+        CoreAI_assert(
+            Math.abs(mod.ZComponentOf(retreatPos) + 25) < 1e-6,
+            `25m straight back, got z=${mod.ZComponentOf(retreatPos)}`
+        )
+    }
+)
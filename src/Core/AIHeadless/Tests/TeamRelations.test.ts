@@ -0,0 +1,91 @@
+import { CoreAI_BaseSoldier } from '../../AI/Profiles/BaseSoldier'
+import { CoreAI_TeamRelations } from '../../AI/TeamRelations'
+import { CoreAI_HeadlessRunner } from '../HeadlessRunner'
+import { CoreAI_HeadlessWorld } from '../HeadlessWorld'
+import { CoreAI_headlessVec } from '../HeadlessWorld'
+import { CoreAI_headlessTest } from '../HeadlessTest'
+import { CoreAI_assert } from '../HeadlessTest'
+import { CoreAI_assertEqual } from '../HeadlessTest'
+
+function ids(players: mod.Player[]): string {
+    return players
+        .map((p) => mod.GetObjId(p))
+        .sort((a, b) => a - b)
+        .join()
+}
+
+CoreAI_headlessTest(
+    'TeamRelations: free-for-all makes teammates hostile',
+    () => {
+        const world = new CoreAI_HeadlessWorld()
+        CoreAI_HeadlessRunner.install(world)
+        const add = (team: number, x: number) =>
+            world.addPlayer(team, CoreAI_headlessVec(x, 0, 0))
+        const deadEnemy = add(2, 30)
+        deadEnemy.alive = false
+        const [bot, mate, other] = [add(1, 0), add(1, 10), add(2, 20)].map(
+            (p) => p as unknown as mod.Player
+        )
+
+        const ffa = new CoreAI_TeamRelations(true)
+
+        CoreAI_assertEqual(ffa.isHostile(bot, mate), true, 'teammate')
+        CoreAI_assertEqual(ffa.isHostile(bot, other), true, 'other team')
+        CoreAI_assertEqual(ffa.isFriendly(bot, bot), true, 'self')
+        CoreAI_assertEqual(
+            ids(ffa.getEnemies(bot)),
+            ids([mate, other]),
+            'alive enemies'
+        )
+        CoreAI_assertEqual(
+            ffa.getClosestEnemy(bot, mod.GetObjectPosition(bot)),
+            mate,
+            'closest enemy'
+        )
+
+        const teams = new CoreAI_TeamRelations()
+        CoreAI_assertEqual(ids(teams.getEnemies(bot)), ids([other]), 'teams')
+    }
+)
+
+CoreAI_headlessTest('TeamRelations: explicit pairs apply both ways', () => {
+    const teams = new CoreAI_TeamRelations()
+    teams.set(2, 1, 'friendly')
+    teams.set(3, 3, 'hostile')
+
+    CoreAI_assertEqual(teams.getTeamRelation(1, 2), 'friendly', '1-2')
+    CoreAI_assertEqual(teams.getTeamRelation(2, 1), 'friendly', '2-1')
+    CoreAI_assertEqual(teams.getTeamRelation(1, 3), 'hostile', '1-3')
+    CoreAI_assertEqual(teams.getTeamRelation(3, 3), 'hostile', 'infected')
+    CoreAI_assertEqual(teams.getTeamRelation(1, 1), 'friendly', '1-1')
+
+    teams.setDefault('neutral')
+    CoreAI_assertEqual(teams.getTeamRelation(1, 3), 'neutral', 'default')
+})
+
+CoreAI_headlessTest(
+    'TeamRelations: sensors list teammates as enemies in free-for-all',
+    async () => {
+        const runner = new CoreAI_HeadlessRunner()
+        const bot = runner.world.addPlayer(1, CoreAI_headlessVec(0, 0, 0))
+        const mate = runner.world.addPlayer(
+            1,
+            CoreAI_headlessVec(10, 0, 0),
+            false
+        )
+        const brain = runner.addBrain(
+            bot,
+            new CoreAI_BaseSoldier({
+                sensors: { enemyListSensor: { intervalMs: 100 } },
+            })
+        )
+        brain.setTeamRelations(new CoreAI_TeamRelations(true))
+
+        await runner.run(10)
+
+        const known = brain.memory.get('knownEnemies')
+        CoreAI_assert(known, 'knownEnemies set')
+        CoreAI_assertEqual(known.length, 1, 'count')
+        CoreAI_assertEqual<unknown>(known[0].enemy, mate, 'teammate')
+    }
+)
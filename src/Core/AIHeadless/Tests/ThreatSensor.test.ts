@@ -0,0 +1,83 @@
+import { CoreAI_BaseSoldier } from '../../AI/Profiles/BaseSoldier'
+import { CoreAI_HeadlessRunner } from '../HeadlessRunner'
+import { CoreAI_headlessVec } from '../HeadlessWorld'
+import { CoreAI_headlessTest } from '../HeadlessTest'
+import { CoreAI_assertEqual } from '../HeadlessTest'
+
+/** Team 1 bot at the origin; two enemies and a teammate around it. */
+function scene() {
+    const runner = new CoreAI_HeadlessRunner()
+    const world = runner.world
+    const bot = world.addPlayer(1, CoreAI_headlessVec(0, 0, 0))
+    const east = world.addPlayer(2, CoreAI_headlessVec(10, 0, 0), false)
+    const west = world.addPlayer(2, CoreAI_headlessVec(-10, 0, 0), false)
+    const mate = world.addPlayer(1, CoreAI_headlessVec(0, 0, 10), false)
+    const brain = runner.addBrain(
+        bot,
+        new CoreAI_BaseSoldier({
+            sensors: { threatSensor: { intervalMs: 100, ttlMs: 2000 } },
+        })
+    )
+
+    return { runner, bot, east, west, mate, brain }
+}
+
+CoreAI_headlessTest(
+    'ThreatSensor: the attacker that dealt most damage is remembered',
+    async () => {
+        const { runner, bot, east, west, mate, brain } = scene()
+        await runner.run(5)
+
+        runner.damage(bot, east, 10)
+        CoreAI_assertEqual<unknown>(
+            brain.memory.get('lastAttacker'),
+            east,
+            'first hit'
+        )
+        CoreAI_assertEqual<unknown>(
+            brain.memory.get('lastAttackerPos'),
+            east.position,
+            'hit from'
+        )
+
+        runner.damage(bot, west, 30)
+        CoreAI_assertEqual<unknown>(
+            brain.memory.get('lastAttacker'),
+            west,
+            'harder hit'
+        )
+
+        runner.damage(bot, east, 25)
+        CoreAI_assertEqual<unknown>(
+            brain.memory.get('lastAttacker'),
+            east,
+            'most total damage'
+        )
+
+        runner.damage(bot, mate, 20)
+        CoreAI_assertEqual<unknown>(
+            brain.memory.get('lastAttacker'),
+            east,
+            'friendly fire ignored'
+        )
+    }
+)
+
+CoreAI_headlessTest(
+    'ThreatSensor: dead or quiet attackers are dropped',
+    async () => {
+        const { runner, bot, east, brain } = scene()
+        await runner.run(5)
+
+        runner.damage(bot, east, 10)
+        east.alive = false
+        await runner.run(5)
+        CoreAI_assertEqual(brain.memory.get('lastAttacker'), null, 'dead')
+
+        east.alive = true
+        runner.damage(bot, east, 10)
+        await runner.advance(2100)
+        CoreAI_assertEqual(brain.memory.get('lastAttacker'), null, 'expired')
+        CoreAI_assertEqual(brain.memory.get('lastAttackerPos'), null, 'pos')
+    }
+)
@@ -0,0 +1,151 @@
+import { CoreAI_BaseSoldier } from '../../AI/Profiles/BaseSoldier'
+import { CoreAI_Brain } from '../../AI/Brain'
+import { CoreAI_MemoryFields } from '../../AI/Modules/Memory/MemoryManager'
+import { CoreAI_KeyScore } from '../../AI/Modules/Behavior/Utility'
+import { CoreAI_Curves } from '../../AI/Modules/Behavior/Utility'
+import { CoreAI_UtilityInputs } from '../../AI/Modules/Behavior/Utility'
+import { CoreAI_HeadlessRunner } from '../HeadlessRunner'
+import { CoreAI_headlessVec } from '../HeadlessWorld'
+import { CoreAI_headlessTest } from '../HeadlessTest'
+import { CoreAI_assert } from '../HeadlessTest'
+import { CoreAI_assertEqual } from '../HeadlessTest'
+
+function utilityScene(
+    weights: Partial<Record<keyof CoreAI_MemoryFields, CoreAI_KeyScore>>
+) {
+    const runner = new CoreAI_HeadlessRunner()
+    const bot = runner.world.addPlayer(1, CoreAI_headlessVec(0, 0, 0))
+    const brain = runner.addBrain(bot, new CoreAI_BaseSoldier({ weights }))
+
+    return { runner, bot, brain }
+}
+
+/** Score of key in the latest decision, null if skipped. */
+function scoreOf(
+    brain: CoreAI_Brain,
+    key: keyof CoreAI_MemoryFields
+): number | null {
+    const candidate = brain
+        .getDecisionTrace()
+        .getLast()
+        ?.candidates.find((c) => c.key === key)
+    CoreAI_assert(candidate, `${key} is a candidate`)
+
+    return candidate.score
+}
+
+function assertClose(actual: number | null, expected: number, msg: string) {
+    CoreAI_assert(
+        actual !== null && Math.abs(actual - expected) < 1e-6,
+        `${msg}: expected ${expected}, got ${actual}`
+    )
+}
+
+CoreAI_headlessTest('Curves: map 0..1 onto 0..1', () => {
+    assertClose(CoreAI_Curves.linear(2)(0.75), 1, 'linear clamps')
+    assertClose(CoreAI_Curves.linear(1, 0.25)(0.5), 0.75, 'linear offset')
+    assertClose(CoreAI_Curves.inverse()(0.25), 0.75, 'inverse')
+    assertClose(CoreAI_Curves.power(2)(0.5), 0.25, 'power')
+    assertClose(CoreAI_Curves.logistic(10, 0.5)(0.5), 0.5, 'logistic')
+    assertClose(CoreAI_Curves.step(0.5)(0.49), 0, 'step below')
+    assertClose(CoreAI_Curves.step(0.5)(0.5), 1, 'step at')
+})
+
+CoreAI_headlessTest(
+    'Utility: considerations scale the weight and can zero it',
+    async () => {
+        const { runner, bot, brain } = utilityScene({
+            retreatPos: {
+                weight: 100,
+                considerations: [
+                    {
+                        input: CoreAI_UtilityInputs.health(),
+                        curve: CoreAI_Curves.inverse(),
+                    },
+                ],
+            },
+            isInBattle: 50,
+        })
+
+        brain.memory.set(
+            'retreatPos',
+            CoreAI_headlessVec(0, 0, -30) as unknown as mod.Vector
+        )
+        brain.memory.set('isInBattle', true)
+        await runner.run(2)
+
+        CoreAI_assertEqual(
+            brain.getDecisionTrace().getLast()?.key,
+            'isInBattle',
+            'full health'
+        )
+        CoreAI_assertEqual(scoreOf(brain, 'retreatPos'), 0, 'retreat score')
+
+        bot.health = 20
+        await runner.run(2)
+
+        CoreAI_assertEqual(
+            brain.getDecisionTrace().getLast()?.key,
+            'retreatPos',
+            'wounded'
+        )
+        assertClose(scoreOf(brain, 'retreatPos'), 80, 'retreat score')
+        assertClose(scoreOf(brain, 'isInBattle'), 50, 'constant weight')
+    }
+)
+
+CoreAI_headlessTest(
+    'Utility: min/max normalize the input before the curve',
+    async () => {
+        const { runner, brain } = utilityScene({
+            roamPos: {
+                weight: 100,
+                considerations: [
+                    {
+                        input: CoreAI_UtilityInputs.distance(),
+                        min: 0,
+                        max: 100,
+                        curve: CoreAI_Curves.inverse(),
+                    },
+                ],
+            },
+        })
+
+        brain.memory.set(
+            'roamPos',
+            CoreAI_headlessVec(0, 0, 25) as unknown as mod.Vector
+        )
+        await runner.run(2)
+
+        assertClose(scoreOf(brain, 'roamPos'), 75, '25m of 100m')
+    }
+)
+
+CoreAI_headlessTest('Utility: function scores run every tick', async () => {
+    let battle = 10
+    const { runner, brain } = utilityScene({
+        isInBattle: () => battle,
+        roamPos: 30,
+    })
+
+    brain.memory.set('isInBattle', true)
+    brain.memory.set(
+        'roamPos',
+        CoreAI_headlessVec(0, 0, 30) as unknown as mod.Vector
+    )
+    await runner.run(2)
+    CoreAI_assertEqual(
+        brain.getDecisionTrace().getLast()?.key,
+        'roamPos',
+        'low battle score'
+    )
+
+    battle = 40
+    await runner.run(2)
+    CoreAI_assertEqual(
+        brain.getDecisionTrace().getLast()?.key,
+        'isInBattle',
+        'raised battle score'
+    )
+    assertClose(scoreOf(brain, 'isInBattle'), 40, 'battle score')
+})